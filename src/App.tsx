@@ -1,100 +1,123 @@
 // App.tsx
-import React from 'react';
+import React, { useEffect } from 'react';
 import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom';
 import { AuthProvider } from './context/AuthContext';
+import { ClinicTimeZoneProvider } from './context/ClinicTimeZoneContext';
 import { PatientProvider } from './context/PatientContext';
 import { ScheduleProvider } from './context/ScheduleContext';
 import { PrescriptionProvider } from './context/PrescriptionContext';
 import { ChartProvider } from './context/ChartContext';
 import { ToastProvider } from './context/ToastContext';
 import BookingPage from './pages/Registrations/BookingPage';
+import ConfirmationPage from './pages/Registrations/ConfirmationPage';
+import ManageBookingPage from './pages/Registrations/ManageBookingPage';
 import Dashboard from './components/Dashboard';
 import ChartsPage from './pages/Charts/ChartsPage';
 import Login from './components/Login/forms/Login';
 import ForgotPassword from './components/Login/ForgotPassword';
+import ResetPassword from './components/Login/ResetPassword';
 import Profile from './components/Login/Profile';
 import Appointments from './components/Appointments/forms/Appointments';
 import Patients from './components/Patients/forms/Patients';
 import AppointmentScheduler from './components/Schedule/AppointmentScheduler';
+import Payments from './components/Payments/forms/Payments';
 import ProtectedRoute from './components/ProtectedRoute';
 import ToastContainer from './components/common/ToastContainer';
+import { bookingDraftService } from './services/bookingDraft.service';
 
 const App: React.FC = () => {
+  useEffect(() => {
+    bookingDraftService.purgeExpiredDraft();
+  }, []);
+
   return (
     <ToastProvider>
       <Router>
-        <AuthProvider apiBaseUrl="http://localhost:3000">
-          <PatientProvider>
-            <ScheduleProvider>
-              <PrescriptionProvider>
-                <div className="App">
-                  <Routes>
-                    {/* Public routes */}
-                    <Route path="/" element={<BookingPage />} />
-                    <Route path="/login" element={<Login />} />
-                    <Route path="/forgotpassword" element={<ForgotPassword />} />
+        <AuthProvider>
+          <ClinicTimeZoneProvider>
+            <PatientProvider>
+              <ScheduleProvider>
+                <PrescriptionProvider>
+                  <div className="App">
+                    <Routes>
+                      {/* Public routes */}
+                      <Route path="/" element={<BookingPage />} />
+                      <Route path="/booking/confirmation" element={<ConfirmationPage />} />
+                      <Route path="/manage-booking" element={<ManageBookingPage />} />
+                      <Route path="/login" element={<Login />} />
+                      <Route path="/forgotpassword" element={<ForgotPassword />} />
+                      <Route path="/reset-password/:token" element={<ResetPassword />} />
                     
-                    {/* Protected routes */}
-                    <Route 
-                      path="/dashboard" 
-                      element={
-                        <ProtectedRoute>
-                          <Dashboard />
-                        </ProtectedRoute>
-                      } 
-                    />
+                      {/* Protected routes */}
+                      <Route 
+                        path="/dashboard" 
+                        element={
+                          <ProtectedRoute requiredPermissions={['dashboard:view']}>
+                            <Dashboard />
+                          </ProtectedRoute>
+                        } 
+                      />
                     
-                    {/* Charts route - wrapped with ChartProvider */}
-                    <Route 
-                      path="/charts" 
-                      element={
-                        <ProtectedRoute>
-                          <ChartProvider>
-                            <ChartsPage />
-                          </ChartProvider>
-                        </ProtectedRoute>
-                      } 
-                    />
+                      {/* Charts route - wrapped with ChartProvider */}
+                      <Route 
+                        path="/charts" 
+                        element={
+                          <ProtectedRoute requiredPermissions={['analytics:view']}>
+                            <ChartProvider>
+                              <ChartsPage />
+                            </ChartProvider>
+                          </ProtectedRoute>
+                        } 
+                      />
                     
-                    <Route 
-                      path="/appointments" 
-                      element={
-                        <ProtectedRoute>
-                          <Appointments />
-                        </ProtectedRoute>
-                      } 
-                    />
-                    <Route 
-                      path="/patients" 
-                      element={
-                        <ProtectedRoute>
-                          <Patients />
-                        </ProtectedRoute>
-                      }
-                    />
-                    <Route
-                      path="/profile"
-                      element={
-                        <ProtectedRoute>
-                          <Profile />
-                        </ProtectedRoute>
-                      } 
-                    />
-                    <Route 
-                      path="/schedule" 
-                      element={
-                        <ProtectedRoute>
-                          <AppointmentScheduler />
-                        </ProtectedRoute>
-                      } 
-                    />
-                    <Route path="*" element={<Navigate to="/login" replace />} />
-                  </Routes>
-                  <ToastContainer />
-                </div>
-              </PrescriptionProvider>
-            </ScheduleProvider>
-          </PatientProvider>
+                      <Route 
+                        path="/appointments" 
+                        element={
+                          <ProtectedRoute requiredPermissions={['appointments:view']}>
+                            <Appointments />
+                          </ProtectedRoute>
+                        } 
+                      />
+                      <Route 
+                        path="/patients" 
+                        element={
+                          <ProtectedRoute requiredPermissions={['patients:view']}>
+                            <Patients />
+                          </ProtectedRoute>
+                        }
+                      />
+                      <Route
+                        path="/profile"
+                        element={
+                          <ProtectedRoute requiredPermissions={['profile:view']}>
+                            <Profile />
+                          </ProtectedRoute>
+                        } 
+                      />
+                      <Route 
+                        path="/schedule" 
+                        element={
+                          <ProtectedRoute requiredPermissions={['schedule:manage']}>
+                            <AppointmentScheduler />
+                          </ProtectedRoute>
+                        } 
+                      />
+                      <Route
+                        path="/payments"
+                        element={
+                          <ProtectedRoute requiredPermissions={['payments:view']}>
+                            <Payments />
+                          </ProtectedRoute>
+                        }
+                      />
+                      <Route path="*" element={<Navigate to="/login" replace />} />
+                    </Routes>
+                    <ToastContainer />
+                  </div>
+                </PrescriptionProvider>
+              </ScheduleProvider>
+            </PatientProvider>
+          </ClinicTimeZoneProvider>
         </AuthProvider>
       </Router>
     </ToastProvider>
@@ -45,6 +45,7 @@ const AppointmentTable: React.FC<AppointmentTableProps> = ({
     appointmentId: number;
     patientId: string;
     slotId: number;
+    slotTime: string;
     isAlreadyRegistered: boolean;
   } | null>(null);
 
@@ -84,8 +85,8 @@ const AppointmentTable: React.FC<AppointmentTableProps> = ({
   };
 
   // Handle reschedule
-  const handleReschedule = (appointmentId: number, patientId: string, slotId: number, isAlreadyRegistered: boolean) => {
-    setRescheduleData({ appointmentId, patientId, slotId, isAlreadyRegistered });
+  const handleReschedule = (appointmentId: number, patientId: string, slotId: number, slotTime: string, isAlreadyRegistered: boolean) => {
+    setRescheduleData({ appointmentId, patientId, slotId, slotTime, isAlreadyRegistered });
     setShowRescheduleModal(true);
   };
 
@@ -303,7 +304,7 @@ const AppointmentTable: React.FC<AppointmentTableProps> = ({
                       <button
                         onClick={() => {
                           if (appointment.patientId && appointment.bookedSlots?.[0]?.id) {
-                            handleReschedule(appointment.id, appointment.patientId.toString(), appointment.bookedSlots[0].id, appointment.isAlreadyRegistered);
+                            handleReschedule(appointment.id, appointment.patientId.toString(), appointment.bookedSlots[0].id, appointment.bookedSlots[0].slot_time, appointment.isAlreadyRegistered);
                           }
                         }}
                         disabled={!appointment.patientId || !appointment.bookedSlots?.[0]?.id}
@@ -434,6 +435,7 @@ const AppointmentTable: React.FC<AppointmentTableProps> = ({
           appointmentId={rescheduleData.appointmentId}
           patientId={rescheduleData.patientId.toString()}
           slotId={rescheduleData.slotId}
+          slotTime={rescheduleData.slotTime}
           isAlreadyRegistered={rescheduleData.isAlreadyRegistered}
           onClose={handleRescheduleClose}
           onSuccess={handleRescheduleSuccess}
@@ -1,15 +1,15 @@
 import React from 'react';
 import { formatPhoneNumber, getInitials } from '../../../utils/patientUtils';
+import { useClinicTimeZone } from '../../../context/ClinicTimeZoneContext';
+import { formatCalendarDate, formatClinicTime } from '../../../utils/dateTime';
 import { Edit, FileText, Plus } from 'lucide-react';
 import { useState } from 'react';
 import { registrationApi } from '../../../services/registrationApi';
+import { API_ORIGIN } from '../../../services/httpClient';
 import { useToast } from '../../../context/ToastContext';
 import PrescriptionView from '../../Prescription/PrescriptionView';
 import RescheduleModal from './RescheduleModal';
 
-
-const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000';
-
 interface FileAttachment {
   id: number;
   file: { url: string };
@@ -55,6 +55,7 @@ interface AppointmentViewProps {
 
 const AppointmentView: React.FC<AppointmentViewProps> = ({ appointment, onBack, refetchAppointment }) => {
   const { showToast } = useToast();
+  const clinicTimeZone = useClinicTimeZone();
   
   // Add missing state variables
   const [showPrescriptionView, setShowPrescriptionView] = useState(false);
@@ -62,49 +63,6 @@ const AppointmentView: React.FC<AppointmentViewProps> = ({ appointment, onBack,
 
 
   
-  const formatDate = (dateString: string) => {
-    try {
-      return new Date(dateString).toLocaleDateString('en-US', {
-        year: 'numeric',
-        month: 'short',
-        day: 'numeric',
-      });
-    } catch (error) {
-      console.error('Error formatting date:', error);
-      return 'Invalid Date';
-    }
-  };
-
-  const formatTime = (timeString: string) => {
-    try {
-      // Check if it's a time range (contains '-')
-      if (timeString.includes('-')) {
-        const [startTime, endTime] = timeString.split('-');
-        const formatSingleTime = (time: string) => {
-          const [hours, minutes] = time.split(':');
-          const hour = parseInt(hours);
-          const ampm = hour >= 12 ? 'PM' : 'AM';
-          const displayHour = hour % 12 || 12;
-          return `${displayHour.toString().padStart(2, '0')}:${minutes} ${ampm}`;
-        };
-        
-        const formattedStart = formatSingleTime(startTime);
-        const formattedEnd = formatSingleTime(endTime);
-        return `${formattedStart} - ${formattedEnd}`;
-      } else {
-        // Handle single time
-        const [hours, minutes] = timeString.split(':');
-        const hour = parseInt(hours);
-        const ampm = hour >= 12 ? 'PM' : 'AM';
-        const displayHour = hour % 12 || 12;
-        return `${displayHour.toString().padStart(2, '0')}:${minutes} ${ampm}`;
-      }
-    } catch (error) {
-      console.error('Error formatting time:', error);
-      return timeString;
-    }
-  };
-
   const getStatusColor = (status: string) => {
     switch (status?.toLowerCase()) {
       case 'completed':
@@ -263,7 +221,7 @@ const AppointmentView: React.FC<AppointmentViewProps> = ({ appointment, onBack,
                 <div className="flex-1 min-w-0">
                   <p className="text-sm font-medium text-gray-900">Appointment Date & Time</p>
                   <p className="text-sm text-gray-500">
-                    {bookedSlot?.slot_date ? formatDate(bookedSlot.slot_date) : 'N/A'} at {bookedSlot?.slot_time ? formatTime(bookedSlot.slot_time) : 'N/A'}
+                    {bookedSlot?.slot_date ? formatCalendarDate(bookedSlot.slot_date) : 'N/A'} at {bookedSlot?.slot_time ? formatClinicTime(bookedSlot.slot_time, clinicTimeZone) : 'N/A'}
                   </p>
                 </div>
                 {/* Edit Icon */}
@@ -354,12 +312,12 @@ const AppointmentView: React.FC<AppointmentViewProps> = ({ appointment, onBack,
                     </div>
                     <div className="flex-1 min-w-0">
                       <p className="text-sm font-medium text-gray-900 truncate">Pathology Report</p>
-                      <p className="text-xs text-gray-500">Uploaded on {formatDate(file.created_at)}</p>
+                      <p className="text-xs text-gray-500">Uploaded on {formatCalendarDate(file.created_at)}</p>
                     </div>
                     {file.file?.url ? (
                       <button 
                         onClick={() => {
-                          const url = `${API_BASE_URL}${file.file.url}`;
+                          const url = `${API_ORIGIN}${file.file.url}`;
                           window.open(url, '_blank');
                         }}
                         className="text-blue-600 hover:text-blue-800 text-sm cursor-pointer"
@@ -384,12 +342,12 @@ const AppointmentView: React.FC<AppointmentViewProps> = ({ appointment, onBack,
                     </div>
                     <div className="flex-1 min-w-0">
                       <p className="text-sm font-medium text-gray-900 truncate">Imageology Report</p>
-                      <p className="text-xs text-gray-500">Uploaded on {formatDate(file.created_at)}</p>
+                      <p className="text-xs text-gray-500">Uploaded on {formatCalendarDate(file.created_at)}</p>
                     </div>
                     {file.file?.url ? (
                       <button 
                         onClick={() => {
-                          const url = `${API_BASE_URL}${file.file.url}`;
+                          const url = `${API_ORIGIN}${file.file.url}`;
                           window.open(url, '_blank');
                         }}
                         className="text-blue-600 hover:text-blue-800 text-sm cursor-pointer"
@@ -414,12 +372,12 @@ const AppointmentView: React.FC<AppointmentViewProps> = ({ appointment, onBack,
                     </div>
                     <div className="flex-1 min-w-0">
                       <p className="text-sm font-medium text-gray-900 truncate">Additional Document</p>
-                      <p className="text-xs text-gray-500">Uploaded on {formatDate(file.created_at)}</p>
+                      <p className="text-xs text-gray-500">Uploaded on {formatCalendarDate(file.created_at)}</p>
                     </div>
                     {file.file?.url ? (
                       <button 
                         onClick={() => {
-                          const url = `${API_BASE_URL}${file.file.url}`;
+                          const url = `${API_ORIGIN}${file.file.url}`;
                           window.open(url, '_blank');
                         }}
                         className="text-blue-600 hover:text-blue-800 text-sm cursor-pointer"
@@ -479,6 +437,7 @@ const AppointmentView: React.FC<AppointmentViewProps> = ({ appointment, onBack,
           appointmentId={appointment.id}
           patientId={appointment.patient_id.toString()}
           slotId={appointment.booked_slots[0].id}
+          slotTime={appointment.booked_slots[0].slot_time}
           onClose={() => setShowRescheduleModal(false)}
           onSuccess={handleRescheduleSuccess}
           isAlreadyRegistered = {appointment?.is_already_registered}
@@ -4,12 +4,19 @@ import { useQueryClient } from '@tanstack/react-query';
 import { registrationApi } from '../../../services/registrationApi';
 import { updateBookedSlot } from '../../../services/adminAppointmentApi';
 import { useToast } from '../../../context/ToastContext';
+import { useConsultationTypes } from '../../../hooks/useConsultationTypes';
+import { useClinicTimeZone } from '../../../context/ClinicTimeZoneContext';
+import { formatClinicTime, getClinicToday } from '../../../utils/dateTime';
+import { parseAvailableSlots } from '../../../utils/slotUtils';
+import { getDefaultConsultationKey, getSlotMinutes } from '../../../utils/consultationTypes';
+import type { ConsultationType } from '../../../types/adminSettings.types';
 
 interface RescheduleModalProps {
   appointmentId: number;
   patientId: string;
   slotId: number;
   isAlreadyRegistered: boolean;
+  slotTime?: string; // Current booking, HH:MM-HH:MM clinic time
   onClose: () => void;
   onSuccess?: () => void;
 }
@@ -19,9 +26,12 @@ const RescheduleModal: React.FC<RescheduleModalProps> = ({
   patientId,
   slotId,
   isAlreadyRegistered,
+  slotTime,
   onClose,
   onSuccess 
 }) => {
+  const { consultationTypes } = useConsultationTypes();
+  const [consultationKey, setConsultationKey] = useState<string | null>(null);
   const [selectedDate, setSelectedDate] = useState('');
   const [selectedSlot, setSelectedSlot] = useState<number | null>(null);
   const [availableSlots, setAvailableSlots] = useState<any[]>([]);
@@ -30,44 +40,47 @@ const RescheduleModal: React.FC<RescheduleModalProps> = ({
   const [submitting, setSubmitting] = useState(false);
   const [submitError, setSubmitError] = useState<string | null>(null);
   const { showToast } = useToast();
+  const clinicTimeZone = useClinicTimeZone();
   const queryClient = useQueryClient();
 
+  // Until one is picked, the booking keeps the type that matches its current length
+  const bookedMinutes = slotTime?.includes('-') ? getSlotMinutes(slotTime) : undefined;
+  const consultationType = consultationTypes.find(type => type.key === consultationKey)
+    || consultationTypes.find(type => type.duration_minutes === bookedMinutes)
+    || consultationTypes.find(type => type.key === getDefaultConsultationKey(isAlreadyRegistered));
+
   // Handle date change
   const handleDateChange = (date: string) => {
     setSelectedDate(date);
     setSelectedSlot(null);
     if (date) {
-      fetchAvailableSlots(date);
+      fetchAvailableSlots(date, consultationType);
     } else {
       setAvailableSlots([]);
     }
   };
 
+  // Slots are cut to the new type's length, so the list is fetched again
+  const handleConsultationTypeChange = (key: string) => {
+    setConsultationKey(key);
+    setSelectedSlot(null);
+    if (selectedDate) {
+      fetchAvailableSlots(selectedDate, consultationTypes.find(type => type.key === key));
+    }
+  };
+
   // Fetch available slots for the selected date
-  const fetchAvailableSlots = async (date: string) => {
+  const fetchAvailableSlots = async (date: string, type?: ConsultationType) => {
     setLoadingSlots(true);
     setSlotsError(null);
     try {
       const apiResponse = await registrationApi.getAvailableSchedule(
         patientId,
         date,
-        isAlreadyRegistered
+        isAlreadyRegistered,
+        { consultationType: type?.key, durationMinutes: type?.duration_minutes }
       );
-      let slots: { id: string; time: string; available: boolean; scheduleId?: string }[] = [];
-      if (
-        apiResponse &&
-        typeof apiResponse === 'object' &&
-        'available_slots' in apiResponse &&
-        Array.isArray(apiResponse.available_slots)
-      ) {
-        const scheduleId = 'id' in apiResponse ? apiResponse.id : undefined;
-        slots = apiResponse.available_slots.map((slot: { start: string; end: string }) => ({
-          id: `${slot.start}-${slot.end}`,
-          time: `${slot.start}-${slot.end}`,
-          available: true,
-          scheduleId: scheduleId ? String(scheduleId) : undefined,
-        }));
-      }
+      const slots = parseAvailableSlots(apiResponse, type?.duration_minutes);
       setAvailableSlots(slots);
     } catch (error: any) {
       setSlotsError('Failed to load available slots.');
@@ -89,7 +102,7 @@ const RescheduleModal: React.FC<RescheduleModalProps> = ({
       const slotTime = selectedSlotObj ? selectedSlotObj.time : '';
 
       // Use the updateBookedSlot function like in the original code
-      const response = await updateBookedSlot(slotId, selectedDate, slotTime);
+      const response = await updateBookedSlot(slotId, selectedDate, slotTime, consultationType?.key);
       
       if (response && 'errors' in response && response.errors) {
         if (Array.isArray(response.errors)) {
@@ -152,6 +165,26 @@ const RescheduleModal: React.FC<RescheduleModalProps> = ({
           )}
 
           <div className="space-y-6">
+            {/* Consultation Type */}
+            {consultationTypes.length > 0 && (
+              <div>
+                <label className="block text-sm font-medium text-[#333333] mb-2">
+                  Consultation Type
+                </label>
+                <select
+                  value={consultationType?.key || ''}
+                  onChange={(e) => handleConsultationTypeChange(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#4A90E2] focus:border-transparent text-sm"
+                >
+                  {consultationTypes.map(type => (
+                    <option key={type.key} value={type.key}>
+                      {type.name} ({type.duration_minutes} min)
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
             {/* Date Picker */}
             <div>
               <label className="block text-sm font-medium text-[#333333] mb-2">
@@ -163,7 +196,7 @@ const RescheduleModal: React.FC<RescheduleModalProps> = ({
                   value={selectedDate}
                   onChange={(e) => handleDateChange(e.target.value)}
                   className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#4A90E2] focus:border-transparent text-sm"
-                  min={new Date().toISOString().split('T')[0]}
+                  min={getClinicToday(clinicTimeZone)}
                 />
               </div>
             </div>
@@ -205,7 +238,7 @@ const RescheduleModal: React.FC<RescheduleModalProps> = ({
                               className="sr-only"
                             />
                             <span className="text-sm font-medium">
-                              {slot.time}
+                              {formatClinicTime(slot.time)}
                             </span>
                             {selectedSlot === slot.id && (
                               <div className="absolute top-1 right-1">
@@ -1,5 +1,7 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { MoreHorizontal, Edit } from 'lucide-react';
+import { useCan } from '../../../hooks/useCan';
+import type { Permission } from '../../../types/auth.types';
 
 interface ActionMenuProps {
   appointmentId: number;
@@ -22,6 +24,7 @@ const ActionMenu: React.FC<ActionMenuProps> = ({
 }) => {
   const [isOpen, setIsOpen] = useState(false);
   const menuRef = useRef<HTMLDivElement>(null);
+  const can = useCan();
 
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -58,7 +61,7 @@ const ActionMenu: React.FC<ActionMenuProps> = ({
     setIsOpen(false);
   };
 
-  const menuItems = [
+  const menuItems: { label: string; icon: React.ReactNode; action: string; permission: Permission }[] = [
     {
       label: 'Start Meeting',
       icon: (
@@ -67,6 +70,7 @@ const ActionMenu: React.FC<ActionMenuProps> = ({
         </svg>
       ),
       action: 'start',
+      permission: 'consultations:start',
     },
     {
       label: 'Reschedule',
@@ -76,11 +80,13 @@ const ActionMenu: React.FC<ActionMenuProps> = ({
         </svg>
       ),
       action: 'reschedule',
+      permission: 'appointments:reschedule',
     },
     {
       label: 'Edit Prescription',
       icon: <Edit size={14} className="text-gray-600" />,
       action: 'edit',
+      permission: 'prescriptions:edit',
     },
 
   ];
@@ -97,18 +103,24 @@ const ActionMenu: React.FC<ActionMenuProps> = ({
       {isOpen && (
         <div className="absolute right-0 top-full mt-1 w-40 bg-white rounded-lg shadow-lg border border-gray-200 z-50 overflow-hidden">
           <div className="py-1">
-            {menuItems.map((item, index) => (
-              <button
-                key={item.action}
-                onClick={() => handleAction(item.action)}
-                className="w-full px-3 py-2 flex items-center gap-2.5 text-left transition-colors duration-150 hover:bg-gray-50 text-gray-700 text-sm"
-              >
-                <div className="flex items-center justify-center">
-                  {item.icon}
-                </div>
-                <span className="font-medium">{item.label}</span>
-              </button>
-            ))}
+            {menuItems.map((item, index) => {
+              // Shown but disabled so staff can see the action exists for other roles
+              const allowed = can(item.permission);
+              return (
+                <button
+                  key={item.action}
+                  onClick={() => handleAction(item.action)}
+                  disabled={!allowed}
+                  title={allowed ? undefined : 'You do not have permission for this action'}
+                  className="w-full px-3 py-2 flex items-center gap-2.5 text-left transition-colors duration-150 hover:bg-gray-50 text-gray-700 text-sm disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:bg-white"
+                >
+                  <div className="flex items-center justify-center">
+                    {item.icon}
+                  </div>
+                  <span className="font-medium">{item.label}</span>
+                </button>
+              );
+            })}
           </div>
         </div>
       )}
@@ -3,6 +3,9 @@ import { registrationApi } from '../../../services/registrationApi';
 import { updateBookedSlot } from '../../../services/adminAppointmentApi';
 import { useToast } from '../../../context/ToastContext';
 import ConfirmationDialog from '../../common/ConfirmationDialog';
+import { useClinicTimeZone } from '../../../context/ClinicTimeZoneContext';
+import { formatCalendarDate, formatClinicTime, getClinicToday } from '../../../utils/dateTime';
+import { parseAvailableSlots } from '../../../utils/slotUtils';
 
 interface ReschedulePageProps {
   appointment: {
@@ -31,6 +34,7 @@ const ReschedulePage: React.FC<ReschedulePageProps> = ({
   onSuccess 
 }) => {
   const { showToast } = useToast();
+  const clinicTimeZone = useClinicTimeZone();
   
   const [selectedDate, setSelectedDate] = useState('');
   const [selectedSlot, setSelectedSlot] = useState('');
@@ -46,49 +50,6 @@ const ReschedulePage: React.FC<ReschedulePageProps> = ({
   const [submitError, setSubmitError] = useState<string | null>(null);
   const [showConfirmDialog, setShowConfirmDialog] = useState(false);
 
-  const formatDate = (dateString: string) => {
-    try {
-      return new Date(dateString).toLocaleDateString('en-US', {
-        year: 'numeric',
-        month: 'short',
-        day: 'numeric',
-      });
-    } catch (error) {
-      console.error('Error formatting date:', error);
-      return 'Invalid Date';
-    }
-  };
-
-  const formatTime = (timeString: string) => {
-    try {
-      // Check if it's a time range (contains '-')
-      if (timeString.includes('-')) {
-        const [startTime, endTime] = timeString.split('-');
-        const formatSingleTime = (time: string) => {
-          const [hours, minutes] = time.split(':');
-          const hour = parseInt(hours);
-          const ampm = hour >= 12 ? 'PM' : 'AM';
-          const displayHour = hour % 12 || 12;
-          return `${displayHour.toString().padStart(2, '0')}:${minutes} ${ampm}`;
-        };
-        
-        const formattedStart = formatSingleTime(startTime);
-        const formattedEnd = formatSingleTime(endTime);
-        return `${formattedStart} - ${formattedEnd}`;
-      } else {
-        // Handle single time
-        const [hours, minutes] = timeString.split(':');
-        const hour = parseInt(hours);
-        const ampm = hour >= 12 ? 'PM' : 'AM';
-        const displayHour = hour % 12 || 12;
-        return `${displayHour.toString().padStart(2, '0')}:${minutes} ${ampm}`;
-      }
-    } catch (error) {
-      console.error('Error formatting time:', error);
-      return timeString;
-    }
-  };
-
   // Fetch slots when date changes
   const handleDateChange = async (date: string) => {
     setSelectedDate(date);
@@ -106,22 +67,7 @@ const ReschedulePage: React.FC<ReschedulePageProps> = ({
         true // isAlreadyRegistered, adjust if needed
       );
       
-      let slots: { id: string; time: string; available: boolean; scheduleId?: string }[] = [];
-      
-      if (
-        apiResponse &&
-        typeof apiResponse === 'object' &&
-        'available_slots' in apiResponse &&
-        Array.isArray(apiResponse.available_slots)
-      ) {
-        const scheduleId = 'id' in apiResponse ? apiResponse.id : undefined;
-        slots = apiResponse.available_slots.map((slot: { start: string; end: string }) => ({
-          id: `${slot.start}-${slot.end}`,
-          time: `${slot.start}-${slot.end}`,
-          available: true,
-          scheduleId: scheduleId ? String(scheduleId) : undefined,
-        }));
-      }
+      const slots = parseAvailableSlots(apiResponse);
       
       setAvailableSlots(slots);
     } catch {
@@ -231,7 +177,7 @@ const ReschedulePage: React.FC<ReschedulePageProps> = ({
                   {patient?.first_name} {patient?.last_name}
                 </h2>
                 <p className="text-sm text-gray-600">
-                  Current appointment: {bookedSlot?.slot_date ? formatDate(bookedSlot.slot_date) : 'N/A'} at {bookedSlot?.slot_time ? formatTime(bookedSlot.slot_time) : 'N/A'}
+                  Current appointment: {bookedSlot?.slot_date ? formatCalendarDate(bookedSlot.slot_date) : 'N/A'} at {bookedSlot?.slot_time ? formatClinicTime(bookedSlot.slot_time, clinicTimeZone) : 'N/A'}
                 </p>
               </div>
             </div>
@@ -256,7 +202,7 @@ const ReschedulePage: React.FC<ReschedulePageProps> = ({
                   id="appointmentDate"
                   value={selectedDate}
                   onChange={e => handleDateChange(e.target.value)}
-                  min={new Date().toISOString().split('T')[0]}
+                  min={getClinicToday(clinicTimeZone)}
                   className="w-full pl-3 pr-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                 />
               </div>
@@ -311,7 +257,7 @@ const ReschedulePage: React.FC<ReschedulePageProps> = ({
                           className="sr-only"
                         />
                         <span className="text-sm font-medium">
-                          {formatTime(slot.time)}
+                          {formatClinicTime(slot.time)}
                         </span>
                       </label>
                     ))}
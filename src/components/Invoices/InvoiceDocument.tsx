@@ -0,0 +1,97 @@
+// components/Invoices/InvoiceDocument.tsx
+import React from 'react';
+import { formatInvoiceAmount, getInvoiceTitle } from '../../utils/invoiceUtils';
+import { formatCalendarDate, formatClinicTime } from '../../utils/dateTime';
+import type { Invoice } from '../../types/invoice.types';
+
+interface InvoiceDocumentProps {
+  invoice: Invoice;
+}
+
+const STATUS_LABELS: Record<Invoice['status'], string> = {
+  paid: 'Paid',
+  due: 'Payment due',
+  refunded: 'Refunded',
+};
+
+// Printable receipt; mirrors the layout of the generated PDF
+const InvoiceDocument: React.FC<InvoiceDocumentProps> = ({ invoice }) => {
+  const { clinic, billedTo, appointment, payment } = invoice;
+
+  return (
+    <article className="bg-white text-gray-900 p-8 text-sm">
+      <header className="flex justify-between gap-6 pb-6 border-b border-gray-200">
+        <div>
+          <h2 className="text-2xl font-bold">{clinic.name}</h2>
+          {clinic.address && <p className="mt-1 whitespace-pre-line text-gray-600">{clinic.address}</p>}
+          {clinic.phone && <p className="text-gray-600">Phone: {clinic.phone}</p>}
+          {clinic.email && <p className="text-gray-600">Email: {clinic.email}</p>}
+          {clinic.tax_id && <p className="text-gray-600">Tax ID: {clinic.tax_id}</p>}
+        </div>
+        <div className="text-right">
+          <p className="text-xl font-bold uppercase tracking-wide">{getInvoiceTitle(invoice)}</p>
+          <p className="mt-1 text-gray-600">No. {invoice.invoiceNumber}</p>
+          <p className="text-gray-600">Date: {new Date(invoice.issuedAt).toLocaleDateString()}</p>
+          <p className={`font-medium ${invoice.status === 'paid' ? 'text-green-700' : 'text-gray-700'}`}>
+            {STATUS_LABELS[invoice.status]}
+          </p>
+        </div>
+      </header>
+
+      <section className="grid grid-cols-2 gap-6 py-6">
+        <div>
+          <h3 className="font-semibold mb-1">Billed to</h3>
+          <p>{billedTo.name}</p>
+          {billedTo.email && <p className="text-gray-600">{billedTo.email}</p>}
+          {billedTo.phone && <p className="text-gray-600">{billedTo.phone}</p>}
+          {billedTo.address && <p className="text-gray-600 whitespace-pre-line">{billedTo.address}</p>}
+        </div>
+        <div>
+          <h3 className="font-semibold mb-1">Appointment</h3>
+          <p>Date: {formatCalendarDate(appointment.date)}</p>
+          <p>Time: {formatClinicTime(appointment.time, appointment.timeZone)}</p>
+          {appointment.durationMinutes && <p>Duration: {appointment.durationMinutes} minutes</p>}
+        </div>
+      </section>
+
+      <table className="w-full">
+        <thead>
+          <tr className="border-b border-gray-200 text-left">
+            <th className="py-2 font-semibold">Description</th>
+            <th className="py-2 font-semibold text-right w-16">Qty</th>
+            <th className="py-2 font-semibold text-right w-40">Amount</th>
+          </tr>
+        </thead>
+        <tbody>
+          {invoice.items.map((item, index) => (
+            <tr key={index} className="border-b border-gray-100">
+              <td className="py-2">{item.description}</td>
+              <td className="py-2 text-right">{item.quantity}</td>
+              <td className="py-2 text-right">{formatInvoiceAmount(item.amount, invoice.currency)}</td>
+            </tr>
+          ))}
+        </tbody>
+        <tfoot>
+          <tr>
+            <td colSpan={2} className="pt-4 text-right font-semibold">Total</td>
+            <td className="pt-4 text-right text-base font-bold">{formatInvoiceAmount(invoice.total, invoice.currency)}</td>
+          </tr>
+        </tfoot>
+      </table>
+
+      <section className="mt-8 text-gray-600">
+        <h3 className="font-semibold text-gray-900 mb-1">Payment</h3>
+        <p>Method: {payment.gateway === 'clinic' ? 'Pay at clinic' : 'Online'}</p>
+        {payment.paymentId && <p>Payment ID: {payment.paymentId}</p>}
+        <p>Order ID: {payment.orderId}</p>
+        {invoice.notes && <p className="mt-3">{invoice.notes}</p>}
+      </section>
+
+      <footer className="mt-10 text-xs text-gray-400">
+        This is a computer-generated document and does not require a signature.
+      </footer>
+    </article>
+  );
+};
+
+export default InvoiceDocument;
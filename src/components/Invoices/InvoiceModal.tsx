@@ -0,0 +1,66 @@
+// components/Invoices/InvoiceModal.tsx
+import React from 'react';
+import { Download, Printer, X } from 'lucide-react';
+import InvoiceDocument from './InvoiceDocument';
+import { buildInvoicePdf } from '../../utils/invoicePdf';
+import { getInvoiceFileName } from '../../utils/invoiceUtils';
+import { downloadBlob } from '../../utils/download';
+import type { Invoice } from '../../types/invoice.types';
+
+interface InvoiceModalProps {
+  invoice: Invoice;
+  onClose: () => void;
+  closeLabel?: string;
+}
+
+const InvoiceModal: React.FC<InvoiceModalProps> = ({ invoice, onClose, closeLabel = 'Close' }) => {
+  const handleDownload = () => {
+    downloadBlob(getInvoiceFileName(invoice), buildInvoicePdf(invoice));
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-opacity-50 backdrop-brightness-50 print:hidden" onClick={onClose} />
+
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label={`Invoice ${invoice.invoiceNumber}`}
+        className="relative bg-white rounded-lg shadow-xl w-full max-w-3xl max-h-full flex flex-col overflow-hidden"
+      >
+        <div className="flex items-center justify-between px-6 py-3 border-b border-gray-200 print:hidden">
+          <div className="flex gap-2">
+            <button
+              onClick={() => window.print()}
+              className="inline-flex items-center gap-2 px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              <Printer className="w-4 h-4" />
+              Print
+            </button>
+            <button
+              onClick={handleDownload}
+              className="inline-flex items-center gap-2 px-3 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700"
+            >
+              <Download className="w-4 h-4" />
+              Download PDF
+            </button>
+          </div>
+          <button
+            onClick={onClose}
+            className="inline-flex items-center gap-1 px-3 py-2 text-sm font-medium text-gray-600 rounded-md hover:bg-gray-100"
+          >
+            <X className="w-4 h-4" />
+            {closeLabel}
+          </button>
+        </div>
+
+        <div className="print-area overflow-y-auto">
+          <InvoiceDocument invoice={invoice} />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default InvoiceModal;
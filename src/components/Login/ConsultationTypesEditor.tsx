@@ -0,0 +1,119 @@
+import React from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { MIN_CONSULTATION_MINUTES } from '../../constants/booking';
+import type { ConsultationType } from '../../types/adminSettings.types';
+
+interface ConsultationTypesEditorProps {
+  types: ConsultationType[];
+  onChange: (types: ConsultationType[]) => void;
+  internationalCurrency: string;
+  defaultDurationMinutes: number;
+}
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-[#28542F] focus:border-transparent';
+
+// Custom consultation types, e.g. a second opinion, each with its own length and prices
+const ConsultationTypesEditor: React.FC<ConsultationTypesEditorProps> = ({
+  types,
+  onChange,
+  internationalCurrency,
+  defaultDurationMinutes
+}) => {
+  const updateType = (index: number, changes: Partial<ConsultationType>) => {
+    onChange(types.map((type, i) => (i === index ? { ...type, ...changes } : type)));
+  };
+
+  const addType = () => {
+    // The key is given on save, once the type has a name
+    onChange([
+      ...types,
+      { key: '', name: '', duration_minutes: defaultDurationMinutes, price: '', international_price: '' }
+    ]);
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <div>
+          <h3 className="text-sm font-medium text-gray-700">Other Consultation Types</h3>
+          <p className="text-xs text-gray-500">Patients choose one of these or an initial or follow-up consultation when booking.</p>
+        </div>
+        <button
+          type="button"
+          onClick={addType}
+          className="flex items-center gap-1 text-sm font-medium text-[#28542F] hover:text-green-700"
+        >
+          <Plus className="w-4 h-4" />
+          Add type
+        </button>
+      </div>
+
+      {types.length === 0 ? (
+        <p className="p-3 bg-gray-50 border rounded-md text-sm text-gray-500">No other consultation types</p>
+      ) : (
+        <div className="space-y-3">
+          {types.map((type, index) => (
+            <div key={type.key || `new-${index}`} className="grid grid-cols-1 md:grid-cols-[2fr_1fr_1fr_1fr_auto] gap-3 items-end p-3 border rounded-md">
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">Name</label>
+                <input
+                  type="text"
+                  value={type.name}
+                  onChange={(e) => updateType(index, { name: e.target.value })}
+                  placeholder="e.g. Second opinion"
+                  className={inputClassName}
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">Duration (minutes)</label>
+                <input
+                  type="number"
+                  value={type.duration_minutes}
+                  onChange={(e) => updateType(index, { duration_minutes: parseInt(e.target.value) || 0 })}
+                  className={inputClassName}
+                  required
+                  min={MIN_CONSULTATION_MINUTES}
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">Domestic Price (₹)</label>
+                <input
+                  type="number"
+                  value={type.price}
+                  onChange={(e) => updateType(index, { price: e.target.value })}
+                  className={inputClassName}
+                  required
+                  min="0"
+                  step="0.01"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">International Price ({internationalCurrency})</label>
+                <input
+                  type="number"
+                  value={type.international_price}
+                  onChange={(e) => updateType(index, { international_price: e.target.value })}
+                  className={inputClassName}
+                  required
+                  min="0"
+                  step="0.01"
+                />
+              </div>
+              <button
+                type="button"
+                onClick={() => onChange(types.filter((_, i) => i !== index))}
+                aria-label={`Remove ${type.name || 'consultation type'}`}
+                className="p-2 mb-0.5 rounded-full hover:bg-red-100 transition-colors justify-self-start"
+              >
+                <Trash2 className="w-4 h-4 text-red-600" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ConsultationTypesEditor;
@@ -1,34 +1,17 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useMemo } from 'react';
 import { useAuth } from '../../context/AuthContext';
 import { useToast } from '../../context/ToastContext';
-import { useAuthenticatedRequest } from '../../hooks/useAuthenticatedRequest';
+import { useCan } from '../../hooks/useCan';
+import { useAdminSettings } from '../../hooks/useAdminSettings';
+import { authService } from '../../services/auth.service';
+import { adminSettingsService } from '../../services/adminSettings.service';
+import { currencyService } from '../../services/currencyService';
+import { BASE_CURRENCY, DEFAULT_INTERNATIONAL_CURRENCY } from '../../constants/currency';
+import { isBuiltInConsultationType, toConsultationKey, validateConsultationTypes } from '../../utils/consultationTypes';
+import type { AdminSettings, ConsultationService, ConsultationType } from '../../types/adminSettings.types';
 import Header from '../layouts/Header';
-
-interface AdminUser {
-  id: number;
-  first_name: string;
-  last_name: string;
-  email_address: string;
-  phone_number: string;
-  created_at: string;
-  updated_at: string;
-}
-
-interface ConsultationService {
-  id: number;
-  service_name: string;
-  initial_consultation_price: string;
-  follow_up_consultation_price: string;
-  initial_slot_duration_minutes: number;
-  follow_up_slot_duration_minutes: number;
-  created_at: string;
-  updated_at: string;
-}
-
-interface AdminSettings {
-  admin_user: AdminUser;
-  consultation_service: ConsultationService;
-}
+import TwoFactorSettings from './TwoFactorSettings';
+import ConsultationTypesEditor from './ConsultationTypesEditor';
 
 interface PasswordChangeForm {
   currentPassword: string;
@@ -47,15 +30,41 @@ interface ConsultationSettingsForm {
   follow_up_consultation_price: string;
   initial_slot_duration_minutes: number;
   follow_up_slot_duration_minutes: number;
+  international_currency: string;
+  international_initial_consultation_price: string;
+  international_follow_up_consultation_price: string;
+  consultation_types: ConsultationType[];
 }
 
+const toConsultationForm = (service: ConsultationService): ConsultationSettingsForm => ({
+  initial_consultation_price: service.initial_consultation_price,
+  follow_up_consultation_price: service.follow_up_consultation_price,
+  initial_slot_duration_minutes: service.initial_slot_duration_minutes,
+  follow_up_slot_duration_minutes: service.follow_up_slot_duration_minutes,
+  international_currency: service.international_currency || DEFAULT_INTERNATIONAL_CURRENCY,
+  international_initial_consultation_price: service.international_initial_consultation_price || '',
+  international_follow_up_consultation_price: service.international_follow_up_consultation_price || '',
+  consultation_types: (service.consultation_types || []).filter(type => !isBuiltInConsultationType(type.key))
+});
+
+// New types get a key from their name; existing ones keep theirs so past bookings still match
+const withConsultationKeys = (types: ConsultationType[]): ConsultationType[] => {
+  const takenKeys = types.map(type => type.key).filter(Boolean);
+  return types.map(type => {
+    if (type.key) return { ...type, name: type.name.trim() };
+    const key = toConsultationKey(type.name, takenKeys);
+    takenKeys.push(key);
+    return { ...type, key, name: type.name.trim() };
+  });
+};
+
 const Profile: React.FC = () => {
   const { user } = useAuth();
   const { showToast } = useToast();
-  const { makeRequest } = useAuthenticatedRequest();
+  const can = useCan();
+  const canManageSettings = can('settings:manage');
   
-  const [adminSettings, setAdminSettings] = useState<AdminSettings | null>(null);
-  const [isLoadingSettings, setIsLoadingSettings] = useState(true);
+  const { settings: adminSettings, isLoading: isLoadingSettings, error: settingsError, setSettings: setAdminSettings } = useAdminSettings();
   const [isChangingPassword, setIsChangingPassword] = useState(false);
   const [isEditingProfile, setIsEditingProfile] = useState(false);
   const [isEditingConsultation, setIsEditingConsultation] = useState(false);
@@ -77,46 +86,44 @@ const Profile: React.FC = () => {
     initial_consultation_price: '',
     follow_up_consultation_price: '',
     initial_slot_duration_minutes: 20,
-    follow_up_slot_duration_minutes: 10
+    follow_up_slot_duration_minutes: 10,
+    international_currency: DEFAULT_INTERNATIONAL_CURRENCY,
+    international_initial_consultation_price: '',
+    international_follow_up_consultation_price: '',
+    consultation_types: []
   });
 
-  // Fetch admin settings on component mount
-  useEffect(() => {
-    fetchAdminSettings();
-  }, []);
+  // Anything but the domestic currency can price the international tier
+  const internationalCurrencies = useMemo(
+    () => currencyService.getSupportedCurrencies().filter(currency => currency.code !== BASE_CURRENCY),
+    []
+  );
 
-  const fetchAdminSettings = async () => {
-    try {
-      setIsLoadingSettings(true);
-      const response = await makeRequest('/api/v1/admin/admin_settings');
-      
-      if (response.ok) {
-        const data: AdminSettings = await response.json();
-        setAdminSettings(data);
-        
-        // Initialize forms with current data
-        setProfileForm({
-          first_name: data.admin_user.first_name,
-          last_name: data.admin_user.last_name,
-          phone_number: data.admin_user.phone_number
-        });
-        
-        setConsultationForm({
-          initial_consultation_price: data.consultation_service.initial_consultation_price,
-          follow_up_consultation_price: data.consultation_service.follow_up_consultation_price,
-          initial_slot_duration_minutes: data.consultation_service.initial_slot_duration_minutes,
-          follow_up_slot_duration_minutes: data.consultation_service.follow_up_slot_duration_minutes
-        });
-      } else {
-        showToast('Failed to load admin settings', 'error');
-      }
-    } catch (error) {
-      console.error('Error fetching admin settings:', error);
+  // Forms not being edited follow the saved settings whenever they are (re)loaded
+  const [loadedSettings, setLoadedSettings] = useState<AdminSettings | null>(null);
+  if (adminSettings && adminSettings !== loadedSettings) {
+    setLoadedSettings(adminSettings);
+    if (!isEditingProfile) {
+      setProfileForm({
+        first_name: adminSettings.admin_user.first_name,
+        last_name: adminSettings.admin_user.last_name,
+        phone_number: adminSettings.admin_user.phone_number
+      });
+    }
+    if (!isEditingConsultation) {
+      setConsultationForm(toConsultationForm(adminSettings.consultation_service));
+    }
+  }
+
+  // A failed load is reported once, not on every render
+  const [reportedError, setReportedError] = useState<Error | null>(null);
+  if (settingsError !== reportedError) {
+    setReportedError(settingsError);
+    if (settingsError) {
+      console.error('Error fetching admin settings:', settingsError);
       showToast('Failed to load admin settings', 'error');
-    } finally {
-      setIsLoadingSettings(false);
     }
-  };
+  }
 
   const handlePasswordChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
@@ -134,7 +141,7 @@ const Profile: React.FC = () => {
     }));
   };
 
-  const handleConsultationChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleConsultationChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
     setConsultationForm(prev => ({
       ...prev,
@@ -157,28 +164,17 @@ const Profile: React.FC = () => {
 
     setIsSubmitting(true);
     try {
-      const response = await makeRequest('/api/v1/auth/change_password', {
-        method: 'PATCH',
-        body: JSON.stringify({
-          current_password: passwordForm.currentPassword,
-          new_password: passwordForm.newPassword
-        })
-      });
+      await authService.changePassword(passwordForm.currentPassword, passwordForm.newPassword);
 
-      if (response.ok) {
-        showToast('Password changed successfully', 'success');
-        setPasswordForm({
-          currentPassword: '',
-          newPassword: '',
-          confirmPassword: ''
-        });
-        setIsChangingPassword(false);
-      } else {
-        const data = await response.json();
-        showToast(data.error || 'Failed to change password', 'error');
-      }
+      showToast('Password changed successfully', 'success');
+      setPasswordForm({
+        currentPassword: '',
+        newPassword: '',
+        confirmPassword: ''
+      });
+      setIsChangingPassword(false);
     } catch (error) {
-      showToast('Failed to change password', 'error');
+      showToast(error instanceof Error ? error.message : 'Failed to change password', 'error');
     } finally {
       setIsSubmitting(false);
     }
@@ -189,26 +185,17 @@ const Profile: React.FC = () => {
     setIsSubmitting(true);
     
     try {
-      const response = await makeRequest('/api/v1/admin/admin_settings', {
-        method: 'PATCH',
-        body: JSON.stringify({
-          first_name: profileForm.first_name,
-          last_name: profileForm.last_name,
-          phone_number: profileForm.phone_number
-        })
+      const data = await adminSettingsService.updateSettings({
+        first_name: profileForm.first_name,
+        last_name: profileForm.last_name,
+        phone_number: profileForm.phone_number
       });
 
-      if (response.ok) {
-        const data = await response.json();
-        setAdminSettings(data);
-        showToast('Profile updated successfully', 'success');
-        setIsEditingProfile(false);
-      } else {
-        const data = await response.json();
-        showToast(data.error || 'Failed to update profile', 'error');
-      }
+      setAdminSettings(data);
+      showToast('Profile updated successfully', 'success');
+      setIsEditingProfile(false);
     } catch (error) {
-      showToast('Failed to update profile', 'error');
+      showToast(error instanceof Error ? error.message : 'Failed to update profile', 'error');
     } finally {
       setIsSubmitting(false);
     }
@@ -216,30 +203,34 @@ const Profile: React.FC = () => {
 
   const handleConsultationSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+
+    const typesError = validateConsultationTypes(consultationForm.consultation_types);
+    if (typesError) {
+      showToast(typesError, 'error');
+      return;
+    }
+
     setIsSubmitting(true);
     
     try {
-      const response = await makeRequest('/api/v1/admin/admin_settings', {
-        method: 'PATCH',
-        body: JSON.stringify({
-          initial_consultation_price: consultationForm.initial_consultation_price,
-          follow_up_consultation_price: consultationForm.follow_up_consultation_price,
-          initial_slot_duration_minutes: consultationForm.initial_slot_duration_minutes,
-          follow_up_slot_duration_minutes: consultationForm.follow_up_slot_duration_minutes
-        })
+      const data = await adminSettingsService.updateSettings({
+        initial_consultation_price: consultationForm.initial_consultation_price,
+        follow_up_consultation_price: consultationForm.follow_up_consultation_price,
+        initial_slot_duration_minutes: consultationForm.initial_slot_duration_minutes,
+        follow_up_slot_duration_minutes: consultationForm.follow_up_slot_duration_minutes,
+        international_currency: consultationForm.international_currency,
+        international_initial_consultation_price: consultationForm.international_initial_consultation_price,
+        international_follow_up_consultation_price: consultationForm.international_follow_up_consultation_price,
+        consultation_types: withConsultationKeys(consultationForm.consultation_types)
       });
 
-      if (response.ok) {
-        const data = await response.json();
-        setAdminSettings(data);
-        showToast('Consultation settings updated successfully', 'success');
-        setIsEditingConsultation(false);
-      } else {
-        const data = await response.json();
-        showToast(data.error || 'Failed to update consultation settings', 'error');
-      }
+      setConsultationForm(toConsultationForm(data.consultation_service));
+
+      setAdminSettings(data);
+      showToast('Consultation settings updated successfully', 'success');
+      setIsEditingConsultation(false);
     } catch (error) {
-      showToast('Failed to update consultation settings', 'error');
+      showToast(error instanceof Error ? error.message : 'Failed to update consultation settings', 'error');
     } finally {
       setIsSubmitting(false);
     }
@@ -253,10 +244,13 @@ const Profile: React.FC = () => {
     });
   };
 
-  const formatCurrency = (amount: string) => {
-    return `₹${parseFloat(amount).toLocaleString('en-IN')}`;
+  const formatCurrency = (amount: string, currency: string = BASE_CURRENCY) => {
+    return amount ? currencyService.format(parseFloat(amount), currency, 'en-IN') : 'Not set';
   };
 
+  const otherConsultationTypes = (adminSettings?.consultation_service.consultation_types || [])
+    .filter(type => !isBuiltInConsultationType(type.key));
+
   if (!user || isLoadingSettings) {
     return (
       <div className="min-h-screen bg-[#F8F9FA]">
@@ -431,7 +425,7 @@ const Profile: React.FC = () => {
             <div className="px-6 py-4 border-b border-gray-200">
               <div className="flex items-center justify-between">
                 <h2 className="text-lg font-semibold text-gray-900">Consultation Settings</h2>
-                {!isEditingConsultation && adminSettings && (
+                {!isEditingConsultation && adminSettings && canManageSettings && (
                   <button
                     onClick={() => setIsEditingConsultation(true)}
                     className="px-4 py-2 bg-[#28542F] text-white rounded-md hover:bg-green-700 transition-colors"
@@ -444,12 +438,12 @@ const Profile: React.FC = () => {
 
             {adminSettings && (
               <div className="p-6">
-                {isEditingConsultation ? (
+                {isEditingConsultation && canManageSettings ? (
                       <form onSubmit={handleConsultationSubmit} className="space-y-4">
                         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                           <div>
                             <label className="block text-sm font-medium text-gray-700 mb-2">
-                              Initial Consultation Price (₹)
+                              Domestic Initial Consultation Price (₹)
                             </label>
                             <input
                               type="number"
@@ -465,7 +459,7 @@ const Profile: React.FC = () => {
                           
                           <div>
                             <label className="block text-sm font-medium text-gray-700 mb-2">
-                              Follow-up Consultation Price (₹)
+                              Domestic Follow-up Consultation Price (₹)
                             </label>
                             <input
                               type="number"
@@ -508,7 +502,66 @@ const Profile: React.FC = () => {
                               min="5"
                             />
                           </div>
+
+                          <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-2">
+                              International Currency
+                            </label>
+                            <select
+                              name="international_currency"
+                              value={consultationForm.international_currency}
+                              onChange={handleConsultationChange}
+                              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-[#28542F] focus:border-transparent"
+                            >
+                              {internationalCurrencies.map(currency => (
+                                <option key={currency.code} value={currency.code}>
+                                  {currency.name}
+                                </option>
+                              ))}
+                            </select>
+                          </div>
+
+                          <div />
+
+                          <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-2">
+                              International Initial Consultation Price ({consultationForm.international_currency})
+                            </label>
+                            <input
+                              type="number"
+                              name="international_initial_consultation_price"
+                              value={consultationForm.international_initial_consultation_price}
+                              onChange={handleConsultationChange}
+                              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-[#28542F] focus:border-transparent"
+                              required
+                              min="0"
+                              step="0.01"
+                            />
+                          </div>
+
+                          <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-2">
+                              International Follow-up Consultation Price ({consultationForm.international_currency})
+                            </label>
+                            <input
+                              type="number"
+                              name="international_follow_up_consultation_price"
+                              value={consultationForm.international_follow_up_consultation_price}
+                              onChange={handleConsultationChange}
+                              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-[#28542F] focus:border-transparent"
+                              required
+                              min="0"
+                              step="0.01"
+                            />
+                          </div>
                         </div>
+
+                        <ConsultationTypesEditor
+                          types={consultationForm.consultation_types}
+                          onChange={(consultation_types) => setConsultationForm(prev => ({ ...prev, consultation_types }))}
+                          internationalCurrency={consultationForm.international_currency}
+                          defaultDurationMinutes={consultationForm.initial_slot_duration_minutes}
+                        />
                         
                         <div className="flex space-x-4">
                           <button
@@ -522,12 +575,7 @@ const Profile: React.FC = () => {
                             type="button"
                             onClick={() => {
                               setIsEditingConsultation(false);
-                              setConsultationForm({
-                                initial_consultation_price: adminSettings.consultation_service.initial_consultation_price,
-                                follow_up_consultation_price: adminSettings.consultation_service.follow_up_consultation_price,
-                                initial_slot_duration_minutes: adminSettings.consultation_service.initial_slot_duration_minutes,
-                                follow_up_slot_duration_minutes: adminSettings.consultation_service.follow_up_slot_duration_minutes
-                              });
+                              setConsultationForm(toConsultationForm(adminSettings.consultation_service));
                             }}
                             className="px-4 py-2 bg-gray-300 text-gray-700 rounded-md hover:bg-gray-400 transition-colors"
                           >
@@ -536,42 +584,94 @@ const Profile: React.FC = () => {
                         </div>
                       </form>
                 ) : (
-                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                    <div>
-                      <label className="block text-sm font-medium text-gray-700 mb-2">
-                        Initial Consultation Price
-                      </label>
-                      <div className="p-3 bg-gray-50 border rounded-md font-semibold text-green-600">
-                        {formatCurrency(adminSettings.consultation_service.initial_consultation_price)}
+                  <div className="space-y-6">
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">
+                          Domestic Initial Consultation Price
+                        </label>
+                        <div className="p-3 bg-gray-50 border rounded-md font-semibold text-green-600">
+                          {formatCurrency(adminSettings.consultation_service.initial_consultation_price)}
+                        </div>
                       </div>
-                    </div>
                     
-                    <div>
-                      <label className="block text-sm font-medium text-gray-700 mb-2">
-                        Follow-up Consultation Price
-                      </label>
-                      <div className="p-3 bg-gray-50 border rounded-md font-semibold text-green-600">
-                        {formatCurrency(adminSettings.consultation_service.follow_up_consultation_price)}
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">
+                          Domestic Follow-up Consultation Price
+                        </label>
+                        <div className="p-3 bg-gray-50 border rounded-md font-semibold text-green-600">
+                          {formatCurrency(adminSettings.consultation_service.follow_up_consultation_price)}
+                        </div>
+                      </div>
+
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">
+                          International Initial Consultation Price
+                        </label>
+                        <div className="p-3 bg-gray-50 border rounded-md font-semibold text-green-600">
+                          {formatCurrency(
+                            adminSettings.consultation_service.international_initial_consultation_price,
+                            adminSettings.consultation_service.international_currency || DEFAULT_INTERNATIONAL_CURRENCY
+                          )}
+                        </div>
+                      </div>
+
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">
+                          International Follow-up Consultation Price
+                        </label>
+                        <div className="p-3 bg-gray-50 border rounded-md font-semibold text-green-600">
+                          {formatCurrency(
+                            adminSettings.consultation_service.international_follow_up_consultation_price,
+                            adminSettings.consultation_service.international_currency || DEFAULT_INTERNATIONAL_CURRENCY
+                          )}
+                        </div>
                       </div>
-                    </div>
                     
-                    <div>
-                      <label className="block text-sm font-medium text-gray-700 mb-2">
-                        Initial Slot Duration
-                      </label>
-                      <div className="p-3 bg-gray-50 border rounded-md">
-                        {adminSettings.consultation_service.initial_slot_duration_minutes} minutes
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">
+                          Initial Slot Duration
+                        </label>
+                        <div className="p-3 bg-gray-50 border rounded-md">
+                          {adminSettings.consultation_service.initial_slot_duration_minutes} minutes
+                        </div>
                       </div>
-                    </div>
                     
-                    <div>
-                      <label className="block text-sm font-medium text-gray-700 mb-2">
-                        Follow-up Slot Duration
-                      </label>
-                      <div className="p-3 bg-gray-50 border rounded-md">
-                        {adminSettings.consultation_service.follow_up_slot_duration_minutes} minutes
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">
+                          Follow-up Slot Duration
+                        </label>
+                        <div className="p-3 bg-gray-50 border rounded-md">
+                          {adminSettings.consultation_service.follow_up_slot_duration_minutes} minutes
+                        </div>
                       </div>
                     </div>
+
+                    {otherConsultationTypes.length > 0 && (
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">
+                          Other Consultation Types
+                        </label>
+                        <ul className="border rounded-md divide-y">
+                          {otherConsultationTypes.map(type => (
+                            <li key={type.key} className="p-3 flex flex-wrap items-center justify-between gap-2 bg-gray-50">
+                              <span className="font-medium text-gray-900">{type.name}</span>
+                              <span className="text-sm text-gray-600">
+                                {type.duration_minutes} minutes ·{' '}
+                                <span className="font-semibold text-green-600">{formatCurrency(type.price)}</span>
+                                {' / '}
+                                <span className="font-semibold text-green-600">
+                                  {formatCurrency(
+                                    type.international_price,
+                                    adminSettings.consultation_service.international_currency || DEFAULT_INTERNATIONAL_CURRENCY
+                                  )}
+                                </span>
+                              </span>
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
                   </div>
                 )}
               </div>
@@ -669,6 +769,16 @@ const Profile: React.FC = () => {
             )}
           </div>
 
+          {/* Two-Factor Authentication */}
+          {adminSettings && (
+            <TwoFactorSettings
+              enabled={Boolean(adminSettings.admin_user.mfa_enabled)}
+              onStatusChange={(enabled) =>
+                setAdminSettings(prev => ({ ...prev, admin_user: { ...prev.admin_user, mfa_enabled: enabled } }))
+              }
+            />
+          )}
+
           {/* Account Information
           {adminSettings && (
             <div className="bg-white rounded-lg shadow-sm">
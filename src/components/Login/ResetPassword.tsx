@@ -0,0 +1,240 @@
+import React, { useState, useEffect } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { Eye, EyeOff } from 'lucide-react';
+import { useAuth } from '../../context/AuthContext';
+import { useToast } from '../../context/ToastContext';
+import { useGuestGuard } from '../../hooks/useGuestGuard';
+import { authService } from '../../services/auth.service';
+import { ApiError, isAbortError } from '../../services/httpClient';
+import { isPasswordAcceptable } from '../../utils/passwordStrength';
+import { PASSWORD_MIN_LENGTH } from '../../constants/common';
+import PasswordStrengthMeter from '../common/PasswordStrengthMeter';
+import type { ResetTokenStatus } from '../../types/auth.types';
+import MedicalLogo from '../assets/icons/MedicalLogo.svg';
+
+type TokenState = 'checking' | 'valid' | 'invalid';
+
+// 404 unknown link, 410 expired or already used
+const isDeadTokenError = (error: unknown): boolean =>
+  error instanceof ApiError && (error.status === 404 || error.status === 410);
+
+const getInvalidMessage = (reason?: ResetTokenStatus['reason']): string => {
+  switch (reason) {
+    case 'expired':
+      return 'This reset link has expired. Reset links are only valid for a limited time.';
+    case 'used':
+      return 'This reset link has already been used. Each link can only be used once.';
+    default:
+      return 'This reset link is invalid. Please check that you copied the full link from your email.';
+  }
+};
+
+const ResetPassword: React.FC = () => {
+  const { token = '' } = useParams<{ token: string }>();
+  const { resetPassword } = useAuth();
+  const { showToast } = useToast();
+  const navigate = useNavigate();
+  const { isLoading: isAuthLoading } = useGuestGuard();
+
+  const [tokenState, setTokenState] = useState<TokenState>('checking');
+  const [invalidReason, setInvalidReason] = useState<ResetTokenStatus['reason']>();
+  const [email, setEmail] = useState<string | undefined>();
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [showPassword, setShowPassword] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    const checkToken = async () => {
+      try {
+        const status = await authService.verifyResetToken(token, controller.signal);
+        setTokenState(status.valid ? 'valid' : 'invalid');
+        setInvalidReason(status.reason);
+        setEmail(status.email_address);
+      } catch (err) {
+        if (isAbortError(err)) return;
+        // Anything other than a dead token is re-checked by the API on submit
+        setTokenState(isDeadTokenError(err) ? 'invalid' : 'valid');
+      }
+    };
+
+    if (token) {
+      checkToken();
+    } else {
+      setTokenState('invalid');
+    }
+
+    return () => controller.abort();
+  }, [token]);
+
+  const passwordsMatch = password === confirmPassword;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (!isPasswordAcceptable(password)) {
+      setError('Please choose a stronger password');
+      return;
+    }
+
+    if (!passwordsMatch) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const signedIn = await resetPassword({
+        token,
+        password,
+        password_confirmation: confirmPassword
+      });
+
+      if (signedIn) {
+        showToast('Your password has been reset and you are now signed in', 'success');
+        navigate('/dashboard', { replace: true });
+      } else {
+        showToast('Your password has been reset. Please sign in with your new password', 'success');
+        navigate('/login', { replace: true });
+      }
+    } catch (err) {
+      if (isDeadTokenError(err)) {
+        setTokenState('invalid');
+        setInvalidReason('expired');
+      } else {
+        setError(err instanceof Error ? err.message : 'Failed to reset password. Please try again.');
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const isChecking = tokenState === 'checking' || isAuthLoading;
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex flex-col justify-center py-12 sm:px-6 lg:px-8">
+      <div className="sm:mx-auto sm:w-full sm:max-w-md">
+        <div className="flex justify-center">
+          <img
+            src={MedicalLogo}
+            alt="Medical Logo"
+            className="h-12 w-12"
+          />
+        </div>
+        <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
+          {tokenState === 'invalid' ? 'Link no longer valid' : 'Choose a new password'}
+        </h2>
+        {tokenState === 'valid' && email && (
+          <p className="mt-2 text-center text-sm text-gray-600">
+            Resetting the password for <span className="font-medium text-gray-900">{email}</span>
+          </p>
+        )}
+      </div>
+
+      <div className="mt-8 sm:mx-auto sm:w-full sm:max-w-md">
+        <div className="bg-white py-8 px-4 shadow sm:rounded-lg sm:px-10">
+          {isChecking ? (
+            <div className="flex flex-col items-center py-6">
+              <div className="animate-spin rounded-full h-10 w-10 border-4 border-[#28542F] border-t-transparent mb-4"></div>
+              <p className="text-sm text-gray-600">Checking your reset link...</p>
+            </div>
+          ) : tokenState === 'invalid' ? (
+            <div className="space-y-6">
+              <p className="text-sm text-gray-600 text-center">
+                {getInvalidMessage(invalidReason)}
+              </p>
+              <Link
+                to="/forgotpassword"
+                className="w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-[#28542F] hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-[#28542F] transition-colors"
+              >
+                Request a new link
+              </Link>
+            </div>
+          ) : (
+            <form className="space-y-6" onSubmit={handleSubmit}>
+              <div>
+                <label htmlFor="new-password" className="block text-sm font-medium text-gray-700">
+                  New password
+                </label>
+                <div className="mt-1 relative">
+                  <input
+                    id="new-password"
+                    name="password"
+                    type={showPassword ? 'text' : 'password'}
+                    autoComplete="new-password"
+                    required
+                    minLength={PASSWORD_MIN_LENGTH}
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    className="appearance-none block w-full px-3 py-2 pr-10 border border-gray-300 rounded-md placeholder-gray-400 focus:outline-none focus:ring-[#28542F] focus:border-[#28542F] sm:text-sm"
+                    placeholder="Enter a new password"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setShowPassword(!showPassword)}
+                    className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-gray-600 transition-colors duration-200"
+                    aria-label={showPassword ? 'Hide password' : 'Show password'}
+                  >
+                    {showPassword ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                  </button>
+                </div>
+                <PasswordStrengthMeter password={password} />
+              </div>
+
+              <div>
+                <label htmlFor="confirm-password" className="block text-sm font-medium text-gray-700">
+                  Confirm new password
+                </label>
+                <div className="mt-1">
+                  <input
+                    id="confirm-password"
+                    name="password_confirmation"
+                    type={showPassword ? 'text' : 'password'}
+                    autoComplete="new-password"
+                    required
+                    value={confirmPassword}
+                    onChange={(e) => setConfirmPassword(e.target.value)}
+                    className="appearance-none block w-full px-3 py-2 border border-gray-300 rounded-md placeholder-gray-400 focus:outline-none focus:ring-[#28542F] focus:border-[#28542F] sm:text-sm"
+                    placeholder="Re-enter the new password"
+                  />
+                </div>
+                {confirmPassword && !passwordsMatch && (
+                  <p className="mt-1 text-xs text-red-600">Passwords do not match</p>
+                )}
+              </div>
+
+              {error && (
+                <div className="bg-red-50 border border-red-200 rounded-md p-3">
+                  <p className="text-sm text-red-800">{error}</p>
+                </div>
+              )}
+
+              <button
+                type="submit"
+                disabled={isSubmitting || !password || !confirmPassword}
+                className="w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-[#28542F] hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-[#28542F] disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                {isSubmitting ? 'Resetting...' : 'Reset password'}
+              </button>
+            </form>
+          )}
+
+          <div className="mt-6">
+            <Link
+              to="/login"
+              className="w-full flex justify-center py-2 px-4 text-sm font-medium text-[#28542F] hover:text-green-700 transition-colors"
+            >
+              Back to login
+            </Link>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ResetPassword;
@@ -0,0 +1,231 @@
+import React, { useState } from 'react';
+import { ShieldCheck, ShieldOff } from 'lucide-react';
+import { useToast } from '../../context/ToastContext';
+import { authService } from '../../services/auth.service';
+import type { MfaEnrollmentResponse } from '../../types/auth.types';
+
+interface TwoFactorSettingsProps {
+  enabled: boolean;
+  onStatusChange: (enabled: boolean) => void;
+}
+
+const TwoFactorSettings: React.FC<TwoFactorSettingsProps> = ({ enabled, onStatusChange }) => {
+  const { showToast } = useToast();
+
+  const [enrollment, setEnrollment] = useState<MfaEnrollmentResponse | null>(null);
+  const [backupCodes, setBackupCodes] = useState<string[] | null>(null);
+  const [isDisabling, setIsDisabling] = useState(false);
+  const [code, setCode] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const resetForm = () => {
+    setEnrollment(null);
+    setIsDisabling(false);
+    setCode('');
+  };
+
+  const handleStartEnrollment = async () => {
+    setIsSubmitting(true);
+    try {
+      const data = await authService.startMfaEnrollment();
+      setEnrollment(data);
+      setCode('');
+    } catch (error) {
+      showToast(error instanceof Error ? error.message : 'Failed to start two-factor setup', 'error');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleConfirmEnrollment = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setIsSubmitting(true);
+    try {
+      const data = await authService.confirmMfaEnrollment(code.replace(/\s/g, ''));
+      setBackupCodes(data.backup_codes);
+      resetForm();
+      onStatusChange(true);
+      showToast('Two-factor authentication enabled', 'success');
+    } catch (error) {
+      showToast(error instanceof Error ? error.message : 'Invalid verification code', 'error');
+      setCode('');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDisable = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setIsSubmitting(true);
+    try {
+      await authService.disableMfa(code.replace(/\s/g, ''));
+      resetForm();
+      onStatusChange(false);
+      showToast('Two-factor authentication disabled', 'success');
+    } catch (error) {
+      showToast(error instanceof Error ? error.message : 'Failed to disable two-factor authentication', 'error');
+      setCode('');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const codeInput = (
+    <input
+      type="text"
+      value={code}
+      onChange={(e) => setCode(e.target.value)}
+      inputMode="numeric"
+      autoComplete="one-time-code"
+      maxLength={7}
+      placeholder="000000"
+      className="w-full max-w-xs px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-[#28542F] focus:border-transparent tracking-widest"
+      required
+    />
+  );
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm">
+      <div className="px-6 py-4 border-b border-gray-200">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <h2 className="text-lg font-semibold text-gray-900">Two-Factor Authentication</h2>
+            <span
+              className={`px-2 py-0.5 text-xs font-medium rounded-full ${
+                enabled ? 'bg-green-100 text-green-700' : 'bg-gray-100 text-gray-600'
+              }`}
+            >
+              {enabled ? 'Enabled' : 'Disabled'}
+            </span>
+          </div>
+          {!enrollment && !isDisabling && (
+            enabled ? (
+              <button
+                onClick={() => setIsDisabling(true)}
+                className="px-4 py-2 bg-gray-300 text-gray-700 rounded-md hover:bg-gray-400 transition-colors"
+              >
+                Disable
+              </button>
+            ) : (
+              <button
+                onClick={handleStartEnrollment}
+                disabled={isSubmitting}
+                className="px-4 py-2 bg-[#28542F] text-white rounded-md hover:bg-green-700 transition-colors disabled:opacity-50"
+              >
+                {isSubmitting ? 'Preparing...' : 'Enable'}
+              </button>
+            )
+          )}
+        </div>
+      </div>
+
+      <div className="p-6">
+        {backupCodes && (
+          <div className="mb-6 p-4 bg-yellow-50 border border-yellow-200 rounded-md">
+            <p className="text-sm font-medium text-gray-900 mb-2">Save your backup codes</p>
+            <p className="text-sm text-gray-600 mb-4">
+              Each code can be used once if you lose access to your authenticator app. They will not be shown again.
+            </p>
+            <ul className="grid grid-cols-2 gap-2 font-mono text-sm mb-4">
+              {backupCodes.map(backupCode => (
+                <li key={backupCode} className="p-2 bg-white border rounded-md text-center">
+                  {backupCode}
+                </li>
+              ))}
+            </ul>
+            <button
+              onClick={() => setBackupCodes(null)}
+              className="px-4 py-2 bg-[#28542F] text-white rounded-md hover:bg-green-700 transition-colors"
+            >
+              I have saved these codes
+            </button>
+          </div>
+        )}
+
+        {enrollment ? (
+          <form onSubmit={handleConfirmEnrollment} className="space-y-4">
+            <p className="text-sm text-gray-600">
+              Scan this QR code with an authenticator app such as Google Authenticator or Authy,
+              then enter the 6-digit code it shows to finish setup.
+            </p>
+            <div className="flex flex-col md:flex-row md:items-center gap-6">
+              <img
+                src={enrollment.qr_code}
+                alt="Two-factor authentication QR code"
+                className="w-44 h-44 border rounded-md p-2 bg-white"
+              />
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Can't scan? Enter this key manually
+                </label>
+                <div className="p-3 bg-gray-50 border rounded-md font-mono text-sm break-all">
+                  {enrollment.secret}
+                </div>
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Verification Code
+              </label>
+              {codeInput}
+            </div>
+            <div className="flex space-x-4">
+              <button
+                type="submit"
+                disabled={isSubmitting || !code.trim()}
+                className="px-4 py-2 bg-[#28542F] text-white rounded-md hover:bg-green-700 transition-colors disabled:opacity-50"
+              >
+                {isSubmitting ? 'Verifying...' : 'Verify & Enable'}
+              </button>
+              <button
+                type="button"
+                onClick={resetForm}
+                className="px-4 py-2 bg-gray-300 text-gray-700 rounded-md hover:bg-gray-400 transition-colors"
+              >
+                Cancel
+              </button>
+            </div>
+          </form>
+        ) : isDisabling ? (
+          <form onSubmit={handleDisable} className="space-y-4">
+            <p className="text-sm text-gray-600">
+              Enter a current code from your authenticator app to turn off two-factor authentication.
+            </p>
+            {codeInput}
+            <div className="flex space-x-4">
+              <button
+                type="submit"
+                disabled={isSubmitting || !code.trim()}
+                className="px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 transition-colors disabled:opacity-50"
+              >
+                {isSubmitting ? 'Disabling...' : 'Disable Two-Factor'}
+              </button>
+              <button
+                type="button"
+                onClick={resetForm}
+                className="px-4 py-2 bg-gray-300 text-gray-700 rounded-md hover:bg-gray-400 transition-colors"
+              >
+                Cancel
+              </button>
+            </div>
+          </form>
+        ) : (
+          <div className="flex items-center gap-3 text-sm text-gray-600">
+            {enabled ? (
+              <ShieldCheck className="h-5 w-5 text-green-600" />
+            ) : (
+              <ShieldOff className="h-5 w-5 text-gray-400" />
+            )}
+            {enabled
+              ? 'A code from your authenticator app is required each time you sign in.'
+              : 'Add a second step to sign-in using an authenticator app.'}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TwoFactorSettings;
@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { Eye, EyeOff, Mail, Lock, ArrowRight } from 'lucide-react';
+import { Eye, EyeOff, Mail, Lock, ArrowRight, ShieldCheck } from 'lucide-react';
 import { useAuth } from '../../../context/AuthContext';
 import { useNavigate } from 'react-router-dom';
 import { useToast } from '../../../context/ToastContext';
@@ -10,9 +10,21 @@ const Login: React.FC = () => {
   const [showPassword, setShowPassword] = useState(false);
   const [showForgotPassword, setShowForgotPassword] = useState(false);
   const [forgotEmail, setForgotEmail] = useState('');
+  const [mfaCode, setMfaCode] = useState('');
+  const [useBackupCode, setUseBackupCode] = useState(false);
 
   // Use the auth context
-  const { login, forgotPassword, isLoading, error, isAuthenticated, clearError } = useAuth();
+  const {
+    login,
+    verifyMfa,
+    cancelMfa,
+    mfaToken,
+    forgotPassword,
+    isLoading,
+    error,
+    isAuthenticated,
+    clearError
+  } = useAuth();
   const { showToast } = useToast();
   const navigate = useNavigate();
 
@@ -47,6 +59,30 @@ const Login: React.FC = () => {
     }
   };
 
+  const handleVerifyMfa = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const code = useBackupCode ? mfaCode.trim() : mfaCode.replace(/\s/g, '');
+    if (!code) {
+      return;
+    }
+
+    try {
+      await verifyMfa(code, useBackupCode);
+    } catch (error) {
+      // Error is handled by the AuthContext and will be displayed
+      console.error('Verification failed:', error);
+      setMfaCode('');
+    }
+  };
+
+  const handleCancelMfa = () => {
+    cancelMfa();
+    setMfaCode('');
+    setUseBackupCode(false);
+    setPassword('');
+  };
+
 const handleForgotPassword = async (e: React.FormEvent) => {
   e.preventDefault();
   
@@ -66,6 +102,94 @@ const handleForgotPassword = async (e: React.FormEvent) => {
   }
 };
 
+  if (mfaToken) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-green-50 to-green-100 flex items-center justify-center p-4">
+        <div className="bg-white rounded-2xl shadow-2xl w-full max-w-md overflow-hidden">
+          {/* Header */}
+          <div className="bg-[#28542F] px-8 py-12 text-center">
+            <div className="bg-white text-[#28542F] w-16 h-16 rounded-full flex items-center justify-center mx-auto mb-4">
+              <ShieldCheck className="w-8 h-8" />
+            </div>
+            <h1 className="text-2xl font-bold text-white mb-2">Two-Factor Verification</h1>
+            <p className="text-green-200 text-sm">
+              {useBackupCode
+                ? 'Enter one of your saved backup codes'
+                : 'Enter the 6-digit code from your authenticator app'}
+            </p>
+          </div>
+
+          {/* Form */}
+          <div className="p-8">
+            <form onSubmit={handleVerifyMfa} className="space-y-6">
+              {/* Error display */}
+              {error && (
+                <div className="bg-red-50 border border-red-200 text-red-600 px-4 py-3 rounded-lg text-sm">
+                  {error}
+                </div>
+              )}
+
+              <div>
+                <label htmlFor="mfa-code" className="block text-sm font-medium text-gray-700 mb-2">
+                  {useBackupCode ? 'Backup Code' : 'Authentication Code'}
+                </label>
+                <input
+                  id="mfa-code"
+                  type="text"
+                  value={mfaCode}
+                  onChange={(e) => setMfaCode(e.target.value)}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#28542F] focus:border-transparent transition-all duration-200 text-center tracking-widest text-lg"
+                  placeholder={useBackupCode ? 'xxxx-xxxx' : '000000'}
+                  inputMode={useBackupCode ? 'text' : 'numeric'}
+                  autoComplete="one-time-code"
+                  maxLength={useBackupCode ? 32 : 7}
+                  autoFocus
+                  required
+                />
+              </div>
+
+              <button
+                type="submit"
+                disabled={isLoading || !mfaCode.trim()}
+                className="w-full bg-[#28542F] text-white py-3 px-4 rounded-lg font-medium hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-[#28542F] focus:ring-offset-2 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+              >
+                {isLoading ? (
+                  <div className="animate-spin rounded-full h-5 w-5 border-2 border-white border-t-transparent" />
+                ) : (
+                  <>
+                    Verify
+                    <ArrowRight className="w-4 h-4" />
+                  </>
+                )}
+              </button>
+
+              <div className="flex items-center justify-between">
+                <button
+                  type="button"
+                  onClick={() => {
+                    setUseBackupCode(!useBackupCode);
+                    setMfaCode('');
+                    clearError();
+                  }}
+                  className="text-sm text-[#28542F] hover:text-green-700 font-medium transition-colors duration-200"
+                >
+                  {useBackupCode ? 'Use authenticator app' : 'Use a backup code'}
+                </button>
+                <button
+                  type="button"
+                  onClick={handleCancelMfa}
+                  className="text-sm text-gray-600 hover:text-gray-800 font-medium transition-colors duration-200"
+                >
+                  Back to Login
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   if (showForgotPassword) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-green-50 to-green-100 flex items-center justify-center p-4">
@@ -0,0 +1,155 @@
+// components/ManageBooking/BookingCodeLookup.tsx
+
+import React, { useState } from 'react';
+import { KeyRound } from 'lucide-react';
+import { patientPortalService } from '../../services/patientPortal.service';
+import { ApiError } from '../../services/httpClient';
+import type { PortalCodeResponse, PortalSession } from '../../types/patientPortal.types';
+
+interface BookingCodeLookupProps {
+  onVerified: (session: PortalSession) => void;
+}
+
+// The API answers an unknown appointment code with 404
+const getLookupErrorMessage = (error: unknown, fallback: string): string => {
+  if (error instanceof ApiError && error.status === 404) {
+    return 'We could not find a booking with that code. Please check it and try again.';
+  }
+  return error instanceof Error ? error.message : fallback;
+};
+
+const BookingCodeLookup: React.FC<BookingCodeLookupProps> = ({ onVerified }) => {
+  const [appointmentCode, setAppointmentCode] = useState('');
+  const [verification, setVerification] = useState<PortalCodeResponse | null>(null);
+  const [code, setCode] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSendCode = async (e?: React.FormEvent) => {
+    e?.preventDefault();
+
+    if (!appointmentCode.trim()) {
+      setError('Appointment code is required');
+      return;
+    }
+
+    setError(null);
+    setIsSubmitting(true);
+    try {
+      const response = await patientPortalService.requestCode(appointmentCode);
+      setVerification(response);
+      setCode('');
+    } catch (err) {
+      setError(getLookupErrorMessage(err, 'Failed to send the verification code. Please try again.'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!verification) return;
+
+    setError(null);
+    setIsSubmitting(true);
+    try {
+      const session = await patientPortalService.verifyCode(verification.verification_id, code.replace(/\s/g, ''));
+      onVerified(session);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Invalid verification code');
+      setCode('');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleChangeCode = () => {
+    setVerification(null);
+    setCode('');
+    setError(null);
+  };
+
+  return (
+    <div className="max-w-md">
+      <div className="flex items-center gap-2 mb-2">
+        <KeyRound className="w-5 h-5 text-blue-600" />
+        <h2 className="text-xl font-semibold text-gray-800">Manage my booking</h2>
+      </div>
+
+      {verification ? (
+        <form onSubmit={handleVerify} className="space-y-3">
+          <p className="text-sm text-gray-600">
+            Enter the code we sent to <span className="font-medium text-gray-900">{verification.masked_destination}</span>.
+            It expires in {Math.ceil(verification.expires_in / 60)} minutes.
+          </p>
+          <input
+            id="portalCode"
+            type="text"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            maxLength={7}
+            placeholder="000000"
+            className="w-full max-w-xs px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent tracking-widest"
+            autoFocus
+          />
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <div className="flex flex-wrap items-center gap-3">
+            <button
+              type="submit"
+              disabled={isSubmitting || !code.trim()}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {isSubmitting ? 'Verifying...' : 'Verify'}
+            </button>
+            <button
+              type="button"
+              onClick={() => handleSendCode()}
+              disabled={isSubmitting}
+              className="text-sm font-medium text-blue-600 hover:text-blue-700 disabled:opacity-50"
+            >
+              Resend code
+            </button>
+            <button
+              type="button"
+              onClick={handleChangeCode}
+              disabled={isSubmitting}
+              className="text-sm font-medium text-gray-600 hover:text-gray-800 disabled:opacity-50"
+            >
+              Use a different appointment code
+            </button>
+          </div>
+        </form>
+      ) : (
+        <form onSubmit={handleSendCode} className="space-y-3">
+          <p className="text-sm text-gray-600">
+            Enter the appointment code from your booking confirmation. We will send a one-time code to the phone or
+            email you booked with.
+          </p>
+          <input
+            id="appointmentCode"
+            type="text"
+            value={appointmentCode}
+            onChange={(e) => setAppointmentCode(e.target.value)}
+            autoComplete="off"
+            placeholder="Appointment code"
+            className={`w-full px-3 py-2 border rounded-md font-mono uppercase focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+              error ? 'border-red-500' : 'border-gray-300'
+            }`}
+          />
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {isSubmitting ? 'Sending...' : 'Send code'}
+          </button>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default BookingCodeLookup;
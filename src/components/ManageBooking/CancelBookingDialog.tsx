@@ -0,0 +1,118 @@
+// components/ManageBooking/CancelBookingDialog.tsx
+
+import React, { useState } from 'react';
+import { AlertTriangle, X } from 'lucide-react';
+import { currencyService } from '../../services/currencyService';
+import { getRefundMessage } from '../../utils/bookingPolicy';
+import { useClinicTimeZone } from '../../context/ClinicTimeZoneContext';
+import { formatSlotForViewer } from '../../utils/dateTime';
+import type { BookingActions, BookingPolicy, PortalAppointment } from '../../types/patientPortal.types';
+
+interface CancelBookingDialogProps {
+  appointment: PortalAppointment;
+  policy: BookingPolicy;
+  actions: BookingActions;
+  onCancelBooking: (reason?: string) => Promise<void>;
+  onClose: () => void;
+}
+
+const CancelBookingDialog: React.FC<CancelBookingDialogProps> = ({
+  appointment,
+  policy,
+  actions,
+  onCancelBooking,
+  onClose
+}) => {
+  const [reason, setReason] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const clinicTimeZone = useClinicTimeZone();
+
+  const refundMessage = getRefundMessage(appointment, policy, actions, (amount, currency) =>
+    currencyService.format(amount, currency)
+  );
+
+  const handleConfirm = async () => {
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await onCancelBooking(reason.trim() || undefined);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not cancel your appointment. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-opacity-50 backdrop-brightness-50" onClick={onClose} />
+
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="cancel-booking-title"
+        className="relative bg-white rounded-lg shadow-xl w-full max-w-md"
+      >
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+          <h2 id="cancel-booking-title" className="text-lg font-semibold text-gray-900">Cancel appointment</h2>
+          <button
+            onClick={onClose}
+            aria-label="Close"
+            className="p-1 rounded-md text-gray-400 hover:text-gray-600 hover:bg-gray-100"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="px-6 py-4 space-y-4 text-sm">
+          <p className="text-gray-700">
+            Cancel your appointment on {formatSlotForViewer(appointment.slot_date, appointment.slot_time, clinicTimeZone)}?
+            This cannot be undone.
+          </p>
+
+          <p className="flex items-start gap-2 p-3 rounded-md bg-amber-50 text-amber-800">
+            <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+            {refundMessage}
+          </p>
+
+          <div>
+            <label htmlFor="cancelReason" className="block font-medium text-gray-700 mb-1">
+              Reason (optional)
+            </label>
+            <textarea
+              id="cancelReason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              rows={3}
+              maxLength={500}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+
+          {error && <p className="text-red-600">{error}</p>}
+        </div>
+
+        <div className="flex justify-end gap-3 px-6 py-4 border-t border-gray-200">
+          <button
+            onClick={onClose}
+            disabled={isSubmitting}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+          >
+            Keep appointment
+          </button>
+          <button
+            onClick={handleConfirm}
+            disabled={isSubmitting}
+            className="px-4 py-2 text-sm font-medium text-white bg-red-600 rounded-md hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSubmitting ? 'Cancelling...' : 'Cancel appointment'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CancelBookingDialog;
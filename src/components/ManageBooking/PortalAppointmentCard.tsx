@@ -0,0 +1,116 @@
+// components/ManageBooking/PortalAppointmentCard.tsx
+
+import React from 'react';
+import { CalendarClock, Download, Video, XCircle } from 'lucide-react';
+import { currencyService } from '../../services/currencyService';
+import { PORTAL_APPOINTMENT_STATUS_LABELS } from '../../constants/booking';
+import { useClinicTimeZone } from '../../context/ClinicTimeZoneContext';
+import { formatInterval, getSlotInterval } from '../../utils/dateTime';
+import type { BookingActions, PortalAppointment } from '../../types/patientPortal.types';
+
+interface PortalAppointmentCardProps {
+  appointment: PortalAppointment;
+  actions?: BookingActions; // Upcoming appointments only
+  onReschedule?: () => void;
+  onCancel?: () => void;
+}
+
+const STATUS_CLASSES: Record<PortalAppointment['status'], string> = {
+  booked: 'bg-blue-100 text-blue-800',
+  completed: 'bg-green-100 text-green-800',
+  cancelled: 'bg-gray-100 text-gray-700',
+  no_show: 'bg-amber-100 text-amber-800',
+};
+
+const PortalAppointmentCard: React.FC<PortalAppointmentCardProps> = ({ appointment, actions, onReschedule, onCancel }) => {
+  const clinicTimeZone = useClinicTimeZone();
+  const interval = getSlotInterval(appointment.slot_date, appointment.slot_time, clinicTimeZone);
+  const blockedReasons = [actions?.rescheduleBlockedReason, actions?.cancelBlockedReason].filter(Boolean);
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 space-y-3">
+      <div className="flex flex-wrap items-start justify-between gap-2">
+        <div>
+          <p className="font-semibold text-gray-900">{formatInterval(interval)}</p>
+          <p className="text-sm text-gray-500">
+            {appointment.is_follow_up ? 'Follow-up consultation' : 'Consultation'} · Code{' '}
+            <span className="font-mono">{appointment.code}</span>
+          </p>
+        </div>
+        <span className={`px-2 py-1 text-xs font-medium rounded-full ${STATUS_CLASSES[appointment.status]}`}>
+          {PORTAL_APPOINTMENT_STATUS_LABELS[appointment.status]}
+        </span>
+      </div>
+
+      <p className="text-sm text-gray-600">
+        {currencyService.format(appointment.amount, appointment.currency)}
+        {appointment.paid ? ' paid' : ' due at the clinic'}
+      </p>
+
+      {appointment.status === 'booked' && appointment.meet_link && (
+        <a
+          href={appointment.meet_link}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="inline-flex items-center gap-2 text-sm text-blue-600 hover:underline"
+        >
+          <Video className="w-4 h-4" />
+          Join video consultation
+        </a>
+      )}
+
+      {appointment.prescriptions.length > 0 && (
+        <div>
+          <h4 className="text-sm font-medium text-gray-900 mb-1">Prescriptions</h4>
+          <ul className="space-y-1">
+            {appointment.prescriptions.map(prescription => (
+              <li key={prescription.id}>
+                <a
+                  href={prescription.pdf_url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  download
+                  className="inline-flex items-center gap-2 text-sm text-blue-600 hover:underline"
+                >
+                  <Download className="w-4 h-4" />
+                  {prescription.title} ({new Date(prescription.issued_at).toLocaleDateString()})
+                </a>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {actions && (
+        <div className="pt-3 border-t border-gray-100 space-y-2">
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={onReschedule}
+              disabled={!actions.canReschedule}
+              className="inline-flex items-center gap-2 px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <CalendarClock className="w-4 h-4" />
+              Reschedule
+            </button>
+            <button
+              onClick={onCancel}
+              disabled={!actions.canCancel}
+              className="inline-flex items-center gap-2 px-3 py-2 text-sm font-medium text-red-700 bg-white border border-red-200 rounded-md hover:bg-red-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <XCircle className="w-4 h-4" />
+              Cancel
+            </button>
+          </div>
+          {blockedReasons.map(reason => (
+            <p key={reason} className="text-xs text-gray-500">{reason}</p>
+          ))}
+          {blockedReasons.length > 0 && (
+            <p className="text-xs text-gray-500">Please contact the clinic for any other changes.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PortalAppointmentCard;
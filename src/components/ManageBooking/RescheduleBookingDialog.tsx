@@ -0,0 +1,132 @@
+// components/ManageBooking/RescheduleBookingDialog.tsx
+
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import SlotPicker from '../Registrations/common/SlotPicker';
+import { isSlotUnavailableError } from '../../hooks/useSlotHold';
+import { useClinicTimeZone } from '../../context/ClinicTimeZoneContext';
+import { formatSlotForViewer } from '../../utils/dateTime';
+import { getSlotMinutes } from '../../utils/consultationTypes';
+import type { PortalAppointment, PortalRescheduleRequest } from '../../types/patientPortal.types';
+import type { TimeSlot } from '../../types/registration';
+
+interface RescheduleBookingDialogProps {
+  appointment: PortalAppointment;
+  patientId: string;
+  onReschedule: (request: PortalRescheduleRequest) => Promise<void>;
+  onClose: () => void;
+}
+
+const RescheduleBookingDialog: React.FC<RescheduleBookingDialogProps> = ({
+  appointment,
+  patientId,
+  onReschedule,
+  onClose
+}) => {
+  const [selectedDate, setSelectedDate] = useState('');
+  const [selectedSlot, setSelectedSlot] = useState<TimeSlot | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Bumped to make the picker fetch again after someone else took the slot
+  const [pickerKey, setPickerKey] = useState(0);
+  const clinicTimeZone = useClinicTimeZone();
+
+  // The new time is as long as the booked type; older bookings keep their own length
+  const consultationType = appointment.consultation_type;
+  const durationMinutes = consultationType?.duration_minutes ?? getSlotMinutes(appointment.slot_time);
+
+  const handleDateChange = (date: string) => {
+    setSelectedDate(date);
+    setSelectedSlot(null);
+    setError(null);
+  };
+
+  const handleConfirm = async () => {
+    if (!selectedDate || !selectedSlot) return;
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await onReschedule({
+        slot_date: selectedDate,
+        slot_time: selectedSlot.time,
+        schedule_id: selectedSlot.scheduleId,
+        consultation_type: consultationType?.key,
+      });
+    } catch (err) {
+      if (isSlotUnavailableError(err)) {
+        setSelectedSlot(null);
+        setPickerKey(key => key + 1);
+        setError('That slot was just taken. Please choose another one.');
+      } else {
+        setError(err instanceof Error ? err.message : 'Could not move your appointment. Please try again.');
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-opacity-50 backdrop-brightness-50" onClick={onClose} />
+
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="reschedule-booking-title"
+        className="relative bg-white rounded-lg shadow-xl w-full max-w-lg max-h-full overflow-y-auto"
+      >
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+          <h2 id="reschedule-booking-title" className="text-lg font-semibold text-gray-900">Reschedule appointment</h2>
+          <button
+            onClick={onClose}
+            aria-label="Close"
+            className="p-1 rounded-md text-gray-400 hover:text-gray-600 hover:bg-gray-100"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="px-6 py-4 space-y-4">
+          <p className="text-sm text-gray-600">
+            Currently booked for {formatSlotForViewer(appointment.slot_date, appointment.slot_time, clinicTimeZone)}.
+          </p>
+
+          <SlotPicker
+            key={pickerKey}
+            patientId={patientId}
+            isAlreadyRegistered={true}
+            selectedDate={selectedDate}
+            selectedSlot={selectedSlot}
+            onDateChange={handleDateChange}
+            onSlotChange={setSelectedSlot}
+            consultationType={consultationType?.key}
+            durationMinutes={durationMinutes}
+          />
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+
+        <div className="flex justify-end gap-3 px-6 py-4 border-t border-gray-200">
+          <button
+            onClick={onClose}
+            disabled={isSubmitting}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+          >
+            Keep current time
+          </button>
+          <button
+            onClick={handleConfirm}
+            disabled={isSubmitting || !selectedSlot}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSubmitting ? 'Moving...' : 'Move appointment'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RescheduleBookingDialog;
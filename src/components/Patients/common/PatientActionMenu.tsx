@@ -1,5 +1,6 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { MoreVertical, Edit, Trash2, Eye, Calendar, Phone, Mail } from 'lucide-react';
+import { useCan } from '../../../hooks/useCan';
 
 interface PatientActionMenuProps {
   patient: {
@@ -23,6 +24,7 @@ const PatientActionMenu: React.FC<PatientActionMenuProps> = ({
 }) => {
   const [isOpen, setIsOpen] = useState(false);
   const menuRef = useRef<HTMLDivElement>(null);
+  const can = useCan();
 
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -59,7 +61,7 @@ const PatientActionMenu: React.FC<PatientActionMenuProps> = ({
       },
       color: 'text-gray-700 hover:text-blue-600'
     },
-    {
+    ...(can('patients:edit') ? [{
       icon: Edit,
       label: 'Edit Patient',
       onClick: () => {
@@ -67,8 +69,8 @@ const PatientActionMenu: React.FC<PatientActionMenuProps> = ({
         setIsOpen(false);
       },
       color: 'text-gray-700 hover:text-blue-600'
-    },
-    ...(onScheduleAppointment ? [{
+    }] : []),
+    ...(onScheduleAppointment && can('appointments:reschedule') ? [{
       icon: Calendar,
       label: 'Schedule Appointment',
       onClick: () => {
@@ -89,7 +91,7 @@ const PatientActionMenu: React.FC<PatientActionMenuProps> = ({
       onClick: handleEmail,
       color: 'text-gray-700 hover:text-blue-600'
     }] : []),
-    {
+    ...(can('patients:delete') ? [{
       icon: Trash2,
       label: 'Delete Patient',
       onClick: () => {
@@ -98,7 +100,7 @@ const PatientActionMenu: React.FC<PatientActionMenuProps> = ({
       },
       color: 'text-gray-700 hover:text-red-600',
       divider: true
-    }
+    }] : [])
   ];
 
   return (
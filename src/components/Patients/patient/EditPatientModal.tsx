@@ -1,7 +1,9 @@
 import React, { useState, useEffect } from 'react';
 import { usePatientContext } from '../../../context/PatientContext';
 import { Patient } from '../../../types/patient.types';
-import { EMAIL_REGEX } from '../../../constants/common';
+import { validateSchema, focusFirstInvalidField } from '../../../utils/validation';
+import { patientSchema } from '../../../utils/registrationSchemas';
+import type { ValidationErrors } from '../../../types/registration';
 
 interface EditPatientModalProps {
   isOpen: boolean;
@@ -12,7 +14,7 @@ interface EditPatientModalProps {
 const EditPatientModal: React.FC<EditPatientModalProps> = ({ isOpen, onClose, patient }) => {
   const { updatePatient, loading } = usePatientContext();
   const [formData, setFormData] = useState<Partial<Patient>>({});
-  const [errors, setErrors] = useState<Partial<Patient>>({});
+  const [errors, setErrors] = useState<ValidationErrors>({});
 
   useEffect(() => {
     if (patient) {
@@ -31,31 +33,9 @@ const EditPatientModal: React.FC<EditPatientModalProps> = ({ isOpen, onClose, pa
   }, [patient]);
 
   const validateForm = (): boolean => {
-    const newErrors: Partial<Patient> = {};
-
-    if (!formData.name?.trim()) {
-      newErrors.name = 'Name is required';
-    }
-
-    if (!formData.mobileNumber?.trim()) {
-      newErrors.mobileNumber = 'Mobile number is required';
-    } else if (!/^\d{10}$/.test(formData.mobileNumber.replace(/\D/g, ''))) {
-      newErrors.mobileNumber = 'Please enter a valid 10-digit mobile number';
-    }
-
-    if (!formData.age || formData.age <= 0) {
-      newErrors.age = 'Please enter a valid age';
-    }
-
-    if (!formData.address?.trim()) {
-      newErrors.address = 'Address is required';
-    }
-
-    if (formData.email && EMAIL_REGEX.test(formData.email)) {
-      newErrors.email = 'Please enter a valid email address';
-    }
-
+    const newErrors = validateSchema(patientSchema, formData);
     setErrors(newErrors);
+    focusFirstInvalidField(newErrors, Object.keys(patientSchema));
     return Object.keys(newErrors).length === 0;
   };
 
@@ -80,8 +60,12 @@ const EditPatientModal: React.FC<EditPatientModalProps> = ({ isOpen, onClose, pa
     }));
     
     // Clear error when user starts typing
-    if (errors[name as keyof Patient]) {
-      setErrors(prev => ({ ...prev, [name]: undefined }));
+    if (errors[name]) {
+      setErrors(prev => {
+        const next = { ...prev };
+        delete next[name];
+        return next;
+      });
     }
   };
 
@@ -103,6 +87,7 @@ const EditPatientModal: React.FC<EditPatientModalProps> = ({ isOpen, onClose, pa
               </label>
               <input
                 type="text"
+                id="name"
                 name="name"
                 value={formData.name || ''}
                 onChange={handleInputChange}
@@ -121,6 +106,7 @@ const EditPatientModal: React.FC<EditPatientModalProps> = ({ isOpen, onClose, pa
               </label>
               <input
                 type="tel"
+                id="mobileNumber"
                 name="mobileNumber"
                 value={formData.mobileNumber || ''}
                 onChange={handleInputChange}
@@ -155,6 +141,7 @@ const EditPatientModal: React.FC<EditPatientModalProps> = ({ isOpen, onClose, pa
               </label>
               <input
                 type="number"
+                id="age"
                 name="age"
                 value={formData.age || ''}
                 onChange={handleInputChange}
@@ -175,6 +162,7 @@ const EditPatientModal: React.FC<EditPatientModalProps> = ({ isOpen, onClose, pa
               </label>
               <input
                 type="email"
+                id="email"
                 name="email"
                 value={formData.email || ''}
                 onChange={handleInputChange}
@@ -193,12 +181,16 @@ const EditPatientModal: React.FC<EditPatientModalProps> = ({ isOpen, onClose, pa
               </label>
               <input
                 type="tel"
+                id="emergencyContact"
                 name="emergencyContact"
                 value={formData.emergencyContact || ''}
                 onChange={handleInputChange}
-                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
+                className={`w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-green-500 ${
+                  errors.emergencyContact ? 'border-red-500' : 'border-gray-300'
+                }`}
                 placeholder="Enter emergency contact number"
               />
+              {errors.emergencyContact && <p className="text-red-500 text-sm mt-1">{errors.emergencyContact}</p>}
             </div>
 
             {/* Status */}
@@ -224,6 +216,7 @@ const EditPatientModal: React.FC<EditPatientModalProps> = ({ isOpen, onClose, pa
               Address *
             </label>
             <textarea
+              id="address"
               name="address"
               value={formData.address || ''}
               onChange={handleInputChange}
@@ -2,7 +2,9 @@ import React, { useState } from 'react';
 import { usePatientContext } from '../../../context/PatientContext';
 import { NewPatientData } from '../../../types/patient.types';
 import { XMarkIcon } from '@heroicons/react/24/outline';
-import { EMAIL_REGEX } from '../../../constants/common';
+import { validateSchema, focusFirstInvalidField } from '../../../utils/validation';
+import { patientSchema } from '../../../utils/registrationSchemas';
+import type { ValidationErrors } from '../../../types/registration';
 
 interface NewPatientModalProps {
   isOpen: boolean;
@@ -21,42 +23,12 @@ const NewPatientModal: React.FC<NewPatientModalProps> = ({ isOpen, onClose }) =>
     emergencyContact: '',
     medicalHistory: '',
   });
-  const [errors, setErrors] = useState<Partial<NewPatientData>>({});
+  const [errors, setErrors] = useState<ValidationErrors>({});
 
   const validateForm = (): boolean => {
-    const newErrors: Partial<NewPatientData> = {};
-
-    if (!formData.name.trim()) {
-      newErrors.name = 'Name is required';
-    } else if (formData.name.trim().length < 2) {
-      newErrors.name = 'Name must be at least 2 characters';
-    }
-
-    if (!formData.mobileNumber.trim()) {
-      newErrors.mobileNumber = 'Mobile number is required';
-    } else if (!/^\d{10}$/.test(formData.mobileNumber.replace(/\D/g, ''))) {
-      newErrors.mobileNumber = 'Please enter a valid 10-digit mobile number';
-    }
-
-    if (!formData.age || formData.age <= 0) {
-      newErrors.age = 'Please enter a valid age';
-    } else if (formData.age > 150) {
-      newErrors.age = 'Age cannot be greater than 150';
-    }
-
-    if (!formData.address.trim()) {
-      newErrors.address = 'Address is required';
-    }
-
-    if (formData.email && EMAIL_REGEX.test(formData.email)) {
-      newErrors.email = 'Please enter a valid email address';
-    }
-
-    if (formData.emergencyContact && !/^\d{10}$/.test(formData.emergencyContact.replace(/\D/g, ''))) {
-      newErrors.emergencyContact = 'Please enter a valid 10-digit phone number';
-    }
-
+    const newErrors = validateSchema(patientSchema, formData);
     setErrors(newErrors);
+    focusFirstInvalidField(newErrors, Object.keys(patientSchema));
     return Object.keys(newErrors).length === 0;
   };
 
@@ -100,7 +72,11 @@ const NewPatientModal: React.FC<NewPatientModalProps> = ({ isOpen, onClose }) =>
     setFormData(prev => ({ ...prev, [field]: value }));
     // Clear error when user starts typing
     if (errors[field]) {
-      setErrors(prev => ({ ...prev, [field]: undefined }));
+      setErrors(prev => {
+        const next = { ...prev };
+        delete next[field];
+        return next;
+      });
     }
   };
 
@@ -155,12 +131,12 @@ const NewPatientModal: React.FC<NewPatientModalProps> = ({ isOpen, onClose }) =>
 
                 {/* Mobile Number */}
                 <div>
-                  <label htmlFor="mobile" className="block text-sm font-medium text-gray-700">
+                  <label htmlFor="mobileNumber" className="block text-sm font-medium text-gray-700">
                     Mobile Number *
                   </label>
                   <input
                     type="tel"
-                    id="mobile"
+                    id="mobileNumber"
                     value={formatPhoneInput(formData.mobileNumber)}
                     onChange={(e) => handleInputChange('mobileNumber', e.target.value.replace(/\D/g, ''))}
                     className={`mt-1 block w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-green-500 focus:border-green-500 ${
@@ -246,12 +222,12 @@ const NewPatientModal: React.FC<NewPatientModalProps> = ({ isOpen, onClose }) =>
 
                 {/* Emergency Contact */}
                 <div>
-                  <label htmlFor="emergency" className="block text-sm font-medium text-gray-700">
+                  <label htmlFor="emergencyContact" className="block text-sm font-medium text-gray-700">
                     Emergency Contact
                   </label>
                   <input
                     type="tel"
-                    id="emergency"
+                    id="emergencyContact"
                     value={formatPhoneInput(formData.emergencyContact)}
                     onChange={(e) => handleInputChange('emergencyContact', e.target.value.replace(/\D/g, ''))}
                     className={`mt-1 block w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-green-500 focus:border-green-500 ${
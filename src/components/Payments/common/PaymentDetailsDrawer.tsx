@@ -0,0 +1,272 @@
+// components/Payments/common/PaymentDetailsDrawer.tsx
+import React, { useState } from 'react';
+import { X, RotateCcw, FileText } from 'lucide-react';
+import ConfirmationDialog from '../../common/ConfirmationDialog';
+import PaymentStatusBadge from './PaymentStatusBadge';
+import InvoiceModal from '../../Invoices/InvoiceModal';
+import { useToast } from '../../../context/ToastContext';
+import { paymentService } from '../../../services/paymentService';
+import { PRICING_TIER_LABELS } from '../../../constants/currency';
+import { invoiceService } from '../../../services/invoice.service';
+import { formatMinorAmount, fromMinorUnits, getRefundableAmount } from '../../../utils/paymentUtils';
+import { buildInvoice } from '../../../utils/invoiceUtils';
+import { useClinicTimeZone } from '../../../context/ClinicTimeZoneContext';
+import { formatCalendarDate, formatClinicTime } from '../../../utils/dateTime';
+import type { AdminPayment, RefundResult } from '../../../types/payment.types';
+import type { Invoice } from '../../../types/invoice.types';
+
+interface PaymentDetailsDrawerProps {
+  payment: AdminPayment;
+  canRefund: boolean;
+  onRefund: (payment: AdminPayment, amount?: number) => Promise<RefundResult>;
+  onClose: () => void;
+}
+
+type RefundMode = 'full' | 'partial';
+
+const DetailRow: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <div className="flex justify-between gap-4 py-2 border-b border-gray-100 text-sm">
+    <dt className="text-gray-500">{label}</dt>
+    <dd className="text-gray-900 text-right break-all">{children}</dd>
+  </div>
+);
+
+const PaymentDetailsDrawer: React.FC<PaymentDetailsDrawerProps> = ({ payment, canRefund, onRefund, onClose }) => {
+  const { showToast } = useToast();
+  const clinicTimeZone = useClinicTimeZone();
+  const [refundMode, setRefundMode] = useState<RefundMode>('full');
+  const [partialAmount, setPartialAmount] = useState('');
+  const [amountError, setAmountError] = useState<string | null>(null);
+  const [isConfirmOpen, setIsConfirmOpen] = useState(false);
+  const [isRefunding, setIsRefunding] = useState(false);
+  const [receipt, setReceipt] = useState<Invoice | null>(null);
+  const [isLoadingReceipt, setIsLoadingReceipt] = useState(false);
+
+  const refundable = getRefundableAmount(payment);
+  const refundableMajor = fromMinorUnits(refundable);
+  const showRefund = canRefund && payment.gateway !== 'clinic' && refundable > 0;
+  const hasReceipt = Boolean(payment.slot_date) && (payment.captured || payment.status === 'due' || payment.amount_refunded > 0);
+
+  // Major units, as shown to the patient; a full refund is what is left after earlier refunds
+  const getRefundAmount = (): number =>
+    refundMode === 'partial' ? Number(partialAmount) : refundableMajor;
+
+  const refundLabel = refundMode === 'partial'
+    ? formatMinorAmount(Math.round(Number(partialAmount) * 100), payment.currency)
+    : formatMinorAmount(refundable, payment.currency);
+
+  const handleRefundClick = () => {
+    if (refundMode === 'partial') {
+      const amount = Number(partialAmount);
+      if (!partialAmount || Number.isNaN(amount) || amount <= 0) {
+        setAmountError('Enter an amount greater than zero');
+        return;
+      }
+      if (amount > refundableMajor) {
+        setAmountError(`At most ${formatMinorAmount(refundable, payment.currency)} can be refunded`);
+        return;
+      }
+    }
+    setAmountError(null);
+    setIsConfirmOpen(true);
+  };
+
+  const handleConfirmRefund = async () => {
+    setIsConfirmOpen(false);
+    setIsRefunding(true);
+    try {
+      const result = await onRefund(payment, getRefundAmount());
+      if (result.status === 'failed') {
+        showToast('The gateway rejected the refund. Please try again later.', 'error', 5000);
+      } else {
+        showToast(
+          result.status === 'pending' ? 'Refund initiated. It will show once the gateway processes it.' : 'Refund processed.',
+          'success'
+        );
+        setPartialAmount('');
+        setRefundMode('full');
+      }
+    } catch (error) {
+      showToast(error instanceof Error ? error.message : 'Refund failed. Please try again.', 'error', 5000);
+    } finally {
+      setIsRefunding(false);
+    }
+  };
+
+  // Reissuing returns the number and details the receipt was first issued with
+  const handleViewReceipt = async () => {
+    setIsLoadingReceipt(true);
+    try {
+      const amount = fromMinorUnits(payment.amount);
+      const issued = await invoiceService.issueInvoice({
+        order_id: payment.order_id,
+        payment_id: payment.payment_id,
+        gateway: payment.gateway,
+        amount,
+        currency: payment.currency,
+      });
+
+      setReceipt(buildInvoice({
+        issued,
+        billedTo: {
+          name: payment.patient_name,
+          email: payment.patient_email,
+          phone: payment.patient_phone,
+        },
+        appointment: {
+          id: payment.appointment_id ?? undefined,
+          date: payment.slot_date || '',
+          time: payment.slot_time || '',
+          timeZone: clinicTimeZone,
+        },
+        isFollowUp: payment.is_follow_up,
+        // Only the price recorded with the booking holds once the clinic's fees change
+        listPrice: payment.list_price && payment.list_currency ? parseFloat(payment.list_price) : undefined,
+        listCurrency: payment.list_currency || undefined,
+        amount,
+        currency: payment.currency,
+        payment: {
+          gateway: payment.gateway,
+          paymentId: payment.gateway === 'clinic' ? null : payment.payment_id,
+          orderId: payment.order_id,
+        },
+        status: payment.status === 'refunded' ? 'refunded' : payment.status === 'due' ? 'due' : 'paid',
+      }));
+    } catch (error) {
+      showToast(error instanceof Error ? error.message : 'Could not load the receipt.', 'error');
+    } finally {
+      setIsLoadingReceipt(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 flex justify-end">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-opacity-50 backdrop-brightness-50" onClick={onClose} />
+
+      <aside
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="payment-drawer-title"
+        className="relative h-full w-full max-w-md bg-white shadow-xl overflow-y-auto"
+      >
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+          <h2 id="payment-drawer-title" className="text-lg font-semibold text-gray-900">Payment Details</h2>
+          <button
+            onClick={onClose}
+            aria-label="Close"
+            className="p-1 rounded-md text-gray-400 hover:text-gray-600 hover:bg-gray-100"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="px-6 py-4 space-y-6">
+          <div className="flex items-center justify-between">
+            <span className="text-2xl font-bold text-gray-900">{formatMinorAmount(payment.amount, payment.currency)}</span>
+            <PaymentStatusBadge status={payment.status} />
+          </div>
+
+          <dl>
+            <DetailRow label="Patient">{payment.patient_name || 'Unknown patient'}</DetailRow>
+            {payment.patient_email && <DetailRow label="Email">{payment.patient_email}</DetailRow>}
+            <DetailRow label="Appointment">
+              {payment.slot_date ? `${formatCalendarDate(payment.slot_date)} ${payment.slot_time ? formatClinicTime(payment.slot_time, clinicTimeZone) : ''}` : 'Not booked'}
+            </DetailRow>
+            {payment.pricing_tier && (
+              <DetailRow label="Pricing tier">{PRICING_TIER_LABELS[payment.pricing_tier]}</DetailRow>
+            )}
+            <DetailRow label="Gateway">{paymentService.getGatewayLabel(payment.gateway)}</DetailRow>
+            <DetailRow label="Method">{payment.method || '—'}</DetailRow>
+            <DetailRow label="Captured">{payment.captured ? 'Yes' : 'No'}</DetailRow>
+            <DetailRow label="Refunded">{formatMinorAmount(payment.amount_refunded, payment.currency)}</DetailRow>
+            <DetailRow label="Order ID">{payment.order_id}</DetailRow>
+            <DetailRow label="Payment ID">{payment.payment_id || '—'}</DetailRow>
+            <DetailRow label="Created">{new Date(payment.created_at).toLocaleString()}</DetailRow>
+          </dl>
+
+          {hasReceipt && (
+            <button
+              onClick={handleViewReceipt}
+              disabled={isLoadingReceipt}
+              className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <FileText className="w-4 h-4" />
+              {isLoadingReceipt ? 'Loading receipt...' : 'View receipt'}
+            </button>
+          )}
+
+          {showRefund && (
+            <div className="border border-gray-200 rounded-lg p-4 space-y-3">
+              <h3 className="text-sm font-semibold text-gray-900">Refund</h3>
+              <div className="flex gap-4 text-sm text-gray-700">
+                <label className="flex items-center gap-2">
+                  <input
+                    type="radio"
+                    name="refundMode"
+                    checked={refundMode === 'full'}
+                    onChange={() => setRefundMode('full')}
+                  />
+                  Full ({formatMinorAmount(refundable, payment.currency)})
+                </label>
+                <label className="flex items-center gap-2">
+                  <input
+                    type="radio"
+                    name="refundMode"
+                    checked={refundMode === 'partial'}
+                    onChange={() => setRefundMode('partial')}
+                  />
+                  Partial
+                </label>
+              </div>
+
+              {refundMode === 'partial' && (
+                <div>
+                  <label htmlFor="refundAmount" className="block text-sm font-medium text-gray-700 mb-1">
+                    Amount ({payment.currency})
+                  </label>
+                  <input
+                    id="refundAmount"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    max={refundableMajor}
+                    value={partialAmount}
+                    onChange={(e) => setPartialAmount(e.target.value)}
+                    className={`w-full px-3 py-2 border rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                      amountError ? 'border-red-500' : 'border-gray-300'
+                    }`}
+                  />
+                  {amountError && <p className="mt-1 text-sm text-red-600">{amountError}</p>}
+                </div>
+              )}
+
+              <button
+                onClick={handleRefundClick}
+                disabled={isRefunding}
+                className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-red-600 rounded-md hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <RotateCcw className="w-4 h-4" />
+                {isRefunding ? 'Refunding...' : 'Refund'}
+              </button>
+            </div>
+          )}
+        </div>
+      </aside>
+
+      {receipt && <InvoiceModal invoice={receipt} onClose={() => setReceipt(null)} />}
+
+      <ConfirmationDialog
+        isOpen={isConfirmOpen}
+        title="Confirm refund"
+        message={`Refund ${refundLabel} to ${payment.patient_name || 'this patient'}? This cannot be undone.`}
+        confirmText="Refund"
+        type="danger"
+        onConfirm={handleConfirmRefund}
+        onCancel={() => setIsConfirmOpen(false)}
+      />
+    </div>
+  );
+};
+
+export default PaymentDetailsDrawer;
@@ -0,0 +1,29 @@
+import React from 'react';
+import { PAYMENT_STATUS_LABELS } from '../../../constants/payment';
+import type { AdminPaymentStatus } from '../../../types/payment.types';
+
+interface PaymentStatusBadgeProps {
+  status: AdminPaymentStatus;
+}
+
+const statusStyles: Record<AdminPaymentStatus, string> = {
+  created: 'bg-gray-100 text-gray-800',
+  authorized: 'bg-yellow-100 text-yellow-800',
+  captured: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+  refunded: 'bg-purple-100 text-purple-800',
+  partially_refunded: 'bg-purple-50 text-purple-700',
+  due: 'bg-blue-100 text-blue-800',
+};
+
+const PaymentStatusBadge: React.FC<PaymentStatusBadgeProps> = ({ status }) => {
+  return (
+    <span
+      className={`inline-flex items-center px-2.5 py-1 rounded-full text-xs font-medium ${statusStyles[status] || statusStyles.created}`}
+    >
+      {PAYMENT_STATUS_LABELS[status] || status}
+    </span>
+  );
+};
+
+export default PaymentStatusBadge;
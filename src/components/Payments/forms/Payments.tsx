@@ -0,0 +1,262 @@
+// components/Payments/forms/Payments.tsx
+import React, { useState } from 'react';
+import { Download, Check, Minus } from 'lucide-react';
+import Header from '../../layouts/Header';
+import AppointmentPagination from '../../Dashboard/common/AppointmentPagination';
+import PaymentStatusBadge from '../common/PaymentStatusBadge';
+import PaymentDetailsDrawer from '../common/PaymentDetailsDrawer';
+import { usePayments } from '../../../hooks/usePayments';
+import type { PaymentListFilters } from '../../../hooks/usePayments';
+import { useCan } from '../../../hooks/useCan';
+import { useToast } from '../../../context/ToastContext';
+import { PAYMENT_STATUS_LABELS } from '../../../constants/payment';
+import { paymentService } from '../../../services/paymentService';
+import { PRICING_TIER_LABELS } from '../../../constants/currency';
+import { ITEMS_PER_PAGE_OPTIONS } from '../../../constants/pagination';
+import { formatMinorAmount, fromMinorUnits } from '../../../utils/paymentUtils';
+import { toCsv, downloadCsv } from '../../../utils/csv';
+import { useClinicTimeZone } from '../../../context/ClinicTimeZoneContext';
+import { formatCalendarDate, formatClinicTime } from '../../../utils/dateTime';
+import type { CsvColumn } from '../../../utils/csv';
+import type { AdminPayment, AdminPaymentStatus } from '../../../types/payment.types';
+
+const CSV_COLUMNS: CsvColumn<AdminPayment>[] = [
+  { header: 'Created', value: payment => payment.created_at },
+  { header: 'Patient', value: payment => payment.patient_name },
+  { header: 'Email', value: payment => payment.patient_email },
+  { header: 'Appointment date', value: payment => payment.slot_date },
+  { header: 'Appointment time', value: payment => payment.slot_time },
+  { header: 'Amount', value: payment => fromMinorUnits(payment.amount).toFixed(2) },
+  { header: 'Refunded', value: payment => fromMinorUnits(payment.amount_refunded).toFixed(2) },
+  { header: 'Currency', value: payment => payment.currency },
+  { header: 'Pricing tier', value: payment => (payment.pricing_tier ? PRICING_TIER_LABELS[payment.pricing_tier] : '') },
+  { header: 'Gateway', value: payment => paymentService.getGatewayLabel(payment.gateway) },
+  { header: 'Method', value: payment => payment.method },
+  { header: 'Status', value: payment => PAYMENT_STATUS_LABELS[payment.status] || payment.status },
+  { header: 'Captured', value: payment => (payment.captured ? 'Yes' : 'No') },
+  { header: 'Order ID', value: payment => payment.order_id },
+  { header: 'Payment ID', value: payment => payment.payment_id },
+];
+
+const Payments: React.FC = () => {
+  const can = useCan();
+  const { showToast } = useToast();
+  const clinicTimeZone = useClinicTimeZone();
+  const [filters, setFilters] = useState<PaymentListFilters>({});
+  const [selectedPayment, setSelectedPayment] = useState<AdminPayment | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const {
+    payments,
+    loading,
+    isFetching,
+    error,
+    totalCount,
+    currentPage,
+    totalPages,
+    itemsPerPage,
+    setPage,
+    refund,
+    fetchAllForExport
+  } = usePayments(filters);
+
+  // Show the refreshed row after a refund
+  const drawerPayment = selectedPayment
+    ? payments.find(payment => payment.id === selectedPayment.id) || selectedPayment
+    : null;
+
+  const updateFilter = (changes: Partial<PaymentListFilters>) => {
+    setFilters(prev => {
+      const next = { ...prev, ...changes };
+      (Object.keys(next) as (keyof PaymentListFilters)[]).forEach(key => {
+        if (!next[key]) delete next[key];
+      });
+      return next;
+    });
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const rows = await fetchAllForExport();
+      const range = [filters.start_date, filters.end_date].filter(Boolean).join('_to_');
+      downloadCsv(`payments${range ? `_${range}` : ''}.csv`, toCsv(rows, CSV_COLUMNS));
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : 'Failed to export payments', 'error');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-[#F8F9FA]">
+      <Header />
+
+      <main className="w-full px-4 sm:px-6 lg:px-8 py-8">
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+          <div className="p-6 border-b border-gray-200">
+            <div className="flex flex-col lg:flex-row lg:items-end justify-between gap-4">
+              <div>
+                <h1 className="text-2xl font-bold text-gray-900">Payments</h1>
+                <p className="text-sm text-gray-500 mt-1">Orders, captures and refunds for booked consultations</p>
+              </div>
+
+              <div className="flex flex-wrap items-end gap-3">
+                <div>
+                  <label htmlFor="paymentsFrom" className="block text-xs font-medium text-gray-600 mb-1">From</label>
+                  <input
+                    id="paymentsFrom"
+                    type="date"
+                    value={filters.start_date || ''}
+                    max={filters.end_date}
+                    onChange={(e) => updateFilter({ start_date: e.target.value })}
+                    className="border border-gray-300 rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="paymentsTo" className="block text-xs font-medium text-gray-600 mb-1">To</label>
+                  <input
+                    id="paymentsTo"
+                    type="date"
+                    value={filters.end_date || ''}
+                    min={filters.start_date}
+                    onChange={(e) => updateFilter({ end_date: e.target.value })}
+                    className="border border-gray-300 rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="paymentsStatus" className="block text-xs font-medium text-gray-600 mb-1">Status</label>
+                  <select
+                    id="paymentsStatus"
+                    value={filters.status || ''}
+                    onChange={(e) => updateFilter({ status: (e.target.value || undefined) as AdminPaymentStatus | undefined })}
+                    className="border border-gray-300 rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    <option value="">All statuses</option>
+                    {(Object.keys(PAYMENT_STATUS_LABELS) as AdminPaymentStatus[]).map(status => (
+                      <option key={status} value={status}>{PAYMENT_STATUS_LABELS[status]}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label htmlFor="paymentsPerPage" className="block text-xs font-medium text-gray-600 mb-1">Show</label>
+                  <select
+                    id="paymentsPerPage"
+                    value={itemsPerPage}
+                    onChange={(e) => setPage(1, parseInt(e.target.value))}
+                    className="border border-gray-300 rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    {ITEMS_PER_PAGE_OPTIONS.map(option => (
+                      <option key={option} value={option}>{option}</option>
+                    ))}
+                  </select>
+                </div>
+                <button
+                  onClick={handleExport}
+                  disabled={isExporting || totalCount === 0}
+                  className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-[#28542F] rounded-md hover:bg-green-800 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <Download className="w-4 h-4" />
+                  {isExporting ? 'Exporting...' : 'Export CSV'}
+                </button>
+              </div>
+            </div>
+          </div>
+
+          {error && (
+            <div className="mx-6 mt-4 bg-red-50 border border-red-200 rounded-md p-4 text-sm text-red-700">
+              {error}
+            </div>
+          )}
+
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  {['Date', 'Patient', 'Appointment', 'Amount', 'Currency', 'Method', 'Status', 'Captured'].map(heading => (
+                    <th key={heading} className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      {heading}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className={`bg-white divide-y divide-gray-200 ${isFetching && !loading ? 'opacity-50' : ''}`}>
+                {loading ? (
+                  [...Array(5)].map((_, i) => (
+                    <tr key={i}>
+                      <td colSpan={8} className="px-6 py-4">
+                        <div className="h-4 bg-gray-100 rounded animate-pulse"></div>
+                      </td>
+                    </tr>
+                  ))
+                ) : payments.length === 0 ? (
+                  <tr>
+                    <td colSpan={8} className="px-6 py-12 text-center text-gray-500">
+                      No payments found for these filters.
+                    </td>
+                  </tr>
+                ) : (
+                  payments.map(payment => (
+                    <tr
+                      key={payment.id}
+                      onClick={() => setSelectedPayment(payment)}
+                      className="hover:bg-gray-50 cursor-pointer transition-colors"
+                    >
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {new Date(payment.created_at).toLocaleDateString()}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="text-sm font-medium text-gray-900">{payment.patient_name || 'Unknown patient'}</div>
+                        {payment.patient_email && <div className="text-xs text-gray-500">{payment.patient_email}</div>}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {payment.slot_date ? `${formatCalendarDate(payment.slot_date)} ${payment.slot_time ? formatClinicTime(payment.slot_time, clinicTimeZone) : ''}` : '—'}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                        {formatMinorAmount(payment.amount, payment.currency)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{payment.currency}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {payment.method || paymentService.getGatewayLabel(payment.gateway)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <PaymentStatusBadge status={payment.status} />
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        {payment.captured ? (
+                          <Check className="w-4 h-4 text-green-600" aria-label="Captured" />
+                        ) : (
+                          <Minus className="w-4 h-4 text-gray-400" aria-label="Not captured" />
+                        )}
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+
+          <AppointmentPagination
+            currentPage={currentPage}
+            totalPages={totalPages}
+            totalCount={totalCount}
+            itemsPerPage={itemsPerPage}
+            onPageChange={page => setPage(page)}
+          />
+        </div>
+
+        {drawerPayment && (
+          <PaymentDetailsDrawer
+            key={drawerPayment.id}
+            payment={drawerPayment}
+            canRefund={can('payments:refund')}
+            onRefund={refund}
+            onClose={() => setSelectedPayment(null)}
+          />
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default Payments;
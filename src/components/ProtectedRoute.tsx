@@ -2,13 +2,18 @@
 import React from 'react';
 import { Navigate } from 'react-router-dom';
 import { useAuth } from '../context/AuthContext';
+import { useCan } from '../hooks/useCan';
+import ForbiddenPage from '../pages/Errors/ForbiddenPage';
+import type { Permission } from '../types/auth.types';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
+  requiredPermissions?: Permission[];
 }
 
-const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children }) => {
+const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children, requiredPermissions = [] }) => {
   const { isAuthenticated, isInitialized, isLoading } = useAuth();
+  const can = useCan();
 
   // Show loading spinner while checking authentication state
   if (!isInitialized || isLoading) {
@@ -27,6 +32,11 @@ const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children }) => {
     return <Navigate to="/login" replace />;
   }
 
+  // Signed in but the role is not allowed here
+  if (!can(requiredPermissions)) {
+    return <ForbiddenPage />;
+  }
+
   return <>{children}</>;
 };
 
@@ -1,16 +1,18 @@
 // components/Registrations/RegistrationWizard.tsx
 
 import React from 'react';
+import { Link } from 'react-router-dom';
 import { useRegistration } from '../../context/RegistrationContext';
 import FormLayout from './common/FormLayout';
 import StepIndicator from './common/StepIndicator';
+import ResumeBookingPrompt from './common/ResumeBookingPrompt';
 import PersonalInfoForm from './forms/PersonalInfoForm';
 import MedicalHistoryForm from './forms/MedicalHistoryForm';
 import AdditionalDetailsForm from './forms/AdditionalDetailsForm';
 import AppointmentScheduleForm from './forms/AppointmentScheduleForm';
 
 const RegistrationWizard: React.FC = () => {
-  const { state } = useRegistration();
+  const { state, pendingDraft, resumeDraft, discardDraft } = useRegistration();
 
   const steps = [
     {
@@ -42,7 +44,12 @@ const RegistrationWizard: React.FC = () => {
     <div className="min-h-screen bg-gray-600 py-8 px-4">
       <div className="max-w-4xl mx-auto">
         <div className="mb-8">
-          <h1 className="text-3xl font-bold text-white mb-6">Booking Form</h1>
+          <div className="flex items-center justify-between mb-6">
+            <h1 className="text-3xl font-bold text-white">Booking Form</h1>
+            <Link to="/manage-booking" className="text-sm font-medium text-white hover:underline">
+              Manage an existing booking
+            </Link>
+          </div>
           <StepIndicator 
             steps={steps} 
             currentStep={state.currentStep} 
@@ -50,7 +57,16 @@ const RegistrationWizard: React.FC = () => {
         </div>
 
         <FormLayout>
-          {CurrentStepComponent && <CurrentStepComponent />}
+          {pendingDraft ? (
+            <ResumeBookingPrompt
+              draft={pendingDraft}
+              stepTitle={steps.find(step => step.id === pendingDraft.currentStep)?.title}
+              onResume={resumeDraft}
+              onDiscard={discardDraft}
+            />
+          ) : (
+            CurrentStepComponent && <CurrentStepComponent />
+          )}
         </FormLayout>
       </div>
     </div>
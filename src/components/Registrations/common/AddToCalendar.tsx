@@ -0,0 +1,45 @@
+// components/Registrations/common/AddToCalendar.tsx
+
+import React from 'react';
+import { CalendarPlus, ExternalLink } from 'lucide-react';
+import { downloadBlob } from '../../../utils/download';
+import {
+  buildIcs,
+  getGoogleCalendarUrl,
+  getIcsFileName,
+  getOutlookCalendarUrl
+} from '../../../utils/calendarInvite';
+import type { CalendarEvent } from '../../../types/calendar.types';
+
+interface AddToCalendarProps {
+  event: CalendarEvent;
+}
+
+const linkClassName =
+  'inline-flex items-center gap-2 px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50';
+
+// Invites are generated in the browser; nothing is sent to the calendar providers until the patient saves
+const AddToCalendar: React.FC<AddToCalendarProps> = ({ event }) => {
+  const handleDownload = () => {
+    downloadBlob(getIcsFileName(event), new Blob([buildIcs(event)], { type: 'text/calendar;charset=utf-8' }));
+  };
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      <button onClick={handleDownload} className={linkClassName}>
+        <CalendarPlus className="w-4 h-4" />
+        Download invite (.ics)
+      </button>
+      <a href={getGoogleCalendarUrl(event)} target="_blank" rel="noopener noreferrer" className={linkClassName}>
+        <ExternalLink className="w-4 h-4" />
+        Google Calendar
+      </a>
+      <a href={getOutlookCalendarUrl(event)} target="_blank" rel="noopener noreferrer" className={linkClassName}>
+        <ExternalLink className="w-4 h-4" />
+        Outlook
+      </a>
+    </div>
+  );
+};
+
+export default AddToCalendar;
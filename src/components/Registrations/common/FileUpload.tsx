@@ -2,11 +2,14 @@
 
 import React, { useRef, useState } from 'react';
 import { Upload, X, FileText, Image } from 'lucide-react';
+import { formatFileRulesHint, getFileError } from '../../../utils/validation';
+import type { FileRules } from '../../../utils/validation';
 
 interface FileUploadProps {
+  id?: string;
   label: string;
-  accept: string;
-  maxSize: number; // in MB
+  rules: FileRules;
+  error?: string;
   files: File[];
   onFilesChange: (files: File[]) => void;
   multiple?: boolean;
@@ -14,9 +17,10 @@ interface FileUploadProps {
 }
 
 const FileUpload: React.FC<FileUploadProps> = ({
+  id,
   label,
-  accept,
-  maxSize,
+  rules,
+  error,
   files,
   onFilesChange,
   multiple = true,
@@ -24,6 +28,7 @@ const FileUpload: React.FC<FileUploadProps> = ({
 }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [dragActive, setDragActive] = useState(false);
+  const [rejectionError, setRejectionError] = useState<string | null>(null);
 
   const handleDrag = (e: React.DragEvent) => {
     e.preventDefault();
@@ -52,24 +57,29 @@ const FileUpload: React.FC<FileUploadProps> = ({
   };
 
   const handleFiles = (newFiles: File[]) => {
+    const rejections: string[] = [];
     const validFiles = newFiles.filter(file => {
-      // Size validation
-      if (file.size > maxSize * 1024 * 1024) {
-        alert(`File ${file.name} is too large. Maximum size is ${maxSize}MB.`);
-        return false;
-      }
-      return true;
+      const fileError = getFileError(file, rules);
+      if (fileError) rejections.push(fileError);
+      return !fileError;
     });
 
     if (multiple) {
-      onFilesChange([...files, ...validFiles]);
+      const roomLeft = Math.max(rules.maxCount - files.length, 0);
+      if (validFiles.length > roomLeft) {
+        rejections.push(`You can attach up to ${rules.maxCount} files`);
+      }
+      onFilesChange([...files, ...validFiles.slice(0, roomLeft)]);
     } else {
       onFilesChange(validFiles.slice(0, 1));
     }
+
+    setRejectionError(rejections.length > 0 ? rejections.join('. ') : null);
   };
 
   const removeFile = (index: number) => {
     const newFiles = files.filter((_, i) => i !== index);
+    setRejectionError(null);
     onFilesChange(newFiles);
   };
 
@@ -77,6 +87,15 @@ const FileUpload: React.FC<FileUploadProps> = ({
     fileInputRef.current?.click();
   };
 
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' || e.key === ' ') {
+      e.preventDefault();
+      openFileDialog();
+    }
+  };
+
+  const displayError = rejectionError || error;
+
   const formatFileSize = (bytes: number) => {
     if (bytes === 0) return '0 Bytes';
     const k = 1024;
@@ -98,22 +117,30 @@ const FileUpload: React.FC<FileUploadProps> = ({
         {label} <span className="text-gray-500 font-normal">(Add images and PDF or JPG)</span>
       </label>
       
+      {/* Focusable so schema validation can move focus here */}
       <div
-        className={`relative border-2 border-dashed rounded-lg p-6 text-center cursor-pointer transition-colors ${
+        id={id}
+        role="button"
+        tabIndex={0}
+        aria-invalid={Boolean(displayError)}
+        className={`relative border-2 border-dashed rounded-lg p-6 text-center cursor-pointer transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 ${
           dragActive
             ? 'border-blue-400 bg-blue-50'
-            : 'border-gray-300 hover:border-gray-400'
+            : displayError
+              ? 'border-red-400'
+              : 'border-gray-300 hover:border-gray-400'
         }`}
         onDragEnter={handleDrag}
         onDragLeave={handleDrag}
         onDragOver={handleDrag}
         onDrop={handleDrop}
         onClick={openFileDialog}
+        onKeyDown={handleKeyDown}
       >
         <input
           ref={fileInputRef}
           type="file"
-          accept={accept}
+          accept={rules.accept.join(',')}
           multiple={multiple}
           onChange={handleChange}
           className="hidden"
@@ -124,10 +151,14 @@ const FileUpload: React.FC<FileUploadProps> = ({
           {placeholder}
         </p>
         <p className="text-xs text-gray-500 mt-1">
-          Max size {maxSize}MB
+          {formatFileRulesHint(rules)}
         </p>
       </div>
 
+      {displayError && (
+        <p className="text-sm text-red-600">{displayError}</p>
+      )}
+
       {/* File List */}
       {files.length > 0 && (
         <div className="space-y-2">
@@ -0,0 +1,105 @@
+// components/Registrations/common/PaymentRecoveryPanel.tsx
+
+import React from 'react';
+import { AlertCircle, Clock, CreditCard } from 'lucide-react';
+
+// dismissed: checkout closed before paying, failed: bank/verification failure,
+// pending: paid but not yet captured, reconciling: status check in flight
+export type PaymentIssue = 'dismissed' | 'failed' | 'pending' | 'reconciling';
+
+interface PaymentRecoveryPanelProps {
+  issue: PaymentIssue;
+  amountLabel: string;
+  slotLabel: string;
+  isBusy: boolean;
+  onRetry: () => void;
+  onCheckAgain: () => void;
+  onChangeSlot: () => void;
+}
+
+const PaymentRecoveryPanel: React.FC<PaymentRecoveryPanelProps> = ({
+  issue,
+  amountLabel,
+  slotLabel,
+  isBusy,
+  onRetry,
+  onCheckAgain,
+  onChangeSlot
+}) => {
+  if (issue === 'reconciling') {
+    return (
+      <div className="text-center py-10">
+        <div className="animate-spin rounded-full h-10 w-10 border-4 border-blue-600 border-t-transparent mx-auto mb-4"></div>
+        <h2 className="text-xl font-semibold text-gray-800 mb-2">Confirming your payment</h2>
+        <p className="text-sm text-gray-600">Please keep this page open, this usually takes a few seconds.</p>
+      </div>
+    );
+  }
+
+  if (issue === 'pending') {
+    return (
+      <div className="text-center py-8">
+        <div className="mx-auto mb-4 flex h-12 w-12 items-center justify-center rounded-full bg-yellow-50">
+          <Clock className="h-6 w-6 text-yellow-600" />
+        </div>
+        <h2 className="text-xl font-semibold text-gray-800 mb-2">Still confirming your booking</h2>
+        <p className="text-sm text-gray-600 mb-1">
+          Your payment of {amountLabel} for {slotLabel} has not been fully confirmed yet.
+        </p>
+        <p className="text-sm text-gray-600 mb-6">
+          Please do not pay again. Your booking will be completed as soon as the payment is confirmed.
+        </p>
+        <button
+          type="button"
+          onClick={onCheckAgain}
+          disabled={isBusy}
+          className="px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {isBusy ? 'Checking...' : 'Check again'}
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="text-center py-8">
+      <div className="mx-auto mb-4 flex h-12 w-12 items-center justify-center rounded-full bg-red-50">
+        {issue === 'failed' ? (
+          <AlertCircle className="h-6 w-6 text-red-600" />
+        ) : (
+          <CreditCard className="h-6 w-6 text-red-600" />
+        )}
+      </div>
+      <h2 className="text-xl font-semibold text-gray-800 mb-2">
+        {issue === 'failed' ? 'Payment failed' : 'Payment not completed'}
+      </h2>
+      <p className="text-sm text-gray-600 mb-6">
+        {issue === 'failed'
+          ? `We could not take the payment of ${amountLabel}. No appointment has been booked.`
+          : `The payment window was closed before paying ${amountLabel}.`}{' '}
+        You can retry the same payment for {slotLabel}, or choose a different time.
+      </p>
+
+      <div className="flex justify-center space-x-3">
+        <button
+          type="button"
+          onClick={onChangeSlot}
+          disabled={isBusy}
+          className="px-4 py-2 text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors disabled:opacity-50"
+        >
+          Choose another time
+        </button>
+        <button
+          type="button"
+          onClick={onRetry}
+          disabled={isBusy}
+          className="px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {isBusy ? 'Opening payment...' : 'Retry payment'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PaymentRecoveryPanel;
@@ -0,0 +1,71 @@
+// components/Registrations/common/ResumeBookingPrompt.tsx
+
+import React, { useState } from 'react';
+import { History } from 'lucide-react';
+import type { BookingDraftSummary } from '../../../types/registration';
+
+interface ResumeBookingPromptProps {
+  draft: BookingDraftSummary;
+  stepTitle?: string;
+  onResume: () => Promise<void>;
+  onDiscard: () => void;
+}
+
+const formatSavedAt = (timestamp: number): string =>
+  new Date(timestamp).toLocaleTimeString('en-IN', { hour: 'numeric', minute: '2-digit' });
+
+const ResumeBookingPrompt: React.FC<ResumeBookingPromptProps> = ({
+  draft,
+  stepTitle,
+  onResume,
+  onDiscard
+}) => {
+  const [isResuming, setIsResuming] = useState(false);
+
+  const handleResume = async () => {
+    setIsResuming(true);
+    try {
+      await onResume();
+    } finally {
+      setIsResuming(false);
+    }
+  };
+
+  return (
+    <div className="text-center py-6">
+      <div className="mx-auto mb-4 flex h-12 w-12 items-center justify-center rounded-full bg-blue-50">
+        <History className="h-6 w-6 text-blue-600" />
+      </div>
+      <h2 className="text-xl font-semibold text-gray-800 mb-2">Resume your booking?</h2>
+      <p className="text-sm text-gray-600 mb-1">
+        {draft.patientName ? `A booking for ${draft.patientName}` : 'An unfinished booking'} was saved on this
+        device at {formatSavedAt(draft.savedAt)}
+        {stepTitle ? `, at the "${stepTitle}" step` : ''}.
+      </p>
+      <p className="text-xs text-gray-500 mb-6">
+        For privacy, saved bookings are removed automatically at {formatSavedAt(draft.expiresAt)}.
+      </p>
+
+      <div className="flex justify-center space-x-3">
+        <button
+          type="button"
+          onClick={onDiscard}
+          disabled={isResuming}
+          className="px-4 py-2 text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors disabled:opacity-50"
+        >
+          Start over
+        </button>
+        <button
+          type="button"
+          onClick={handleResume}
+          disabled={isResuming}
+          className="px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {isResuming ? 'Restoring...' : 'Resume booking'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ResumeBookingPrompt;
@@ -0,0 +1,198 @@
+// components/Registrations/common/ReturningPatientLookup.tsx
+
+import React, { useState } from 'react';
+import { Mail, Phone } from 'lucide-react';
+import { registrationApi } from '../../../services/registrationApi';
+import { email, phone } from '../../../utils/validation';
+import type {
+  LookupChannel,
+  ReturningPatientCodeResponse,
+  ReturningPatientVerifyResponse
+} from '../../../types/registration';
+
+interface ReturningPatientLookupProps {
+  onVerified: (result: ReturningPatientVerifyResponse) => void;
+  onCancel: () => void;
+}
+
+const validateIdentifier = (channel: LookupChannel, identifier: string): string | undefined => {
+  if (!identifier.trim()) {
+    return channel === 'phone' ? 'Phone is required' : 'Email is required';
+  }
+  return channel === 'phone' ? phone()(identifier, {}) : email()(identifier, {});
+};
+
+const ReturningPatientLookup: React.FC<ReturningPatientLookupProps> = ({ onVerified, onCancel }) => {
+  const [channel, setChannel] = useState<LookupChannel>('phone');
+  const [identifier, setIdentifier] = useState('');
+  const [verification, setVerification] = useState<ReturningPatientCodeResponse | null>(null);
+  const [code, setCode] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleChannelChange = (next: LookupChannel) => {
+    setChannel(next);
+    setIdentifier('');
+    setError(null);
+  };
+
+  const handleSendCode = async (e?: React.FormEvent) => {
+    e?.preventDefault();
+
+    const identifierError = validateIdentifier(channel, identifier);
+    if (identifierError) {
+      setError(identifierError);
+      return;
+    }
+
+    setError(null);
+    setIsSubmitting(true);
+    try {
+      const response = await registrationApi.requestReturningPatientCode({
+        channel,
+        identifier: identifier.trim()
+      });
+      setVerification(response);
+      setCode('');
+    } catch (err) {
+      // Server messages could say whether the details belong to a patient, so none are shown
+      console.error('Failed to send the verification code:', err);
+      setError('Failed to send the verification code. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!verification) return;
+
+    setError(null);
+    setIsSubmitting(true);
+    try {
+      const result = await registrationApi.verifyReturningPatientCode(
+        verification.verification_id,
+        code.replace(/\s/g, '')
+      );
+      onVerified(result);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Invalid verification code');
+      setCode('');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleChangeDetails = () => {
+    setVerification(null);
+    setCode('');
+    setError(null);
+  };
+
+  return (
+    <div className="rounded-lg border border-blue-200 bg-blue-50 p-4">
+      <h3 className="text-base font-semibold text-gray-800 mb-1">Welcome back</h3>
+
+      {verification ? (
+        <form onSubmit={handleVerify} className="space-y-3">
+          <p className="text-sm text-gray-600">
+            If we have a booking for <span className="font-medium text-gray-900">{identifier.trim()}</span>, we've sent a code to it.
+            It expires in {Math.ceil(verification.expires_in / 60)} minutes.
+          </p>
+          <input
+            id="lookupCode"
+            type="text"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            maxLength={7}
+            placeholder="000000"
+            className="w-full max-w-xs px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent tracking-widest"
+            autoFocus
+          />
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <div className="flex flex-wrap items-center gap-3">
+            <button
+              type="submit"
+              disabled={isSubmitting || !code.trim()}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {isSubmitting ? 'Verifying...' : 'Verify'}
+            </button>
+            <button
+              type="button"
+              onClick={() => handleSendCode()}
+              disabled={isSubmitting}
+              className="text-sm font-medium text-blue-600 hover:text-blue-700 disabled:opacity-50"
+            >
+              Resend code
+            </button>
+            <button
+              type="button"
+              onClick={handleChangeDetails}
+              disabled={isSubmitting}
+              className="text-sm font-medium text-gray-600 hover:text-gray-800 disabled:opacity-50"
+            >
+              Use different details
+            </button>
+          </div>
+        </form>
+      ) : (
+        <form onSubmit={handleSendCode} className="space-y-3">
+          <p className="text-sm text-gray-600">
+            Find your details using the phone number or email you booked with. We will send you a one-time code.
+          </p>
+          <div className="flex gap-2">
+            {(['phone', 'email'] as LookupChannel[]).map(option => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => handleChannelChange(option)}
+                className={`flex items-center gap-2 px-3 py-1.5 text-sm rounded-md border transition-colors ${
+                  channel === option
+                    ? 'border-blue-600 bg-white text-blue-700'
+                    : 'border-gray-300 bg-white text-gray-600 hover:bg-gray-50'
+                }`}
+              >
+                {option === 'phone' ? <Phone className="w-4 h-4" /> : <Mail className="w-4 h-4" />}
+                {option === 'phone' ? 'Phone' : 'Email'}
+              </button>
+            ))}
+          </div>
+          <input
+            id="lookupIdentifier"
+            type={channel === 'phone' ? 'tel' : 'email'}
+            value={identifier}
+            onChange={(e) => setIdentifier(e.target.value)}
+            autoComplete={channel === 'phone' ? 'tel' : 'email'}
+            placeholder={channel === 'phone' ? 'e.g. +91 98765 43210' : 'Enter your email address'}
+            className={`w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+              error ? 'border-red-500' : 'border-gray-300'
+            }`}
+          />
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <div className="flex items-center gap-3">
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {isSubmitting ? 'Sending...' : 'Send code'}
+            </button>
+            <button
+              type="button"
+              onClick={onCancel}
+              disabled={isSubmitting}
+              className="text-sm font-medium text-gray-600 hover:text-gray-800 disabled:opacity-50"
+            >
+              I'm a new patient
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default ReturningPatientLookup;
@@ -0,0 +1,91 @@
+// components/Registrations/common/SlotHoldNotice.tsx
+
+import React from 'react';
+import { AlertTriangle, Timer } from 'lucide-react';
+import { SLOT_HOLD_WARNING_MS } from '../../../constants/booking';
+import type { SlotHoldStatus } from '../../../hooks/useSlotHold';
+
+interface SlotHoldNoticeProps {
+  status: SlotHoldStatus;
+  remainingMs: number;
+  slotTime: string;
+  lostAfterPayment?: boolean;
+  onHoldAgain: () => void;
+}
+
+const formatCountdown = (ms: number): string => {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+const SlotHoldNotice: React.FC<SlotHoldNoticeProps> = ({
+  status,
+  remainingMs,
+  slotTime,
+  lostAfterPayment = false,
+  onHoldAgain
+}) => {
+  if (status === 'acquiring') {
+    return (
+      <div className="flex items-center text-sm text-gray-600">
+        <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-500 mr-2"></div>
+        Holding this slot for you...
+      </div>
+    );
+  }
+
+  if (status === 'held') {
+    const isUrgent = remainingMs <= SLOT_HOLD_WARNING_MS;
+    return (
+      <div
+        className={`flex items-center gap-2 p-3 rounded-lg text-sm ${
+          isUrgent ? 'bg-red-50 text-red-700' : 'bg-green-50 text-green-800'
+        }`}
+        role="timer"
+        aria-live={isUrgent ? 'polite' : 'off'}
+      >
+        <Timer className="w-4 h-4" />
+        <span>
+          {slotTime} is held for you for <strong>{formatCountdown(remainingMs)}</strong>. Complete payment before it runs out.
+        </span>
+      </div>
+    );
+  }
+
+  if (status === 'expired') {
+    return (
+      <div className="flex items-center justify-between gap-4 p-3 rounded-lg bg-yellow-50 text-sm text-yellow-800" role="alert">
+        <div className="flex items-center gap-2">
+          <AlertTriangle className="w-4 h-4" />
+          <span>Your hold on {slotTime} has expired and the slot may be booked by someone else.</span>
+        </div>
+        <button
+          type="button"
+          onClick={onHoldAgain}
+          className="px-3 py-1.5 bg-white border border-yellow-300 rounded-md font-medium hover:bg-yellow-100 whitespace-nowrap transition-colors"
+        >
+          Hold again
+        </button>
+      </div>
+    );
+  }
+
+  if (status === 'lost') {
+    return (
+      <div className="flex items-start gap-2 p-3 rounded-lg bg-red-50 text-sm text-red-700" role="alert">
+        <AlertTriangle className="w-4 h-4 mt-0.5" />
+        <span>
+          {lostAfterPayment
+            ? 'The slot you paid for was taken before your booking could be confirmed. Your payment is kept: pick another time below and it will be booked without paying again.'
+            : 'Sorry, that slot has just been taken. The available times below have been refreshed, please pick another one.'}
+        </span>
+      </div>
+    );
+  }
+
+  return null;
+};
+
+export default SlotHoldNotice;
@@ -0,0 +1,134 @@
+// components/Registrations/common/SlotPicker.tsx
+
+import React, { useEffect, useState } from 'react';
+import { Calendar, Clock } from 'lucide-react';
+import { registrationApi } from '../../../services/registrationApi';
+import { isAbortError } from '../../../services/httpClient';
+import { useClinicTimeZoneContext } from '../../../context/ClinicTimeZoneContext';
+import { getScheduleTimeZone, parseAvailableSlots } from '../../../utils/slotUtils';
+import { getClinicToday, getTimeZoneLabel, isViewerInClinicTimeZone } from '../../../utils/dateTime';
+import SlotTimeLabel from './SlotTimeLabel';
+import type { TimeSlot } from '../../../types/registration';
+
+interface SlotPickerProps {
+  patientId: string;
+  isAlreadyRegistered: boolean;
+  selectedDate: string;
+  selectedSlot: TimeSlot | null;
+  onDateChange: (date: string) => void;
+  onSlotChange: (slot: TimeSlot) => void;
+  minDate?: string; // YYYY-MM-DD, defaults to today
+  consultationType?: string;
+  durationMinutes?: number; // Length of the consultation being booked
+}
+
+// Date and free-slot selection against the patient's available schedule
+const SlotPicker: React.FC<SlotPickerProps> = ({
+  patientId,
+  isAlreadyRegistered,
+  selectedDate,
+  selectedSlot,
+  onDateChange,
+  onSlotChange,
+  minDate,
+  consultationType,
+  durationMinutes
+}) => {
+  const [slots, setSlots] = useState<TimeSlot[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { timeZone: clinicTimeZone, reportTimeZone } = useClinicTimeZoneContext();
+
+  useEffect(() => {
+    if (!selectedDate) {
+      setSlots([]);
+      return;
+    }
+
+    const controller = new AbortController();
+    setIsLoading(true);
+    setError(null);
+
+    registrationApi
+      .getAvailableSchedule(patientId, selectedDate, isAlreadyRegistered, { consultationType, durationMinutes, signal: controller.signal })
+      .then(response => {
+        reportTimeZone(getScheduleTimeZone(response));
+        setSlots(parseAvailableSlots(response, durationMinutes));
+      })
+      .catch(err => {
+        if (isAbortError(err)) return;
+        console.error('Failed to fetch available slots:', err);
+        setSlots([]);
+        setError('Failed to load available slots.');
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsLoading(false);
+      });
+
+    return () => controller.abort();
+  }, [patientId, isAlreadyRegistered, selectedDate, consultationType, durationMinutes, reportTimeZone]);
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label htmlFor="slotPickerDate" className="block text-sm font-medium text-gray-700 mb-2">
+          Select Date
+        </label>
+        <div className="relative">
+          <Calendar className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+          <input
+            type="date"
+            id="slotPickerDate"
+            value={selectedDate}
+            onChange={(e) => onDateChange(e.target.value)}
+            min={minDate || getClinicToday(clinicTimeZone)}
+            className="w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+        </div>
+      </div>
+
+      {selectedDate && (
+        <div>
+          <p className="block text-sm font-medium text-gray-700 mb-3">
+            <Clock className="inline w-4 h-4 mr-1" />
+            Select Available Slots
+          </p>
+          {!isViewerInClinicTimeZone(clinicTimeZone) && (
+            <p className="-mt-2 mb-3 text-xs text-gray-500">
+              Times are shown in your time zone ({getTimeZoneLabel()}).
+            </p>
+          )}
+          {isLoading ? (
+            <div className="text-sm text-gray-500">Loading available slots...</div>
+          ) : error ? (
+            <p className="text-sm text-red-600">{error}</p>
+          ) : slots.length === 0 ? (
+            <p className="text-sm text-gray-500">No slots are free on this date. Please try another day.</p>
+          ) : (
+            <div className="grid grid-cols-2 gap-3">
+              {slots.map((slot) => (
+                <button
+                  key={slot.id}
+                  type="button"
+                  disabled={!slot.available}
+                  onClick={() => onSlotChange(slot)}
+                  className={`p-3 rounded-lg border text-sm font-medium transition-colors ${
+                    selectedSlot?.id === slot.id
+                      ? 'bg-blue-600 text-white border-blue-600'
+                      : slot.available
+                      ? 'bg-white text-gray-700 border-gray-300 hover:border-blue-300 hover:bg-blue-50'
+                      : 'bg-gray-100 text-gray-400 border-gray-200 cursor-not-allowed'
+                  }`}
+                >
+                  <SlotTimeLabel slotDate={selectedDate} slotTime={slot.time} />
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SlotPicker;
@@ -0,0 +1,27 @@
+// components/Registrations/common/SlotTimeLabel.tsx
+
+import React from 'react';
+import { useClinicTimeZone } from '../../../context/ClinicTimeZoneContext';
+import { formatClinicTime, formatSlotTime, getSlotInterval, isViewerInClinicTimeZone } from '../../../utils/dateTime';
+
+interface SlotTimeLabelProps {
+  slotDate: string;
+  slotTime: string; // "HH:MM-HH:MM" in clinic time
+}
+
+// Slot button text: the viewer's own time first, clinic time underneath when it differs
+const SlotTimeLabel: React.FC<SlotTimeLabelProps> = ({ slotDate, slotTime }) => {
+  const clinicTimeZone = useClinicTimeZone();
+  const showClinicTime = !isViewerInClinicTimeZone(clinicTimeZone, getSlotInterval(slotDate, slotTime, clinicTimeZone).start);
+
+  return (
+    <span className="flex flex-col items-start text-left">
+      <span>{formatSlotTime(slotDate, slotTime, clinicTimeZone)}</span>
+      {showClinicTime && (
+        <span className="text-xs font-normal opacity-75">{formatClinicTime(slotTime)} clinic time</span>
+      )}
+    </span>
+  );
+};
+
+export default SlotTimeLabel;
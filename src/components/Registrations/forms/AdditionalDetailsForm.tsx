@@ -4,6 +4,7 @@ import React from 'react';
 import { useRegistration } from '../../../context/RegistrationContext';
 import FormButtons from '../common/FormButtons';
 import FileUpload from '../common/FileUpload';
+import { ADDITIONAL_FILE_RULES } from '../../../utils/registrationSchemas';
 
 const AdditionalDetailsForm: React.FC = () => {
   const { state, updateAdditionalDetails, nextStep, prevStep } = useRegistration();
@@ -18,7 +19,6 @@ const AdditionalDetailsForm: React.FC = () => {
   };
 
   const handleNext = () => {
-    // Add validation logic here
     nextStep();
   };
 
@@ -41,16 +41,22 @@ const AdditionalDetailsForm: React.FC = () => {
             value={additionalDetails.additionalNotes}
             onChange={(e) => handleInputChange('additionalNotes', e.target.value)}
             rows={4}
-            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
+            className={`w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none ${
+              state.errors.additionalNotes ? 'border-red-500' : 'border-gray-300'
+            }`}
             placeholder="Any additional information you'd like to share (allergies, medications, special requirements, etc.)"
           />
+          {state.errors.additionalNotes && (
+            <p className="mt-1 text-sm text-red-600">{state.errors.additionalNotes}</p>
+          )}
         </div>
 
         {/* Additional Attachments */}
         <FileUpload
+          id="additionalAttachments"
           label="Additional Attachments"
-          accept=".pdf,.jpg,.jpeg,.png,.doc,.docx"
-          maxSize={10}
+          rules={ADDITIONAL_FILE_RULES}
+          error={state.errors.additionalAttachments}
           files={additionalDetails.additionalAttachments}
           onFilesChange={(files) => handleFileChange('additionalAttachments', files)}
           placeholder="Drop your file here, or Browse"
@@ -1,138 +1,404 @@
 // components/Registrations/forms/AppointmentScheduleForm.tsx
 
-import React, { useState, useEffect } from 'react';
-import { Calendar, Clock } from 'lucide-react';
+import React, { useState, useEffect, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { AlertTriangle, Calendar, Clock } from 'lucide-react';
 import { useRegistration } from '../../../context/RegistrationContext';
 import FormButtons from '../common/FormButtons';
 import { registrationApi } from '../../../services/registrationApi';
-import type { TimeSlot } from '../../../types/registration';
+import type { BookAppointmentResponse, ConsultationOption } from '../../../types/registration';
 import { paymentService } from '../../../services/paymentService';
+import type { PaymentGatewayId, PaymentResult, PendingCheckout } from '../../../types/payment.types';
 import { useToast } from '../../../context/ToastContext';
+import { useClinicTimeZoneContext } from '../../../context/ClinicTimeZoneContext';
 import { currencyService } from '../../../services/currencyService';
+import { BASE_CURRENCY } from '../../../constants/currency';
+import type { ExchangeRateQuote } from '../../../types/currency.types';
+import { resolveInitialCurrency, resolvePricingTier } from '../../../utils/pricingUtils';
+import { useSlotHold, isSlotUnavailableError } from '../../../hooks/useSlotHold';
+import SlotHoldNotice from '../common/SlotHoldNotice';
+import PaymentRecoveryPanel from '../common/PaymentRecoveryPanel';
+import { invoiceService } from '../../../services/invoice.service';
+import { bookingConfirmationService } from '../../../services/bookingConfirmation.service';
+import { buildInvoice } from '../../../utils/invoiceUtils';
+import type { Invoice } from '../../../types/invoice.types';
+import type { PaymentIssue } from '../common/PaymentRecoveryPanel';
+import { getScheduleTimeZone, parseAvailableSlots } from '../../../utils/slotUtils';
+import { isBuiltInConsultationType } from '../../../utils/consultationTypes';
+import { FOLLOW_UP_CONSULTATION_KEY } from '../../../constants/booking';
+import { bookingIdempotencyKey, keepCheckoutAfterLostSlot, moveCheckoutToSlot } from '../../../utils/checkoutUtils';
+import { formatSlotForViewer, formatSlotTime, getClinicToday, getTimeZoneLabel, isViewerInClinicTimeZone } from '../../../utils/dateTime';
+import SlotTimeLabel from '../common/SlotTimeLabel';
 
 const AppointmentScheduleForm: React.FC = () => {
-  const { state, updateAppointmentSchedule, prevStep, resetForm, goToStep } = useRegistration();
+  const { state, updatePersonalInfo, updateAppointmentSchedule, prevStep, resetForm, validateCurrentStep } = useRegistration();
+  const navigate = useNavigate();
   const { appointmentSchedule, personalInfo } = state.formData;
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [loadingSlots, setLoadingSlots] = useState(false);
   const [isRedirecting, setIsRedirecting] = useState(false);
+  const [lostAfterPayment, setLostAfterPayment] = useState(false);
+  const [checkout, setCheckout] = useState<PendingCheckout | null>(null);
+  const [paymentIssue, setPaymentIssue] = useState<PaymentIssue | null>(null);
+  const [gatewayId, setGatewayId] = useState<PaymentGatewayId>(paymentService.defaultGateway.id);
   const { showToast } = useToast();
-
-  const [selectedCurrency, setSelectedCurrency] = useState('INR');
+  const { timeZone: clinicTimeZone, reportTimeZone } = useClinicTimeZoneContext();
+  const {
+    hold,
+    status: holdStatus,
+    remainingMs: holdRemainingMs,
+    acquireHold,
+    releaseHold,
+    markLost,
+    consumeHold
+  } = useSlotHold();
+
+  const [selectedCurrency, setSelectedCurrency] = useState(BASE_CURRENCY);
   const [convertedAmount, setConvertedAmount] = useState<number | null>(null);
   const [isConverting, setIsConverting] = useState(false);
-  const [currentRate, setCurrentRate] = useState<number | null>(null);
-
-  const currencies = [
-    { code: 'INR', name: 'Indian Rupee (₹)' },
-    { code: 'USD', name: 'US Dollar ($)' },
-    { code: 'EUR', name: 'Euro (€)' },
-    { code: 'GBP', name: 'British Pound (£)' },
-    { code: 'CAD', name: 'Canadian Dollar (C$)' },
-    { code: 'AUD', name: 'Australian Dollar (A$)' },
-  ];
-
-  const getBaseAmount = (): number => {
-    return personalInfo.consultation_price 
-      ? parseFloat(personalInfo.consultation_price) 
-      : 1500;
-  };
+  const [rateQuote, setRateQuote] = useState<ExchangeRateQuote | null>(null);
+  const currencies = useMemo(() => currencyService.getSupportedCurrencies(), []);
+
+  // Registration returns the price of the patient's tier, in that tier's currency
+  const pricingTier = resolvePricingTier({
+    isInr: personalInfo.is_inr,
+    phone: personalInfo.phone,
+    locale: navigator.language
+  });
+  const listCurrency = personalInfo.consultation_currency || BASE_CURRENCY;
+  const listPrice = personalInfo.consultation_price ? parseFloat(personalInfo.consultation_price) : null;
+  const displayAmount = convertedAmount ?? listPrice;
+
+  const consultationOptions = personalInfo.consultation_types || [];
+  const selectedConsultation = consultationOptions.find(option => option.key === personalInfo.consultation_type);
+  // Receipts and the confirmation already say initial or follow-up
+  const customConsultationName = selectedConsultation && !isBuiltInConsultationType(selectedConsultation.key)
+    ? selectedConsultation.name
+    : undefined;
+  // The type picked decides the label, not whether the patient has booked before
+  const isFollowUpConsultation = personalInfo.consultation_type
+    ? personalInfo.consultation_type === FOLLOW_UP_CONSULTATION_KEY
+    : personalInfo.isVerifiedReturning;
 
   const handleCurrencyChange = async (currency: string) => {
+    if (listPrice === null) return;
+
     setSelectedCurrency(currency);
     setIsConverting(true);
     
     try {
-      const baseAmount = getBaseAmount();
-      
-      if (currency === 'INR') {
-        setConvertedAmount(baseAmount);
-        setCurrentRate(1);
+      if (currency === listCurrency) {
+        setConvertedAmount(listPrice);
+        setRateQuote(null);
       } else {
-        const rate = await currencyService.getExchangeRate(currency);
-        const converted = baseAmount * rate;
-        setConvertedAmount(converted);
-        setCurrentRate(rate);
+        const amount = await currencyService.convertCurrency(listCurrency, currency, listPrice);
+        setConvertedAmount(amount);
+        setRateQuote(currency === BASE_CURRENCY ? null : await currencyService.getQuote(currency));
       }
     } catch (error) {
       console.error('Currency conversion error:', error);
-      setConvertedAmount(getBaseAmount());
-      setCurrentRate(null);
-      showToast('Failed to convert currency. Using INR instead.', 'error', 3000);
+      setSelectedCurrency(listCurrency);
+      setConvertedAmount(listPrice);
+      setRateQuote(null);
+      showToast(`Failed to convert currency. Using ${listCurrency} instead.`, 'error', 3000);
     } finally {
       setIsConverting(false);
     }
   };
 
+  // Open in the patient's own currency where we can tell what it is
   useEffect(() => {
-    const initializeCurrency = async () => {
-      const baseAmount = getBaseAmount();
-      setConvertedAmount(baseAmount);
-    };
-    initializeCurrency();
-  }, [personalInfo.consultation_price]);
+    if (listPrice === null) {
+      setConvertedAmount(null);
+      return;
+    }
+
+    handleCurrencyChange(
+      resolveInitialCurrency(pricingTier, listCurrency, { phone: personalInfo.phone, locale: navigator.language })
+    );
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [listPrice, listCurrency, pricingTier]);
+
+  const refreshSlots = async () => {
+    if (!appointmentSchedule.selectedDate || !personalInfo.patientId) return;
+    setLoadingSlots(true);
+    try {
+      const apiResponse = await registrationApi.getAvailableSchedule(
+        personalInfo.patientId,
+        appointmentSchedule.selectedDate,
+        !!personalInfo.isAlreadyRegistered,
+        { consultationType: personalInfo.consultation_type, durationMinutes: personalInfo.slot_duration_minutes }
+      );
+      reportTimeZone(getScheduleTimeZone(apiResponse));
+      updateAppointmentSchedule({
+        availableSlots: parseAvailableSlots(apiResponse, personalInfo.slot_duration_minutes)
+      });
+    } catch (error) {
+      console.error('Failed to fetch available slots:', error);
+      updateAppointmentSchedule({ availableSlots: [] });
+    } finally {
+      setLoadingSlots(false);
+    }
+  };
 
   // Fetch slots from API when date changes
   useEffect(() => {
-    const fetchSlots = async () => {
-      if (!appointmentSchedule.selectedDate || !personalInfo.patientId) return;
-      setLoadingSlots(true);
-      try {
-        const apiResponse = await registrationApi.getAvailableSchedule(
-          personalInfo.patientId,
-          appointmentSchedule.selectedDate,
-          !!personalInfo.isAlreadyRegistered
-        );
-        let slots: TimeSlot[] = [];
-        if (
-          apiResponse &&
-          typeof apiResponse === 'object' &&
-          'available_slots' in apiResponse &&
-          Array.isArray((apiResponse as { available_slots?: unknown }).available_slots)
-        ) {
-          const scheduleId = (apiResponse as { id?: string | number }).id;
-          slots = (apiResponse as { available_slots: { start: string; end: string }[] }).available_slots.map(
-            (slot: { start: string; end: string }) => ({
-              id: `${slot.start}-${slot.end}`,
-              time: `${slot.start}-${slot.end}`,
-              available: true,
-              scheduleId: scheduleId ? String(scheduleId) : undefined,
-            })
-          );
-        }
-        updateAppointmentSchedule({ availableSlots: slots });
-      } catch {
-        updateAppointmentSchedule({ availableSlots: [] });
-      } finally {
-        setLoadingSlots(false);
-      }
-    };
-    fetchSlots();
+    refreshSlots();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [appointmentSchedule.selectedDate, personalInfo.patientId, personalInfo.isAlreadyRegistered]);
+  }, [
+    appointmentSchedule.selectedDate,
+    personalInfo.patientId,
+    personalInfo.isAlreadyRegistered,
+    personalInfo.consultation_type,
+    personalInfo.slot_duration_minutes
+  ]);
+
+  // Someone else got the slot: drop the selection and show what is still free.
+  // A paid checkout stays so the next slot is booked against the same order.
+  const recoverFromLostSlot = async (lostCheckout?: PendingCheckout) => {
+    // Without one passed in, a checkout already paid for an earlier lost slot is still kept
+    const keptCheckout = keepCheckoutAfterLostSlot(lostCheckout || checkout);
+    if (keptCheckout) {
+      paymentService.savePendingCheckout(keptCheckout);
+    } else if (lostCheckout) {
+      paymentService.clearPendingCheckout();
+    }
+    if (lostCheckout) setCheckout(keptCheckout);
+
+    markLost();
+    setLostAfterPayment(Boolean(keptCheckout));
+    updateAppointmentSchedule({ selectedTimeSlot: '' });
+    await refreshSlots();
+  };
+
+  const holdSlot = async (timeSlot: string) => {
+    if (!personalInfo.patientId) return null;
+
+    const slot = appointmentSchedule.availableSlots.find(s => s.time === timeSlot);
+    try {
+      const result = await acquireHold({
+        patient_id: personalInfo.patientId,
+        slot_date: appointmentSchedule.selectedDate,
+        slot_time: timeSlot,
+        schedule_id: slot?.scheduleId,
+      });
+
+      if (result.outcome === 'unavailable') {
+        await recoverFromLostSlot();
+      }
+      return result.outcome === 'held' ? result.hold : null;
+    } catch (error) {
+      showToast(error instanceof Error ? error.message : 'Could not hold this slot. Please try again.', 'error');
+      return null;
+    }
+  };
 
   const handleDateChange = (date: string) => {
+    releaseHold();
+    setLostAfterPayment(false);
     updateAppointmentSchedule({ 
       selectedDate: date,
       selectedTimeSlot: '' // Reset time slot when date changes
     });
   };
 
+  // Price and slot length follow the type; slots are fetched again for the new length
+  const handleConsultationTypeChange = (option: ConsultationOption) => {
+    // A paid order is for the type it was paid for
+    if (option.key === personalInfo.consultation_type || checkout?.payment) return;
+
+    releaseHold();
+    setLostAfterPayment(false);
+    updatePersonalInfo({
+      consultation_type: option.key,
+      consultation_price: option.price,
+      consultation_currency: option.currency,
+      slot_duration_minutes: option.duration_minutes
+    });
+    updateAppointmentSchedule({ selectedTimeSlot: '' });
+  };
+
   const handleTimeSlotChange = (timeSlot: string) => {
+    if (timeSlot === appointmentSchedule.selectedTimeSlot && holdStatus === 'held') return;
+
+    setLostAfterPayment(false);
     updateAppointmentSchedule({ selectedTimeSlot: timeSlot });
+    holdSlot(timeSlot);
   };
 
-  const handleFinish = async () => {
-    setIsSubmitting(true);
+  // Books against the paid order, keyed by its id so the order never books twice
+  const submitBooking = async (paidCheckout: PendingCheckout, payment: PaymentResult, holdId?: string) => {
+    const { medicalHistory, additionalDetails, personalInfo } = state.formData;
+    const formData = new FormData();
+
+    formData.append('first_name', personalInfo.name.split(' ')[0] || '');
+    formData.append('last_name', personalInfo.name.split(' ').slice(1).join(' ') || '');
+    formData.append('email', personalInfo.email);
+    formData.append('phone_number', personalInfo.phone);
+    if (personalInfo.date_of_birth) formData.append('date_of_birth', personalInfo.date_of_birth);
+    if (personalInfo.gender) formData.append('gender', personalInfo.gender);
+    if (personalInfo.address) formData.append('address', personalInfo.address);
+    if (personalInfo.patientId) formData.append('patient_id', personalInfo.patientId);
+
+    formData.append('treatment_history', medicalHistory.clinicalSummary);
+    formData.append('additional_details', additionalDetails.additionalNotes);
+    formData.append('slot_date', paidCheckout.slotDate);
+    formData.append('slot_time', paidCheckout.slotTime);
+    if (holdId) formData.append('slot_hold_id', holdId);
+    if (paidCheckout.scheduleId) formData.append('schedule_id', paidCheckout.scheduleId);
+    if (personalInfo.consultation_type) formData.append('consultation_type', personalInfo.consultation_type);
+
+    formData.append('payment_gateway', payment.gateway);
+    formData.append('payment_id', payment.paymentId);
+    formData.append('order_id', payment.orderId);
+    formData.append('amount', paidCheckout.displayAmount.toString());
+    formData.append('currency', paidCheckout.order.currency);
+    formData.append('pricing_tier', paidCheckout.pricingTier || pricingTier);
+    if (paidCheckout.listPrice !== undefined) formData.append('list_price', paidCheckout.listPrice.toString());
+    formData.append('list_currency', paidCheckout.listCurrency || listCurrency);
+
+    (medicalHistory.pathologyFiles || []).forEach(file => formData.append('pathology_uploads[]', file));
+    (medicalHistory.imageologyFiles || []).forEach(file => formData.append('imageology_uploads[]', file));
+    (additionalDetails.additionalAttachments || []).forEach(file => formData.append('additional_uploads[]', file));
+
+    let booking: BookAppointmentResponse;
+    try {
+      booking = await registrationApi.bookAppointment(formData, bookingIdempotencyKey(paidCheckout));
+    } catch (error) {
+      if (isSlotUnavailableError(error)) {
+        await recoverFromLostSlot(paidCheckout);
+        return;
+      }
+      throw error;
+    }
+
+    consumeHold();
+    paymentService.clearPendingCheckout();
+    setCheckout(null);
+
+    const collectsOnline = paymentService.getGateway(payment.gateway).collectsOnline;
+    if (collectsOnline) {
+      showToast('Payment successful! Appointment booked successfully.', 'success', 5000);
+    } else {
+      showToast('Appointment booked! Please pay the consultation fee at the clinic.', 'success', 5000);
+    }
 
+    // The wizard starts over; the confirmation page keeps what the patient needs from this booking
+    setIsRedirecting(true);
+    const receipt = await issueReceipt(paidCheckout, payment, collectsOnline, booking?.id);
+    bookingConfirmationService.saveConfirmation({
+      appointmentId: booking?.id,
+      appointmentCode: booking?.code ?? null,
+      patientName: personalInfo.name,
+      slotDate: paidCheckout.slotDate,
+      slotTime: paidCheckout.slotTime,
+      timeZone: clinicTimeZone,
+      durationMinutes: personalInfo.slot_duration_minutes,
+      isFollowUp: isFollowUpConsultation,
+      consultationName: customConsultationName,
+      amount: paidCheckout.displayAmount,
+      currency: paidCheckout.order.currency,
+      gateway: payment.gateway,
+      collectsOnline,
+      meetLink: booking?.meet_link ?? null,
+      receipt,
+      bookedAt: Date.now(),
+    });
+
+    resetForm();
+    navigate('/booking/confirmation');
+  };
+
+  // A booking is confirmed even if its receipt cannot be issued right now
+  const issueReceipt = async (
+    paidCheckout: PendingCheckout,
+    payment: PaymentResult,
+    collectsOnline: boolean,
+    appointmentId?: number
+  ): Promise<Invoice | null> => {
     try {
-      const { medicalHistory, additionalDetails, appointmentSchedule, personalInfo } = state.formData;
+      const billedTo = {
+        name: personalInfo.name,
+        email: personalInfo.email,
+        phone: personalInfo.phone,
+        address: personalInfo.address,
+      };
+      const issued = await invoiceService.issueInvoice({
+        order_id: paidCheckout.order.id,
+        payment_id: collectsOnline ? payment.paymentId : null,
+        gateway: payment.gateway,
+        amount: paidCheckout.displayAmount,
+        currency: paidCheckout.order.currency,
+        billed_to: billedTo,
+        consultation_name: customConsultationName,
+        duration_minutes: personalInfo.slot_duration_minutes,
+      });
 
-      const finalAmount = convertedAmount || getBaseAmount();
-      
-      const order = await paymentService.createOrder(finalAmount, selectedCurrency, `appointment_${Date.now()}`);
+      return buildInvoice({
+        issued,
+        billedTo,
+        appointment: {
+          id: appointmentId,
+          date: paidCheckout.slotDate,
+          time: paidCheckout.slotTime,
+          timeZone: clinicTimeZone,
+          durationMinutes: personalInfo.slot_duration_minutes,
+        },
+        isFollowUp: isFollowUpConsultation,
+        consultationName: customConsultationName,
+        listPrice: paidCheckout.listPrice ?? listPrice ?? undefined,
+        listCurrency: paidCheckout.listCurrency || listCurrency,
+        amount: paidCheckout.displayAmount,
+        currency: paidCheckout.order.currency,
+        payment: {
+          gateway: payment.gateway,
+          paymentId: collectsOnline ? payment.paymentId : null,
+          orderId: paidCheckout.order.id,
+        },
+        status: collectsOnline ? 'paid' : 'due',
+      });
+    } catch (error) {
+      console.error('Failed to issue receipt:', error);
+      return null;
+    }
+  };
+
+  // Signature check first, then the gateway's own status for anything unclear
+  const settlePayment = async (paidCheckout: PendingCheckout, payment: PaymentResult, holdId?: string) => {
+    setPaymentIssue('reconciling');
+    const outcome = await paymentService.reconcilePayment(payment);
+
+    if (outcome === 'failed') {
+      const unpaidCheckout = { ...paidCheckout, payment: undefined };
+      paymentService.savePendingCheckout(unpaidCheckout);
+      setCheckout(unpaidCheckout);
+      releaseHold();
+      setPaymentIssue('failed');
+      return;
+    }
+
+    if (outcome === 'pending') {
+      setPaymentIssue('pending');
+      return;
+    }
 
-      const paymentResponse = await paymentService.initializeRazorpay(order, {
+    try {
+      setPaymentIssue(null);
+      await submitBooking(paidCheckout, payment, holdId);
+    } catch (error) {
+      console.error('Booking after payment failed:', error);
+      showToast('Your payment was received but the booking is not confirmed yet. Please check again.', 'error', 5000);
+      setPaymentIssue('pending');
+    }
+  };
+
+  const payAndBook = async (nextCheckout: PendingCheckout, holdId: string) => {
+    const { personalInfo } = state.formData;
+    paymentService.savePendingCheckout(nextCheckout);
+
+    let payment: PaymentResult;
+    try {
+      payment = await paymentService.openCheckout(nextCheckout.order, {
         name: 'Mediconnect',
         description: 'Medical Consultation Appointment',
         prefill: {
@@ -141,180 +407,242 @@ const AppointmentScheduleForm: React.FC = () => {
           contact: personalInfo.phone,
         },
         notes: {
-          appointment_date: appointmentSchedule.selectedDate,
-          appointment_time: appointmentSchedule.selectedTimeSlot,
+          appointment_date: nextCheckout.slotDate,
+          appointment_time: nextCheckout.slotTime,
+          slot_hold_id: holdId,
         },
       });
+    } catch (error) {
+      const isDismissed = error instanceof Error && error.message.includes('cancelled');
+      if (!isDismissed) {
+        showToast(error instanceof Error ? error.message : 'Payment failed. Please try again.', 'error', 5000);
+      }
 
-      const isPaymentVerified = await paymentService.verifyPayment(paymentResponse);
+      // Nobody has paid for the slot, so give it back to other patients
+      releaseHold();
+      setPaymentIssue(isDismissed ? 'dismissed' : 'failed');
+      return;
+    }
 
-      if (!isPaymentVerified) {
-        throw new Error('Payment verification failed');
-      }
+    // Remember the payment before anything else can go wrong
+    const paidCheckout = { ...nextCheckout, payment };
+    paymentService.savePendingCheckout(paidCheckout);
+    setCheckout(paidCheckout);
+    await settlePayment(paidCheckout, payment, holdId);
+  };
 
-      const formData = new FormData();
-
-      formData.append('first_name', personalInfo.name.split(' ')[0] || '');
-      formData.append('last_name', personalInfo.name.split(' ').slice(1).join(' ') || '');
-      formData.append('email', personalInfo.email);
-      formData.append('phone_number', personalInfo.phone);
-      if (personalInfo.date_of_birth) formData.append('date_of_birth', personalInfo.date_of_birth);
-      if (personalInfo.gender) formData.append('gender', personalInfo.gender);
-      if (personalInfo.address) formData.append('address', personalInfo.address);
-      if (personalInfo.patientId) formData.append('patient_id', personalInfo.patientId);
-
-      formData.append('treatment_history', medicalHistory.clinicalSummary);
-      formData.append('additional_details', additionalDetails.additionalNotes);
-      formData.append('slot_date', appointmentSchedule.selectedDate);
-      formData.append('slot_time', appointmentSchedule.selectedTimeSlot);
-      const selectedSlot = appointmentSchedule.availableSlots.find(slot => slot.time === appointmentSchedule.selectedTimeSlot);
-      if (selectedSlot && selectedSlot.scheduleId) {
-        formData.append('schedule_id', selectedSlot.scheduleId);
-      }
+  const handleFinish = async () => {
+    if (!validateCurrentStep()) return;
 
-      formData.append('payment_id', paymentResponse.razorpay_payment_id);
-      formData.append('order_id', paymentResponse.razorpay_order_id);
-      formData.append('amount', finalAmount.toString());
-      formData.append('currency', selectedCurrency);
+    setIsSubmitting(true);
 
-      (medicalHistory.pathologyFiles || []).forEach(file => formData.append('pathology_uploads[]', file));
-      (medicalHistory.imageologyFiles || []).forEach(file => formData.append('imageology_uploads[]', file));
-      (additionalDetails.additionalAttachments || []).forEach(file => formData.append('additional_uploads[]', file));
+    try {
+      // Payment only starts once the slot is held; an expired hold is retried here
+      const activeHold = hold || await holdSlot(appointmentSchedule.selectedTimeSlot);
+      if (!activeHold) return;
 
-      await registrationApi.bookAppointment(formData);
+      const selectedSlot = appointmentSchedule.availableSlots.find(slot => slot.time === appointmentSchedule.selectedTimeSlot);
 
-      showToast('Payment successful! Appointment booked successfully.', 'success', 5000);
-      
-      // Refetch slots after successful booking to get fresh data
-      if (appointmentSchedule.selectedDate && personalInfo.patientId) {
-        try {
-          const apiResponse = await registrationApi.getAvailableSchedule(
-            personalInfo.patientId,
-            appointmentSchedule.selectedDate,
-            !!personalInfo.isAlreadyRegistered
-          );
-          let slots: TimeSlot[] = [];
-          if (
-            apiResponse &&
-            typeof apiResponse === 'object' &&
-            'available_slots' in apiResponse &&
-            Array.isArray((apiResponse as { available_slots?: unknown }).available_slots)
-          ) {
-            const scheduleId = (apiResponse as { id?: string | number }).id;
-            slots = (apiResponse as { available_slots: { start: string; end: string }[] }).available_slots.map(
-              (slot: { start: string; end: string }) => ({
-                id: `${slot.start}-${slot.end}`,
-                time: `${slot.start}-${slot.end}`,
-                available: true,
-                scheduleId: scheduleId ? String(scheduleId) : undefined,
-              })
-            );
-          }
-          updateAppointmentSchedule({ availableSlots: slots });
-        } catch (error) {
-          console.error('Failed to refetch slots after booking:', error);
-        }
+      // Already paid for a slot that was lost: book the new one against the same order
+      const paidPayment = checkout?.payment;
+      if (checkout && paidPayment) {
+        const movedCheckout = moveCheckoutToSlot(checkout, {
+          slotDate: appointmentSchedule.selectedDate,
+          slotTime: appointmentSchedule.selectedTimeSlot,
+          scheduleId: selectedSlot?.scheduleId,
+        });
+        paymentService.savePendingCheckout(movedCheckout);
+        setCheckout(movedCheckout);
+        await settlePayment(movedCheckout, paidPayment, activeHold.id);
+        return;
       }
-      
-      setIsRedirecting(true);
-      setTimeout(() => {
-        resetForm();
-        goToStep(1);
-        setIsRedirecting(false);
-      }, 2000);
-    } catch (error: unknown) {
-      let message = 'Payment failed. Please try again.';
-      
-      if (error && typeof error === 'object' && 'message' in error) {
-        const err = error as { message?: string };
-        if (typeof err.message === 'string') {
-          if (err.message.includes('cancelled')) {
-            message = 'Payment was cancelled. Please try again.';
-          } else {
-            message = err.message;
-          }
-        }
+
+      if (displayAmount === null || listPrice === null) {
+        showToast('The consultation fee is not available. Please go back and try again.', 'error', 5000);
+        return;
       }
-      
-      showToast(message, 'error', 5000);
-      
+
+      const finalAmount = displayAmount;
+      const order = await paymentService.createOrder(gatewayId, finalAmount, selectedCurrency, `appointment_${Date.now()}`);
+
+      const nextCheckout: PendingCheckout = {
+        order,
+        slotDate: appointmentSchedule.selectedDate,
+        slotTime: appointmentSchedule.selectedTimeSlot,
+        scheduleId: selectedSlot?.scheduleId,
+        displayAmount: finalAmount,
+        pricingTier,
+        listPrice,
+        listCurrency,
+        savedAt: Date.now(),
+      };
+      setCheckout(nextCheckout);
+
+      await payAndBook(nextCheckout, activeHold.id);
+    } catch (error: unknown) {
+      showToast(error instanceof Error ? error.message : 'Payment failed. Please try again.', 'error', 5000);
+
       // Refetch slots after payment failure to get fresh data
-      if (appointmentSchedule.selectedDate && personalInfo.patientId) {
-        try {
-          const apiResponse = await registrationApi.getAvailableSchedule(
-            personalInfo.patientId,
-            appointmentSchedule.selectedDate,
-            !!personalInfo.isAlreadyRegistered
-          );
-          let slots: TimeSlot[] = [];
-          if (
-            apiResponse &&
-            typeof apiResponse === 'object' &&
-            'available_slots' in apiResponse &&
-            Array.isArray((apiResponse as { available_slots?: unknown }).available_slots)
-          ) {
-            const scheduleId = (apiResponse as { id?: string | number }).id;
-            slots = (apiResponse as { available_slots: { start: string; end: string }[] }).available_slots.map(
-              (slot: { start: string; end: string }) => ({
-                id: `${slot.start}-${slot.end}`,
-                time: `${slot.start}-${slot.end}`,
-                available: true,
-                scheduleId: scheduleId ? String(scheduleId) : undefined,
-              })
-            );
-          }
-          updateAppointmentSchedule({ availableSlots: slots });
-        } catch (error) {
-          console.error('Failed to refetch slots after payment failure:', error);
-        }
+      await refreshSlots();
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Same order again, once the slot is held again
+  const handleRetryPayment = async () => {
+    if (!checkout) return;
+
+    setIsSubmitting(true);
+    try {
+      const result = await acquireHold({
+        patient_id: personalInfo.patientId || '',
+        slot_date: checkout.slotDate,
+        slot_time: checkout.slotTime,
+        schedule_id: checkout.scheduleId,
+      });
+
+      if (result.outcome !== 'held') {
+        paymentService.clearPendingCheckout();
+        setCheckout(null);
+        setPaymentIssue(null);
+        if (result.outcome === 'unavailable') await recoverFromLostSlot();
+        return;
       }
+
+      setPaymentIssue(null);
+      await payAndBook(checkout, result.hold.id);
+    } catch (error) {
+      showToast(error instanceof Error ? error.message : 'Could not hold this slot. Please try again.', 'error');
     } finally {
       setIsSubmitting(false);
     }
   };
 
+  const handleCheckPaymentAgain = async () => {
+    if (!checkout?.payment) return;
+
+    setIsSubmitting(true);
+    try {
+      await settlePayment(checkout, checkout.payment, hold?.id);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleChooseAnotherSlot = () => {
+    paymentService.clearPendingCheckout();
+    setCheckout(null);
+    setPaymentIssue(null);
+    releaseHold();
+    updateAppointmentSchedule({ selectedTimeSlot: '' });
+    refreshSlots();
+  };
+
+  // A checkout left behind by a closed tab is either settled or offered for retry
+  useEffect(() => {
+    const pending = paymentService.getPendingCheckout();
+    if (!pending) return;
+
+    setCheckout(pending);
+    if (pending.payment) {
+      settlePayment(pending, pending.payment);
+    } else {
+      setPaymentIssue('dismissed');
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
   const handlePrevious = () => {
     prevStep();
   };
 
-  const isFormValid = appointmentSchedule.selectedDate && appointmentSchedule.selectedTimeSlot;
-
-  // Format currency display
-  const formatCurrency = (amount: number, currency: string): string => {
-    const currencySymbols: { [key: string]: string } = {
-      'INR': '₹',
-      'USD': '$',
-      'EUR': '€',
-      'GBP': '£',
-      'CAD': 'C$',
-      'AUD': 'A$',
-    };
-
-    const symbol = currencySymbols[currency] || currency;
-    return `${symbol}${amount.toFixed(2)}`;
-  };
+  const paymentGateways = paymentService.availableGateways;
+  const selectedGateway = paymentService.getGateway(gatewayId);
+
+  const isFormValid = appointmentSchedule.selectedDate && appointmentSchedule.selectedTimeSlot && holdStatus !== 'acquiring';
+
+  const formatCurrency = (amount: number, currency: string): string =>
+    currencyService.format(amount, currency);
+
+  if (paymentIssue && checkout) {
+    return (
+      <div>
+        <h2 className="text-xl font-semibold text-gray-800 mb-6">Book Appointment</h2>
+        <PaymentRecoveryPanel
+          issue={paymentIssue}
+          amountLabel={formatCurrency(checkout.displayAmount, checkout.order.currency)}
+          slotLabel={formatSlotForViewer(checkout.slotDate, checkout.slotTime, clinicTimeZone)}
+          isBusy={isSubmitting}
+          onRetry={handleRetryPayment}
+          onCheckAgain={handleCheckPaymentAgain}
+          onChangeSlot={handleChooseAnotherSlot}
+        />
+      </div>
+    );
+  }
 
   return (
     <div>
       <h2 className="text-xl font-semibold text-gray-800 mb-6">Book Appointment</h2>
       
       <div className="space-y-6">
+        {/* Consultation Type */}
+        {consultationOptions.length > 1 && (
+          <fieldset>
+            <legend className="block text-sm font-medium text-gray-700 mb-2">Consultation Type</legend>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              {consultationOptions.map((option) => (
+                <label
+                  key={option.key}
+                  className={`flex items-start gap-3 p-3 rounded-lg border cursor-pointer transition-colors ${
+                    personalInfo.consultation_type === option.key
+                      ? 'border-blue-600 bg-blue-50'
+                      : 'border-gray-300 hover:border-blue-300'
+                  }`}
+                >
+                  <input
+                    type="radio"
+                    name="consultationType"
+                    checked={personalInfo.consultation_type === option.key}
+                    onChange={() => handleConsultationTypeChange(option)}
+                    disabled={isSubmitting || Boolean(checkout?.payment)}
+                    className="mt-1 text-blue-600 focus:ring-blue-500"
+                  />
+                  <span className="text-sm">
+                    <span className="block font-medium text-gray-800">{option.name}</span>
+                    <span className="block text-gray-500">
+                      {option.duration_minutes} minutes ·{' '}
+                      {formatCurrency(parseFloat(option.price), option.currency || BASE_CURRENCY)}
+                    </span>
+                  </span>
+                </label>
+              ))}
+            </div>
+          </fieldset>
+        )}
+
         {/* Date Selection */}
         <div>
-          <label htmlFor="appointmentDate" className="block text-sm font-medium text-gray-700 mb-2">
+          <label htmlFor="selectedDate" className="block text-sm font-medium text-gray-700 mb-2">
             Select Date
           </label>
           <div className="relative">
             <Calendar className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
             <input
               type="date"
-              id="appointmentDate"
+              id="selectedDate"
               value={appointmentSchedule.selectedDate}
               onChange={(e) => handleDateChange(e.target.value)}
-              min={new Date().toISOString().split('T')[0]} // Prevent past dates
-              className="w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              min={getClinicToday(clinicTimeZone)} // Prevent past dates at the clinic
+              className={`w-full pl-10 pr-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+                state.errors.selectedDate ? 'border-red-500' : 'border-gray-300'
+              }`}
             />
           </div>
+          {state.errors.selectedDate && (
+            <p className="mt-1 text-sm text-red-600">{state.errors.selectedDate}</p>
+          )}
         </div>
 
         {/* Time Slot Selection */}
@@ -324,6 +652,11 @@ const AppointmentScheduleForm: React.FC = () => {
               <Clock className="inline w-4 h-4 mr-1" />
               Select Available Slots
             </label>
+            {!isViewerInClinicTimeZone(clinicTimeZone) && (
+              <p className="-mt-2 mb-3 text-xs text-gray-500">
+                Times are shown in your time zone ({getTimeZoneLabel()}).
+              </p>
+            )}
             {loadingSlots ? (
               <div>Loading available slots...</div>
             ) : (
@@ -343,7 +676,7 @@ const AppointmentScheduleForm: React.FC = () => {
                     }`}
                   >
                     <div className="flex items-center justify-between">
-                      <span>{slot.time}</span>
+                      <SlotTimeLabel slotDate={appointmentSchedule.selectedDate} slotTime={slot.time} />
                       {appointmentSchedule.selectedTimeSlot === slot.time && (
                         <div className="w-2 h-2 bg-white rounded-full"></div>
                       )}
@@ -355,14 +688,36 @@ const AppointmentScheduleForm: React.FC = () => {
           </div>
         )}
 
+        {/* Slot hold countdown / recovery */}
+        <SlotHoldNotice
+          status={holdStatus}
+          remainingMs={holdRemainingMs}
+          slotTime={appointmentSchedule.selectedTimeSlot && formatSlotTime(appointmentSchedule.selectedDate, appointmentSchedule.selectedTimeSlot, clinicTimeZone)}
+          lostAfterPayment={lostAfterPayment}
+          onHoldAgain={() => holdSlot(appointmentSchedule.selectedTimeSlot)}
+        />
+
         {/* Selected Appointment Summary */}
         {appointmentSchedule.selectedDate && appointmentSchedule.selectedTimeSlot && (
           <div className="bg-blue-50 p-4 rounded-lg">
             <h3 className="font-medium text-blue-900 mb-2">Selected Appointment</h3>
             <div className="text-sm text-blue-800">
-              <p><strong>Date:</strong> {new Date(appointmentSchedule.selectedDate).toLocaleDateString()}</p>
-              <p><strong>Time:</strong> {appointmentSchedule.selectedTimeSlot}</p>
-              <p><strong>Consultation Fee:</strong> {formatCurrency(convertedAmount || getBaseAmount(), selectedCurrency)}</p>
+              <p>
+                <strong>Date and time:</strong>{' '}
+                {formatSlotForViewer(appointmentSchedule.selectedDate, appointmentSchedule.selectedTimeSlot, clinicTimeZone)}
+              </p>
+              {personalInfo.slot_duration_minutes && (
+                <p>
+                  <strong>Duration:</strong> {personalInfo.slot_duration_minutes} minutes
+                  {customConsultationName
+                    ? ` (${customConsultationName})`
+                    : isFollowUpConsultation ? ' (follow-up)' : ''}
+                </p>
+              )}
+              <p>
+                <strong>Consultation Fee:</strong>{' '}
+                {displayAmount !== null ? formatCurrency(displayAmount, selectedCurrency) : 'Not available'}
+              </p>
             </div>
           </div>
         )}
@@ -370,7 +725,7 @@ const AppointmentScheduleForm: React.FC = () => {
 
       {/* Currency Selection and Form Buttons */}
       <div className="mt-6 space-y-4">
-        {personalInfo?.is_inr === false && (
+        {pricingTier === 'international' && (
           <div className="flex items-center justify-between">
             <div className="flex items-center space-x-3">
               <label htmlFor="currency" className="text-sm font-medium text-gray-700">
@@ -399,13 +754,52 @@ const AppointmentScheduleForm: React.FC = () => {
               {isConverting && (
                 <div className="flex items-center text-sm text-gray-500">
                   <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-500 mr-2"></div>
-                  Fetching real-time rates...
+                  Fetching exchange rates...
                 </div>
               )}
             </div>
           </div>
         )}
 
+        {rateQuote && selectedCurrency === rateQuote.currency && !isConverting && (
+          <div className="text-sm">
+            <p className="text-gray-500">
+              1 {rateQuote.base} = {rateQuote.rate.toPrecision(4)} {rateQuote.currency} · rate as of{' '}
+              {new Date(rateQuote.asOf).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })}
+            </p>
+            {(rateQuote.isStale || rateQuote.isOffline) && (
+              <p className="mt-1 flex items-start text-amber-700">
+                <AlertTriangle className="w-4 h-4 mr-1 mt-0.5 flex-shrink-0" />
+                {rateQuote.isOffline
+                  ? 'Live rates could not be loaded, so the last saved rate is used. '
+                  : 'This rate has not been updated in over a day. '}
+                The converted fee may differ from today's rate; pay in {listCurrency} for the exact price.
+              </p>
+            )}
+          </div>
+        )}
+
+        {paymentGateways.length > 1 && (
+          <fieldset>
+            <legend className="text-sm font-medium text-gray-700 mb-2">Payment Method</legend>
+            <div className="flex flex-wrap gap-4">
+              {paymentGateways.map((gateway) => (
+                <label key={gateway.id} className="flex items-center space-x-2 text-sm text-gray-700">
+                  <input
+                    type="radio"
+                    name="paymentGateway"
+                    value={gateway.id}
+                    checked={gatewayId === gateway.id}
+                    onChange={() => setGatewayId(gateway.id)}
+                    className="text-blue-600 focus:ring-blue-500"
+                  />
+                  <span>{gateway.label}</span>
+                </label>
+              ))}
+            </div>
+          </fieldset>
+        )}
+
         <FormButtons
           onCancel={() => window.history.back()}
           onNext={handleFinish}
@@ -414,7 +808,7 @@ const AppointmentScheduleForm: React.FC = () => {
           previousLabel="Previous"
           showPrevious={true}
           isLoading={isSubmitting || isRedirecting}
-          loadingText={isRedirecting ? "Redirecting..." : "Processing Payment..."}
+          loadingText={isRedirecting ? "Redirecting..." : selectedGateway.collectsOnline ? "Processing Payment..." : "Booking..."}
           disabled={!isFormValid || isRedirecting || isConverting}
         />
       </div>
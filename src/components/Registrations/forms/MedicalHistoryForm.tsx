@@ -4,6 +4,7 @@ import React from 'react';
 import { useRegistration } from '../../../context/RegistrationContext';
 import FormButtons from '../common/FormButtons';
 import FileUpload from '../common/FileUpload';
+import { PATHOLOGY_FILE_RULES, IMAGEOLOGY_FILE_RULES } from '../../../utils/registrationSchemas';
 
 const MedicalHistoryForm: React.FC = () => {
   const { state, updateMedicalHistory, nextStep, prevStep } = useRegistration();
@@ -18,7 +19,6 @@ const MedicalHistoryForm: React.FC = () => {
   };
 
   const handleNext = () => {
-    // Add validation logic here
     nextStep();
   };
 
@@ -41,16 +41,22 @@ const MedicalHistoryForm: React.FC = () => {
             value={medicalHistory.clinicalSummary}
             onChange={(e) => handleInputChange('clinicalSummary', e.target.value)}
             rows={4}
-            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
+            className={`w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none ${
+              state.errors.clinicalSummary ? 'border-red-500' : 'border-gray-300'
+            }`}
             placeholder="Please provide details about your medical history, current symptoms, previous treatments, etc."
           />
+          {state.errors.clinicalSummary && (
+            <p className="mt-1 text-sm text-red-600">{state.errors.clinicalSummary}</p>
+          )}
         </div>
 
         {/* Pathology Upload */}
         <FileUpload
+          id="pathologyFiles"
           label="Pathology"
-          accept=".pdf,.jpg,.jpeg,.png"
-          maxSize={10}
+          rules={PATHOLOGY_FILE_RULES}
+          error={state.errors.pathologyFiles}
           files={medicalHistory.pathologyFiles}
           onFilesChange={(files) => handleFileChange('pathologyFiles', files)}
           placeholder="Drop your file here, or Browse"
@@ -58,9 +64,10 @@ const MedicalHistoryForm: React.FC = () => {
 
         {/* Imageology Upload */}
         <FileUpload
+          id="imageologyFiles"
           label="Imageology"
-          accept=".pdf,.jpg,.jpeg,.png,.dcm"
-          maxSize={10}
+          rules={IMAGEOLOGY_FILE_RULES}
+          error={state.errors.imageologyFiles}
           files={medicalHistory.imageologyFiles}
           onFilesChange={(files) => handleFileChange('imageologyFiles', files)}
           placeholder="Drop your file here, or Browse"
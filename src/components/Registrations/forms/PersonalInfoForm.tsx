@@ -1,42 +1,87 @@
 // components/Registrations/forms/PersonalInfoForm.tsx
 
 import React, { useState } from 'react';
+import { CalendarCheck } from 'lucide-react';
 import { useRegistration } from '../../../context/RegistrationContext';
 import FormButtons from '../common/FormButtons';
+import ReturningPatientLookup from '../common/ReturningPatientLookup';
 import { patientService } from '../../../services/patientService';
 import { useToast } from '../../../context/ToastContext';
-import { EMAIL_REGEX } from '../../../constants/common';
+import { formatDate } from '../../../utils/patientUtils';
+import { resolvePricingTier } from '../../../utils/pricingUtils';
+import { getDefaultConsultationKey } from '../../../utils/consultationTypes';
+import { FOLLOW_UP_CONSULTATION_KEY } from '../../../constants/booking';
+import type { ReturningPatientVerifyResponse } from '../../../types/registration';
 
 const PersonalInfoForm: React.FC = () => {
-  const { state, updatePersonalInfo, nextStep, setErrors, clearErrors } = useRegistration();
+  const { state, updatePersonalInfo, nextStep, setErrors, clearErrors, validateCurrentStep } = useRegistration();
   const { personalInfo } = state.formData;
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [showLookup, setShowLookup] = useState(false);
   const { showToast } = useToast();
 
+  // Identity fields come from the verified record and stay locked
+  const isVerified = Boolean(personalInfo.isVerifiedReturning);
+
   const handleInputChange = (field: string, value: string) => {
     updatePersonalInfo({ [field]: value });
   };
 
-  const handleNext = async () => {
-    // Clear previous errors
+  const handleReturningPatientVerified = (result: ReturningPatientVerifyResponse) => {
+    const { patient } = result;
+
+    updatePersonalInfo({
+      name: `${patient.first_name} ${patient.last_name || ''}`.trim(),
+      phone: patient.phone_number,
+      email: patient.email,
+      date_of_birth: patient.date_of_birth || personalInfo.date_of_birth,
+      gender: patient.gender || personalInfo.gender,
+      address: patient.address || personalInfo.address,
+      patientId: patient.id.toString(),
+      isAlreadyRegistered: true,
+      isVerifiedReturning: true,
+      is_inr: patient.is_inr,
+      consultation_price: result.follow_up_consultation_price,
+      consultation_currency: result.follow_up_consultation_currency,
+      slot_duration_minutes: result.follow_up_slot_duration_minutes,
+      consultation_type: FOLLOW_UP_CONSULTATION_KEY,
+      consultation_types: result.consultation_types,
+      pastAppointmentDates: result.past_appointment_dates
+    });
     clearErrors();
-    
-    // Basic validation
-    const errors: Record<string, string> = {};
-    if (!personalInfo.name) errors.name = 'Name is required';
-    if (!personalInfo.email) errors.email = 'Email is required';
-    if (!personalInfo.phone) errors.phone = 'Phone is required';
-    if (!personalInfo.date_of_birth) errors.date_of_birth = 'Date of birth is required';
-    if (!personalInfo.gender) errors.gender = 'Gender is required';
-    if (!personalInfo.address) errors.address = 'Address is required';
-    if (Object.keys(errors).length > 0) {
-      setErrors(errors);
-      return;
-    }
+    setShowLookup(false);
+    showToast('Welcome back! We have filled in your details.', 'success');
+  };
+
+  const handleNotMe = () => {
+    updatePersonalInfo({
+      name: '',
+      phone: '',
+      email: '',
+      date_of_birth: undefined,
+      gender: '',
+      address: '',
+      patientId: undefined,
+      isAlreadyRegistered: undefined,
+      isVerifiedReturning: undefined,
+      is_inr: undefined,
+      consultation_price: undefined,
+      consultation_currency: undefined,
+      slot_duration_minutes: undefined,
+      consultation_type: undefined,
+      consultation_types: undefined,
+      pastAppointmentDates: undefined
+    });
+    clearErrors();
+  };
+
+  const handleNext = async () => {
+    // Validate before registering so invalid data never reaches the API
+    if (!validateCurrentStep()) return;
 
-    // Email validation
-    if (!EMAIL_REGEX.test(personalInfo.email)) {
-      setErrors({ email: 'Please enter a valid email address' });
+    // Verified returning patients already have a record and follow-up pricing, unless it was dropped with a saved draft
+    if (isVerified && personalInfo.patientId && personalInfo.consultation_price) {
+      nextStep();
       return;
     }
 
@@ -56,7 +101,9 @@ const PersonalInfoForm: React.FC = () => {
         phone_number: personalInfo.phone,
         date_of_birth: personalInfo.date_of_birth,
         gender: personalInfo.gender,
-        address: personalInfo.address
+        address: personalInfo.address,
+        // A first guess for new patients; the record keeps its own flag once set
+        is_inr: resolvePricingTier({ phone: personalInfo.phone, locale: navigator.language }) === 'domestic'
       });
 
       // Store patient info in context for later use
@@ -64,7 +111,10 @@ const PersonalInfoForm: React.FC = () => {
         patientId: result.patient.id.toString(),
         isAlreadyRegistered: result.isAlreadyRegistered,
         consultation_price: result.consultation_price,
+        consultation_currency: result.consultation_currency,
         slot_duration_minutes: result.slot_duration_minutes,
+        consultation_type: getDefaultConsultationKey(result.isAlreadyRegistered),
+        consultation_types: result.consultation_types,
         is_inr: result.patient.is_inr
       });
 
@@ -105,6 +155,56 @@ const PersonalInfoForm: React.FC = () => {
           {state.errors.general}
         </div>
       )}
+
+      {/* Returning patient */}
+      <div className="mb-6">
+        {isVerified ? (
+          <div className="rounded-lg border border-green-200 bg-green-50 p-4">
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <p className="text-sm font-medium text-gray-900">Booking a follow-up as {personalInfo.name}</p>
+                <p className="text-sm text-gray-600">Follow-up consultation pricing will be applied.</p>
+              </div>
+              <button
+                type="button"
+                onClick={handleNotMe}
+                className="text-sm font-medium text-gray-600 hover:text-gray-800 whitespace-nowrap"
+              >
+                Not you?
+              </button>
+            </div>
+            {personalInfo.pastAppointmentDates && personalInfo.pastAppointmentDates.length > 0 && (
+              <div className="mt-3">
+                <p className="text-xs font-medium uppercase tracking-wide text-gray-500 mb-2">Previous appointments</p>
+                <ul className="flex flex-wrap gap-2">
+                  {personalInfo.pastAppointmentDates.map(date => (
+                    <li
+                      key={date}
+                      className="flex items-center gap-1 px-2 py-1 text-xs text-gray-700 bg-white border border-gray-200 rounded-md"
+                    >
+                      <CalendarCheck className="w-3 h-3 text-green-600" />
+                      {formatDate(date)}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        ) : showLookup ? (
+          <ReturningPatientLookup
+            onVerified={handleReturningPatientVerified}
+            onCancel={() => setShowLookup(false)}
+          />
+        ) : (
+          <button
+            type="button"
+            onClick={() => setShowLookup(true)}
+            className="text-sm font-medium text-blue-600 hover:text-blue-700"
+          >
+            I've booked before
+          </button>
+        )}
+      </div>
       
       <div className="space-y-4">
         {/* Name Field */}
@@ -115,11 +215,12 @@ const PersonalInfoForm: React.FC = () => {
           <input
             type="text"
             id="name"
+            readOnly={isVerified}
             value={personalInfo.name}
             onChange={(e) => handleInputChange('name', e.target.value)}
             className={`w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
               state.errors.name ? 'border-red-500' : 'border-gray-300'
-            }`}
+            } ${isVerified ? 'bg-gray-50 text-gray-600' : ''}`}
             placeholder="Enter your full name"
           />
           {state.errors.name && (
@@ -133,14 +234,16 @@ const PersonalInfoForm: React.FC = () => {
             Phone <span className="text-red-500">*</span>
           </label>
           <input
-            type="number"
+            type="tel"
             id="phone"
+            readOnly={isVerified}
+            autoComplete="tel"
             value={personalInfo.phone}
             onChange={(e) => handleInputChange('phone', e.target.value)}
             className={`w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
               state.errors.phone ? 'border-red-500' : 'border-gray-300'
-            }`}
-            placeholder="Enter your phone number"
+            } ${isVerified ? 'bg-gray-50 text-gray-600' : ''}`}
+            placeholder="e.g. +91 98765 43210"
           />
           {state.errors.phone && (
             <p className="mt-1 text-sm text-red-600">{state.errors.phone}</p>
@@ -155,11 +258,12 @@ const PersonalInfoForm: React.FC = () => {
           <input
             type="email"
             id="email"
+            readOnly={isVerified}
             value={personalInfo.email}
             onChange={(e) => handleInputChange('email', e.target.value)}
             className={`w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
               state.errors.email ? 'border-red-500' : 'border-gray-300'
-            }`}
+            } ${isVerified ? 'bg-gray-50 text-gray-600' : ''}`}
             placeholder="Enter your email address"
             required
           />
@@ -1,12 +1,21 @@
 import React, { useState, useEffect } from 'react';
-import { Plus, Edit3, Trash2, ChevronLeft, ChevronRight } from 'lucide-react';
+import { Plus, Edit3, Trash2, ChevronLeft, ChevronRight, CalendarDays, List } from 'lucide-react';
+import { useQueryClient } from '@tanstack/react-query';
 import { MAX_VISIBLE_PAGES, ITEMS_PER_PAGE_OPTIONS } from '../../constants/pagination';
 import Header from '../layouts/Header';
 import OverwriteSpecificDays from './forms/OverwriteSpecificDaysForm';
 import EditTimeOnly from './forms/EditTimeOnlyForm';
 import ConfirmationDialog from '../common/ConfirmationDialog';
+import ScheduleChangePreviewDialog from './common/ScheduleChangePreviewDialog';
+import ScheduleCalendar from './calendar/ScheduleCalendar';
+import ScheduleBlocksPanel from './blocks/ScheduleBlocksPanel';
 import { useScheduleContext } from '../../context/ScheduleContext';
-import type { Schedule } from '../../types/schedule';
+import { useScheduleChangeGuard } from '../../hooks/useScheduleChangeGuard';
+import { SCHEDULE_CALENDAR_QUERY_KEY } from '../../constants/schedule';
+import { formatCalendarDate, getTimeZoneLabel } from '../../utils/dateTime';
+import { formatWindow, getScheduleWindows } from '../../utils/scheduleWindows';
+import { useClinicTimeZone } from '../../context/ClinicTimeZoneContext';
+import type { Schedule, ScheduleViewMode, ScheduleWindow } from '../../types/schedule';
 
 // Define the SpecificDaySchedule interface locally
 interface SpecificDaySchedule {
@@ -16,6 +25,7 @@ interface SpecificDaySchedule {
     start: string;
     end: string;
   };
+  windows?: ScheduleWindow[];
 }
 
 const AppointmentScheduler: React.FC = () => {
@@ -35,6 +45,10 @@ const AppointmentScheduler: React.FC = () => {
     setCustomPerPage,
   } = useScheduleContext();
 
+  const queryClient = useQueryClient();
+  const changeGuard = useScheduleChangeGuard();
+  const clinicTimeZone = useClinicTimeZone();
+  const [viewMode, setViewMode] = useState<ScheduleViewMode>('calendar');
   const [activeTab, setActiveTab] = useState<'general' | 'custom'>('general');
   const [showOverwriteForm, setShowOverwriteForm] = useState(false);
   const [showEditTimeForm, setShowEditTimeForm] = useState(false);
@@ -59,6 +73,7 @@ const AppointmentScheduler: React.FC = () => {
           start: schedule.start_time,
           end: schedule.end_time
         },
+        windows: getScheduleWindows(schedule),
       };
       setEditingSchedule(transformedSchedule);
       setShowOverwriteForm(true);
@@ -71,10 +86,15 @@ const AppointmentScheduler: React.FC = () => {
   };
 
   const confirmDelete = async () => {
-    if (scheduleToDelete) {
-      await deleteSchedule(scheduleToDelete);
-      setShowDeleteConfirm(false);
-      setScheduleToDelete(null);
+    const schedule = filteredSchedules.find(item => item.id === scheduleToDelete);
+    setShowDeleteConfirm(false);
+    setScheduleToDelete(null);
+    if (!schedule) return;
+
+    // Bookings on the deleted date fall back to the weekly hours, which may not cover them
+    const deleted = await changeGuard.guard({ type: 'delete', schedule }, () => deleteSchedule(schedule.id));
+    if (deleted) {
+      queryClient.invalidateQueries({ queryKey: [SCHEDULE_CALENDAR_QUERY_KEY] });
     }
   };
 
@@ -83,8 +103,11 @@ const AppointmentScheduler: React.FC = () => {
     setScheduleToDelete(null);
   };
 
-  const handleToggleStatus = async (id: number) => {
-    await toggleScheduleStatus(id);
+  const handleToggleStatus = async (schedule: Schedule) => {
+    const toggled = await changeGuard.guard({ type: 'toggle', schedule }, () => toggleScheduleStatus(schedule.id));
+    if (toggled) {
+      queryClient.invalidateQueries({ queryKey: [SCHEDULE_CALENDAR_QUERY_KEY] });
+    }
   };
 
   // Handler for OverwriteSpecificDays component
@@ -92,6 +115,7 @@ const AppointmentScheduler: React.FC = () => {
     // The OverwriteSpecificDays component handles the API call internally
     // This handler will be called after successful save
     closeAllForms();
+    queryClient.invalidateQueries({ queryKey: [SCHEDULE_CALENDAR_QUERY_KEY] });
   };
 
   // Handler for EditTimeOnly component
@@ -99,16 +123,12 @@ const AppointmentScheduler: React.FC = () => {
     // The EditTimeOnly component handles the API call internally using updateScheduleByDay
     // This handler will be called after successful save
     closeAllForms();
+    queryClient.invalidateQueries({ queryKey: [SCHEDULE_CALENDAR_QUERY_KEY] });
   };
 
   const formatDays = (day: string | undefined, scheduledDate?: string) => {
     if (scheduledDate) {
-      const date = new Date(scheduledDate);
-      return date.toLocaleDateString('en-US', { 
-        day: '2-digit', 
-        month: 'short', 
-        year: 'numeric' 
-      }).toUpperCase();
+      return formatCalendarDate(scheduledDate, { day: '2-digit', month: 'short', year: 'numeric' }).toUpperCase();
     }
     
     // Handle single day string
@@ -119,26 +139,6 @@ const AppointmentScheduler: React.FC = () => {
     return '';
   };
 
-  const formatTime = (time: any) => {
-    if (!time) return '';
-    
-    // Extract time portion from datetime string
-    let timeStr;
-    if (time.includes('T')) {
-      // Handle datetime format like "2000-01-01T08:00:00.000+05:30"
-      timeStr = time.split('T')[1].split('.')[0]; // Gets "08:00:00"
-    } else {
-      // Handle simple time format like "08:00"
-      timeStr = time;
-    }
-    
-    const [hours, minutes] = timeStr.split(':');
-    const hour = parseInt(hours);
-    const ampm = hour >= 12 ? 'PM' : 'AM';
-    const displayHour = hour % 12 || 12;
-    return `${displayHour.toString().padStart(2, '0')}:${minutes} ${ampm}`;
-  };
-
   const getStatusBadge = (status: boolean) => {
     if (status) {
       return (
@@ -273,7 +273,9 @@ const AppointmentScheduler: React.FC = () => {
               <div>
                 <h2 className="text-xl font-medium text-gray-900 mb-1">Schedule Times</h2>
                 <p className="text-sm text-gray-500">
-                  {activeTab === 'custom' 
+                  {viewMode === 'calendar'
+                    ? 'Weekly hours with custom dates applied'
+                    : activeTab === 'custom' 
                     ? `Showing ${customTotalCount} Schedules`
                     : `Showing ${filteredSchedules.length} Schedules`
                   }
@@ -286,7 +288,29 @@ const AppointmentScheduler: React.FC = () => {
               </div>
               
               <div className="flex items-center gap-4">
-                {activeTab === 'custom' && (
+                <div className="flex space-x-1 bg-gray-100 p-1 rounded-lg">
+                  <button
+                    onClick={() => setViewMode('calendar')}
+                    aria-pressed={viewMode === 'calendar'}
+                    className={`flex items-center gap-1 px-3 py-1.5 text-sm font-medium rounded-md transition-colors ${
+                      viewMode === 'calendar' ? 'bg-white text-blue-600 shadow-sm' : 'text-gray-500 hover:text-gray-700'
+                    }`}
+                  >
+                    <CalendarDays className="h-4 w-4" />
+                    Calendar
+                  </button>
+                  <button
+                    onClick={() => setViewMode('table')}
+                    aria-pressed={viewMode === 'table'}
+                    className={`flex items-center gap-1 px-3 py-1.5 text-sm font-medium rounded-md transition-colors ${
+                      viewMode === 'table' ? 'bg-white text-blue-600 shadow-sm' : 'text-gray-500 hover:text-gray-700'
+                    }`}
+                  >
+                    <List className="h-4 w-4" />
+                    Table
+                  </button>
+                </div>
+                {(viewMode === 'calendar' || activeTab === 'custom') && (
                   <button
                     onClick={handleAddNew}
                     className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-blue-700 transition-colors"
@@ -299,30 +323,32 @@ const AppointmentScheduler: React.FC = () => {
             </div>
 
             {/* Tabs */}
-            <div className="flex space-x-1 bg-gray-100 p-1 rounded-lg">
-              <button
-                onClick={() => setActiveTab('general')}
-                className={`flex-1 px-4 py-2 text-sm font-medium rounded-md transition-colors ${
-                  activeTab === 'general'
-                    ? 'bg-white text-blue-600 shadow-sm'
-                    : 'text-gray-500 hover:text-gray-700'
-                }`}
-              >
-                General
-              </button>
-              <button
-                onClick={() => setActiveTab('custom')}
-                className={`flex-1 px-4 py-2 text-sm font-medium rounded-md transition-colors ${
-                  activeTab === 'custom'
-                    ? 'bg-white text-blue-600 shadow-sm'
-                    : 'text-gray-500 hover:text-gray-700'
-                }`}
-              >
-                Custom
-              </button>
-            </div>
+            {viewMode === 'table' && (
+              <div className="flex space-x-1 bg-gray-100 p-1 rounded-lg">
+                <button
+                  onClick={() => setActiveTab('general')}
+                  className={`flex-1 px-4 py-2 text-sm font-medium rounded-md transition-colors ${
+                    activeTab === 'general'
+                      ? 'bg-white text-blue-600 shadow-sm'
+                      : 'text-gray-500 hover:text-gray-700'
+                  }`}
+                >
+                  General
+                </button>
+                <button
+                  onClick={() => setActiveTab('custom')}
+                  className={`flex-1 px-4 py-2 text-sm font-medium rounded-md transition-colors ${
+                    activeTab === 'custom'
+                      ? 'bg-white text-blue-600 shadow-sm'
+                      : 'text-gray-500 hover:text-gray-700'
+                  }`}
+                >
+                  Custom
+                </button>
+              </div>
+            )}
 
-            {activeTab === 'custom' && (
+            {viewMode === 'table' && activeTab === 'custom' && (
               <div className="flex items-center justify-end gap-2 mt-4">
                 <label htmlFor="itemsPerPage" className="text-sm font-medium text-gray-700 whitespace-nowrap">
                   Show:
@@ -342,110 +368,115 @@ const AppointmentScheduler: React.FC = () => {
             )}
           </div>
 
-          {/* Table */}
-          <div className="overflow-x-auto">
-            <table className="min-w-full">
-              <thead>
-                <tr className="bg-gray-50 border-b border-gray-100">
-                  <th className="px-6 py-4 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    {activeTab === 'general' ? 'Days' : 'Date'}
-                  </th>
-                  <th className="px-6 py-4 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    Timings
-                  </th>
-                  <th className="px-6 py-4 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    Status
-                  </th>
-                  <th className="px-6 py-4 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    Actions
-                  </th>
-                </tr>
-              </thead>
-              <tbody className="bg-white">
-                {filteredSchedules.map((schedule, index) => (
-                  <tr
-                    key={schedule.id}
-                    className={`hover:bg-gray-50 transition-colors ${
-                      index !== filteredSchedules.length - 1 ? 'border-b border-gray-100' : ''
-                    } ${loading ? 'opacity-50' : ''}`}
-                  >
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="text-sm font-medium text-red-600">
-                        {formatDays(schedule.day, schedule.scheduled_date)}
-                      </div>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="text-sm text-gray-900">
-                        {formatTime(schedule.start_time)} - {formatTime(schedule.end_time)}
-                      </div>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      {getStatusBadge(schedule.status)}
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="flex items-center justify-center space-x-3">
-                        {/* Edit Icon - Show for both General and Custom tabs */}
-                        <button
-                          onClick={() => handleEdit(schedule)}
-                          className="group relative p-2 rounded-full hover:bg-blue-100 transition-colors"
-                        >
-                          <Edit3 className="w-4 h-4 text-blue-600 group-hover:text-blue-700" />
-                          {/* Tooltip */}
-                          <div className="absolute bottom-full left-1/2 transform -translate-x-1/2 mb-2 px-3 py-2 text-xs text-white bg-black bg-opacity-80 rounded-md opacity-0 group-hover:opacity-100 transition-all duration-200 whitespace-nowrap pointer-events-none z-50 shadow-lg">
-                            {activeTab === 'general' ? 'Edit Time' : 'Edit Schedule'}
-                            {/* Tooltip Arrow */}
-                            <div className="absolute top-full left-1/2 transform -translate-x-1/2 w-0 h-0 border-l-4 border-r-4 border-t-4 border-transparent border-t-black border-opacity-80"></div>
-                          </div>
-                        </button>
+          {viewMode === 'calendar' && <ScheduleCalendar />}
 
-                        {/* Toggle Status Switch */}
-                        <div className="group relative">
-                          <button
-                            onClick={() => handleToggleStatus(schedule.id)}
-                            className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 ${
-                              schedule.status
-                                ? 'bg-green-500 hover:bg-green-600'
-                                : 'bg-gray-300 hover:bg-gray-400'
-                            }`}
-                          >
-                            <span
-                              className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform duration-200 ${
-                                schedule.status ? 'translate-x-6' : 'translate-x-1'
-                              }`}
-                            />
-                          </button>
-                          {/* Tooltip */}
-                          <div className="absolute bottom-full left-1/2 transform -translate-x-1/2 mb-2 px-3 py-2 text-xs text-white bg-black bg-opacity-80 rounded-md opacity-0 group-hover:opacity-100 transition-all duration-200 whitespace-nowrap pointer-events-none z-50 shadow-lg">
-                            {schedule.status ? 'Deactivate' : 'Activate'}
-                            {/* Tooltip Arrow */}
-                            <div className="absolute top-full left-1/2 transform -translate-x-1/2 w-0 h-0 border-l-4 border-r-4 border-t-4 border-transparent border-t-black border-opacity-80"></div>
-                          </div>
+          {/* Table */}
+          {viewMode === 'table' && (
+            <div className="overflow-x-auto">
+              <table className="min-w-full">
+                <thead>
+                  <tr className="bg-gray-50 border-b border-gray-100">
+                    <th className="px-6 py-4 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      {activeTab === 'general' ? 'Days' : 'Date'}
+                    </th>
+                    <th className="px-6 py-4 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Timings ({getTimeZoneLabel(clinicTimeZone)})
+                    </th>
+                    <th className="px-6 py-4 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Status
+                    </th>
+                    <th className="px-6 py-4 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Actions
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white">
+                  {filteredSchedules.map((schedule, index) => (
+                    <tr
+                      key={schedule.id}
+                      className={`hover:bg-gray-50 transition-colors ${
+                        index !== filteredSchedules.length - 1 ? 'border-b border-gray-100' : ''
+                      } ${loading ? 'opacity-50' : ''}`}
+                    >
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="text-sm font-medium text-red-600">
+                          {formatDays(schedule.day, schedule.scheduled_date)}
                         </div>
-
-                        {/* Delete Icon - Only for Custom tab */}
-                        {activeTab === 'custom' && (
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="text-sm text-gray-900">
+                          {getScheduleWindows(schedule).map(formatWindow).join(', ')}
+                        </div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        {getStatusBadge(schedule.status)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="flex items-center justify-center space-x-3">
+                          {/* Edit Icon - Show for both General and Custom tabs */}
                           <button
-                            onClick={() => handleDelete(schedule.id)}
-                            className="group relative p-2 rounded-full hover:bg-red-100 transition-colors"
+                            onClick={() => handleEdit(schedule)}
+                            className="group relative p-2 rounded-full hover:bg-blue-100 transition-colors"
                           >
-                            <Trash2 className="w-4 h-4 text-red-600 group-hover:text-red-700" />
+                            <Edit3 className="w-4 h-4 text-blue-600 group-hover:text-blue-700" />
                             {/* Tooltip */}
                             <div className="absolute bottom-full left-1/2 transform -translate-x-1/2 mb-2 px-3 py-2 text-xs text-white bg-black bg-opacity-80 rounded-md opacity-0 group-hover:opacity-100 transition-all duration-200 whitespace-nowrap pointer-events-none z-50 shadow-lg">
-                              Delete Schedule
+                              {activeTab === 'general' ? 'Edit Time' : 'Edit Schedule'}
                               {/* Tooltip Arrow */}
                               <div className="absolute top-full left-1/2 transform -translate-x-1/2 w-0 h-0 border-l-4 border-r-4 border-t-4 border-transparent border-t-black border-opacity-80"></div>
                             </div>
                           </button>
-                        )}
-                      </div>
-                    </td>
-                  </tr>
-                ))}
-              </tbody>
-            </table>
-          </div>
 
-          {activeTab === 'custom' && customTotalPages > 1 && (
+                          {/* Toggle Status Switch */}
+                          <div className="group relative">
+                            <button
+                              onClick={() => handleToggleStatus(schedule)}
+                              disabled={changeGuard.isChecking}
+                              className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 ${
+                                schedule.status
+                                  ? 'bg-green-500 hover:bg-green-600'
+                                  : 'bg-gray-300 hover:bg-gray-400'
+                              }`}
+                            >
+                              <span
+                                className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform duration-200 ${
+                                  schedule.status ? 'translate-x-6' : 'translate-x-1'
+                                }`}
+                              />
+                            </button>
+                            {/* Tooltip */}
+                            <div className="absolute bottom-full left-1/2 transform -translate-x-1/2 mb-2 px-3 py-2 text-xs text-white bg-black bg-opacity-80 rounded-md opacity-0 group-hover:opacity-100 transition-all duration-200 whitespace-nowrap pointer-events-none z-50 shadow-lg">
+                              {schedule.status ? 'Deactivate' : 'Activate'}
+                              {/* Tooltip Arrow */}
+                              <div className="absolute top-full left-1/2 transform -translate-x-1/2 w-0 h-0 border-l-4 border-r-4 border-t-4 border-transparent border-t-black border-opacity-80"></div>
+                            </div>
+                          </div>
+
+                          {/* Delete Icon - Only for Custom tab */}
+                          {activeTab === 'custom' && (
+                            <button
+                              onClick={() => handleDelete(schedule.id)}
+                              className="group relative p-2 rounded-full hover:bg-red-100 transition-colors"
+                            >
+                              <Trash2 className="w-4 h-4 text-red-600 group-hover:text-red-700" />
+                              {/* Tooltip */}
+                              <div className="absolute bottom-full left-1/2 transform -translate-x-1/2 mb-2 px-3 py-2 text-xs text-white bg-black bg-opacity-80 rounded-md opacity-0 group-hover:opacity-100 transition-all duration-200 whitespace-nowrap pointer-events-none z-50 shadow-lg">
+                                Delete Schedule
+                                {/* Tooltip Arrow */}
+                                <div className="absolute top-full left-1/2 transform -translate-x-1/2 w-0 h-0 border-l-4 border-r-4 border-t-4 border-transparent border-t-black border-opacity-80"></div>
+                              </div>
+                            </button>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {viewMode === 'table' && activeTab === 'custom' && customTotalPages > 1 && (
             <div className="px-6 py-4 border-t border-gray-100 flex flex-col sm:flex-row items-center justify-between gap-4">
               <div className="text-sm text-gray-700">
                 {customTotalCount > 0 ? (
@@ -480,7 +511,7 @@ const AppointmentScheduler: React.FC = () => {
           )}
 
           {/* Empty State */}
-          {filteredSchedules.length === 0 && !loading && (
+          {viewMode === 'table' && filteredSchedules.length === 0 && !loading && (
             <div className="text-center py-12">
               <svg
                 className="mx-auto h-12 w-12 text-gray-400"
@@ -505,10 +536,12 @@ const AppointmentScheduler: React.FC = () => {
           )}
         </div>
 
+        <ScheduleBlocksPanel />
+
         {/* Overwrite Specific Days Form Modal */}
         {showOverwriteForm && (
           <div className="fixed inset-0 z-50 flex items-center justify-center backdrop-brightness-50 bg-opacity-10">
-            <div className="bg-white rounded-lg shadow-lg w-full max-w-xl relative flex flex-col" style={{ minHeight: 480, maxHeight: 540 }}>
+            <div className="bg-white rounded-lg shadow-lg w-full max-w-xl relative flex flex-col overflow-y-auto" style={{ minHeight: 480, maxHeight: 540 }}>
               <OverwriteSpecificDays
                 onClose={closeAllForms}
                 onSave={handleSaveOverwrite}
@@ -521,7 +554,7 @@ const AppointmentScheduler: React.FC = () => {
         {/* Edit Time Only Form Modal - for General tab */}
         {showEditTimeForm && editingSchedule && (
           <div className="fixed inset-0 z-50 flex items-center justify-center backdrop-brightness-50 bg-opacity-10">
-            <div className="bg-white rounded-lg shadow-lg w-full max-w-xl relative flex flex-col" style={{ minHeight: 480, maxHeight: 540 }}>
+            <div className="bg-white rounded-lg shadow-lg w-full max-w-xl relative flex flex-col overflow-y-auto" style={{ minHeight: 480, maxHeight: 540 }}>
               <EditTimeOnly
                 onClose={closeAllForms}
                 onSave={handleSaveTimeEdit}
@@ -529,7 +562,8 @@ const AppointmentScheduler: React.FC = () => {
                   id: editingSchedule.id.toString(),
                   day: editingSchedule.day || '',
                   start_time: editingSchedule.start_time || '',
-                  end_time: editingSchedule.end_time || ''
+                  end_time: editingSchedule.end_time || '',
+                  windows: editingSchedule.windows
                 } : undefined}
               />
             </div>
@@ -547,6 +581,13 @@ const AppointmentScheduler: React.FC = () => {
           onCancel={cancelDelete}
           type="danger"
         />
+
+        <ScheduleChangePreviewDialog
+          preview={changeGuard.preview}
+          isSaving={changeGuard.isSaving}
+          onConfirm={changeGuard.confirm}
+          onCancel={changeGuard.cancel}
+        />
       </main>
     </div>
   );
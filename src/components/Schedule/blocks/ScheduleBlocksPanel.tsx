@@ -0,0 +1,190 @@
+// components/Schedule/blocks/ScheduleBlocksPanel.tsx
+
+import React, { useState } from 'react';
+import { AlertTriangle, CalendarOff, Plus, Trash2, Upload } from 'lucide-react';
+import BlockDatesForm from '../forms/BlockDatesForm';
+import ImportHolidaysForm from '../forms/ImportHolidaysForm';
+import ConfirmationDialog from '../../common/ConfirmationDialog';
+import { useScheduleBlocks } from '../../../hooks/useScheduleBlocks';
+import { formatBlockRange, getBlockDayCount } from '../../../utils/scheduleBlocks';
+import type { AffectedBookingsAction, ScheduleBlock } from '../../../types/schedule';
+
+// Upcoming leave and holidays, with the bookings each one still clashes with
+const ScheduleBlocksPanel: React.FC = () => {
+  const {
+    blocks,
+    isLoading,
+    error,
+    refetch,
+    getAffectedSlots,
+    createBlock,
+    importHolidays,
+    deleteBlock,
+    handleAffectedBookings,
+  } = useScheduleBlocks();
+
+  const [showBlockForm, setShowBlockForm] = useState(false);
+  const [showImportForm, setShowImportForm] = useState(false);
+  const [blockToDelete, setBlockToDelete] = useState<ScheduleBlock | null>(null);
+  // Block whose bookings are being rescheduled or notified
+  const [busyId, setBusyId] = useState<number | null>(null);
+
+  const handleBookings = async (block: ScheduleBlock, action: Exclude<AffectedBookingsAction, 'keep'>) => {
+    setBusyId(block.id);
+    try {
+      await handleAffectedBookings(block.id, action);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const confirmDelete = async () => {
+    if (blockToDelete) {
+      await deleteBlock(blockToDelete.id);
+      setBlockToDelete(null);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm mt-6">
+      <div className="px-6 py-4 border-b border-gray-100 flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h2 className="text-xl font-medium text-gray-900 mb-1">Leave &amp; Holidays</h2>
+          <p className="text-sm text-gray-500">Dates closed to new bookings</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setShowImportForm(true)}
+            className="flex items-center gap-2 border border-gray-300 text-gray-700 px-4 py-2 rounded-lg text-sm font-medium hover:bg-gray-50 transition-colors"
+          >
+            <Upload className="h-4 w-4" />
+            Import Holidays
+          </button>
+          <button
+            onClick={() => setShowBlockForm(true)}
+            className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-blue-700 transition-colors"
+          >
+            <Plus className="h-4 w-4" />
+            Block Dates
+          </button>
+        </div>
+      </div>
+
+      {error ? (
+        <div className="m-6 bg-red-50 border border-red-200 rounded-md p-4 flex items-center justify-between">
+          <p className="text-red-600 text-sm">{error}</p>
+          <button
+            onClick={() => refetch()}
+            className="bg-red-100 text-red-800 px-3 py-1 rounded-md text-xs font-medium hover:bg-red-200 transition-colors"
+          >
+            Retry
+          </button>
+        </div>
+      ) : isLoading ? (
+        <div className="p-6 animate-pulse space-y-3">
+          {[...Array(2)].map((_, i) => (
+            <div key={i} className="h-12 bg-gray-100 rounded"></div>
+          ))}
+        </div>
+      ) : blocks.length === 0 ? (
+        <div className="text-center py-10">
+          <CalendarOff className="mx-auto h-10 w-10 text-gray-400" />
+          <h3 className="mt-2 text-sm font-medium text-gray-900">No upcoming leave or holidays</h3>
+          <p className="mt-1 text-sm text-gray-500">Block dates for a vacation or import your public holidays.</p>
+        </div>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {blocks.map(block => {
+            const affected = getAffectedSlots(block).length;
+            const busy = busyId === block.id;
+
+            return (
+              <li key={block.id} className="px-6 py-4 flex flex-wrap items-center gap-4">
+                <span className="px-2 py-1 rounded-full text-xs font-medium bg-amber-100 text-amber-800 capitalize">
+                  {block.kind}
+                </span>
+                <div className="flex-1 min-w-48">
+                  <p className="text-sm font-medium text-gray-900">{block.reason}</p>
+                  <p className="text-sm text-gray-500">
+                    {formatBlockRange(block)} · {getBlockDayCount(block)} day(s)
+                  </p>
+                </div>
+
+                {affected > 0 && (
+                  <div className="flex items-center gap-2">
+                    <span className="flex items-center gap-1 text-sm text-amber-700">
+                      <AlertTriangle className="h-4 w-4" />
+                      {affected} booked
+                    </span>
+                    <button
+                      onClick={() => handleBookings(block, 'reschedule')}
+                      disabled={busy}
+                      className="px-3 py-1.5 text-xs font-medium rounded-md border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50 transition-colors"
+                    >
+                      Reschedule
+                    </button>
+                    <button
+                      onClick={() => handleBookings(block, 'notify')}
+                      disabled={busy}
+                      className="px-3 py-1.5 text-xs font-medium rounded-md border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50 transition-colors"
+                    >
+                      Notify Patients
+                    </button>
+                  </div>
+                )}
+
+                <button
+                  onClick={() => setBlockToDelete(block)}
+                  disabled={busy}
+                  aria-label={`Remove ${block.reason}`}
+                  className="p-2 rounded-full hover:bg-red-100 disabled:opacity-50 transition-colors"
+                >
+                  <Trash2 className="w-4 h-4 text-red-600" />
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {showBlockForm && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center backdrop-brightness-50 bg-opacity-10">
+          <div className="bg-white rounded-lg shadow-lg w-full max-w-xl relative flex flex-col overflow-y-auto" style={{ maxHeight: '90vh' }}>
+            <BlockDatesForm
+              onClose={() => setShowBlockForm(false)}
+              onSave={createBlock}
+              getAffectedSlots={getAffectedSlots}
+            />
+          </div>
+        </div>
+      )}
+
+      {showImportForm && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center backdrop-brightness-50 bg-opacity-10">
+          <div className="bg-white rounded-lg shadow-lg w-full max-w-xl relative flex flex-col overflow-y-auto" style={{ maxHeight: '90vh' }}>
+            <ImportHolidaysForm
+              onClose={() => setShowImportForm(false)}
+              onImport={importHolidays}
+              getAffectedSlots={getAffectedSlots}
+            />
+          </div>
+        </div>
+      )}
+
+      <ConfirmationDialog
+        isOpen={Boolean(blockToDelete)}
+        title="Remove Blocked Dates"
+        message={blockToDelete
+          ? `Reopen ${formatBlockRange(blockToDelete)} for bookings? The weekly and custom schedules will apply again.`
+          : ''}
+        confirmText="Remove"
+        cancelText="Cancel"
+        onConfirm={confirmDelete}
+        onCancel={() => setBlockToDelete(null)}
+        type="danger"
+      />
+    </div>
+  );
+};
+
+export default ScheduleBlocksPanel;
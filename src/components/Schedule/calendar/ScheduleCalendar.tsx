@@ -0,0 +1,121 @@
+// components/Schedule/calendar/ScheduleCalendar.tsx
+
+import React, { useState } from 'react';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import ScheduleWeekView from './ScheduleWeekView';
+import ScheduleMonthView from './ScheduleMonthView';
+import ScheduleChangePreviewDialog from '../common/ScheduleChangePreviewDialog';
+import { useScheduleCalendar } from '../../../hooks/useScheduleCalendar';
+import { useClinicTimeZone } from '../../../context/ClinicTimeZoneContext';
+import { formatCalendarDate, getClinicToday, getTimeZoneLabel } from '../../../utils/dateTime';
+import { addDays, addMonths } from '../../../utils/scheduleCalendar';
+import type { ScheduleCalendarDay, ScheduleCalendarRange } from '../../../types/schedule';
+
+const ScheduleCalendar: React.FC = () => {
+  const clinicTimeZone = useClinicTimeZone();
+  const [anchor, setAnchor] = useState(() => getClinicToday(clinicTimeZone));
+  const [range, setRange] = useState<ScheduleCalendarRange>('week');
+  const { days, isLoading, isFetching, error, refetch, updateWindows, changeGuard } = useScheduleCalendar(anchor, range);
+
+  const move = (step: number) => {
+    setAnchor(current => range === 'week' ? addDays(current, step * 7) : addMonths(current, step));
+  };
+
+  const handleSelectDay = (day: ScheduleCalendarDay) => {
+    setAnchor(day.date);
+    setRange('week');
+  };
+
+  const title = range === 'week' && days.length > 0
+    ? `${formatCalendarDate(days[0].date, { month: 'short', day: 'numeric' })} – ${formatCalendarDate(days[days.length - 1].date)}`
+    : formatCalendarDate(`${anchor.slice(0, 7)}-01`, { month: 'long', year: 'numeric' });
+
+  return (
+    <div>
+      <div className="px-6 py-4 flex flex-wrap items-center justify-between gap-4 border-b border-gray-100">
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => move(-1)}
+            aria-label={range === 'week' ? 'Previous week' : 'Previous month'}
+            className="p-2 rounded-md border border-gray-300 bg-white text-gray-500 hover:bg-gray-50 transition-colors"
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => setAnchor(getClinicToday(clinicTimeZone))}
+            className="px-3 py-2 text-sm rounded-md border border-gray-300 bg-white text-gray-700 hover:bg-gray-50 transition-colors"
+          >
+            Today
+          </button>
+          <button
+            onClick={() => move(1)}
+            aria-label={range === 'week' ? 'Next week' : 'Next month'}
+            className="p-2 rounded-md border border-gray-300 bg-white text-gray-500 hover:bg-gray-50 transition-colors"
+          >
+            <ChevronRight className="w-4 h-4" />
+          </button>
+          <h3 className="ml-2 text-base font-medium text-gray-900">{title}</h3>
+          {isFetching && (
+            <div className="inline-block animate-spin rounded-full h-3 w-3 border border-blue-500 border-t-transparent"></div>
+          )}
+        </div>
+
+        <div className="flex items-center gap-4">
+          <div className="hidden md:flex items-center gap-3 text-xs text-gray-500">
+            <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-blue-100 border border-blue-200" />Weekly hours</span>
+            <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-purple-100 border border-purple-200" />Custom date</span>
+            <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-amber-100 border border-amber-200" />Leave / holiday</span>
+            <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-green-500" />Booked</span>
+          </div>
+          <div className="flex space-x-1 bg-gray-100 p-1 rounded-lg">
+            {(['week', 'month'] as const).map(option => (
+              <button
+                key={option}
+                onClick={() => setRange(option)}
+                className={`px-3 py-1 text-sm font-medium rounded-md capitalize transition-colors ${
+                  range === option ? 'bg-white text-blue-600 shadow-sm' : 'text-gray-500 hover:text-gray-700'
+                }`}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {error ? (
+        <div className="m-6 bg-red-50 border border-red-200 rounded-md p-4 flex items-center justify-between">
+          <p className="text-red-600 text-sm">{error}</p>
+          <button
+            onClick={() => refetch()}
+            className="bg-red-100 text-red-800 px-3 py-1 rounded-md text-xs font-medium hover:bg-red-200 transition-colors"
+          >
+            Retry
+          </button>
+        </div>
+      ) : isLoading ? (
+        <div className="p-6 animate-pulse">
+          <div className="h-96 bg-gray-100 rounded"></div>
+        </div>
+      ) : range === 'week' ? (
+        <ScheduleWeekView days={days} onResize={updateWindows} />
+      ) : (
+        <ScheduleMonthView days={days} month={anchor.slice(0, 7)} onSelectDay={handleSelectDay} />
+      )}
+
+      <p className="px-6 py-3 text-xs text-gray-500 border-t border-gray-100">
+        Times are in clinic time ({getTimeZoneLabel(clinicTimeZone)}).
+        {range === 'week' && ' Drag the top or bottom edge of a working window to change its hours.'}
+      </p>
+
+      <ScheduleChangePreviewDialog
+        preview={changeGuard.preview}
+        isSaving={changeGuard.isSaving}
+        onConfirm={changeGuard.confirm}
+        onCancel={changeGuard.cancel}
+      />
+    </div>
+  );
+};
+
+export default ScheduleCalendar;
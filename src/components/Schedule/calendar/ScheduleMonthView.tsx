@@ -0,0 +1,92 @@
+// components/Schedule/calendar/ScheduleMonthView.tsx
+
+import React from 'react';
+import { WEEKDAYS } from '../../../constants/schedule';
+import { useClinicTimeZone } from '../../../context/ClinicTimeZoneContext';
+import { getClinicToday } from '../../../utils/dateTime';
+import { formatWindow } from '../../../utils/scheduleWindows';
+import type { ScheduleCalendarDay } from '../../../types/schedule';
+
+interface ScheduleMonthViewProps {
+  days: ScheduleCalendarDay[];
+  month: string; // YYYY-MM of the month being shown
+  onSelectDay: (day: ScheduleCalendarDay) => void;
+}
+
+// Weeks start on Monday, matching getCalendarDates
+const WEEKDAY_HEADERS = [...WEEKDAYS.slice(1), WEEKDAYS[0]];
+
+const ScheduleMonthView: React.FC<ScheduleMonthViewProps> = ({ days, month, onSelectDay }) => {
+  const clinicTimeZone = useClinicTimeZone();
+  const today = getClinicToday(clinicTimeZone);
+
+  return (
+    <div className="overflow-x-auto">
+      <div className="min-w-[760px] grid grid-cols-7">
+        {WEEKDAY_HEADERS.map(weekday => (
+          <div key={weekday} className="px-2 py-3 text-center text-xs font-medium text-gray-500 uppercase border-b border-gray-100">
+            {weekday.slice(0, 3)}
+          </div>
+        ))}
+
+        {days.map(day => {
+          const inMonth = day.date.startsWith(month);
+
+          return (
+            <button
+              key={day.date}
+              type="button"
+              onClick={() => onSelectDay(day)}
+              className={`min-h-24 p-2 text-left border-b border-r border-gray-100 transition-colors hover:bg-blue-50 ${
+                !inMonth ? 'bg-gray-50 text-gray-400' : day.block ? 'bg-amber-50' : 'bg-white'
+              }`}
+            >
+              <div className="flex items-center justify-between">
+                <span
+                  className={`text-sm font-semibold ${
+                    day.date === today ? 'text-white bg-blue-600 rounded-full w-6 h-6 flex items-center justify-center' : ''
+                  }`}
+                >
+                  {Number(day.date.slice(8))}
+                </span>
+                {day.block ? (
+                  <span className="px-1.5 py-0.5 rounded-full text-[10px] font-medium bg-amber-100 text-amber-800 capitalize">
+                    {day.block.kind}
+                  </span>
+                ) : day.source === 'custom' && (
+                  <span className="px-1.5 py-0.5 rounded-full text-[10px] font-medium bg-purple-100 text-purple-700">
+                    Custom
+                  </span>
+                )}
+              </div>
+
+              {day.block ? (
+                <p className="mt-2 text-xs font-medium text-amber-700 truncate" title={day.block.reason}>{day.block.reason}</p>
+              ) : day.windows.length > 0 ? (
+                <div className="mt-2 space-y-0.5">
+                  {day.windows.map(window => (
+                    <p key={window.start} className="text-xs text-gray-700">{formatWindow(window)}</p>
+                  ))}
+                </div>
+              ) : (
+                <p className="mt-2 text-xs text-gray-400">{day.schedule ? 'Inactive' : 'Closed'}</p>
+              )}
+
+              {day.bookedSlots.length > 0 && (
+                <p
+                  className={`mt-1 inline-block px-1.5 py-0.5 rounded text-[10px] font-medium ${
+                    day.block ? 'bg-red-100 text-red-800' : 'bg-green-100 text-green-800'
+                  }`}
+                >
+                  {day.bookedSlots.length} booked
+                </p>
+              )}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ScheduleMonthView;
@@ -0,0 +1,262 @@
+// components/Schedule/calendar/ScheduleWeekView.tsx
+
+import React, { useState } from 'react';
+import {
+  CALENDAR_END_HOUR,
+  CALENDAR_HOUR_HEIGHT_PX,
+  CALENDAR_SNAP_MINUTES,
+  CALENDAR_START_HOUR,
+} from '../../../constants/schedule';
+import { DEFAULT_APPOINTMENT_MINUTES } from '../../../constants/booking';
+import { useClinicTimeZone } from '../../../context/ClinicTimeZoneContext';
+import { formatCalendarDate, formatClinicTime, getClinicToday, minutesToTime, timeToMinutes } from '../../../utils/dateTime';
+import { formatWindow, getBreaks } from '../../../utils/scheduleWindows';
+import type { ScheduleCalendarDay, ScheduleWindow } from '../../../types/schedule';
+
+interface ScheduleWeekViewProps {
+  days: ScheduleCalendarDay[];
+  onResize: (day: ScheduleCalendarDay, windows: ScheduleWindow[]) => Promise<boolean>;
+}
+
+interface DragState {
+  date: string;
+  index: number;
+  edge: 'start' | 'end';
+  originY: number;
+  original: ScheduleWindow;
+  current: ScheduleWindow;
+  // A window cannot be dragged into its neighbours
+  min: number;
+  max: number;
+}
+
+const AXIS_START = CALENDAR_START_HOUR * 60;
+const AXIS_END = CALENDAR_END_HOUR * 60;
+const HOURS = Array.from({ length: CALENDAR_END_HOUR - CALENDAR_START_HOUR }, (_, index) => CALENDAR_START_HOUR + index);
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+// Vertical position and height of a clinic-time range inside a day column
+const getBlockStyle = (startMinutes: number, endMinutes: number): React.CSSProperties => {
+  const top = clamp(startMinutes, AXIS_START, AXIS_END) - AXIS_START;
+  const bottom = clamp(endMinutes, AXIS_START, AXIS_END) - AXIS_START;
+  return {
+    top: (top / 60) * CALENDAR_HOUR_HEIGHT_PX,
+    height: Math.max(((bottom - top) / 60) * CALENDAR_HOUR_HEIGHT_PX, 2),
+  };
+};
+
+const getSlotMinutes = (slotTime: string): [number, number] => {
+  const [start, end] = slotTime.split('-');
+  const startMinutes = timeToMinutes(start);
+  return [startMinutes, end ? timeToMinutes(end) : startMinutes + DEFAULT_APPOINTMENT_MINUTES];
+};
+
+const ScheduleWeekView: React.FC<ScheduleWeekViewProps> = ({ days, onResize }) => {
+  const [drag, setDrag] = useState<DragState | null>(null);
+  // Windows shown while a resize is being saved, so the blocks do not jump back
+  const [pending, setPending] = useState<{ date: string; windows: ScheduleWindow[] } | null>(null);
+  const clinicTimeZone = useClinicTimeZone();
+  const today = getClinicToday(clinicTimeZone);
+
+  const handlePointerDown = (event: React.PointerEvent, day: ScheduleCalendarDay, index: number, edge: DragState['edge']) => {
+    const dragged = day.windows[index];
+    if (!dragged || pending) return;
+    event.preventDefault();
+    event.currentTarget.setPointerCapture(event.pointerId);
+    setDrag({
+      date: day.date,
+      index,
+      edge,
+      originY: event.clientY,
+      original: dragged,
+      current: dragged,
+      min: index > 0 ? timeToMinutes(day.windows[index - 1].end) : AXIS_START,
+      max: index < day.windows.length - 1 ? timeToMinutes(day.windows[index + 1].start) : AXIS_END,
+    });
+  };
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    if (!drag) return;
+
+    const movedMinutes = ((event.clientY - drag.originY) / CALENDAR_HOUR_HEIGHT_PX) * 60;
+    const delta = Math.round(movedMinutes / CALENDAR_SNAP_MINUTES) * CALENDAR_SNAP_MINUTES;
+    const start = timeToMinutes(drag.original.start);
+    const end = timeToMinutes(drag.original.end);
+
+    const current = drag.edge === 'start'
+      ? { start: minutesToTime(clamp(start + delta, drag.min, end - CALENDAR_SNAP_MINUTES)), end: drag.original.end }
+      : { start: drag.original.start, end: minutesToTime(clamp(end + delta, start + CALENDAR_SNAP_MINUTES, drag.max)) };
+
+    setDrag({ ...drag, current });
+  };
+
+  const handlePointerUp = async (day: ScheduleCalendarDay) => {
+    if (!drag) return;
+
+    const { index, current, original } = drag;
+    setDrag(null);
+    if (current.start === original.start && current.end === original.end) return;
+
+    const windows = day.windows.map((hours, i) => i === index ? current : hours);
+    setPending({ date: day.date, windows });
+    try {
+      await onResize(day, windows);
+    } finally {
+      setPending(null);
+    }
+  };
+
+  // A cancelled gesture (scroll takeover, lost capture) drops the drag without saving
+  const handlePointerCancel = () => setDrag(null);
+
+  return (
+    <div className="overflow-x-auto">
+      <div className="min-w-[760px]">
+        {/* Day headers */}
+        <div className="grid grid-cols-[4rem_repeat(7,minmax(0,1fr))] border-b border-gray-100">
+          <div />
+          {days.map(day => (
+            <div key={day.date} className="px-2 py-3 text-center">
+              <p className={`text-xs font-medium uppercase ${day.date === today ? 'text-blue-600' : 'text-gray-500'}`}>
+                {day.weekday.slice(0, 3)}
+              </p>
+              <p className={`text-sm font-semibold ${day.date === today ? 'text-blue-600' : 'text-gray-900'}`}>
+                {formatCalendarDate(day.date, { month: 'short', day: 'numeric' })}
+              </p>
+              {day.block ? (
+                <span className="inline-block mt-1 px-2 py-0.5 rounded-full text-[10px] font-medium bg-amber-100 text-amber-800 capitalize">
+                  {day.block.kind}
+                </span>
+              ) : day.source === 'custom' && (
+                <span className="inline-block mt-1 px-2 py-0.5 rounded-full text-[10px] font-medium bg-purple-100 text-purple-700">
+                  Custom
+                </span>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {/* Time grid */}
+        <div className="grid grid-cols-[4rem_repeat(7,minmax(0,1fr))]">
+          <div>
+            {HOURS.map(hour => (
+              <div
+                key={hour}
+                className="pr-2 text-right text-xs text-gray-400"
+                style={{ height: CALENDAR_HOUR_HEIGHT_PX }}
+              >
+                {formatClinicTime(minutesToTime(hour * 60))}
+              </div>
+            ))}
+          </div>
+
+          {days.map(day => {
+            const windows = pending?.date === day.date
+              ? pending.windows
+              : day.windows.map((hours, index) =>
+                drag?.date === day.date && drag.index === index ? drag.current : hours
+              );
+            const breaks = pending?.date === day.date || drag?.date === day.date ? getBreaks(windows) : day.breaks;
+
+            return (
+              <div
+                key={day.date}
+                className={`relative border-l border-gray-100 ${day.block ? 'bg-amber-50' : windows.length > 0 ? '' : 'bg-gray-50'}`}
+                style={{ height: HOURS.length * CALENDAR_HOUR_HEIGHT_PX }}
+              >
+                {HOURS.map(hour => (
+                  <div
+                    key={hour}
+                    className="absolute inset-x-0 border-t border-gray-100"
+                    style={{ top: (hour - CALENDAR_START_HOUR) * CALENDAR_HOUR_HEIGHT_PX }}
+                  />
+                ))}
+
+                {day.block ? (
+                  <p className="absolute inset-x-1 top-4 text-center text-xs font-medium text-amber-700" title={day.block.reason}>
+                    {day.block.reason}
+                  </p>
+                ) : windows.length === 0 && (
+                  <p className="absolute inset-x-0 top-4 text-center text-xs text-gray-400">
+                    {day.schedule ? 'Inactive' : 'Closed'}
+                  </p>
+                )}
+
+                {breaks.map(gap => (
+                  <div
+                    key={`break-${gap.start}`}
+                    className="absolute inset-x-1 flex items-center justify-center bg-[repeating-linear-gradient(45deg,#f3f4f6,#f3f4f6_4px,#ffffff_4px,#ffffff_8px)]"
+                    style={getBlockStyle(timeToMinutes(gap.start), timeToMinutes(gap.end))}
+                    title={`Break ${formatWindow(gap)}`}
+                  >
+                    <span className="text-[10px] text-gray-400">Break</span>
+                  </div>
+                ))}
+
+                {windows.map((hours, index) => (
+                  <div
+                    key={index}
+                    className={`absolute inset-x-1 rounded-md border ${
+                      day.source === 'custom' ? 'bg-purple-50 border-purple-200' : 'bg-blue-50 border-blue-200'
+                    } ${pending?.date === day.date ? 'opacity-60' : ''}`}
+                    style={getBlockStyle(timeToMinutes(hours.start), timeToMinutes(hours.end))}
+                    title={
+                      day.source === 'custom'
+                        ? 'Drag the edges to change hours for this date'
+                        : `Drag the edges to change hours for every ${day.weekday}`
+                    }
+                  >
+                    <div
+                      role="slider"
+                      aria-label={`Start time of window ${index + 1} on ${day.weekday} ${day.date}`}
+                      aria-valuetext={formatClinicTime(hours.start)}
+                      onPointerDown={(event) => handlePointerDown(event, day, index, 'start')}
+                      onPointerMove={handlePointerMove}
+                      onPointerUp={() => handlePointerUp(day)}
+                      onPointerCancel={handlePointerCancel}
+                      onLostPointerCapture={handlePointerCancel}
+                      className="absolute inset-x-0 top-0 h-2 z-10 cursor-ns-resize rounded-t-md hover:bg-blue-200 touch-none"
+                    />
+                    <p className="px-1 pt-2 text-[11px] font-medium text-gray-700">
+                      {formatWindow(hours)}
+                    </p>
+                    <div
+                      role="slider"
+                      aria-label={`End time of window ${index + 1} on ${day.weekday} ${day.date}`}
+                      aria-valuetext={formatClinicTime(hours.end)}
+                      onPointerDown={(event) => handlePointerDown(event, day, index, 'end')}
+                      onPointerMove={handlePointerMove}
+                      onPointerUp={() => handlePointerUp(day)}
+                      onPointerCancel={handlePointerCancel}
+                      onLostPointerCapture={handlePointerCancel}
+                      className="absolute inset-x-0 bottom-0 h-2 z-10 cursor-ns-resize rounded-b-md hover:bg-blue-200 touch-none"
+                    />
+                  </div>
+                ))}
+
+                {day.bookedSlots.map(slot => {
+                  const [start, end] = getSlotMinutes(slot.slot_time);
+                  return (
+                    <div
+                      key={slot.id}
+                      className={`absolute left-3 right-2 rounded ${day.block ? 'bg-red-500/80' : 'bg-green-500/80'} text-white text-[10px] px-1 overflow-hidden`}
+                      style={getBlockStyle(start, end)}
+                      title={day.block
+                        ? `Booked ${formatClinicTime(slot.slot_time)} during ${day.block.reason}`
+                        : `Booked ${formatClinicTime(slot.slot_time)}`}
+                    >
+                      {formatClinicTime(slot.slot_time.split('-')[0])}
+                    </div>
+                  );
+                })}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ScheduleWeekView;
@@ -0,0 +1,165 @@
+// components/Schedule/common/ScheduleChangePreviewDialog.tsx
+
+import React, { useState } from 'react';
+import { AlertTriangle, ArrowRight } from 'lucide-react';
+import { CONFLICT_MOVE_SEARCH_DAYS } from '../../../constants/schedule';
+import { formatCalendarDate, formatClinicTime } from '../../../utils/dateTime';
+import type { ScheduleChange, ScheduleChangePreview } from '../../../types/schedule';
+
+interface ScheduleChangePreviewDialogProps {
+  preview: ScheduleChangePreview | null;
+  isSaving: boolean;
+  onConfirm: (moveAppointments: boolean) => void;
+  onCancel: () => void;
+}
+
+const describeChange = (change: ScheduleChange): string => {
+  switch (change.type) {
+    case 'update_day':
+      return `The new hours for every ${change.day} leave these appointments outside working time.`;
+    case 'update_date':
+      return `The new hours for ${formatCalendarDate(change.date)} leave these appointments outside working time.`;
+    case 'delete':
+      return 'Deleting this schedule leaves these appointments outside working time.';
+    case 'toggle':
+      return 'Turning this schedule off leaves these appointments outside working time.';
+  }
+};
+
+const formatSlot = (slotDate: string, slotTime: string) =>
+  `${formatCalendarDate(slotDate, { weekday: 'short', month: 'short', day: 'numeric' })}, ${formatClinicTime(slotTime)}`;
+
+const ScheduleChangePreviewDialog: React.FC<ScheduleChangePreviewDialogProps> = ({
+  preview,
+  isSaving,
+  onConfirm,
+  onCancel
+}) => {
+  if (!preview) return null;
+
+  // Keyed so the choices reset for every new preview
+  return (
+    <PreviewContent
+      key={`${preview.change.type}-${preview.conflicts.map(conflict => conflict.slot.id).join(',')}`}
+      preview={preview}
+      isSaving={isSaving}
+      onConfirm={onConfirm}
+      onCancel={onCancel}
+    />
+  );
+};
+
+const PreviewContent: React.FC<ScheduleChangePreviewDialogProps & { preview: ScheduleChangePreview }> = ({
+  preview,
+  isSaving,
+  onConfirm,
+  onCancel
+}) => {
+  const movable = preview.conflicts.filter(conflict => conflict.suggestion).length;
+  const [move, setMove] = useState(movable > 0);
+  const [acknowledged, setAcknowledged] = useState(false);
+
+  // Leaving any booking stranded is destructive and has to be acknowledged
+  const strandsBookings = !move || movable < preview.conflicts.length;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center backdrop-brightness-50 bg-opacity-10">
+      <div className="bg-white rounded-lg shadow-lg w-full max-w-xl mx-4 flex flex-col" style={{ maxHeight: '90vh' }}>
+        <div className="p-6 border-b border-gray-200 flex items-start gap-3">
+          <div className="p-2 rounded-full bg-amber-100">
+            <AlertTriangle className="h-5 w-5 text-amber-600" />
+          </div>
+          <div>
+            <h2 className="text-lg font-medium text-[#333333]">
+              {preview.conflicts.length} booked appointment(s) affected
+            </h2>
+            <p className="text-sm text-[#666666] mt-1">{describeChange(preview.change)}</p>
+          </div>
+        </div>
+
+        <ul className="px-6 py-4 overflow-y-auto divide-y divide-gray-100">
+          {preview.conflicts.map(({ slot, suggestion }) => (
+            <li key={slot.id} className="py-2 flex flex-wrap items-center gap-2 text-sm">
+              <span className="text-[#333333]">{formatSlot(slot.slot_date, slot.slot_time)}</span>
+              {move && (
+                suggestion ? (
+                  <>
+                    <ArrowRight className="h-4 w-4 text-gray-400" />
+                    <span className="text-green-700">{formatSlot(suggestion.slot_date, suggestion.slot_time)}</span>
+                  </>
+                ) : (
+                  <span className="text-red-600">No free slot within {CONFLICT_MOVE_SEARCH_DAYS} days</span>
+                )
+              )}
+            </li>
+          ))}
+        </ul>
+
+        <div className="px-6 py-4 border-t border-gray-200 space-y-3">
+          <label className="flex items-start gap-2 cursor-pointer">
+            <input
+              type="radio"
+              name="schedule-conflict-action"
+              checked={move}
+              disabled={movable === 0}
+              onChange={() => setMove(true)}
+              className="mt-1"
+            />
+            <span className="text-sm">
+              <span className="font-medium text-[#333333]">Move them to the nearest free slots</span>
+              <span className="block text-[#666666]">
+                {movable === 0 ? 'There are no free slots nearby.' : 'Each booking moves to the time shown next to it.'}
+              </span>
+            </span>
+          </label>
+          <label className="flex items-start gap-2 cursor-pointer">
+            <input
+              type="radio"
+              name="schedule-conflict-action"
+              checked={!move}
+              onChange={() => setMove(false)}
+              className="mt-1"
+            />
+            <span className="text-sm">
+              <span className="font-medium text-[#333333]">Keep the bookings where they are</span>
+              <span className="block text-[#666666]">They stay booked outside working hours until someone moves them.</span>
+            </span>
+          </label>
+
+          {strandsBookings && (
+            <label className="flex items-start gap-2 p-3 bg-red-50 border border-red-200 rounded-lg cursor-pointer">
+              <input
+                type="checkbox"
+                checked={acknowledged}
+                onChange={(e) => setAcknowledged(e.target.checked)}
+                className="mt-1"
+              />
+              <span className="text-sm text-red-700">
+                I understand some patients will hold appointments outside working hours.
+              </span>
+            </label>
+          )}
+        </div>
+
+        <div className="flex justify-end space-x-3 px-6 py-4 border-t border-gray-200">
+          <button
+            onClick={onCancel}
+            disabled={isSaving}
+            className="px-6 py-2 border border-gray-300 rounded-lg text-[#666666] hover:bg-gray-50 font-medium text-sm transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onConfirm(move)}
+            disabled={isSaving || (strandsBookings && !acknowledged)}
+            className="px-6 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 font-medium text-sm disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {isSaving ? 'Saving...' : move && movable > 0 ? 'Save and Move' : 'Save Anyway'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ScheduleChangePreviewDialog;
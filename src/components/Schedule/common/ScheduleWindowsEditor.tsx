@@ -0,0 +1,105 @@
+// components/Schedule/common/ScheduleWindowsEditor.tsx
+
+import React from 'react';
+import { Coffee, Plus, X } from 'lucide-react';
+import { minutesToTime, timeToMinutes } from '../../../utils/dateTime';
+import { formatWindow, getBreaks, getWorkingMinutes, sortWindows } from '../../../utils/scheduleWindows';
+import type { ScheduleWindow } from '../../../types/schedule';
+
+interface ScheduleWindowsEditorProps {
+  windows: ScheduleWindow[];
+  onChange: (windows: ScheduleWindow[]) => void;
+  label?: string;
+}
+
+const DEFAULT_WINDOW_MINUTES = 3 * 60;
+const LAST_MINUTE = 23 * 60 + 59;
+
+const ScheduleWindowsEditor: React.FC<ScheduleWindowsEditorProps> = ({
+  windows,
+  onChange,
+  label = 'Working Hours'
+}) => {
+  const breaks = getBreaks(windows);
+  const workingMinutes = getWorkingMinutes(windows);
+
+  const handleChange = (index: number, field: keyof ScheduleWindow, value: string) => {
+    onChange(windows.map((window, i) => i === index ? { ...window, [field]: value } : window));
+  };
+
+  // A new window starts an hour after the latest one ends
+  const handleAdd = () => {
+    const last = sortWindows(windows)[windows.length - 1];
+    const start = last ? Math.min(timeToMinutes(last.end) + 60, LAST_MINUTE - 60) : 9 * 60;
+    onChange([...windows, { start: minutesToTime(start), end: minutesToTime(Math.min(start + DEFAULT_WINDOW_MINUTES, LAST_MINUTE)) }]);
+  };
+
+  const handleRemove = (index: number) => {
+    onChange(windows.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-[#333333] mb-2">
+        {label}
+      </label>
+
+      <div className="space-y-3">
+        {windows.map((window, index) => (
+          <div key={index} className="flex items-center space-x-3">
+            <div className="flex-1">
+              <input
+                type="time"
+                value={window.start}
+                onChange={(e) => handleChange(index, 'start', e.target.value)}
+                aria-label={`Window ${index + 1} start`}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#4A90E2] focus:border-transparent text-sm"
+              />
+            </div>
+            <div className="flex-1">
+              <input
+                type="time"
+                value={window.end}
+                onChange={(e) => handleChange(index, 'end', e.target.value)}
+                aria-label={`Window ${index + 1} end`}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#4A90E2] focus:border-transparent text-sm"
+              />
+            </div>
+            <button
+              type="button"
+              onClick={() => handleRemove(index)}
+              disabled={windows.length === 1}
+              aria-label={`Remove window ${index + 1}`}
+              className="p-2 text-gray-400 hover:text-red-500 disabled:opacity-30 disabled:cursor-not-allowed"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <button
+        type="button"
+        onClick={handleAdd}
+        className="mt-3 text-sm text-[#4A90E2] hover:text-[#357ABD] font-medium flex items-center space-x-1"
+      >
+        <Plus className="h-4 w-4" />
+        <span>Add working window</span>
+      </button>
+
+      <div className="mt-4 p-3 bg-gray-50 rounded-lg border border-gray-200 space-y-1">
+        <div className="text-sm text-[#666666]">
+          Total Duration: {workingMinutes > 0 ? `${Math.floor(workingMinutes / 60)}h ${workingMinutes % 60}m` : '__'}
+        </div>
+        {breaks.map(gap => (
+          <div key={gap.start} className="flex items-center gap-1 text-sm text-[#666666]">
+            <Coffee className="h-3.5 w-3.5" />
+            Break: {formatWindow(gap)}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ScheduleWindowsEditor;
@@ -0,0 +1,217 @@
+// components/Schedule/forms/BlockDatesForm.tsx
+
+import React, { useState } from 'react';
+import { AlertTriangle, X } from 'lucide-react';
+import { useClinicTimeZone } from '../../../context/ClinicTimeZoneContext';
+import { formatCalendarDate, formatClinicTime, getClinicToday } from '../../../utils/dateTime';
+import { getBlockDayCount, validateBlock } from '../../../utils/scheduleBlocks';
+import type { BookedSlot } from '../../../types/chart';
+import type {
+  AffectedBookingsAction,
+  CreateScheduleBlockRequest,
+  ScheduleBlock,
+  ScheduleBlockKind
+} from '../../../types/schedule';
+
+interface BlockDatesFormProps {
+  onClose: () => void;
+  onSave: (block: CreateScheduleBlockRequest, action: AffectedBookingsAction) => Promise<boolean>;
+  getAffectedSlots: (range: Pick<ScheduleBlock, 'start_date' | 'end_date'>) => BookedSlot[];
+}
+
+const ACTION_OPTIONS: { value: AffectedBookingsAction; label: string; description: string }[] = [
+  { value: 'keep', label: 'Keep the bookings', description: 'Handle them yourself later from this panel' },
+  { value: 'reschedule', label: 'Reschedule automatically', description: 'Move each booking to the next free slot after the range' },
+  { value: 'notify', label: 'Ask patients to rebook', description: 'Email each patient a link to pick a new time' },
+];
+
+// Number of affected bookings listed before the rest are summarised
+const VISIBLE_AFFECTED = 5;
+
+const BlockDatesForm: React.FC<BlockDatesFormProps> = ({ onClose, onSave, getAffectedSlots }) => {
+  const [formData, setFormData] = useState<CreateScheduleBlockRequest>({
+    start_date: '',
+    end_date: '',
+    reason: '',
+    kind: 'leave',
+  });
+  const [action, setAction] = useState<AffectedBookingsAction>('keep');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const clinicTimeZone = useClinicTimeZone();
+
+  const hasRange = Boolean(formData.start_date && formData.end_date && formData.end_date >= formData.start_date);
+  const affectedSlots = hasRange ? getAffectedSlots(formData) : [];
+
+  const handleStartDateChange = (startDate: string) => {
+    setFormData(prev => ({
+      ...prev,
+      start_date: startDate,
+      // Keep the range valid; a single-day block only needs the start date
+      end_date: !prev.end_date || prev.end_date < startDate ? startDate : prev.end_date,
+    }));
+  };
+
+  const handleSubmit = async () => {
+    const validationError = validateBlock(formData, clinicTimeZone);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    try {
+      const saved = await onSave(formData, affectedSlots.length > 0 ? action : 'keep');
+      if (saved) {
+        onClose();
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="w-full max-w-2xl mx-auto">
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-lg font-medium text-[#333333]">Block Dates</h2>
+          <button
+            onClick={onClose}
+            className="text-[#666666] hover:text-[#333333] transition-colors"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-sm text-red-600">{error}</p>
+          </div>
+        )}
+
+        <div className="space-y-6">
+          <p className="text-sm text-[#666666]">
+            No new bookings can be made on blocked dates, whatever the weekly or custom schedule says.
+          </p>
+
+          <div className="flex space-x-1 bg-gray-100 p-1 rounded-lg">
+            {(['leave', 'holiday'] as ScheduleBlockKind[]).map(kind => (
+              <button
+                key={kind}
+                type="button"
+                onClick={() => setFormData(prev => ({ ...prev, kind }))}
+                className={`flex-1 px-4 py-2 text-sm font-medium rounded-md capitalize transition-colors ${
+                  formData.kind === kind ? 'bg-white text-blue-600 shadow-sm' : 'text-gray-500 hover:text-gray-700'
+                }`}
+              >
+                {kind}
+              </button>
+            ))}
+          </div>
+
+          <div className="flex space-x-3">
+            <div className="flex-1">
+              <label className="block text-sm font-medium text-[#333333] mb-2">From</label>
+              <input
+                type="date"
+                value={formData.start_date}
+                min={getClinicToday(clinicTimeZone)}
+                onChange={(e) => handleStartDateChange(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#4A90E2] focus:border-transparent text-sm"
+              />
+            </div>
+            <div className="flex-1">
+              <label className="block text-sm font-medium text-[#333333] mb-2">To</label>
+              <input
+                type="date"
+                value={formData.end_date}
+                min={formData.start_date || getClinicToday(clinicTimeZone)}
+                onChange={(e) => setFormData(prev => ({ ...prev, end_date: e.target.value }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#4A90E2] focus:border-transparent text-sm"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-[#333333] mb-2">Reason</label>
+            <input
+              type="text"
+              value={formData.reason}
+              onChange={(e) => setFormData(prev => ({ ...prev, reason: e.target.value }))}
+              placeholder={formData.kind === 'holiday' ? 'e.g. Diwali' : 'e.g. Annual vacation'}
+              maxLength={100}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#4A90E2] focus:border-transparent text-sm"
+            />
+          </div>
+
+          {hasRange && (
+            <div className="p-3 bg-gray-50 rounded-lg border border-gray-200 text-sm text-[#666666]">
+              Blocking {getBlockDayCount(formData)} day(s)
+            </div>
+          )}
+
+          {affectedSlots.length > 0 && (
+            <div className="p-4 bg-amber-50 border border-amber-200 rounded-lg space-y-3">
+              <div className="flex items-start gap-2">
+                <AlertTriangle className="h-4 w-4 text-amber-600 mt-0.5 flex-shrink-0" />
+                <p className="text-sm font-medium text-amber-800">
+                  {affectedSlots.length} booked appointment(s) fall inside this range
+                </p>
+              </div>
+
+              <ul className="text-sm text-amber-900 space-y-1 pl-6 list-disc">
+                {affectedSlots.slice(0, VISIBLE_AFFECTED).map(slot => (
+                  <li key={slot.id}>
+                    {formatCalendarDate(slot.slot_date)}, {formatClinicTime(slot.slot_time)}
+                  </li>
+                ))}
+                {affectedSlots.length > VISIBLE_AFFECTED && (
+                  <li>and {affectedSlots.length - VISIBLE_AFFECTED} more</li>
+                )}
+              </ul>
+
+              <div className="space-y-2">
+                {ACTION_OPTIONS.map(option => (
+                  <label key={option.value} className="flex items-start gap-2 cursor-pointer">
+                    <input
+                      type="radio"
+                      name="affected-bookings-action"
+                      value={option.value}
+                      checked={action === option.value}
+                      onChange={() => setAction(option.value)}
+                      className="mt-1"
+                    />
+                    <span className="text-sm">
+                      <span className="font-medium text-[#333333]">{option.label}</span>
+                      <span className="block text-[#666666]">{option.description}</span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="flex space-x-3 mt-6 pt-4 border-t border-gray-200">
+          <button
+            onClick={onClose}
+            className="px-6 py-2 border border-gray-300 rounded-lg text-[#666666] hover:bg-gray-50 font-medium text-sm transition-colors"
+            disabled={loading}
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSubmit}
+            disabled={loading}
+            className="px-6 py-2 bg-[#4A90E2] text-white rounded-lg hover:bg-[#357ABD] font-medium text-sm disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {loading ? 'Saving...' : 'Block Dates'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BlockDatesForm;
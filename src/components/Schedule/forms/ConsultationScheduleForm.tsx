@@ -1,15 +1,14 @@
 import React, { useState, useEffect } from 'react';
-import { Clock, X, Plus } from 'lucide-react';
 import { scheduleService } from '../../../services/scheduleService';
-import type { CreateScheduleRequest, UpdateScheduleRequest, Schedule } from '../../../types/schedule';
+import { useConsultationTypes } from '../../../hooks/useConsultationTypes';
+import { generateSessionSlots, getScheduleWindows, toWindowsRequest, validateWindows } from '../../../utils/scheduleWindows';
+import type { CreateScheduleRequest, UpdateScheduleRequest, Schedule, ScheduleWindow } from '../../../types/schedule';
 import Header from '../../layouts/Header';
+import ScheduleWindowsEditor from '../common/ScheduleWindowsEditor';
 
-// Types
-interface TimeSlot {
-  start: string;
-  end: string;
-}
+const DEFAULT_WINDOWS: ScheduleWindow[] = [{ start: '09:00', end: '17:00' }];
 
+// Types
 interface ConsultationScheduleFormProps {
   onCancel?: () => void;
   onSave?: (schedule: any) => void;
@@ -24,6 +23,7 @@ const ConsultationScheduleForm: React.FC<ConsultationScheduleFormProps> = ({
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
+  const { consultationTypes } = useConsultationTypes();
   
   // Helper function to parse days string to array
   const parseDaysToArray = (daysString?: string): string[] => {
@@ -57,9 +57,7 @@ const ConsultationScheduleForm: React.FC<ConsultationScheduleFormProps> = ({
   const [consultationFormData, setConsultationFormData] = useState({
     days: [] as string[],
     timePerSession: '15',
-    fromTime: '09:00',
-    toTime: '17:00',
-    timeSlots: [] as string[]
+    windows: DEFAULT_WINDOWS
   });
 
   // Initialize form data when schedule prop changes
@@ -69,18 +67,14 @@ const ConsultationScheduleForm: React.FC<ConsultationScheduleFormProps> = ({
       setConsultationFormData({
         days: parseDaysToArray(schedule.day || schedule.days),
         timePerSession: formatDurationToMinutes(schedule.duration_hr, schedule.duration_min),
-        fromTime: schedule.start_time || '09:00',
-        toTime: schedule.end_time || '17:00',
-        timeSlots: []
+        windows: getScheduleWindows(schedule).length > 0 ? getScheduleWindows(schedule) : DEFAULT_WINDOWS
       });
     } else {
       // Reset form for new schedule
       setConsultationFormData({
         days: [],
         timePerSession: '15',
-        fromTime: '09:00',
-        toTime: '17:00',
-        timeSlots: []
+        windows: DEFAULT_WINDOWS
       });
     }
   }, [schedule]);
@@ -104,49 +98,15 @@ const ConsultationScheduleForm: React.FC<ConsultationScheduleFormProps> = ({
     }));
   };
 
-  const handleConsultationTimeSlotChange = (index: number, value: string) => {
-    setConsultationFormData(prev => ({
-      ...prev,
-      timeSlots: prev.timeSlots.map((slot, i) => i === index ? value : slot)
-    }));
-  };
-
-  const handleConsultationAddTimeSlot = () => {
-    setConsultationFormData(prev => ({
-      ...prev,
-      timeSlots: [...prev.timeSlots, '']
-    }));
-  };
-
-  const handleConsultationRemoveTimeSlot = (index: number) => {
-    setConsultationFormData(prev => ({
-      ...prev,
-      timeSlots: prev.timeSlots.filter((_, i) => i !== index)
-    }));
+  const handleWindowsChange = (windows: ScheduleWindow[]) => {
+    setConsultationFormData(prev => ({ ...prev, windows }));
   };
 
-  const calculateDurationInMinutes = (fromTime: string, toTime: string) => {
-    if (!fromTime || !toTime) return 0;
-    
-    const start = new Date(`1970-01-01T${fromTime}:00`);
-    const end = new Date(`1970-01-01T${toTime}:00`);
-    return (end.getTime() - start.getTime()) / (1000 * 60);
-  };
-
-  const validateTimeFormat = (time: string) => {
-    const timeRegex = /^([01]?[0-9]|2[0-3]):[0-5][0-9]$/;
-    return timeRegex.test(time);
-  };
-
-  const validateForm = (formData: any) => {
-    if (!formData.fromTime || !formData.toTime || !formData.timePerSession) {
+  const validateForm = (formData: typeof consultationFormData) => {
+    if (!formData.timePerSession) {
       return 'Please fill in all required fields';
     }
 
-    if (!validateTimeFormat(formData.fromTime) || !validateTimeFormat(formData.toTime)) {
-      return 'Please enter valid time format (HH:MM)';
-    }
-
     if (formData.days.length === 0) {
       return 'Please select at least one day';
     }
@@ -156,22 +116,24 @@ const ConsultationScheduleForm: React.FC<ConsultationScheduleFormProps> = ({
       return 'Please enter a valid time per session';
     }
 
-    // Check if from time is before to time
-    const fromTimeDate = new Date(`1970-01-01T${formData.fromTime}:00`);
-    const toTimeDate = new Date(`1970-01-01T${formData.toTime}:00`);
-    
-    if (fromTimeDate >= toTimeDate) {
-      return 'End time must be after start time';
+    const windowsError = validateWindows(formData.windows);
+    if (windowsError) {
+      return windowsError;
     }
 
-    const durationInMinutes = calculateDurationInMinutes(formData.fromTime, formData.toTime);
-    if (durationInMinutes < timePerSessionNum) {
-      return 'Session duration cannot be longer than the total time duration';
+    // Sessions cannot run into a break, so every window must fit at least one
+    if (formData.windows.some(window => generateSessionSlots([window], timePerSessionNum).length === 0)) {
+      return 'Session duration cannot be longer than a working window';
     }
 
     return null;
   };
 
+  const totalSlots = generateSessionSlots(
+    consultationFormData.windows,
+    parseInt(consultationFormData.timePerSession || '0') || 0
+  ).length;
+
   // Helper function to convert days array to backend format
   const convertDaysToBackendFormat = (days: string[]): string => {
     const dayMap: { [key: string]: string } = {
@@ -199,19 +161,10 @@ const ConsultationScheduleForm: React.FC<ConsultationScheduleFormProps> = ({
         return;
       }
 
-      const timePerSessionNum = parseInt(consultationFormData.timePerSession);
-      const durationInMinutes = calculateDurationInMinutes(
-        consultationFormData.fromTime,
-        consultationFormData.toTime
-      );
-
       // Create schedule data matching your backend API structure
       const scheduleData: CreateScheduleRequest | UpdateScheduleRequest = {
         day: convertDaysToBackendFormat(consultationFormData.days),
-        start_time: consultationFormData.fromTime,
-        end_time: consultationFormData.toTime,
-        duration_hr: Math.floor(durationInMinutes / 60),
-        duration_min: durationInMinutes % 60,
+        ...toWindowsRequest(consultationFormData.windows),
         status: true
       };
 
@@ -312,74 +265,21 @@ const ConsultationScheduleForm: React.FC<ConsultationScheduleFormProps> = ({
               </div>
 
               <div>
-                <label className="block text-lg font-medium text-gray-900 mb-4">
-                  Select the Duration
-                </label>
-                <div className="flex space-x-4">
-                  <div className="flex-1 relative">
-                    <input
-                      type="time"
-                      value={consultationFormData.fromTime}
-                      onChange={(e) => setConsultationFormData(prev => ({ ...prev, fromTime: e.target.value }))}
-                      className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent text-lg"
-                      placeholder="From"
-                    />
-                    <Clock className="absolute right-4 top-4 h-5 w-5 text-gray-400 pointer-events-none" />
-                  </div>
-                  <div className="flex-1 relative">
-                    <input
-                      type="time"
-                      value={consultationFormData.toTime}
-                      onChange={(e) => setConsultationFormData(prev => ({ ...prev, toTime: e.target.value }))}
-                      className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent text-lg"
-                      placeholder="To"
-                    />
-                    <Clock className="absolute right-4 top-4 h-5 w-5 text-gray-400 pointer-events-none" />
-                  </div>
-                </div>
-              </div>
-
-              {/* Total Slots Display */}
-              <div className="p-4 bg-gray-50 rounded-lg">
-                <div className="text-sm text-gray-600">
-                  Duration: {Math.floor(calculateDurationInMinutes(consultationFormData.fromTime, consultationFormData.toTime) / 60)}h {calculateDurationInMinutes(consultationFormData.fromTime, consultationFormData.toTime) % 60}m
-                </div>
-                <div className="text-sm text-gray-600 mt-1">
-                  Total Possible Slots: {consultationFormData.timePerSession ? Math.floor(calculateDurationInMinutes(consultationFormData.fromTime, consultationFormData.toTime) / parseInt(consultationFormData.timePerSession || '0')) : 0}
-                </div>
-              </div>
-
-              {/* Optional: Time Slots Section */}
-              <div>
-                <label className="block text-lg font-medium text-gray-900 mb-4">
-                  Custom Time Slots (Optional)
-                </label>
-                <div className="bg-gray-50 rounded-lg p-6">
-                  {consultationFormData.timeSlots.map((slot, index) => (
-                    <div key={index} className="flex items-center space-x-3 mb-4 last:mb-0">
-                      <input
-                        type="text"
-                        value={slot}
-                        onChange={(e) => handleConsultationTimeSlotChange(index, e.target.value)}
-                        className="flex-1 px-4 py-3 bg-white border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent text-lg"
-                        placeholder="10:00 - 10:15"
-                      />
-                      <button
-                        onClick={() => handleConsultationRemoveTimeSlot(index)}
-                        className="text-gray-400 hover:text-red-500 p-2"
-                      >
-                        <X className="h-5 w-5" />
-                      </button>
-                    </div>
-                  ))}
-                  <button
-                    onClick={handleConsultationAddTimeSlot}
-                    className="mt-2 text-blue-600 hover:text-blue-700 font-medium flex items-center space-x-2"
-                  >
-                    <Plus className="h-4 w-4" />
-                    <span>Add Time Slot</span>
-                  </button>
-                </div>
+                <ScheduleWindowsEditor
+                  windows={consultationFormData.windows}
+                  onChange={handleWindowsChange}
+                />
+                <p className="text-sm text-gray-600 mt-2">
+                  Total Possible Slots: {totalSlots}
+                </p>
+                {consultationTypes.length > 0 && (
+                  <p className="text-sm text-gray-500 mt-1">
+                    Slots per day by consultation type:{' '}
+                    {consultationTypes
+                      .map(type => `${type.name} (${type.duration_minutes} min) ${generateSessionSlots(consultationFormData.windows, type.duration_minutes).length}`)
+                      .join(' · ')}
+                  </p>
+                )}
               </div>
             </div>
 
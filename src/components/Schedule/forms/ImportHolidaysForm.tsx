@@ -0,0 +1,192 @@
+// components/Schedule/forms/ImportHolidaysForm.tsx
+
+import React, { useState } from 'react';
+import { AlertTriangle, Upload, X } from 'lucide-react';
+import { useClinicTimeZone } from '../../../context/ClinicTimeZoneContext';
+import { getClinicToday } from '../../../utils/dateTime';
+import { formatBlockRange, parseIcalHolidays } from '../../../utils/scheduleBlocks';
+import type { BookedSlot } from '../../../types/chart';
+import type { CreateScheduleBlockRequest, ScheduleBlock } from '../../../types/schedule';
+
+interface ImportHolidaysFormProps {
+  onClose: () => void;
+  onImport: (holidays: CreateScheduleBlockRequest[]) => Promise<boolean>;
+  getAffectedSlots: (range: Pick<ScheduleBlock, 'start_date' | 'end_date'>) => BookedSlot[];
+}
+
+const ImportHolidaysForm: React.FC<ImportHolidaysFormProps> = ({ onClose, onImport, getAffectedSlots }) => {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [holidays, setHolidays] = useState<CreateScheduleBlockRequest[]>([]);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const clinicTimeZone = useClinicTimeZone();
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    setError(null);
+    setFileName(file.name);
+    try {
+      // Holidays already over are of no use to the schedule
+      const today = getClinicToday(clinicTimeZone);
+      const parsed = parseIcalHolidays(await file.text()).filter(holiday => holiday.end_date >= today);
+
+      if (parsed.length === 0) {
+        setError('No upcoming holidays found in this file');
+      }
+      setHolidays(parsed);
+      setSelected(new Set(parsed.map((_, index) => index)));
+    } catch {
+      setError('Could not read this file. Please choose an iCal (.ics) file.');
+      setHolidays([]);
+      setSelected(new Set());
+    }
+  };
+
+  const toggle = (index: number) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) {
+        next.delete(index);
+      } else {
+        next.add(index);
+      }
+      return next;
+    });
+  };
+
+  const handleSubmit = async () => {
+    const chosen = holidays.filter((_, index) => selected.has(index));
+    if (chosen.length === 0) {
+      setError('Select at least one holiday to import');
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    try {
+      const imported = await onImport(chosen);
+      if (imported) {
+        onClose();
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const affectedCount = holidays
+    .filter((_, index) => selected.has(index))
+    .reduce((total, holiday) => total + getAffectedSlots(holiday).length, 0);
+
+  return (
+    <div className="w-full max-w-2xl mx-auto">
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-lg font-medium text-[#333333]">Import Public Holidays</h2>
+          <button
+            onClick={onClose}
+            className="text-[#666666] hover:text-[#333333] transition-colors"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-sm text-red-600">{error}</p>
+          </div>
+        )}
+
+        <div className="space-y-6">
+          <p className="text-sm text-[#666666]">
+            Choose an iCal (.ics) file, such as a public holiday calendar exported from Google or Outlook.
+            Each upcoming event becomes a blocked holiday.
+          </p>
+
+          <label className="flex flex-col items-center justify-center gap-2 p-6 border-2 border-dashed border-gray-300 rounded-lg cursor-pointer hover:border-[#4A90E2] transition-colors">
+            <Upload className="h-6 w-6 text-gray-400" />
+            <span className="text-sm text-[#666666]">{fileName || 'Choose a .ics file'}</span>
+            <input
+              type="file"
+              accept=".ics,text/calendar"
+              onChange={handleFileChange}
+              className="sr-only"
+            />
+          </label>
+
+          {holidays.length > 0 && (
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <p className="text-sm font-medium text-[#333333]">
+                  {selected.size} of {holidays.length} selected
+                </p>
+                <button
+                  type="button"
+                  onClick={() => setSelected(selected.size === holidays.length ? new Set() : new Set(holidays.map((_, index) => index)))}
+                  className="text-sm text-[#4A90E2] hover:text-[#357ABD] font-medium"
+                >
+                  {selected.size === holidays.length ? 'Clear all' : 'Select all'}
+                </button>
+              </div>
+
+              <ul className="max-h-64 overflow-y-auto border border-gray-200 rounded-lg divide-y divide-gray-100">
+                {holidays.map((holiday, index) => {
+                  const affected = getAffectedSlots(holiday).length;
+                  return (
+                    <li key={`${holiday.start_date}-${holiday.reason}`}>
+                      <label className="flex items-center gap-3 px-3 py-2 cursor-pointer hover:bg-gray-50">
+                        <input
+                          type="checkbox"
+                          checked={selected.has(index)}
+                          onChange={() => toggle(index)}
+                        />
+                        <span className="flex-1 text-sm text-[#333333]">{holiday.reason}</span>
+                        <span className="text-xs text-[#666666]">{formatBlockRange(holiday)}</span>
+                        {affected > 0 && (
+                          <span className="px-1.5 py-0.5 rounded text-[10px] font-medium bg-red-100 text-red-800">
+                            {affected} booked
+                          </span>
+                        )}
+                      </label>
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          )}
+
+          {affectedCount > 0 && (
+            <div className="flex items-start gap-2 p-3 bg-amber-50 border border-amber-200 rounded-lg">
+              <AlertTriangle className="h-4 w-4 text-amber-600 mt-0.5 flex-shrink-0" />
+              <p className="text-sm text-amber-800">
+                {affectedCount} booked appointment(s) fall on the selected holidays. After importing, reschedule
+                them or ask the patients to rebook from the Leave &amp; Holidays list.
+              </p>
+            </div>
+          )}
+        </div>
+
+        <div className="flex space-x-3 mt-6 pt-4 border-t border-gray-200">
+          <button
+            onClick={onClose}
+            className="px-6 py-2 border border-gray-300 rounded-lg text-[#666666] hover:bg-gray-50 font-medium text-sm transition-colors"
+            disabled={loading}
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSubmit}
+            disabled={loading || selected.size === 0}
+            className="px-6 py-2 bg-[#4A90E2] text-white rounded-lg hover:bg-[#357ABD] font-medium text-sm disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {loading ? 'Importing...' : selected.size > 0 ? `Import ${selected.size} Holiday(s)` : 'Import'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportHolidaysForm;
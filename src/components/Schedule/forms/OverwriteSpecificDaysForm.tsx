@@ -1,6 +1,12 @@
 import React, { useState } from 'react';
 import { Calendar, Clock, X } from 'lucide-react';
 import { useScheduleContext } from '../../../context/ScheduleContext';
+import ScheduleWindowsEditor from '../common/ScheduleWindowsEditor';
+import ScheduleChangePreviewDialog from '../common/ScheduleChangePreviewDialog';
+import { useScheduleChangeGuard } from '../../../hooks/useScheduleChangeGuard';
+import { useClinicTimeZone } from '../../../context/ClinicTimeZoneContext';
+import { getClinicToday } from '../../../utils/dateTime';
+import { toWindowsRequest, validateWindows } from '../../../utils/scheduleWindows';
 import type { CreateScheduleRequest, UpdateScheduleRequest } from '../../../types/schedule';
 
 // Types
@@ -13,6 +19,7 @@ interface SpecificDaySchedule {
   id: string;
   date: string;
   timings: TimeSlot;
+  windows?: TimeSlot[];
 }
 
 interface OverwriteSpecificDaysProps {
@@ -27,10 +34,12 @@ const OverwriteSpecificDays: React.FC<OverwriteSpecificDaysProps> = ({
   editingSchedule
 }) => {
   const { createSchedule, updateScheduleByDate } = useScheduleContext();
+  const changeGuard = useScheduleChangeGuard();
   
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
+  const clinicTimeZone = useClinicTimeZone();
 
   // Function to convert time format to HH:MM for HTML time input
   const convertTimeToHHMM = (time: string): string => {
@@ -69,32 +78,21 @@ const OverwriteSpecificDays: React.FC<OverwriteSpecificDaysProps> = ({
   const [formData, setFormData] = useState({
     id: editingSchedule?.id,
     selectedDate: editingSchedule?.date || '',
-    fromTime: convertTimeToHHMM(editingSchedule?.timings?.start || '09:00'),
-    toTime: convertTimeToHHMM(editingSchedule?.timings?.end || '17:00')
   });
 
-  const calculateDurationInMinutes = (fromTime: string, toTime: string) => {
-    if (!fromTime || !toTime) return 0;
-    
-    const start = new Date(`1970-01-01T${fromTime}:00`);
-    const end = new Date(`1970-01-01T${toTime}:00`);
-    return (end.getTime() - start.getTime()) / (1000 * 60);
-  };
-
-  const validateTimeFormat = (time: string) => {
-    const timeRegex = /^([01]?[0-9]|2[0-3]):[0-5][0-9]$/;
-    return timeRegex.test(time);
-  };
+  // Schedules saved before windows existed only have their timings
+  const [windows, setWindows] = useState<TimeSlot[]>(() => {
+    const saved = editingSchedule?.windows?.length
+      ? editingSchedule.windows
+      : [editingSchedule?.timings || { start: '09:00', end: '17:00' }];
+    return saved.map(window => ({ start: convertTimeToHHMM(window.start), end: convertTimeToHHMM(window.end) }));
+  });
 
   const validateForm = () => {
-    if (!formData.selectedDate || !formData.fromTime || !formData.toTime) {
+    if (!formData.selectedDate) {
       return 'Please fill in all required fields';
     }
 
-    if (!validateTimeFormat(formData.fromTime) || !validateTimeFormat(formData.toTime)) {
-      return 'Please enter valid time format (HH:MM)';
-    }
-
     // Check if selected date is not in the past
     const selectedDate = new Date(formData.selectedDate);
     const today = new Date();
@@ -104,15 +102,7 @@ const OverwriteSpecificDays: React.FC<OverwriteSpecificDaysProps> = ({
       return 'Please select a future date';
     }
 
-    // Check if from time is before to time
-    const fromTimeDate = new Date(`1970-01-01T${formData.fromTime}:00`);
-    const toTimeDate = new Date(`1970-01-01T${formData.toTime}:00`);
-    
-    if (fromTimeDate >= toTimeDate) {
-      return 'End time must be after start time';
-    }
-
-    return null;
+    return validateWindows(windows);
   };
 
   const handleSubmit = async () => {
@@ -127,27 +117,25 @@ const OverwriteSpecificDays: React.FC<OverwriteSpecificDaysProps> = ({
         return;
       }
 
-      const durationInMinutes = calculateDurationInMinutes(formData.fromTime, formData.toTime);
+      const windowsRequest = toWindowsRequest(windows);
 
       // Create schedule data for specific date matching the API structure
       const scheduleData: CreateScheduleRequest | UpdateScheduleRequest = {
         id: editingSchedule?.id,
         scheduled_date: formData.selectedDate,
-        start_time: formData.fromTime,
-        end_time: formData.toTime,
-        duration_hr: Math.floor(durationInMinutes / 60),
-        duration_min: durationInMinutes % 60,
+        ...windowsRequest,
         status: true
       };
 
-      let success = false;
-      if (editingSchedule?.id) {
-        // Use updateScheduleByDate for editing existing custom schedules
-        success = await updateScheduleByDate(formData.selectedDate, scheduleData);
-      } else {
-        // Use createSchedule for new custom schedules
-        success = await createSchedule(scheduleData);
-      }
+      // A new custom schedule replaces the weekly hours for its date, so both paths are checked for bookings
+      const success = await changeGuard.guard(
+        { type: 'update_date', date: formData.selectedDate, request: scheduleData },
+        () => editingSchedule?.id
+          // Use updateScheduleByDate for editing existing custom schedules
+          ? updateScheduleByDate(formData.selectedDate, scheduleData)
+          // Use createSchedule for new custom schedules
+          : createSchedule(scheduleData)
+      );
 
       if (success) {
         setSuccess('Specific date schedule saved successfully!');
@@ -155,7 +143,8 @@ const OverwriteSpecificDays: React.FC<OverwriteSpecificDaysProps> = ({
         // Call the parent onSave callback with the local format
         const localScheduleData = {
           date: formData.selectedDate,
-          timings: { start: formData.fromTime, end: formData.toTime },
+          timings: { start: windowsRequest.start_time, end: windowsRequest.end_time },
+          windows: windowsRequest.windows,
         };
 
         onSave(localScheduleData);
@@ -211,48 +200,14 @@ const OverwriteSpecificDays: React.FC<OverwriteSpecificDaysProps> = ({
                 value={formData.selectedDate}
                 onChange={(e) => setFormData(prev => ({ ...prev, selectedDate: e.target.value }))}
                 className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#4A90E2] focus:border-transparent text-sm"
-                min={new Date().toISOString().split('T')[0]}
+                min={getClinicToday(clinicTimeZone)}
               />
             </div>
           </div>
 
-         <div>
-            <label className="block text-sm font-medium text-[#333333] mb-2">
-              Select the Duration
-            </label>
-            <div className="flex space-x-3">
-              <div className="flex-1">
-                <input
-                  type="time"
-                  value={formData.fromTime}
-                  onChange={(e) => setFormData(prev => ({ ...prev, fromTime: e.target.value }))}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#4A90E2] focus:border-transparent text-sm"
-                  placeholder="From"
-                />
-              </div>
-              <div className="flex-1">
-                <input
-                  type="time"
-                  value={formData.toTime}
-                  onChange={(e) => setFormData(prev => ({ ...prev, toTime: e.target.value }))}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#4A90E2] focus:border-transparent text-sm"
-                  placeholder="To"
-                />
-              </div>
-            </div>
-          </div>
-{/* Total Duration Display */}
-          <div className="p-3 bg-gray-50 rounded-lg border border-gray-200">
-            <div className="text-sm text-[#666666] mt-1">
-              Total Duration: {calculateDurationInMinutes(formData.fromTime, formData.toTime) > 0 
-                ? `${Math.floor(calculateDurationInMinutes(formData.fromTime, formData.toTime) / 60)}h ${calculateDurationInMinutes(formData.fromTime, formData.toTime) % 60}m`
-                : '__'
-              }
-            </div>
-          </div>
+          <ScheduleWindowsEditor windows={windows} onChange={setWindows} />
         </div>
 
-
         <div className="flex space-x-3 mt-6 pt-4 border-t border-gray-200">
           <button
             onClick={onClose}
@@ -266,10 +221,17 @@ const OverwriteSpecificDays: React.FC<OverwriteSpecificDaysProps> = ({
             disabled={loading}
             className="px-6 py-2 bg-[#4A90E2] text-white rounded-lg hover:bg-[#357ABD] font-medium text-sm disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
           >
-            {loading ? 'Saving...' : editingSchedule ? 'Update Schedule' : 'Save'}
+            {changeGuard.isChecking ? 'Checking bookings...' : loading ? 'Saving...' : editingSchedule ? 'Update Schedule' : 'Save'}
           </button>
         </div>
       </div>
+
+      <ScheduleChangePreviewDialog
+        preview={changeGuard.preview}
+        isSaving={changeGuard.isSaving}
+        onConfirm={changeGuard.confirm}
+        onCancel={changeGuard.cancel}
+      />
     </div>
   );
 };
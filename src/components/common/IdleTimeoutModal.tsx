@@ -0,0 +1,81 @@
+import React from 'react';
+import { Clock } from 'lucide-react';
+
+interface IdleTimeoutModalProps {
+  isOpen: boolean;
+  remainingMs: number;
+  onStaySignedIn: () => void;
+  onLogout: () => void;
+}
+
+const formatCountdown = (ms: number): string => {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+const IdleTimeoutModal: React.FC<IdleTimeoutModalProps> = ({
+  isOpen,
+  remainingMs,
+  onStaySignedIn,
+  onLogout
+}) => {
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-opacity-50 backdrop-brightness-50" />
+
+      {/* Dialog */}
+      <div
+        role="alertdialog"
+        aria-modal="true"
+        aria-labelledby="idle-timeout-title"
+        className="relative bg-white rounded-lg shadow-xl max-w-md w-full mx-4 overflow-hidden"
+      >
+        <div className="p-6 bg-yellow-50 border-yellow-200 border-b">
+          <div className="flex items-center">
+            <div className="flex-shrink-0 text-yellow-600">
+              <Clock className="h-6 w-6" />
+            </div>
+            <div className="ml-3">
+              <h3 id="idle-timeout-title" className="text-lg font-medium text-gray-900">
+                Are you still there?
+              </h3>
+            </div>
+          </div>
+        </div>
+
+        <div className="px-6 py-4">
+          <p className="text-sm text-gray-600">
+            You have been inactive for a while. For patient privacy you will be signed out in{' '}
+            <span className="font-semibold text-gray-900 tabular-nums">
+              {formatCountdown(remainingMs)}
+            </span>
+            .
+          </p>
+        </div>
+
+        <div className="px-6 py-4 bg-gray-50 flex justify-end space-x-3">
+          <button
+            onClick={onLogout}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+          >
+            Log out
+          </button>
+          <button
+            onClick={onStaySignedIn}
+            autoFocus
+            className="px-4 py-2 text-sm font-medium rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 bg-blue-600 hover:bg-blue-700 text-white"
+          >
+            Stay signed in
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default IdleTimeoutModal;
@@ -0,0 +1,46 @@
+import React from 'react';
+import { getPasswordStrength } from '../../utils/passwordStrength';
+import type { PasswordStrengthLevel } from '../../utils/passwordStrength';
+
+interface PasswordStrengthMeterProps {
+  password: string;
+}
+
+const LEVEL_STYLES: Record<PasswordStrengthLevel, { bar: string; text: string }> = {
+  weak: { bar: 'bg-red-500', text: 'text-red-600' },
+  fair: { bar: 'bg-yellow-500', text: 'text-yellow-600' },
+  good: { bar: 'bg-blue-500', text: 'text-blue-600' },
+  strong: { bar: 'bg-green-600', text: 'text-green-700' },
+};
+
+const PasswordStrengthMeter: React.FC<PasswordStrengthMeterProps> = ({ password }) => {
+  if (!password) return null;
+
+  const strength = getPasswordStrength(password);
+  const styles = LEVEL_STYLES[strength.level];
+
+  return (
+    <div className="mt-2" aria-live="polite">
+      <div className="flex gap-1">
+        {[1, 2, 3, 4].map(segment => (
+          <div
+            key={segment}
+            className={`h-1.5 flex-1 rounded-full ${segment <= strength.score ? styles.bar : 'bg-gray-200'}`}
+          />
+        ))}
+      </div>
+      <p className={`mt-1 text-xs font-medium ${styles.text}`}>
+        Password strength: {strength.label}
+      </p>
+      {strength.suggestions.length > 0 && (
+        <ul className="mt-1 text-xs text-gray-500 list-disc list-inside">
+          {strength.suggestions.map(suggestion => (
+            <li key={suggestion}>{suggestion}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default PasswordStrengthMeter;
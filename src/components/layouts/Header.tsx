@@ -1,7 +1,9 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { useNavigate, useLocation } from 'react-router-dom';
 import { useAuth } from '../../context/AuthContext';
-import { useAuthenticatedRequest } from '../../hooks/useAuthenticatedRequest';
+import { useCan } from '../../hooks/useCan';
+import { useAdminSettings } from '../../hooks/useAdminSettings';
+import type { Permission } from '../../types/auth.types';
 import MedicalLogo from '../assets/icons/MedicalLogo.svg';
 
 interface HeaderProps {
@@ -9,16 +11,6 @@ interface HeaderProps {
   userRole?: string;
 }
 
-interface AdminUser {
-  id: number;
-  first_name: string;
-  last_name: string;
-  email_address: string;
-  phone_number: string;
-  created_at: string;
-  updated_at: string;
-}
-
 const Header: React.FC<HeaderProps> = ({ 
   userName, 
   userRole 
@@ -26,31 +18,13 @@ const Header: React.FC<HeaderProps> = ({
   const navigate = useNavigate();
   const location = useLocation();
   const { user, logout } = useAuth();
-  const { makeRequest } = useAuthenticatedRequest();
+  const can = useCan();
   const [isProfileDropdownOpen, setIsProfileDropdownOpen] = useState(false);
-  const [adminUser, setAdminUser] = useState<AdminUser | null>(null);
   const dropdownRef = useRef<HTMLDivElement>(null);
 
-  // Fetch admin user data if not available in auth context
-  useEffect(() => {
-    const fetchAdminData = async () => {
-      if (user && (user.full_name === 'Loading...' || user.full_name === 'Admin User')) {
-        try {
-          const response = await makeRequest('/api/v1/admin/admin_settings');
-          if (response.ok) {
-            const data = await response.json();
-            setAdminUser(data.admin_user);
-          }
-        } catch (error) {
-          console.error('Failed to fetch admin user data:', error);
-        }
-      }
-    };
-
-    if (user) {
-      fetchAdminData();
-    }
-  }, [user, makeRequest]);
+  // The admin's own name and email come from the shared settings query
+  const { settings } = useAdminSettings(Boolean(user));
+  const adminUser = settings?.admin_user ?? null;
 
   // Use admin user data or fallback to auth context user or props
   const displayName = adminUser 
@@ -62,12 +36,14 @@ const Header: React.FC<HeaderProps> = ({
   const displayRole = user?.role || userRole || "Admin";
   const displayEmail = adminUser?.email_address || user?.email_address;
 
-  const navigationItems = [
-    { label: 'Appointment', path: '/dashboard' },
-    { label: 'Patients', path: '/patients' },
-    { label: 'Schedule', path: '/schedule' },
-    { label: 'Analytics', path: '/charts' }
+  const navigationItems: { label: string; path: string; permission: Permission }[] = [
+    { label: 'Appointment', path: '/dashboard', permission: 'dashboard:view' },
+    { label: 'Patients', path: '/patients', permission: 'patients:view' },
+    { label: 'Schedule', path: '/schedule', permission: 'schedule:manage' },
+    { label: 'Analytics', path: '/charts', permission: 'analytics:view' },
+    { label: 'Payments', path: '/payments', permission: 'payments:view' }
   ];
+  const visibleNavigationItems = navigationItems.filter(item => can(item.permission));
 
   const handleNavigation = (path: string) => {
     navigate(path);
@@ -126,7 +102,7 @@ const Header: React.FC<HeaderProps> = ({
             {/* Navigation Items */}
             <nav className="hidden md:block ml-10">
               <div className="flex items-baseline space-x-4">
-                {navigationItems.map((item) => (
+                {visibleNavigationItems.map((item) => (
                   <button
                     key={item.path}
                     onClick={() => handleNavigation(item.path)}
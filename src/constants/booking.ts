@@ -0,0 +1,34 @@
+// Booking wizard constants
+import type { PortalAppointmentStatus } from '../types/patientPortal.types';
+
+// Drafts are dropped after this long so they do not linger on shared devices
+export const BOOKING_DRAFT_TTL_MS = 2 * 60 * 60 * 1000;
+
+// Debounce between keystrokes and writing the draft
+export const BOOKING_DRAFT_SAVE_DELAY_MS = 800;
+
+// Slot hold countdown turns urgent below this
+export const SLOT_HOLD_WARNING_MS = 60 * 1000;
+
+// Clinic time zone until admin settings say otherwise, e.g. VITE_CLINIC_TIME_ZONE=Asia/Kolkata
+export const DEFAULT_CLINIC_TIME_ZONE = import.meta.env.VITE_CLINIC_TIME_ZONE || 'Asia/Kolkata';
+
+// Used for calendar invites when the receipt does not name the clinic
+export const DEFAULT_CLINIC_NAME = 'Mediconnect';
+
+// Calendar invites for slots that only give a start time
+export const DEFAULT_APPOINTMENT_MINUTES = 30;
+
+// Consultation types every clinic offers; custom types get their own keys
+export const INITIAL_CONSULTATION_KEY = 'initial';
+export const FOLLOW_UP_CONSULTATION_KEY = 'follow_up';
+
+// Shortest consultation the settings accept
+export const MIN_CONSULTATION_MINUTES = 5;
+
+export const PORTAL_APPOINTMENT_STATUS_LABELS: Record<PortalAppointmentStatus, string> = {
+  booked: 'Booked',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+  no_show: 'Missed',
+};
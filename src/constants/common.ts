@@ -1,3 +1,20 @@
 // src/constants/regex.ts
 
 export const EMAIL_REGEX = /^[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}$/;
+
+// National number patterns keyed by dialling code; numbers without a code are treated as Indian
+export const DEFAULT_DIAL_CODE = '91';
+
+export const PHONE_FORMATS: Record<string, { country: string; pattern: RegExp; example: string }> = {
+  '91': { country: 'India', pattern: /^[6-9]\d{9}$/, example: '9876543210' },
+  '1': { country: 'US/Canada', pattern: /^[2-9]\d{9}$/, example: '2025550123' },
+  '44': { country: 'United Kingdom', pattern: /^7\d{9}$/, example: '7400123456' },
+  '971': { country: 'UAE', pattern: /^5\d{8}$/, example: '501234567' },
+  '966': { country: 'Saudi Arabia', pattern: /^5\d{8}$/, example: '512345678' },
+  '65': { country: 'Singapore', pattern: /^[89]\d{7}$/, example: '81234567' },
+  '61': { country: 'Australia', pattern: /^4\d{8}$/, example: '412345678' },
+};
+
+export const MAX_PATIENT_AGE = 120;
+
+export const PASSWORD_MIN_LENGTH = 8;
@@ -0,0 +1,77 @@
+// Currency and exchange rate settings
+import type { ExchangeRateSource, PricingTier } from '../types/currency.types';
+
+// Consultation prices are set in this currency
+export const BASE_CURRENCY = 'INR';
+
+const DEFAULT_CURRENCIES = ['INR', 'USD', 'EUR', 'GBP', 'CAD', 'AUD'];
+
+const parseCurrencyCodes = (value?: string): string[] => {
+  const codes = (value || '')
+    .split(',')
+    .map(code => code.trim().toUpperCase())
+    .filter(code => /^[A-Z]{3}$/.test(code));
+
+  const list = codes.length > 0 ? codes : DEFAULT_CURRENCIES;
+  // The base currency is always offered
+  return list.includes(BASE_CURRENCY) ? list : [BASE_CURRENCY, ...list];
+};
+
+// Currencies offered at checkout, in display order, e.g. VITE_SUPPORTED_CURRENCIES=INR,USD,AED
+export const SUPPORTED_CURRENCIES = parseCurrencyCodes(import.meta.env.VITE_SUPPORTED_CURRENCIES);
+
+// Where rates come from; 'provider' needs VITE_EXCHANGE_RATE_PROVIDER_URL
+export const EXCHANGE_RATE_SOURCE: ExchangeRateSource =
+  import.meta.env.VITE_EXCHANGE_RATE_SOURCE === 'provider' && import.meta.env.VITE_EXCHANGE_RATE_PROVIDER_URL
+    ? 'provider'
+    : 'backend';
+
+export const EXCHANGE_RATE_PROVIDER_URL = import.meta.env.VITE_EXCHANGE_RATE_PROVIDER_URL || '';
+
+// How long fetched rates are reused before asking the source again
+export const EXCHANGE_RATE_REFRESH_MS = 5 * 60 * 1000;
+
+// Rates older than this are flagged to the patient
+export const EXCHANGE_RATE_STALE_MS = 24 * 60 * 60 * 1000;
+
+// Currency to offer international patients by phone country code, for the codes PHONE_FORMATS knows
+export const DIAL_CODE_CURRENCIES: Record<string, string> = {
+  '1': 'USD',
+  '44': 'GBP',
+  '61': 'AUD',
+  '65': 'SGD',
+  '971': 'AED',
+  '966': 'SAR',
+};
+
+// ...and by browser locale region, e.g. en-CA -> CAD
+export const REGION_CURRENCIES: Record<string, string> = {
+  IN: 'INR',
+  US: 'USD',
+  CA: 'CAD',
+  GB: 'GBP',
+  AU: 'AUD',
+  NZ: 'NZD',
+  SG: 'SGD',
+  AE: 'AED',
+  SA: 'SAR',
+  QA: 'QAR',
+  DE: 'EUR',
+  FR: 'EUR',
+  IT: 'EUR',
+  ES: 'EUR',
+  NL: 'EUR',
+  BE: 'EUR',
+  AT: 'EUR',
+  IE: 'EUR',
+  PT: 'EUR',
+  FI: 'EUR',
+};
+
+export const PRICING_TIER_LABELS: Record<PricingTier, string> = {
+  domestic: 'Domestic',
+  international: 'International',
+};
+
+// Used for the international tier when settings do not name a currency
+export const DEFAULT_INTERNATIONAL_CURRENCY = 'USD';
@@ -0,0 +1,35 @@
+// Payment gateway settings
+import type { AdminPaymentStatus, MockPaymentOutcome, PaymentGatewayId } from '../types/payment.types';
+
+// The mock gateway confirms bookings without a real charge, so it only exists in development builds
+const KNOWN_GATEWAYS: PaymentGatewayId[] = import.meta.env.DEV ? ['razorpay', 'clinic', 'mock'] : ['razorpay', 'clinic'];
+const MOCK_OUTCOMES: MockPaymentOutcome[] = ['success', 'failure', 'dismiss', 'pending'];
+
+const parseGateways = (value?: string): PaymentGatewayId[] => {
+  const gateways = (value || '')
+    .split(',')
+    .map(gateway => gateway.trim())
+    .filter((gateway): gateway is PaymentGatewayId => KNOWN_GATEWAYS.includes(gateway as PaymentGatewayId));
+
+  return gateways.length > 0 ? gateways : ['razorpay'];
+};
+
+// Gateways offered at checkout, in display order, e.g. VITE_PAYMENT_GATEWAYS=razorpay,clinic
+export const ENABLED_PAYMENT_GATEWAYS = parseGateways(import.meta.env.VITE_PAYMENT_GATEWAYS);
+
+// What the local mock gateway does when checkout opens
+export const MOCK_PAYMENT_OUTCOME: MockPaymentOutcome = MOCK_OUTCOMES.includes(
+  import.meta.env.VITE_MOCK_PAYMENT_OUTCOME as MockPaymentOutcome
+)
+  ? (import.meta.env.VITE_MOCK_PAYMENT_OUTCOME as MockPaymentOutcome)
+  : 'success';
+
+export const PAYMENT_STATUS_LABELS: Record<AdminPaymentStatus, string> = {
+  created: 'Created',
+  authorized: 'Authorized',
+  captured: 'Captured',
+  failed: 'Failed',
+  refunded: 'Refunded',
+  partially_refunded: 'Partially refunded',
+  due: 'Due at clinic',
+};
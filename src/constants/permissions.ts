@@ -0,0 +1,57 @@
+// constants/permissions.ts
+import type { Permission, Role } from '../types/auth.types';
+
+export const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  admin: [
+    'dashboard:view',
+    'appointments:view',
+    'appointments:reschedule',
+    'consultations:start',
+    'prescriptions:edit',
+    'patients:view',
+    'patients:edit',
+    'patients:delete',
+    'schedule:manage',
+    'analytics:view',
+    'payments:view',
+    'payments:refund',
+    'profile:view',
+    'settings:manage',
+  ],
+  doctor: [
+    'dashboard:view',
+    'appointments:view',
+    'appointments:reschedule',
+    'consultations:start',
+    'prescriptions:edit',
+    'patients:view',
+    'patients:edit',
+    'schedule:manage',
+    'analytics:view',
+    'payments:view',
+    'profile:view',
+    'settings:manage',
+  ],
+  receptionist: [
+    'dashboard:view',
+    'appointments:view',
+    'appointments:reschedule',
+    'patients:view',
+    'patients:edit',
+    'profile:view',
+  ],
+};
+
+// Given to sessions whose role is not known for certain
+export const LEAST_PRIVILEGED_ROLE: Role = 'receptionist';
+
+export const isRole = (role: string): role is Role =>
+  Object.prototype.hasOwnProperty.call(ROLE_PERMISSIONS, role);
+
+export const hasPermission = (role: string | undefined, permission: Permission): boolean => {
+  const normalizedRole = role?.toLowerCase();
+  if (!normalizedRole || !isRole(normalizedRole)) {
+    return false;
+  }
+  return ROLE_PERMISSIONS[normalizedRole].includes(permission);
+};
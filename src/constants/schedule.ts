@@ -0,0 +1,20 @@
+// src/constants/schedule.ts
+
+// Index matches Date.getUTCDay()
+export const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'] as const;
+
+// Hours shown on the week calendar's time axis, in clinic time
+export const CALENDAR_START_HOUR = 6;
+export const CALENDAR_END_HOUR = 22;
+
+export const CALENDAR_HOUR_HEIGHT_PX = 48;
+
+// Dragged working hours snap to this many minutes
+export const CALENDAR_SNAP_MINUTES = 15;
+
+// How far either side of a displaced booking to look for a free slot to move it to
+export const CONFLICT_MOVE_SEARCH_DAYS = 14;
+
+// Shared by the scheduler's calendar and leave panel so saving one refreshes the other
+export const SCHEDULE_CALENDAR_QUERY_KEY = 'scheduleCalendar';
+export const SCHEDULE_BLOCKS_QUERY_KEY = 'scheduleBlocks';
@@ -0,0 +1,25 @@
+// Session lifetime settings for shared clinic workstations
+
+// Log out after this long without keyboard, mouse or touch activity
+export const IDLE_TIMEOUT_MS = 15 * 60 * 1000;
+
+// Show the countdown warning this long before the idle logout
+export const IDLE_WARNING_MS = 60 * 1000;
+
+// Refresh the access token this long before its `exp` claim
+export const TOKEN_REFRESH_LEAD_MS = 60 * 1000;
+
+// Minimum gap between activity writes shared with other tabs
+export const ACTIVITY_SYNC_INTERVAL_MS = 5 * 1000;
+
+// Where auth tokens live:
+// - 'local': access and refresh tokens in localStorage (legacy default)
+// - 'cookie': access token in memory only, refresh token in an httpOnly cookie set by the API
+export type AuthStorageMode = 'local' | 'cookie';
+
+export const AUTH_STORAGE_MODE: AuthStorageMode =
+  import.meta.env.VITE_AUTH_STORAGE_MODE === 'cookie' ? 'cookie' : 'local';
+
+// Double-submit CSRF token the API sets alongside the refresh cookie
+export const CSRF_COOKIE_NAME = import.meta.env.VITE_CSRF_COOKIE_NAME || 'CSRF-TOKEN';
+export const CSRF_HEADER_NAME = 'X-CSRF-Token';
@@ -1,16 +1,51 @@
 // context/AuthContext.tsx
-import React, { createContext, useContext, useReducer, useEffect, useCallback } from 'react';
+import React, { createContext, useContext, useReducer, useEffect, useCallback, useRef } from 'react';
 import type {ReactNode} from 'react';
 import { useNavigate } from 'react-router-dom';
-import type { AuthState, AuthContextType, LoginCredentials, User, AuthTokens } from '../types/auth.types';
-import AuthService from '../services/auth.service';
+import type { AuthState, AuthContextType, LoginCredentials, LoginResponse, ResetPasswordRequest, User, AuthTokens } from '../types/auth.types';
+import { authService, isMfaChallenge } from '../services/auth.service';
 import SessionStorageService from '../services/sessionStorage.service';
+import { tokenRefreshCoordinator } from '../services/tokenRefresh.service';
+import { bookingDraftService } from '../services/bookingDraft.service';
+import { useToast } from './ToastContext';
+import { useIdleTimer } from '../hooks/useIdleTimer';
+import IdleTimeoutModal from '../components/common/IdleTimeoutModal';
+import { IDLE_TIMEOUT_MS, IDLE_WARNING_MS, TOKEN_REFRESH_LEAD_MS } from '../constants/session';
+import { LEAST_PRIVILEGED_ROLE, isRole } from '../constants/permissions';
+
+// setTimeout overflows above ~24.8 days
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
+/**
+ * User for a session without stored user data. The role drives permissions,
+ * so it is only taken from the token; anything else gets the fewest.
+ */
+const buildUserFromToken = (accessToken: string, emailAddress: string): User => {
+  let tokenPayload: { admin_user_id?: number | string; role?: string } = {};
+  try {
+    tokenPayload = JSON.parse(atob(accessToken.split('.')[1]));
+  } catch (error) {
+    console.error('Failed to decode token:', error);
+  }
+
+  const role = tokenPayload.role?.toLowerCase();
+  return {
+    id: tokenPayload.admin_user_id?.toString() || '0',
+    email_address: emailAddress,
+    full_name: 'Admin User',
+    role: role && isRole(role) ? role : LEAST_PRIVILEGED_ROLE,
+    created_at: new Date().toISOString(),
+    updated_at: new Date().toISOString(),
+  };
+};
 
 // Auth Actions
 type AuthAction =
   | { type: 'LOGIN_START' }
   | { type: 'LOGIN_SUCCESS'; payload: { user: User; tokens: AuthTokens } }
   | { type: 'LOGIN_FAILURE'; payload: string }
+  | { type: 'MFA_REQUIRED'; payload: string }
+  | { type: 'MFA_CANCEL' }
   | { type: 'LOGOUT' }
   | { type: 'FORGOT_PASSWORD_START' }
   | { type: 'FORGOT_PASSWORD_SUCCESS' }
@@ -29,6 +64,7 @@ const initialState: AuthState = {
   isLoading: true,
   error: null,
   isInitialized: false,
+  mfaToken: null,
 };
 
 // Auth Reducer
@@ -51,6 +87,22 @@ const authReducer = (state: AuthState, action: AuthAction): AuthState => {
         isLoading: false,
         error: null,
         isInitialized: true, // Set initialized on successful login
+        mfaToken: null,
+      };
+
+    case 'MFA_REQUIRED':
+      return {
+        ...state,
+        isLoading: false,
+        error: null,
+        mfaToken: action.payload,
+      };
+
+    case 'MFA_CANCEL':
+      return {
+        ...state,
+        error: null,
+        mfaToken: null,
       };
 
     case 'LOGIN_FAILURE':
@@ -78,6 +130,7 @@ const authReducer = (state: AuthState, action: AuthAction): AuthState => {
         isLoading: false,
         error: null,
         isInitialized: true, // Keep initialized after logout
+        mfaToken: null,
       };
 
     case 'REFRESH_TOKEN_SUCCESS':
@@ -130,41 +183,103 @@ const AuthContext = createContext<AuthContextType | undefined>(undefined);
 // Auth Provider Props
 interface AuthProviderProps {
   children: ReactNode;
-  apiBaseUrl?: string;
 }
 
 // Auth Provider Component
-export const AuthProvider: React.FC<AuthProviderProps> = ({ 
-  children, 
-  apiBaseUrl = 'http://localhost:3000' 
-}) => {
+export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const [state, dispatch] = useReducer(authReducer, initialState);
   const navigate = useNavigate();
-  const authService = new AuthService(apiBaseUrl);
+  const { showToast } = useToast();
 
   // Memoize refresh token function to prevent infinite loops
   const refreshToken = useCallback(async (): Promise<boolean> => {
-    const tokens = SessionStorageService.getTokens();
-    
-    if (!tokens) {
+    if (!SessionStorageService.hasSession()) {
       dispatch({ type: 'LOGOUT' });
       return false;
     }
 
     try {
-      const response = await authService.refreshToken(tokens.refresh_token);
-
-      SessionStorageService.updateAccessToken(response.access_token);
-      dispatch({ type: 'REFRESH_TOKEN_SUCCESS', payload: response.access_token });
-      
+      // Shares the in-flight refresh with any request that hit a 401
+      await tokenRefreshCoordinator.refresh();
       return true;
-    } catch (error) {
-      console.error('Token refresh failed:', error);
-      SessionStorageService.clearAll();
-      dispatch({ type: 'LOGOUT' });
+    } catch {
       return false;
     }
-  }, [authService]);
+  }, []);
+
+  // Public pages (booking) must not be redirected when a stale session expires
+  const isAuthenticatedRef = useRef(state.isAuthenticated);
+  isAuthenticatedRef.current = state.isAuthenticated;
+
+  // Keep reducer state in sync with refreshes triggered by the http client
+  useEffect(() => {
+    const unsubscribeRefreshed = tokenRefreshCoordinator.onTokenRefreshed(accessToken => {
+      dispatch({ type: 'REFRESH_TOKEN_SUCCESS', payload: accessToken });
+    });
+
+    // Refresh failed: the coordinator already cleared storage, finish the logout here
+    const unsubscribeExpired = tokenRefreshCoordinator.onSessionExpired(() => {
+      const wasAuthenticated = isAuthenticatedRef.current;
+      dispatch({ type: 'LOGOUT' });
+      if (wasAuthenticated) {
+        navigate('/login', { replace: true });
+      }
+    });
+
+    return () => {
+      unsubscribeRefreshed();
+      unsubscribeExpired();
+    };
+  }, [navigate]);
+
+  // Refresh silently shortly before the access token expires
+  useEffect(() => {
+    const accessToken = state.tokens?.access_token;
+    if (!state.isAuthenticated || !accessToken) return;
+
+    const expiresAt = SessionStorageService.getTokenExpiry(accessToken);
+    if (expiresAt === null) return;
+
+    const delay = Math.min(Math.max(expiresAt - Date.now() - TOKEN_REFRESH_LEAD_MS, 0), MAX_TIMEOUT_MS);
+    const timer = setTimeout(() => {
+      refreshToken();
+    }, delay);
+
+    return () => clearTimeout(timer);
+  }, [state.isAuthenticated, state.tokens?.access_token, refreshToken]);
+
+  // Mirror login, refresh and logout from other tabs
+  useEffect(() => {
+    return SessionStorageService.onSessionChanged(active => {
+      if (!active) {
+        if (isAuthenticatedRef.current) {
+          dispatch({ type: 'LOGOUT' });
+          navigate('/login', { replace: true });
+        }
+        return;
+      }
+
+      const tokens = SessionStorageService.getTokens();
+      if (isAuthenticatedRef.current) {
+        if (tokens) {
+          dispatch({ type: 'REFRESH_TOKEN_SUCCESS', payload: tokens.access_token });
+        }
+        return;
+      }
+
+      // Another tab signed in; cookie sessions need their own access token first
+      const adoptSession = async () => {
+        if (!tokens && !(await refreshToken())) return;
+
+        const currentTokens = SessionStorageService.getTokens();
+        const user = SessionStorageService.getUser();
+        if (currentTokens && user) {
+          dispatch({ type: 'RESTORE_SESSION', payload: { user, tokens: currentTokens } });
+        }
+      };
+      adoptSession();
+    });
+  }, [navigate, refreshToken]);
 
   // Restore session on app load
   useEffect(() => {
@@ -173,8 +288,9 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({
         const tokens = SessionStorageService.getTokens();
         let user = SessionStorageService.getUser();
 
-        if (tokens) {
-          if (SessionStorageService.isTokenExpired(tokens.access_token)) {
+        // Cookie sessions start every page load without an access token
+        if (SessionStorageService.hasSession()) {
+          if (!tokens || SessionStorageService.isTokenExpired(tokens.access_token)) {
             const refreshSuccess = await refreshToken();
             if (refreshSuccess) {
               const updatedTokens = SessionStorageService.getTokens();
@@ -198,47 +314,16 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({
                 payload: { user, tokens }
               });
             } else {
-              try {
-                const tokenPayload = JSON.parse(atob(tokens.access_token.split('.')[1]));
-                const userFromToken: User = {
-                  id: tokenPayload.admin_user_id?.toString() || '0',
-                  email_address: 'admin@mediconnect.com',
-                  full_name: 'Admin User',
-                  role: 'admin',
-                  created_at: new Date().toISOString(),
-                  updated_at: new Date().toISOString(),
-                };
-                
-                SessionStorageService.setUser(userFromToken);
-                
-                dispatch({
-                  type: 'RESTORE_SESSION',
-                  payload: { 
-                    user: userFromToken,
-                    tokens 
-                  }
-                });
-              } catch (fetchError) {
-                console.error('Failed to create user from token:', fetchError);
-                const fallbackUser: User = {
-                  id: '0',
-                  email_address: 'admin@mediconnect.com',
-                  full_name: 'Admin User',
-                  role: 'admin',
-                  created_at: new Date().toISOString(),
-                  updated_at: new Date().toISOString(),
-                };
-                
-                SessionStorageService.setUser(fallbackUser);
-                
-                dispatch({
-                  type: 'RESTORE_SESSION',
-                  payload: { 
-                    user: fallbackUser,
-                    tokens 
-                  }
-                });
-              }
+              const userFromToken = buildUserFromToken(tokens.access_token, 'admin@mediconnect.com');
+              SessionStorageService.setUser(userFromToken);
+
+              dispatch({
+                type: 'RESTORE_SESSION',
+                payload: {
+                  user: userFromToken,
+                  tokens
+                }
+              });
             }
           }
         } else {
@@ -256,66 +341,88 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({
     }
   }, [refreshToken, state.isInitialized]);
 
+  // Persist the session returned by the password step or the MFA step
+  const completeLogin = useCallback((response: LoginResponse, emailAddress: string): void => {
+    const tokens = {
+      access_token: response.access_token,
+      refresh_token: response.refresh_token ?? '',
+    };
+
+    SessionStorageService.setTokens(tokens);
+
+    let user: User;
+    if (response.user) {
+      user = response.user;
+      SessionStorageService.setUser(user);
+    } else {
+      user = buildUserFromToken(response.access_token, emailAddress);
+      SessionStorageService.setUser(user);
+    }
+
+    dispatch({
+      type: 'LOGIN_SUCCESS',
+      payload: {
+        user,
+        tokens,
+      },
+    });
+  }, []);
+
+  // Email of the pending login, needed to build the user once MFA succeeds
+  const mfaEmailRef = useRef('');
+
   const login = useCallback(async (credentials: LoginCredentials): Promise<void> => {
     dispatch({ type: 'LOGIN_START' });
 
     try {
       const response = await authService.login(credentials);
-      
-      const tokens = {
-        access_token: response.access_token,
-        refresh_token: response.refresh_token,
-      };
 
-      SessionStorageService.setTokens(tokens);
-
-      let user: User;
-      if (response.user) {
-        user = response.user;
-        SessionStorageService.setUser(user);
-      } else {
-        try {
-          const tokenPayload = JSON.parse(atob(response.access_token.split('.')[1]));
-          user = {
-            id: tokenPayload.admin_user_id?.toString() || '0',
-            email_address: credentials.email_address,
-            full_name: 'Admin User',
-            role: 'admin',
-            created_at: new Date().toISOString(),
-            updated_at: new Date().toISOString(),
-          };
-          SessionStorageService.setUser(user);
-        } catch (tokenError) {
-          console.error('Failed to decode token:', tokenError);
-          user = {
-            id: '0',
-            email_address: credentials.email_address,
-            full_name: 'Admin User',
-            role: 'admin',
-            created_at: new Date().toISOString(),
-            updated_at: new Date().toISOString(),
-          };
-          SessionStorageService.setUser(user);
-        }
+      if (isMfaChallenge(response)) {
+        mfaEmailRef.current = credentials.email_address;
+        dispatch({ type: 'MFA_REQUIRED', payload: response.mfa_token });
+        return;
       }
 
-      dispatch({
-        type: 'LOGIN_SUCCESS',
-        payload: {
-          user,
-          tokens,
-        },
-      });
+      completeLogin(response, credentials.email_address);
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Login failed';
       dispatch({ type: 'LOGIN_FAILURE', payload: errorMessage });
       throw error;
     }
-  }, [authService]);
+  }, [completeLogin]);
+
+  const verifyMfa = useCallback(async (code: string, isBackupCode: boolean = false): Promise<void> => {
+    if (!state.mfaToken) {
+      throw new Error('No login is waiting for verification');
+    }
+
+    dispatch({ type: 'LOGIN_START' });
+
+    try {
+      const response = await authService.verifyMfa({
+        mfa_token: state.mfaToken,
+        ...(isBackupCode ? { backup_code: code } : { code }),
+      });
+      completeLogin(response, mfaEmailRef.current);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Verification failed';
+      dispatch({ type: 'LOGIN_FAILURE', payload: errorMessage });
+      throw error;
+    }
+  }, [state.mfaToken, completeLogin]);
+
+  const cancelMfa = useCallback((): void => {
+    mfaEmailRef.current = '';
+    dispatch({ type: 'MFA_CANCEL' });
+  }, []);
 
   // Memoize logout function
   const logout = useCallback((): void => {
+    // Revoke server-side too, otherwise a cookie session would survive the logout
+    authService.logout().catch(error => console.error('Logout request failed:', error));
     SessionStorageService.clearAll();
+    // Front-desk machines are shared: a patient's unfinished booking leaves with the staff session
+    bookingDraftService.clearDraft();
     dispatch({ type: 'LOGOUT' });
     navigate('/login');
   }, [navigate]);
@@ -332,18 +439,44 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({
       dispatch({ type: 'FORGOT_PASSWORD_FAILURE', payload: errorMessage });
       throw error; // Re-throw to allow component to handle
     }
-  }, [authService]);
+  }, []);
+
+  // Resolves true when the API signed the user in as part of the reset
+  const resetPassword = useCallback(async (request: ResetPasswordRequest): Promise<boolean> => {
+    const response = await authService.resetPassword(request);
+
+    if (response.access_token && response.user) {
+      completeLogin(response as LoginResponse, response.user.email_address);
+      return true;
+    }
+    return false;
+  }, [completeLogin]);
 
   // Memoize clear error function
   const clearError = useCallback((): void => {
     dispatch({ type: 'CLEAR_ERROR' });
   }, []);
 
+  const handleIdle = useCallback((): void => {
+    logout();
+    showToast('You were signed out after a period of inactivity', 'warning');
+  }, [logout, showToast]);
+
+  const idleTimer = useIdleTimer({
+    enabled: state.isAuthenticated,
+    timeout: IDLE_TIMEOUT_MS,
+    warningTime: IDLE_WARNING_MS,
+    onIdle: handleIdle,
+  });
+
   const contextValue: AuthContextType = {
     ...state,
     login,
+    verifyMfa,
+    cancelMfa,
     logout,
     forgotPassword,
+    resetPassword,
     refreshToken,
     clearError,
   };
@@ -351,6 +484,12 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({
   return (
     <AuthContext.Provider value={contextValue}>
       {children}
+      <IdleTimeoutModal
+        isOpen={idleTimer.isWarning}
+        remainingMs={idleTimer.remainingMs}
+        onStaySignedIn={idleTimer.reset}
+        onLogout={logout}
+      />
     </AuthContext.Provider>
   );
 };
@@ -1,6 +1,7 @@
 // context/ChartContext.tsx - Updated with year filtering support
 import React, { createContext, useContext, useReducer, useCallback, useEffect } from 'react';
 import { chartServices } from '../services/chartServices';
+import { useClinicTimeZone } from './ClinicTimeZoneContext';
 import { DashboardStats, MonthlyData, ChartContextType } from '../types/chart';
 
 interface ChartState {
@@ -87,6 +88,7 @@ const ChartContext = createContext<ChartContextType & {
 
 export function ChartProvider({ children }: { children: React.ReactNode }) {
   const [state, dispatch] = useReducer(chartReducer, initialState);
+  const clinicTimeZone = useClinicTimeZone();
 
   const refreshCharts = useCallback(async () => {
     dispatch({ type: 'FETCH_START' });
@@ -95,7 +97,7 @@ export function ChartProvider({ children }: { children: React.ReactNode }) {
       
       // Get dashboard stats and chart data from API
       const [stats, realChartData, patients, appointments] = await Promise.all([
-        chartServices.getDashboardStatsDetailed(),
+        chartServices.getDashboardStatsDetailed(clinicTimeZone),
         chartServices.getChartData(),
         chartServices.getPatients(),
         chartServices.getAppointments()
@@ -141,19 +143,12 @@ export function ChartProvider({ children }: { children: React.ReactNode }) {
       
       console.error('Error in refreshCharts:', error);
       
-      // Handle authentication errors
-      if (errorMessage.includes('Unauthorized')) {
-        console.error('Authentication error in charts:', errorMessage);
-        localStorage.removeItem('auth_tokens');
-        sessionStorage.removeItem('auth_tokens');
-      }
-      
       dispatch({ 
         type: 'FETCH_ERROR', 
         payload: errorMessage
       });
     }
-  }, []);
+  }, [clinicTimeZone]);
 
   // Fetch available years
   const fetchAvailableYears = useCallback(async () => {
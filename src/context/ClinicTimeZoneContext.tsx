@@ -0,0 +1,47 @@
+// context/ClinicTimeZoneContext.tsx
+import React, { createContext, useContext, useState, useCallback, useMemo } from 'react';
+import { useAuth } from './AuthContext';
+import { useAdminSettings } from '../hooks/useAdminSettings';
+import { resolveClinicTimeZone } from '../utils/dateTime';
+
+interface ClinicTimeZoneContextType {
+  timeZone: string;
+  // Public responses (available slots, the patient portal) carry the zone too
+  reportTimeZone: (timeZone?: string | null) => void;
+}
+
+const ClinicTimeZoneContext = createContext<ClinicTimeZoneContextType | undefined>(undefined);
+
+/**
+ * The zone clinic times are published in. Staff get it from the admin
+ * settings; patients from the public responses that list their slots.
+ */
+export const ClinicTimeZoneProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { isAuthenticated } = useAuth();
+  const { settings } = useAdminSettings(isAuthenticated);
+  const [reportedTimeZone, setReportedTimeZone] = useState<string | null>(null);
+
+  const reportTimeZone = useCallback((timeZone?: string | null) => {
+    if (timeZone) setReportedTimeZone(timeZone);
+  }, []);
+
+  const timeZone = resolveClinicTimeZone(settings?.consultation_service?.time_zone || reportedTimeZone);
+  const value = useMemo(() => ({ timeZone, reportTimeZone }), [timeZone, reportTimeZone]);
+
+  return (
+    <ClinicTimeZoneContext.Provider value={value}>
+      {children}
+    </ClinicTimeZoneContext.Provider>
+  );
+};
+
+export const useClinicTimeZoneContext = () => {
+  const context = useContext(ClinicTimeZoneContext);
+  if (!context) {
+    throw new Error('useClinicTimeZoneContext must be used within a ClinicTimeZoneProvider');
+  }
+  return context;
+};
+
+// Just the zone, for components that label or compare clinic times
+export const useClinicTimeZone = (): string => useClinicTimeZoneContext().timeZone;
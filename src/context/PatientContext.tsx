@@ -10,6 +10,7 @@ import React, {
 } from 'react';
 import { useAuth } from './AuthContext'; // Import useAuth
 import { patientService } from '../services/patientService';
+import { isUnauthorizedError } from '../services/httpClient';
 import { DEFAULT_ITEMS_PER_PAGE } from '../constants/pagination';
 import type { 
   Patient, 
@@ -183,14 +184,6 @@ export const PatientProvider: React.FC<{ children: React.ReactNode }> = ({ child
     requestStateRef.current.isLoading = false;
   }, []);
 
-  // Helper function to get current access token
-  const getAccessToken = useCallback(() => {
-    if (!tokens?.access_token) {
-      throw new Error('No access token available');
-    }
-    return tokens.access_token;
-  }, [tokens]);
-
   // Core fetch function with proper request management
   const executePatientFetch = useCallback(async (
     page: number,
@@ -214,12 +207,11 @@ export const PatientProvider: React.FC<{ children: React.ReactNode }> = ({ child
       
       dispatch({ type: 'SET_LOADING', payload: true });
 
-      const accessToken = getAccessToken();
       const response = await patientService.getPatients(
         page,
         itemsPerPage,
         filters,
-        accessToken
+        controller.signal
       );
 
       // Check if this request is still active
@@ -250,7 +242,7 @@ export const PatientProvider: React.FC<{ children: React.ReactNode }> = ({ child
       console.error(`❌ [${requestId}] Failed to fetch patients:`, error);
 
       // Handle authentication errors
-      if (error instanceof Error && error.message === 'Authentication failed') {
+      if (isUnauthorizedError(error)) {
         logout(); // Logout user if token is invalid
         return;
       }
@@ -266,7 +258,7 @@ export const PatientProvider: React.FC<{ children: React.ReactNode }> = ({ child
         requestStateRef.current.isLoading = false;
       }
     }
-  }, [isAuthenticated, tokens, getAccessToken, logout]);
+  }, [isAuthenticated, tokens, logout]);
 
   // Main fetch function with debouncing logic
   const fetchPatients = useCallback((immediate = false) => {
@@ -335,12 +327,11 @@ export const PatientProvider: React.FC<{ children: React.ReactNode }> = ({ child
 
     try {
       dispatch({ type: 'SET_LOADING', payload: true });
-      const accessToken = getAccessToken();
-      const patient = await patientService.getPatientDetails(id, accessToken);
+      const patient = await patientService.getPatientDetails(id);
       dispatch({ type: 'SET_CURRENT_PATIENT', payload: patient });
       dispatch({ type: 'SET_LOADING', payload: false });
     } catch (error) {
-      if (error instanceof Error && error.message === 'Authentication failed') {
+      if (isUnauthorizedError(error)) {
         logout();
         return;
       }
@@ -350,7 +341,7 @@ export const PatientProvider: React.FC<{ children: React.ReactNode }> = ({ child
       });
       dispatch({ type: 'SET_LOADING', payload: false });
     }
-  }, [state.currentPatient?.id, isAuthenticated, tokens, getAccessToken, logout]);
+  }, [state.currentPatient?.id, isAuthenticated, tokens, logout]);
 
   const createPatient = useCallback(async (data: NewPatientData) => {
     if (!isAuthenticated || !tokens) {
@@ -359,12 +350,11 @@ export const PatientProvider: React.FC<{ children: React.ReactNode }> = ({ child
 
     try {
       dispatch({ type: 'SET_LOADING', payload: true });
-      const accessToken = getAccessToken();
-      const newPatient = await patientService.createPatient(data, accessToken);
+      const newPatient = await patientService.createPatient(data);
       dispatch({ type: 'ADD_PATIENT', payload: newPatient });
       dispatch({ type: 'SET_LOADING', payload: false });
     } catch (error) {
-      if (error instanceof Error && error.message === 'Authentication failed') {
+      if (isUnauthorizedError(error)) {
         logout();
         return;
       }
@@ -375,7 +365,7 @@ export const PatientProvider: React.FC<{ children: React.ReactNode }> = ({ child
       dispatch({ type: 'SET_LOADING', payload: false });
       throw error;
     }
-  }, [isAuthenticated, tokens, getAccessToken, logout]);
+  }, [isAuthenticated, tokens, logout]);
 
   const updatePatient = useCallback(async (id: string, data: Partial<Patient>) => {
     if (!isAuthenticated || !tokens) {
@@ -383,15 +373,14 @@ export const PatientProvider: React.FC<{ children: React.ReactNode }> = ({ child
     }
 
     try {
-      const accessToken = getAccessToken();
-      const updatedPatient = await patientService.updatePatient(id, data, accessToken);
+      const updatedPatient = await patientService.updatePatient(id, data);
       dispatch({ type: 'UPDATE_PATIENT', payload: { id, patient: updatedPatient } });
       
       if (state.currentPatient?.id === id) {
         dispatch({ type: 'SET_CURRENT_PATIENT', payload: { ...state.currentPatient, ...updatedPatient } });
       }
     } catch (error) {
-      if (error instanceof Error && error.message === 'Authentication failed') {
+      if (isUnauthorizedError(error)) {
         logout();
         return;
       }
@@ -401,7 +390,7 @@ export const PatientProvider: React.FC<{ children: React.ReactNode }> = ({ child
       });
       throw error;
     }
-  }, [state.currentPatient, isAuthenticated, tokens, getAccessToken, logout]);
+  }, [state.currentPatient, isAuthenticated, tokens, logout]);
 
   const deletePatient = useCallback(async (id: string) => {
     if (!isAuthenticated || !tokens) {
@@ -409,15 +398,14 @@ export const PatientProvider: React.FC<{ children: React.ReactNode }> = ({ child
     }
 
     try {
-      const accessToken = getAccessToken();
-      await patientService.deletePatient(id, accessToken);
+      await patientService.deletePatient(id);
       dispatch({ type: 'REMOVE_PATIENT', payload: id });
       
       if (state.currentPatient?.id === id) {
         dispatch({ type: 'SET_CURRENT_PATIENT', payload: null });
       }
     } catch (error) {
-      if (error instanceof Error && error.message === 'Authentication failed') {
+      if (isUnauthorizedError(error)) {
         logout();
         return;
       }
@@ -427,7 +415,7 @@ export const PatientProvider: React.FC<{ children: React.ReactNode }> = ({ child
       });
       throw error;
     }
-  }, [state.currentPatient, isAuthenticated, tokens, getAccessToken, logout]);
+  }, [state.currentPatient, isAuthenticated, tokens, logout]);
 
   const setFilters = useCallback((filters: Partial<PatientFilters>) => {
     console.log('🔍 Setting filters:', filters);
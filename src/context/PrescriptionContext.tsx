@@ -2,6 +2,7 @@
 import React, { createContext, useContext, useReducer, useCallback, ReactNode } from 'react';
 import { PrescriptionFormData, PrescriptionNote, PrescriptionContextType } from '../types/prescription.types.ts';
 import { prescriptionService } from '../services/prescriptionService';
+import { ApiError } from '../services/httpClient';
 
 interface PrescriptionState {
   prescriptionData: PrescriptionFormData;
@@ -146,7 +147,7 @@ export const PrescriptionProvider: React.FC<PrescriptionProviderProps> = ({ chil
     dispatch({ type: 'SET_PRESCRIPTION_DATA', payload: formData });
   } catch (error) {
     // Only set error for non-404 errors
-    if (error instanceof Error && !error.message.includes('404')) {
+    if (error instanceof Error && !(error instanceof ApiError && error.status === 404)) {
       dispatch({ type: 'SET_ERROR', payload: error.message });
     }
     
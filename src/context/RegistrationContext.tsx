@@ -1,8 +1,15 @@
 // context/RegistrationContext.tsx
 
-import React, { createContext, useContext, useReducer } from 'react';
+import React, { createContext, useContext, useReducer, useState, useEffect } from 'react';
 import type { ReactNode } from 'react';
+import { bookingDraftService } from '../services/bookingDraft.service';
+import { useDebounce } from '../hooks/useDebounce';
+import { BOOKING_DRAFT_SAVE_DELAY_MS } from '../constants/booking';
+import { validateRegistrationStep } from '../utils/registrationSchemas';
+import { focusFirstInvalidField } from '../utils/validation';
 import type {
+  BookingDraft,
+  BookingDraftSummary,
   RegistrationState,
   ValidationErrors,
   FileUploadState,
@@ -63,6 +70,7 @@ type RegistrationAction =
   | { type: 'CLEAR_ERRORS' }
   | { type: 'SET_SUBMITTING'; payload: boolean }
   | { type: 'UPDATE_FILE_UPLOAD_STATE'; payload: Partial<FileUploadState> }
+  | { type: 'RESTORE_DRAFT'; payload: BookingDraft }
   | { type: 'RESET_FORM' };
 
 // Reducer
@@ -122,6 +130,25 @@ const registrationReducer = (state: RegistrationState, action: RegistrationActio
         fileUploadState: { ...state.fileUploadState, ...action.payload }
       };
     
+    case 'RESTORE_DRAFT':
+      return {
+        ...initialState,
+        currentStep: action.payload.currentStep,
+        formData: {
+          ...initialState.formData,
+          personalInfo: { ...initialState.formData.personalInfo, ...action.payload.personalInfo },
+          medicalHistory: {
+            clinicalSummary: action.payload.clinicalSummary,
+            pathologyFiles: action.payload.files.pathologyFiles,
+            imageologyFiles: action.payload.files.imageologyFiles
+          },
+          additionalDetails: {
+            additionalNotes: action.payload.additionalNotes,
+            additionalAttachments: action.payload.files.additionalAttachments
+          }
+        }
+      };
+
     case 'RESET_FORM':
       return initialState;
     
@@ -135,6 +162,7 @@ interface RegistrationContextType {
   state: RegistrationState;
   dispatch: React.Dispatch<RegistrationAction>;
   nextStep: () => void;
+  validateCurrentStep: () => boolean;
   prevStep: () => void;
   goToStep: (step: number) => void;
   updatePersonalInfo: (data: Partial<PersonalInfo>) => void;
@@ -144,8 +172,24 @@ interface RegistrationContextType {
   setErrors: (errors: ValidationErrors) => void;
   clearErrors: () => void;
   resetForm: () => void;
+  pendingDraft: BookingDraftSummary | null;
+  resumeDraft: () => Promise<void>;
+  discardDraft: () => void;
 }
 
+// Nothing worth saving until the patient has typed or attached something
+const hasDraftContent = ({ formData }: RegistrationState): boolean =>
+  Boolean(
+    formData.personalInfo.name ||
+    formData.personalInfo.phone ||
+    formData.personalInfo.email ||
+    formData.medicalHistory.clinicalSummary ||
+    formData.additionalDetails.additionalNotes ||
+    formData.medicalHistory.pathologyFiles.length ||
+    formData.medicalHistory.imageologyFiles.length ||
+    formData.additionalDetails.additionalAttachments.length
+  );
+
 const RegistrationContext = createContext<RegistrationContextType | undefined>(undefined);
 
 // Provider
@@ -156,8 +200,53 @@ interface RegistrationProviderProps {
 export const RegistrationProvider: React.FC<RegistrationProviderProps> = ({ children }) => {
   const [state, dispatch] = useReducer(registrationReducer, initialState);
 
+  // Autosave stays off until the patient decides what to do with an existing draft
+  const [pendingDraft, setPendingDraft] = useState<BookingDraftSummary | null>(
+    () => bookingDraftService.getDraftSummary()
+  );
+  const debouncedState = useDebounce(state, BOOKING_DRAFT_SAVE_DELAY_MS);
+
+  useEffect(() => {
+    if (pendingDraft || !hasDraftContent(debouncedState)) return;
+
+    bookingDraftService.saveDraft({
+      currentStep: debouncedState.currentStep,
+      personalInfo: debouncedState.formData.personalInfo,
+      clinicalSummary: debouncedState.formData.medicalHistory.clinicalSummary,
+      additionalNotes: debouncedState.formData.additionalDetails.additionalNotes
+    });
+  }, [debouncedState, pendingDraft]);
+
+  // Files change rarely and are large, so they are written straight to IndexedDB
+  const { pathologyFiles, imageologyFiles } = state.formData.medicalHistory;
+  const { additionalAttachments } = state.formData.additionalDetails;
+
+  useEffect(() => {
+    if (!pendingDraft) bookingDraftService.saveFiles('pathologyFiles', pathologyFiles);
+  }, [pathologyFiles, pendingDraft]);
+
+  useEffect(() => {
+    if (!pendingDraft) bookingDraftService.saveFiles('imageologyFiles', imageologyFiles);
+  }, [imageologyFiles, pendingDraft]);
+
+  useEffect(() => {
+    if (!pendingDraft) bookingDraftService.saveFiles('additionalAttachments', additionalAttachments);
+  }, [additionalAttachments, pendingDraft]);
+
+  // Sets step errors from the schema and moves focus to the first problem
+  const validateCurrentStep = (): boolean => {
+    const errors = validateRegistrationStep(state.currentStep, state.formData);
+    dispatch({ type: 'SET_ERRORS', payload: errors });
+
+    if (Object.keys(errors).length > 0) {
+      focusFirstInvalidField(errors);
+      return false;
+    }
+    return true;
+  };
+
   const nextStep = () => {
-    if (state.currentStep < 4) {
+    if (state.currentStep < 4 && validateCurrentStep()) {
       dispatch({ type: 'SET_CURRENT_STEP', payload: state.currentStep + 1 });
     }
   };
@@ -169,9 +258,21 @@ export const RegistrationProvider: React.FC<RegistrationProviderProps> = ({ chil
   };
 
   const goToStep = (step: number) => {
-    if (step >= 1 && step <= 4) {
-      dispatch({ type: 'SET_CURRENT_STEP', payload: step });
+    if (step < 1 || step > 4) return;
+
+    // Jumping forward has to get past every step in between; stop at the first that fails
+    for (let skipped = state.currentStep; skipped < step; skipped++) {
+      const errors = validateRegistrationStep(skipped, state.formData);
+      if (Object.keys(errors).length > 0) {
+        dispatch({ type: 'SET_CURRENT_STEP', payload: skipped });
+        dispatch({ type: 'SET_ERRORS', payload: errors });
+        // The failing step may only render after this update
+        setTimeout(() => focusFirstInvalidField(errors), 0);
+        return;
+      }
     }
+
+    dispatch({ type: 'SET_CURRENT_STEP', payload: step });
   };
 
   const updatePersonalInfo = (data: Partial<PersonalInfo>) => {
@@ -199,13 +300,28 @@ export const RegistrationProvider: React.FC<RegistrationProviderProps> = ({ chil
   };
 
   const resetForm = () => {
+    bookingDraftService.clearDraft();
     dispatch({ type: 'RESET_FORM' });
   };
 
+  const resumeDraft = async () => {
+    const draft = await bookingDraftService.loadDraft();
+    if (draft) {
+      dispatch({ type: 'RESTORE_DRAFT', payload: draft });
+    }
+    setPendingDraft(null);
+  };
+
+  const discardDraft = () => {
+    bookingDraftService.clearDraft();
+    setPendingDraft(null);
+  };
+
   const value: RegistrationContextType = {
     state,
     dispatch,
     nextStep,
+    validateCurrentStep,
     prevStep,
     goToStep,
     updatePersonalInfo,
@@ -214,7 +330,10 @@ export const RegistrationProvider: React.FC<RegistrationProviderProps> = ({ chil
     updateAppointmentSchedule,
     setErrors,
     clearErrors,
-    resetForm
+    resetForm,
+    pendingDraft,
+    resumeDraft,
+    discardDraft
   };
 
   return (
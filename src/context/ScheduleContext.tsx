@@ -4,6 +4,7 @@ import type { ReactNode } from 'react';
 import type { Schedule, CreateScheduleRequest, UpdateScheduleRequest } from '../types/schedule';
 import { scheduleService } from '../services/scheduleService';
 import { useToast } from './ToastContext';
+import { getRequestWindows, validateWindows } from '../utils/scheduleWindows';
 
 interface ScheduleContextType {
   // Separate arrays for different schedule types
@@ -43,6 +44,12 @@ interface ScheduleContextType {
 
 const ScheduleContext = createContext<ScheduleContextType | undefined>(undefined);
 
+// Overlapping or inverted windows are rejected before they reach the API; status-only updates carry no times
+const getWindowsError = (schedule: CreateScheduleRequest | UpdateScheduleRequest): string | null => {
+  const windows = getRequestWindows(schedule);
+  return windows.length > 0 ? validateWindows(windows) : null;
+};
+
 export const useScheduleContext = () => {
   const context = useContext(ScheduleContext);
   if (!context) {
@@ -135,6 +142,12 @@ export const ScheduleProvider: React.FC<ScheduleProviderProps> = ({ children })
   }, [currentPage, perPage, customCurrentPage, customPerPage, filters, showToast]);
 
   const createSchedule = useCallback(async (schedule: CreateScheduleRequest): Promise<boolean> => {
+    const windowsError = getWindowsError(schedule);
+    if (windowsError) {
+      showToast(windowsError, 'error');
+      return false;
+    }
+
     try {
       const response = await scheduleService.createSchedule(schedule);
       
@@ -157,6 +170,12 @@ export const ScheduleProvider: React.FC<ScheduleProviderProps> = ({ children })
   }, [refreshSchedules, showToast]);
 
   const updateSchedule = useCallback(async (id: string | number, schedule: UpdateScheduleRequest): Promise<boolean> => {
+    const windowsError = getWindowsError(schedule);
+    if (windowsError) {
+      showToast(windowsError, 'error');
+      return false;
+    }
+
     try {
       const response = await scheduleService.updateSchedule(id, schedule);
       
@@ -175,6 +194,12 @@ export const ScheduleProvider: React.FC<ScheduleProviderProps> = ({ children })
   }, [refreshSchedules, showToast]);
 
   const updateScheduleByDay = useCallback(async (day: string, schedule: UpdateScheduleRequest): Promise<boolean> => {
+    const windowsError = getWindowsError(schedule);
+    if (windowsError) {
+      showToast(windowsError, 'error');
+      return false;
+    }
+
     try {
       const response = await scheduleService.updateScheduleByDay(day, schedule);
       
@@ -193,6 +218,12 @@ export const ScheduleProvider: React.FC<ScheduleProviderProps> = ({ children })
   }, [refreshSchedules, showToast]);
 
   const updateScheduleByDate = useCallback(async (scheduledDate: string, schedule: UpdateScheduleRequest): Promise<boolean> => {
+    const windowsError = getWindowsError(schedule);
+    if (windowsError) {
+      showToast(windowsError, 'error');
+      return false;
+    }
+
     try {
       const response = await scheduleService.updateScheduleByDate(scheduledDate, schedule);
       
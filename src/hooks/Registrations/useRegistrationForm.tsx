@@ -3,95 +3,15 @@
 import { useState, useCallback } from 'react';
 import { useRegistration } from '../../context/RegistrationContext';
 import { registrationApi } from '../../services/registrationApi';
-import { ValidationErrors } from '../../types/registration';
+import { validateRegistration, validateRegistrationStep } from '../../utils/registrationSchemas';
 
 export const useRegistrationForm = () => {
   const { state, setErrors, clearErrors } = useRegistration();
   const [isSubmitting, setIsSubmitting] = useState(false);
 
-  // Validation functions
-  const validatePersonalInfo = useCallback(() => {
-    const errors: ValidationErrors = {};
-    const { personalInfo } = state.formData;
-
-    if (!personalInfo.name.trim()) {
-      errors.name = 'Name is required';
-    }
-
-    if (!personalInfo.phone.trim()) {
-      errors.phone = 'Phone number is required';
-    } else if (!/^\+?[\d\s-()]+$/.test(personalInfo.phone)) {
-      errors.phone = 'Please enter a valid phone number';
-    }
-
-    if (!personalInfo.age.trim()) {
-      errors.age = 'Age is required';
-    } else if (parseInt(personalInfo.age) < 0 || parseInt(personalInfo.age) > 120) {
-      errors.age = 'Please enter a valid age';
-    }
-
-    if (!personalInfo.gender.trim()) {
-      errors.gender = 'Gender is required';
-    }
-
-    if (!personalInfo.address.trim()) {
-      errors.address = 'Address is required';
-    }
-
-    return errors;
-  }, [state.formData.personalInfo]);
-
-  const validateMedicalHistory = useCallback(() => {
-    const errors: ValidationErrors = {};
-    const { medicalHistory } = state.formData;
-
-    if (!medicalHistory.clinicalSummary.trim()) {
-      errors.clinicalSummary = 'Clinical summary is required';
-    }
-
-    // Optional: Validate file uploads
-    // if (medicalHistory.pathologyFiles.length === 0) {
-    //   errors.pathologyFiles = 'At least one pathology file is required';
-    // }
-
-    return errors;
-  }, [state.formData.medicalHistory]);
-
-  const validateAppointmentSchedule = useCallback(() => {
-    const errors: ValidationErrors = {};
-    const { appointmentSchedule } = state.formData;
-
-    if (!appointmentSchedule.selectedDate) {
-      errors.selectedDate = 'Please select an appointment date';
-    }
-
-    if (!appointmentSchedule.selectedTimeSlot) {
-      errors.selectedTimeSlot = 'Please select a time slot';
-    }
-
-    return errors;
-  }, [state.formData.appointmentSchedule]);
-
-  // Validate current step
+  // Step rules live in the shared schemas so the wizard and this hook agree
   const validateCurrentStep = useCallback(() => {
-    let errors: ValidationErrors = {};
-
-    switch (state.currentStep) {
-      case 1:
-        errors = validatePersonalInfo();
-        break;
-      case 2:
-        errors = validateMedicalHistory();
-        break;
-      case 3:
-        // Additional details are optional
-        break;
-      case 4:
-        errors = validateAppointmentSchedule();
-        break;
-      default:
-        break;
-    }
+    const errors = validateRegistrationStep(state.currentStep, state.formData);
 
     if (Object.keys(errors).length > 0) {
       setErrors(errors);
@@ -100,7 +20,7 @@ export const useRegistrationForm = () => {
       clearErrors();
       return true;
     }
-  }, [state.currentStep, validatePersonalInfo, validateMedicalHistory, validateAppointmentSchedule, setErrors, clearErrors]);
+  }, [state.currentStep, state.formData, setErrors, clearErrors]);
 
   // Submit registration
   const submitRegistration = useCallback(async () => {
@@ -108,15 +28,7 @@ export const useRegistrationForm = () => {
     
     try {
       // Validate all steps
-      const personalInfoErrors = validatePersonalInfo();
-      const medicalHistoryErrors = validateMedicalHistory();
-      const appointmentErrors = validateAppointmentSchedule();
-
-      const allErrors = {
-        ...personalInfoErrors,
-        ...medicalHistoryErrors,
-        ...appointmentErrors
-      };
+      const allErrors = validateRegistration(state.formData);
 
       if (Object.keys(allErrors).length > 0) {
         setErrors(allErrors);
@@ -137,7 +49,7 @@ export const useRegistrationForm = () => {
     } finally {
       setIsSubmitting(false);
     }
-  }, [state.formData, validatePersonalInfo, validateMedicalHistory, validateAppointmentSchedule, setErrors]);
+  }, [state.formData, setErrors]);
 
   return {
     validateCurrentStep,
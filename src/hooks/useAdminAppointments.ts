@@ -3,6 +3,7 @@ import { adminAppointmentApi } from '../services/adminAppointmentApi';
 import { transformAdminApiAppointmentToAppointment, filterAdminAppointmentsByDate } from '../utils/adminAppointmentTransformer';
 import type { Appointment } from '../types/dashboard.types';
 import { useSearchDebounce } from './useDebounce';
+import { useClinicTimeZone } from '../context/ClinicTimeZoneContext';
 
 interface UseAdminAppointmentsReturn {
   appointments: Appointment[];
@@ -28,6 +29,7 @@ export function useAdminAppointments(params?: {
   const [totalCount, setTotalCount] = useState(0);
   const [currentPage, setCurrentPage] = useState(1);
   const [totalPages, setTotalPages] = useState(1);
+  const clinicTimeZone = useClinicTimeZone();
 
   const fetchAppointments = useCallback(async () => {
     try {
@@ -35,7 +37,9 @@ export function useAdminAppointments(params?: {
       setError(null);
       
       const response = await adminAppointmentApi.getConsultations(params);
-      const transformedAppointments = response.data.map(transformAdminApiAppointmentToAppointment);
+      const transformedAppointments = response.data.map(appointment =>
+        transformAdminApiAppointmentToAppointment(appointment, clinicTimeZone)
+      );
       
       setAppointments(transformedAppointments);
       setTotalCount(response.total_count);
@@ -46,7 +50,7 @@ export function useAdminAppointments(params?: {
     } finally {
       setLoading(false);
     }
-  }, [params]);
+  }, [params, clinicTimeZone]);
 
   useEffect(() => {
     fetchAppointments();
@@ -77,8 +81,9 @@ export function useFilteredAdminAppointments(filterType: 'today' | 'past' | 'fut
   }), [debouncedSearchTerm]);
 
   const { appointments, loading, error, refresh } = useAdminAppointments(params);
+  const clinicTimeZone = useClinicTimeZone();
 
-  const filteredAppointments = filterAdminAppointmentsByDate(appointments, filterType);
+  const filteredAppointments = filterAdminAppointmentsByDate(appointments, filterType, clinicTimeZone);
 
   return {
     appointments: filteredAppointments,
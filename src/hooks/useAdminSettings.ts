@@ -0,0 +1,32 @@
+// hooks/useAdminSettings.ts
+import { useCallback } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { adminSettingsService } from '../services/adminSettings.service';
+import type { AdminSettings } from '../types/adminSettings.types';
+
+const ADMIN_SETTINGS_QUERY_KEY = 'adminSettings';
+
+// The admin settings, fetched once and shared by every screen that reads them
+export const useAdminSettings = (enabled: boolean = true) => {
+  const queryClient = useQueryClient();
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: [ADMIN_SETTINGS_QUERY_KEY],
+    queryFn: ({ signal }) => adminSettingsService.getSettings(signal),
+    enabled,
+    staleTime: 5 * 60 * 1000,
+    refetchOnWindowFocus: false,
+  });
+
+  // Saved settings replace the cached copy so every screen shows them at once
+  const setSettings = useCallback(
+    (update: AdminSettings | ((current: AdminSettings) => AdminSettings)) => {
+      queryClient.setQueryData<AdminSettings>([ADMIN_SETTINGS_QUERY_KEY], current =>
+        typeof update === 'function' ? current && update(current) : update
+      );
+    },
+    [queryClient]
+  );
+
+  return { settings: data ?? null, isLoading, error, setSettings };
+};
@@ -1,15 +1,14 @@
 import { useQuery } from '@tanstack/react-query';
-import { apiClient } from '../services/apiClient';
+import { httpClient } from '../services/httpClient';
 
 export const useAppointmentDetails = (appointmentId: number | null) => {
   return useQuery({
     queryKey: ['appointment', appointmentId],
-    queryFn: async () => {
+    queryFn: async ({ signal }) => {
       if (!appointmentId) return null;
-      const response = await apiClient.get(`/admin/consultations/${appointmentId}`);
-      return response.data;
+      return httpClient.get(`/admin/consultations/${appointmentId}`, { signal });
     },
     enabled: !!appointmentId,
     refetchOnWindowFocus: false,
   });
-}; 
\ No newline at end of file
+}; 
@@ -0,0 +1,19 @@
+// hooks/useCan.ts
+import { useCallback } from 'react';
+import { useAuth } from '../context/AuthContext';
+import { hasPermission } from '../constants/permissions';
+import type { Permission } from '../types/auth.types';
+
+// Returns a checker that is true only when the current user holds every given permission
+export const useCan = () => {
+  const { user } = useAuth();
+  const role = user?.role;
+
+  return useCallback(
+    (permissions: Permission | Permission[]): boolean => {
+      const required = Array.isArray(permissions) ? permissions : [permissions];
+      return required.every(permission => hasPermission(role, permission));
+    },
+    [role]
+  );
+};
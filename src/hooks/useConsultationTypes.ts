@@ -0,0 +1,16 @@
+// hooks/useConsultationTypes.ts
+import { useMemo } from 'react';
+import { useAdminSettings } from './useAdminSettings';
+import { getConsultationTypes } from '../utils/consultationTypes';
+
+// The clinic's consultation types, for admin screens that book or move appointments
+export const useConsultationTypes = () => {
+  const { settings, isLoading } = useAdminSettings();
+
+  const consultationTypes = useMemo(
+    () => (settings ? getConsultationTypes(settings.consultation_service) : []),
+    [settings]
+  );
+
+  return { consultationTypes, isLoading };
+};
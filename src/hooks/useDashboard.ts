@@ -3,6 +3,7 @@ import { DashboardState, TabType, Appointment } from '../types/dashboard.types';
 import { filterAppointments, sortAppointmentsByDateTime } from '../utils/dashboardHelpers';
 import { adminAppointmentApi, AdminApiAppointment } from '../services/adminAppointmentApi';
 import { useSearchDebounce } from './useDebounce';
+import { useClinicTimeZone } from '../context/ClinicTimeZoneContext';
 
 const emptyAppointments = {
   today: [],
@@ -19,6 +20,7 @@ export const useDashboard = () => {
   
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const clinicTimeZone = useClinicTimeZone();
 
   // Use debounced search term to reduce API calls
   const { debouncedSearchTerm, isSearching } = useSearchDebounce(
@@ -104,8 +106,8 @@ export const useDashboard = () => {
   // Get current appointments based on active tab
   const currentAppointments = useMemo(() => {
     const appointments = state.appointments[state.activeTab];
-    return sortAppointmentsByDateTime(appointments);
-  }, [state.appointments, state.activeTab]);
+    return sortAppointmentsByDateTime(appointments, clinicTimeZone);
+  }, [state.appointments, state.activeTab, clinicTimeZone]);
 
   // Get filtered appointments based on debounced search term
   const filteredAppointments = useMemo(() => {
@@ -23,3 +23,20 @@ export const useAuthGuard = (redirectTo: string = '/login') => {
   };
 };
 
+
+// Keeps signed-in users away from guest-only pages such as password reset
+export const useGuestGuard = (redirectTo: string = '/dashboard') => {
+  const { isAuthenticated, isLoading, isInitialized } = useAuth();
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    if (!isLoading && isInitialized && isAuthenticated) {
+      navigate(redirectTo, { replace: true });
+    }
+  }, [isAuthenticated, isLoading, isInitialized, navigate, redirectTo]);
+
+  return {
+    isAuthenticated,
+    isLoading: isLoading || !isInitialized
+  };
+};
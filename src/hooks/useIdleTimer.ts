@@ -0,0 +1,104 @@
+// hooks/useIdleTimer.ts
+import { useState, useEffect, useCallback, useRef } from 'react';
+import SessionStorageService from '../services/sessionStorage.service';
+import { ACTIVITY_SYNC_INTERVAL_MS } from '../constants/session';
+
+const ACTIVITY_EVENTS = ['mousedown', 'mousemove', 'keydown', 'touchstart', 'wheel', 'scroll'] as const;
+const TICK_INTERVAL_MS = 1000;
+
+interface UseIdleTimerOptions {
+  enabled: boolean;
+  timeout: number;
+  warningTime: number;
+  onIdle: () => void;
+}
+
+export const useIdleTimer = ({ enabled, timeout, warningTime, onIdle }: UseIdleTimerOptions) => {
+  const [isWarning, setIsWarning] = useState(false);
+  const [remainingMs, setRemainingMs] = useState(timeout);
+
+  const lastActivityRef = useRef(Date.now());
+  const lastSyncRef = useRef(0);
+  const isWarningRef = useRef(false);
+  const onIdleRef = useRef(onIdle);
+  onIdleRef.current = onIdle;
+
+  const setWarning = useCallback((value: boolean) => {
+    isWarningRef.current = value;
+    setIsWarning(value);
+  }, []);
+
+  const markActive = useCallback((timestamp: number = Date.now()) => {
+    lastActivityRef.current = timestamp;
+    if (timestamp - lastSyncRef.current >= ACTIVITY_SYNC_INTERVAL_MS) {
+      lastSyncRef.current = timestamp;
+      SessionStorageService.setLastActivity(timestamp);
+    }
+  }, []);
+
+  // Explicit "stay signed in": always shared with other tabs immediately
+  const reset = useCallback(() => {
+    lastSyncRef.current = 0;
+    markActive();
+    setWarning(false);
+    setRemainingMs(timeout);
+  }, [markActive, setWarning, timeout]);
+
+  useEffect(() => {
+    if (!enabled) {
+      setWarning(false);
+      return;
+    }
+
+    // Pick up activity from other open tabs, but always leave room for the warning
+    lastActivityRef.current = Math.max(Date.now() - timeout + warningTime, SessionStorageService.getLastActivity() ?? 0);
+    markActive();
+
+    // Passive activity does not dismiss the warning, the user has to confirm
+    const handleActivity = () => {
+      if (!isWarningRef.current) {
+        markActive();
+      }
+    };
+
+    const unsubscribeActivity = SessionStorageService.onActivity(timestamp => {
+      if (timestamp > lastActivityRef.current) {
+        lastActivityRef.current = timestamp;
+        setWarning(false);
+      }
+    });
+
+    const tick = () => {
+      const remaining = timeout - (Date.now() - lastActivityRef.current);
+
+      if (remaining <= 0) {
+        setWarning(false);
+        onIdleRef.current();
+      } else if (remaining <= warningTime) {
+        setWarning(true);
+        setRemainingMs(remaining);
+      } else if (isWarningRef.current) {
+        setWarning(false);
+      }
+    };
+
+    ACTIVITY_EVENTS.forEach(event => {
+      window.addEventListener(event, handleActivity, { passive: true });
+    });
+    const interval = setInterval(tick, TICK_INTERVAL_MS);
+
+    return () => {
+      ACTIVITY_EVENTS.forEach(event => {
+        window.removeEventListener(event, handleActivity);
+      });
+      clearInterval(interval);
+      unsubscribeActivity();
+    };
+  }, [enabled, timeout, warningTime, markActive, setWarning]);
+
+  return {
+    isWarning,
+    remainingMs,
+    reset,
+  };
+};
@@ -5,6 +5,8 @@ import { DEFAULT_ITEMS_PER_PAGE, MAX_ITEMS_PER_PAGE } from '../constants/paginat
 import type { Appointment } from '../types/dashboard.types';
 import type { AdminApiAppointment } from '../services/adminAppointmentApi';
 import { useSearchDebounce } from './useDebounce';
+import { getClinicToday } from '../utils/dateTime';
+import { useClinicTimeZone } from '../context/ClinicTimeZoneContext';
 
 interface UseOptimizedAppointmentsReturn {
   appointments: Appointment[];
@@ -23,6 +25,7 @@ export function useOptimizedAppointments(
 ): UseOptimizedAppointmentsReturn {
   const [currentPage, setCurrentPage] = useState(1);
   const itemsPerPage = DEFAULT_ITEMS_PER_PAGE;
+  const clinicTimeZone = useClinicTimeZone();
 
   // Use debounced search term
   const { debouncedSearchTerm } = useSearchDebounce(searchTerm, 500, 1);
@@ -88,7 +91,7 @@ export function useOptimizedAppointments(
   const filteredAppointments = useMemo(() => {
     if (!allAppointmentsData) return [];
 
-    const today = new Date().toISOString().split('T')[0];
+    const today = getClinicToday(clinicTimeZone);
     
     // First filter by date
     let dateFilteredAppointments = allAppointmentsData.filter(appointment => {
@@ -117,7 +120,7 @@ export function useOptimizedAppointments(
     }
 
     return dateFilteredAppointments;
-  }, [allAppointmentsData, filterType, debouncedSearchTerm]);
+  }, [allAppointmentsData, filterType, debouncedSearchTerm, clinicTimeZone]);
 
   // Paginate the filtered appointments
   const paginatedAppointments = useMemo(() => {
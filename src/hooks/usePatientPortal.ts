@@ -0,0 +1,75 @@
+// hooks/usePatientPortal.ts
+import { useState, useCallback, useEffect } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { patientPortalService } from '../services/patientPortal.service';
+import { isUnauthorizedError } from '../services/httpClient';
+import { useClinicTimeZoneContext } from '../context/ClinicTimeZoneContext';
+import type {
+  PortalCancelResponse,
+  PortalRescheduleRequest,
+  PortalSession
+} from '../types/patientPortal.types';
+
+const PORTAL_QUERY_KEY = 'portalAppointments';
+
+// The verified patient's bookings plus the changes they can make to them
+export const usePatientPortal = () => {
+  const queryClient = useQueryClient();
+  const [session, setSession] = useState<PortalSession | null>(() => patientPortalService.getSession());
+  const { reportTimeZone } = useClinicTimeZoneContext();
+
+  const { data, isLoading, error, refetch } = useQuery({
+    queryKey: [PORTAL_QUERY_KEY, session?.patient.id],
+    queryFn: async ({ signal }) => {
+      const appointments = await patientPortalService.getAppointments(signal);
+      reportTimeZone(appointments.time_zone);
+      return appointments;
+    },
+    enabled: Boolean(session),
+    refetchOnWindowFocus: false,
+    retry: (failureCount, queryError) => !isUnauthorizedError(queryError) && failureCount < 2,
+  });
+
+  // The service drops the stored session on 401; follow it here
+  useEffect(() => {
+    if (session && isUnauthorizedError(error)) {
+      setSession(null);
+    }
+  }, [session, error]);
+
+  const signIn = useCallback((next: PortalSession) => {
+    setSession(next);
+  }, []);
+
+  const signOut = useCallback(() => {
+    patientPortalService.signOut();
+    setSession(null);
+    queryClient.removeQueries({ queryKey: [PORTAL_QUERY_KEY] });
+  }, [queryClient]);
+
+  const reschedule = useCallback(async (appointmentId: number, request: PortalRescheduleRequest) => {
+    const appointment = await patientPortalService.rescheduleAppointment(appointmentId, request);
+    await queryClient.invalidateQueries({ queryKey: [PORTAL_QUERY_KEY] });
+    return appointment;
+  }, [queryClient]);
+
+  const cancel = useCallback(async (appointmentId: number, reason?: string): Promise<PortalCancelResponse> => {
+    const result = await patientPortalService.cancelAppointment(appointmentId, reason);
+    await queryClient.invalidateQueries({ queryKey: [PORTAL_QUERY_KEY] });
+    return result;
+  }, [queryClient]);
+
+  return {
+    session,
+    upcoming: data?.upcoming || [],
+    past: data?.past || [],
+    policy: data?.policy,
+    isLoading,
+    error: error instanceof Error ? error.message : null,
+    refetch,
+    signIn,
+    signOut,
+    reschedule,
+    cancel,
+  };
+};
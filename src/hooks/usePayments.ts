@@ -0,0 +1,93 @@
+// hooks/usePayments.ts
+import { useState, useCallback } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { adminPaymentApi } from '../services/adminPaymentApi';
+import { paymentService } from '../services/paymentService';
+import { DEFAULT_ITEMS_PER_PAGE, MAX_ITEMS_PER_PAGE } from '../constants/pagination';
+import type { AdminPayment, AdminPaymentFilters, RefundResult } from '../types/payment.types';
+
+export type PaymentListFilters = Pick<AdminPaymentFilters, 'start_date' | 'end_date' | 'status'>;
+
+const PAYMENTS_QUERY_KEY = 'adminPayments';
+
+// Paged admin payment list plus the refund and export actions that act on it
+export const usePayments = (filters: PaymentListFilters) => {
+  const queryClient = useQueryClient();
+  const [currentPage, setCurrentPage] = useState(1);
+  const [itemsPerPage, setItemsPerPage] = useState<number>(DEFAULT_ITEMS_PER_PAGE);
+  const [prevFilters, setPrevFilters] = useState(filters);
+
+  // A new filter starts from the first page
+  if (prevFilters !== filters) {
+    setPrevFilters(filters);
+    setCurrentPage(1);
+  }
+
+  const { data, isLoading, isFetching, error, refetch } = useQuery({
+    queryKey: [PAYMENTS_QUERY_KEY, filters, currentPage, itemsPerPage],
+    queryFn: ({ signal }) =>
+      adminPaymentApi.getPayments({ ...filters, page: currentPage, per_page: itemsPerPage }, signal),
+    placeholderData: previousData => previousData,
+    refetchOnWindowFocus: false,
+  });
+
+  const setPage = useCallback((page: number, newItemsPerPage?: number) => {
+    if (newItemsPerPage !== undefined) {
+      setItemsPerPage(newItemsPerPage);
+      setCurrentPage(1);
+    } else {
+      setCurrentPage(Math.max(1, page));
+    }
+  }, []);
+
+  // Refunds go through the gateway that took the payment
+  const refund = useCallback(async (payment: AdminPayment, amount?: number): Promise<RefundResult> => {
+    if (!payment.payment_id) {
+      throw new Error('This order has no payment to refund');
+    }
+
+    const result = await paymentService.refundPayment(
+      { gateway: payment.gateway, paymentId: payment.payment_id, orderId: payment.order_id },
+      amount
+    );
+    await queryClient.invalidateQueries({ queryKey: [PAYMENTS_QUERY_KEY] });
+    return result;
+  }, [queryClient]);
+
+  // Every row matching the filters, not just the visible page
+  const fetchAllForExport = useCallback(async (): Promise<AdminPayment[]> => {
+    const rows: AdminPayment[] = [];
+    let page = 1;
+    let totalPages = 1;
+    let totalCount = 0;
+
+    do {
+      const response = await adminPaymentApi.getPayments({ ...filters, page, per_page: MAX_ITEMS_PER_PAGE });
+      rows.push(...(response.data || []));
+      totalPages = response.total_pages || 1;
+      totalCount = response.total_count || 0;
+      page += 1;
+    } while (page <= totalPages);
+
+    // A partial export would look complete, so refuse it instead
+    if (rows.length < totalCount) {
+      throw new Error(`Only ${rows.length} of ${totalCount} payments could be loaded. Please try the export again.`);
+    }
+    return rows;
+  }, [filters]);
+
+  return {
+    payments: data?.data || [],
+    loading: isLoading && !data,
+    isFetching,
+    error: error?.message || null,
+    refresh: refetch,
+    totalCount: data?.total_count || 0,
+    currentPage: data?.current_page || currentPage,
+    totalPages: data?.total_pages || 1,
+    itemsPerPage,
+    setPage,
+    refund,
+    fetchAllForExport,
+  };
+};
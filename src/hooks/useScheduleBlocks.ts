@@ -0,0 +1,164 @@
+// hooks/useScheduleBlocks.ts
+import { useCallback } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { scheduleBlockService } from '../services/scheduleBlockService';
+import { chartServices } from '../services/chartServices';
+import { useToast } from '../context/ToastContext';
+import { useClinicTimeZone } from '../context/ClinicTimeZoneContext';
+import { SCHEDULE_BLOCKS_QUERY_KEY, SCHEDULE_CALENDAR_QUERY_KEY } from '../constants/schedule';
+import { getClinicToday } from '../utils/dateTime';
+import { getBookedSlotsInRange, validateBlock } from '../utils/scheduleBlocks';
+import type {
+  AffectedBookingsAction,
+  AffectedBookingsResponse,
+  CreateScheduleBlockRequest,
+  ScheduleBlock
+} from '../types/schedule';
+
+const describeResult = (action: Exclude<AffectedBookingsAction, 'keep'>, result?: AffectedBookingsResponse): string => {
+  if (action === 'notify') {
+    return `${result?.notified_count ?? 0} patient(s) asked to pick a new time`;
+  }
+  const failed = result?.failed_count ? `, ${result.failed_count} could not be moved` : '';
+  return `${result?.rescheduled_count ?? 0} booking(s) moved to the next free slot${failed}`;
+};
+
+// Upcoming leave and holidays, plus the bookings that fall inside them
+export const useScheduleBlocks = () => {
+  const queryClient = useQueryClient();
+  const { showToast } = useToast();
+  const clinicTimeZone = useClinicTimeZone();
+
+  const blocksQuery = useQuery({
+    queryKey: [SCHEDULE_BLOCKS_QUERY_KEY, 'upcoming', clinicTimeZone],
+    queryFn: async () => {
+      const response = await scheduleBlockService.getBlocks({ start_date: getClinicToday(clinicTimeZone) });
+      if (response.error || response.errors) {
+        throw new Error(response.errors?.join(', ') || response.error);
+      }
+      return response.data?.schedule_blocks || [];
+    },
+    refetchOnWindowFocus: false,
+  });
+
+  // Same cache entry as the schedule calendar
+  const bookedQuery = useQuery({
+    queryKey: [SCHEDULE_CALENDAR_QUERY_KEY, 'booked'],
+    queryFn: () => chartServices.getBookedSlots(),
+    refetchOnWindowFocus: false,
+  });
+
+  const bookedSlots = bookedQuery.data;
+  const getAffectedSlots = useCallback(
+    (range: Pick<ScheduleBlock, 'start_date' | 'end_date'>) => getBookedSlotsInRange(bookedSlots || [], range),
+    [bookedSlots]
+  );
+
+  // Blocks change which days the calendar shows as open
+  const invalidate = useCallback(() => Promise.all([
+    queryClient.invalidateQueries({ queryKey: [SCHEDULE_BLOCKS_QUERY_KEY] }),
+    queryClient.invalidateQueries({ queryKey: [SCHEDULE_CALENDAR_QUERY_KEY] }),
+  ]), [queryClient]);
+
+  const handleAffectedBookings = useCallback(async (
+    id: number,
+    action: Exclude<AffectedBookingsAction, 'keep'>
+  ): Promise<boolean> => {
+    try {
+      const response = action === 'reschedule'
+        ? await scheduleBlockService.rescheduleBookings(id)
+        : await scheduleBlockService.notifyPatients(id);
+
+      if (response.error || response.errors) {
+        showToast(response.errors?.join(', ') || response.error || 'Failed to update bookings', 'error');
+        return false;
+      }
+
+      showToast(describeResult(action, response.data), response.data?.failed_count ? 'warning' : 'success');
+      await invalidate();
+      return true;
+    } catch {
+      showToast('Failed to update bookings', 'error');
+      return false;
+    }
+  }, [invalidate, showToast]);
+
+  const createBlock = useCallback(async (
+    request: CreateScheduleBlockRequest,
+    action: AffectedBookingsAction = 'keep'
+  ): Promise<boolean> => {
+    const validationError = validateBlock(request, clinicTimeZone);
+    if (validationError) {
+      showToast(validationError, 'error');
+      return false;
+    }
+
+    try {
+      const response = await scheduleBlockService.createBlock({ ...request, reason: request.reason.trim() });
+
+      if (response.error || response.errors || !response.data) {
+        showToast(response.errors?.join(', ') || response.error || 'Failed to block dates', 'error');
+        return false;
+      }
+
+      showToast(request.kind === 'holiday' ? 'Holiday added' : 'Leave added', 'success');
+      if (action !== 'keep' && getAffectedSlots(request).length > 0) {
+        await handleAffectedBookings(response.data.id, action);
+      } else {
+        await invalidate();
+      }
+      return true;
+    } catch {
+      showToast('Failed to block dates', 'error');
+      return false;
+    }
+  }, [clinicTimeZone, getAffectedSlots, handleAffectedBookings, invalidate, showToast]);
+
+  const importHolidays = useCallback(async (holidays: CreateScheduleBlockRequest[]): Promise<boolean> => {
+    try {
+      const response = await scheduleBlockService.importBlocks(holidays);
+
+      if (response.error || response.errors) {
+        showToast(response.errors?.join(', ') || response.error || 'Failed to import holidays', 'error');
+        return false;
+      }
+
+      showToast(`${response.data?.schedule_blocks.length ?? holidays.length} holiday(s) imported`, 'success');
+      await invalidate();
+      return true;
+    } catch {
+      showToast('Failed to import holidays', 'error');
+      return false;
+    }
+  }, [invalidate, showToast]);
+
+  const deleteBlock = useCallback(async (id: number): Promise<boolean> => {
+    try {
+      const response = await scheduleBlockService.deleteBlock(id);
+
+      if (response.error || response.errors) {
+        showToast(response.errors?.join(', ') || response.error || 'Failed to remove blocked dates', 'error');
+        return false;
+      }
+
+      showToast('Blocked dates removed', 'success');
+      await invalidate();
+      return true;
+    } catch {
+      showToast('Failed to remove blocked dates', 'error');
+      return false;
+    }
+  }, [invalidate, showToast]);
+
+  return {
+    blocks: blocksQuery.data || [],
+    isLoading: blocksQuery.isLoading,
+    error: blocksQuery.error instanceof Error ? blocksQuery.error.message : null,
+    refetch: blocksQuery.refetch,
+    getAffectedSlots,
+    createBlock,
+    importHolidays,
+    deleteBlock,
+    handleAffectedBookings,
+  };
+};
@@ -0,0 +1,127 @@
+// hooks/useScheduleCalendar.ts
+import { useCallback, useMemo } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { scheduleService } from '../services/scheduleService';
+import { scheduleBlockService } from '../services/scheduleBlockService';
+import { chartServices } from '../services/chartServices';
+import { useScheduleContext } from '../context/ScheduleContext';
+import { useScheduleChangeGuard } from './useScheduleChangeGuard';
+import { MAX_ITEMS_PER_PAGE } from '../constants/pagination';
+import { SCHEDULE_BLOCKS_QUERY_KEY, SCHEDULE_CALENDAR_QUERY_KEY } from '../constants/schedule';
+import { buildScheduleCalendar, getCalendarDates } from '../utils/scheduleCalendar';
+import { toWindowsRequest } from '../utils/scheduleWindows';
+import type {
+  ScheduleCalendarDay,
+  ScheduleCalendarRange,
+  ScheduleChange,
+  ScheduleWindow,
+  UpdateScheduleRequest
+} from '../types/schedule';
+
+// Days around the anchor date with general hours, custom overrides and booked slots merged
+export const useScheduleCalendar = (anchor: string, range: ScheduleCalendarRange) => {
+  const queryClient = useQueryClient();
+  const { updateScheduleByDay, updateScheduleByDate } = useScheduleContext();
+  const changeGuard = useScheduleChangeGuard();
+  const { guard } = changeGuard;
+
+  const dates = useMemo(() => getCalendarDates(anchor, range), [anchor, range]);
+  const startDate = dates[0];
+  const endDate = dates[dates.length - 1];
+
+  // The context only holds the weekly schedules on the table's current page and filters
+  const generalQuery = useQuery({
+    queryKey: [SCHEDULE_CALENDAR_QUERY_KEY, 'general'],
+    queryFn: async () => {
+      const response = await scheduleService.getSchedules({ per_page: MAX_ITEMS_PER_PAGE });
+      if (response.error || response.errors) {
+        throw new Error(response.errors?.join(', ') || response.error);
+      }
+      return response.data?.schedules || [];
+    },
+    refetchOnWindowFocus: false,
+  });
+
+  // The context only holds the custom schedules on the table's current page
+  const customQuery = useQuery({
+    queryKey: [SCHEDULE_CALENDAR_QUERY_KEY, 'custom', startDate, endDate],
+    queryFn: async () => {
+      const response = await scheduleService.getCustomSchedules({
+        start_date: startDate,
+        end_date: endDate,
+        per_page: MAX_ITEMS_PER_PAGE,
+      });
+      if (response.error || response.errors) {
+        throw new Error(response.errors?.join(', ') || response.error);
+      }
+      return response.data?.schedules || [];
+    },
+    placeholderData: previousData => previousData,
+    refetchOnWindowFocus: false,
+  });
+
+  const bookedQuery = useQuery({
+    queryKey: [SCHEDULE_CALENDAR_QUERY_KEY, 'booked'],
+    queryFn: () => chartServices.getBookedSlots(),
+    refetchOnWindowFocus: false,
+  });
+
+  // Keyed under the blocks list so adding leave refreshes the calendar too
+  const blocksQuery = useQuery({
+    queryKey: [SCHEDULE_BLOCKS_QUERY_KEY, startDate, endDate],
+    queryFn: async () => {
+      const response = await scheduleBlockService.getBlocks({ start_date: startDate, end_date: endDate });
+      if (response.error || response.errors) {
+        throw new Error(response.errors?.join(', ') || response.error);
+      }
+      return response.data?.schedule_blocks || [];
+    },
+    placeholderData: previousData => previousData,
+    refetchOnWindowFocus: false,
+  });
+
+  const days = useMemo(
+    () => buildScheduleCalendar(
+      dates,
+      generalQuery.data || [],
+      customQuery.data || [],
+      bookedQuery.data || [],
+      blocksQuery.data || []
+    ),
+    [dates, generalQuery.data, customQuery.data, bookedQuery.data, blocksQuery.data]
+  );
+
+  // Weekly hours change for every matching weekday; a custom day changes only its date
+  const updateWindows = useCallback(async (day: ScheduleCalendarDay, windows: ScheduleWindow[]): Promise<boolean> => {
+    const request: UpdateScheduleRequest = { ...toWindowsRequest(windows), status: true };
+    const change: ScheduleChange = day.source === 'custom'
+      ? { type: 'update_date', date: day.date, request }
+      : { type: 'update_day', day: day.weekday, request };
+
+    // Shrinking hours can strand bookings, so the change is previewed first
+    const saved = await guard(change, () => day.source === 'custom'
+      ? updateScheduleByDate(day.date, request)
+      : updateScheduleByDay(day.weekday, request));
+
+    if (saved) {
+      await queryClient.invalidateQueries({ queryKey: [SCHEDULE_CALENDAR_QUERY_KEY] });
+    }
+    return saved;
+  }, [guard, queryClient, updateScheduleByDate, updateScheduleByDay]);
+
+  const queries = [generalQuery, customQuery, bookedQuery, blocksQuery];
+  const error = queries.find(query => query.error)?.error;
+
+  return {
+    days,
+    isLoading: queries.some(query => query.isLoading),
+    isFetching: queries.some(query => query.isFetching),
+    error: error instanceof Error ? error.message : null,
+    refetch: () => Promise.all([
+      queryClient.invalidateQueries({ queryKey: [SCHEDULE_CALENDAR_QUERY_KEY] }),
+      queryClient.invalidateQueries({ queryKey: [SCHEDULE_BLOCKS_QUERY_KEY] }),
+    ]),
+    updateWindows,
+    changeGuard,
+  };
+};
@@ -0,0 +1,154 @@
+// hooks/useScheduleChangeGuard.ts
+import { useCallback, useRef, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { scheduleService } from '../services/scheduleService';
+import { scheduleBlockService } from '../services/scheduleBlockService';
+import { chartServices } from '../services/chartServices';
+import { updateBookedSlot } from '../services/adminAppointmentApi';
+import { useToast } from '../context/ToastContext';
+import { useClinicTimeZone } from '../context/ClinicTimeZoneContext';
+import { MAX_ITEMS_PER_PAGE } from '../constants/pagination';
+import { CONFLICT_MOVE_SEARCH_DAYS, SCHEDULE_CALENDAR_QUERY_KEY } from '../constants/schedule';
+import { getClinicToday } from '../utils/dateTime';
+import { addDays, buildScheduleCalendar, getDateRange } from '../utils/scheduleCalendar';
+import { applyScheduleChange, findAffectedSlots, planConflictMoves } from '../utils/scheduleConflicts';
+import type { ScheduleChange, ScheduleChangePreview, ScheduleConflict } from '../types/schedule';
+
+interface PendingChange {
+  save: () => Promise<boolean>;
+  resolve: (saved: boolean) => void;
+}
+
+/**
+ * Checks a schedule change against upcoming bookings before saving it.
+ * `guard` saves straight away when no booking is affected; otherwise it
+ * opens a preview and resolves once the user confirms or cancels it.
+ */
+export const useScheduleChangeGuard = () => {
+  const queryClient = useQueryClient();
+  const { showToast } = useToast();
+  const clinicTimeZone = useClinicTimeZone();
+  const [preview, setPreview] = useState<ScheduleChangePreview | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const pending = useRef<PendingChange | null>(null);
+
+  const findConflicts = useCallback(async (change: ScheduleChange): Promise<ScheduleConflict[]> => {
+    const bookedSlots = await queryClient.fetchQuery({
+      queryKey: [SCHEDULE_CALENDAR_QUERY_KEY, 'booked'],
+      queryFn: () => chartServices.getBookedSlots(),
+      staleTime: 0,
+    });
+
+    const today = getClinicToday(clinicTimeZone);
+    const upcoming = bookedSlots.filter(slot => slot.status && slot.slot_date >= today);
+    if (upcoming.length === 0) return [];
+
+    const lastDate = upcoming.reduce((latest, slot) => slot.slot_date > latest ? slot.slot_date : latest, today);
+    const endDate = addDays(lastDate, CONFLICT_MOVE_SEARCH_DAYS);
+
+    // The context's lists are paged and filtered for the table, so every schedule is fetched here
+    const [generalResponse, customResponse, blocksResponse] = await Promise.all([
+      scheduleService.getSchedules({ per_page: MAX_ITEMS_PER_PAGE }),
+      scheduleService.getCustomSchedules({ start_date: today, end_date: endDate, per_page: MAX_ITEMS_PER_PAGE }),
+      scheduleBlockService.getBlocks({ start_date: today, end_date: endDate }),
+    ]);
+    for (const response of [generalResponse, customResponse, blocksResponse]) {
+      if (response.error || response.errors) {
+        throw new Error(response.errors?.join(', ') || response.error);
+      }
+    }
+
+    const generalSchedules = generalResponse.data?.schedules || [];
+    const customSchedules = customResponse.data?.schedules || [];
+    const blocks = blocksResponse.data?.schedule_blocks || [];
+    const dates = getDateRange(today, endDate);
+    const changed = applyScheduleChange(generalSchedules, customSchedules, change);
+
+    const before = buildScheduleCalendar(dates, generalSchedules, customSchedules, upcoming, blocks);
+    const after = buildScheduleCalendar(dates, changed.generalSchedules, changed.customSchedules, upcoming, blocks);
+
+    return planConflictMoves(findAffectedSlots(before, after), after, clinicTimeZone);
+  }, [queryClient, clinicTimeZone]);
+
+  const guard = useCallback(async (change: ScheduleChange, save: () => Promise<boolean>): Promise<boolean> => {
+    let conflicts: ScheduleConflict[];
+    setIsChecking(true);
+    try {
+      conflicts = await findConflicts(change);
+    } catch {
+      // Without the check the change could strand patients, so it is not saved
+      showToast('Could not check for booked appointments. Please try again.', 'error');
+      return false;
+    } finally {
+      setIsChecking(false);
+    }
+
+    if (conflicts.length === 0) {
+      return save();
+    }
+
+    return new Promise<boolean>(resolve => {
+      pending.current = { save, resolve };
+      setPreview({ change, conflicts });
+    });
+  }, [findConflicts, showToast]);
+
+  const moveAppointments = useCallback(async (conflicts: ScheduleConflict[]) => {
+    let moved = 0;
+    let failed = 0;
+    for (const { slot, suggestion } of conflicts) {
+      if (!suggestion) {
+        failed++;
+        continue;
+      }
+      try {
+        await updateBookedSlot(slot.id, suggestion.slot_date, suggestion.slot_time);
+        moved++;
+      } catch {
+        failed++;
+      }
+    }
+
+    if (failed > 0) {
+      showToast(`${moved} appointment(s) moved, ${failed} still need a new time`, 'warning');
+    } else {
+      showToast(`${moved} appointment(s) moved to the nearest free slots`, 'success');
+    }
+    await queryClient.invalidateQueries({ queryKey: [SCHEDULE_CALENDAR_QUERY_KEY] });
+  }, [queryClient, showToast]);
+
+  const confirm = useCallback(async (move: boolean) => {
+    const current = pending.current;
+    if (!current || !preview) return;
+
+    setIsSaving(true);
+    let saved = false;
+    try {
+      saved = await current.save();
+      if (saved && move) {
+        await moveAppointments(preview.conflicts);
+      }
+    } finally {
+      pending.current = null;
+      setPreview(null);
+      setIsSaving(false);
+      current.resolve(saved);
+    }
+  }, [moveAppointments, preview]);
+
+  const cancel = useCallback(() => {
+    pending.current?.resolve(false);
+    pending.current = null;
+    setPreview(null);
+  }, []);
+
+  return {
+    preview,
+    isChecking,
+    isSaving,
+    guard,
+    confirm,
+    cancel,
+  };
+};
@@ -0,0 +1,122 @@
+// hooks/useSlotHold.ts
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { registrationApi } from '../services/registrationApi';
+import { ApiError } from '../services/httpClient';
+import type { SlotHold, SlotHoldRequest } from '../types/registration';
+
+const TICK_INTERVAL_MS = 1000;
+
+// idle: nothing held, acquiring: request in flight, held: countdown running,
+// expired: hold ran out, lost: the slot went to someone else
+export type SlotHoldStatus = 'idle' | 'acquiring' | 'held' | 'expired' | 'lost';
+
+// `superseded` means the patient picked another slot before this request returned
+export type SlotHoldResult =
+  | { outcome: 'held'; hold: SlotHold }
+  | { outcome: 'unavailable' }
+  | { outcome: 'superseded' };
+
+// 409 slot already held or booked, 410 hold expired on the server
+export const isSlotUnavailableError = (error: unknown): boolean =>
+  error instanceof ApiError && (error.status === 409 || error.status === 410);
+
+const getRemainingMs = (hold: SlotHold): number =>
+  Math.max(0, new Date(hold.expires_at).getTime() - Date.now());
+
+const releaseQuietly = (hold: SlotHold) => {
+  registrationApi.releaseSlotHold(hold.id).catch(error => {
+    // The server expires holds on its own, so a failed release is not fatal
+    console.error('Failed to release slot hold:', error);
+  });
+};
+
+export const useSlotHold = () => {
+  const [hold, setHold] = useState<SlotHold | null>(null);
+  const [status, setStatus] = useState<SlotHoldStatus>('idle');
+  const [remainingMs, setRemainingMs] = useState(0);
+
+  // Mirrors `hold` for unmount cleanup and to ignore stale acquire responses
+  const holdRef = useRef<SlotHold | null>(null);
+  const requestIdRef = useRef(0);
+
+  const replaceHold = useCallback((next: SlotHold | null, nextStatus: SlotHoldStatus) => {
+    holdRef.current = next;
+    setHold(next);
+    setStatus(nextStatus);
+    setRemainingMs(next ? getRemainingMs(next) : 0);
+  }, []);
+
+  const releaseHold = useCallback(() => {
+    requestIdRef.current++;
+    const current = holdRef.current;
+    replaceHold(null, 'idle');
+    if (current) releaseQuietly(current);
+  }, [replaceHold]);
+
+  const acquireHold = useCallback(async (request: SlotHoldRequest): Promise<SlotHoldResult> => {
+    const requestId = ++requestIdRef.current;
+    const previous = holdRef.current;
+    replaceHold(null, 'acquiring');
+    if (previous) releaseQuietly(previous);
+
+    try {
+      const next = await registrationApi.holdSlot(request);
+
+      if (requestId !== requestIdRef.current) {
+        releaseQuietly(next);
+        return { outcome: 'superseded' };
+      }
+
+      replaceHold(next, 'held');
+      return { outcome: 'held', hold: next };
+    } catch (error) {
+      if (requestId !== requestIdRef.current) return { outcome: 'superseded' };
+
+      if (isSlotUnavailableError(error)) {
+        replaceHold(null, 'lost');
+        return { outcome: 'unavailable' };
+      }
+      replaceHold(null, 'idle');
+      throw error;
+    }
+  }, [replaceHold]);
+
+  // Booking was rejected because the hold no longer covers the slot
+  const markLost = useCallback(() => {
+    requestIdRef.current++;
+    replaceHold(null, 'lost');
+  }, [replaceHold]);
+
+  // The booking used up the hold, so there is nothing left to release
+  const consumeHold = useCallback(() => {
+    requestIdRef.current++;
+    replaceHold(null, 'idle');
+  }, [replaceHold]);
+
+  useEffect(() => {
+    if (!hold) return;
+
+    const tick = () => {
+      const remaining = getRemainingMs(hold);
+      setRemainingMs(remaining);
+      if (remaining === 0) {
+        // Already released server-side, nothing to send
+        holdRef.current = null;
+        setHold(null);
+        setStatus('expired');
+      }
+    };
+
+    const intervalId = setInterval(tick, TICK_INTERVAL_MS);
+    return () => clearInterval(intervalId);
+  }, [hold]);
+
+  // Leaving the booking step gives the slot back straight away
+  useEffect(() => {
+    return () => {
+      if (holdRef.current) releaseQuietly(holdRef.current);
+    };
+  }, []);
+
+  return { hold, status, remainingMs, acquireHold, releaseHold, markLost, consumeHold };
+};
@@ -0,0 +1,42 @@
+// pages/Errors/ForbiddenPage.tsx
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ShieldOff } from 'lucide-react';
+import { useAuth } from '../../context/AuthContext';
+
+const ForbiddenPage: React.FC = () => {
+  const navigate = useNavigate();
+  const { user, logout } = useAuth();
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 px-4">
+      <div className="max-w-md w-full bg-white rounded-lg shadow-sm border border-gray-200 p-8 text-center">
+        <div className="mx-auto mb-4 flex h-12 w-12 items-center justify-center rounded-full bg-red-50">
+          <ShieldOff className="h-6 w-6 text-red-600" />
+        </div>
+        <p className="text-sm font-semibold text-red-600">403</p>
+        <h1 className="mt-1 text-2xl font-bold text-gray-900">Access denied</h1>
+        <p className="mt-2 text-gray-600">
+          Your account{user?.role ? ` (${user.role})` : ''} does not have permission to view this page.
+          Contact an administrator if you need access.
+        </p>
+        <div className="mt-6 flex justify-center space-x-3">
+          <button
+            onClick={() => logout()}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-[#28542F]"
+          >
+            Switch account
+          </button>
+          <button
+            onClick={() => navigate('/dashboard', { replace: true })}
+            className="px-4 py-2 text-sm font-medium text-white bg-[#28542F] rounded-md hover:bg-[#1f4225] focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-[#28542F]"
+          >
+            Go to dashboard
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ForbiddenPage;
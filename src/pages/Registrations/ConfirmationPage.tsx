@@ -0,0 +1,178 @@
+// pages/Registrations/ConfirmationPage.tsx
+
+import React, { useMemo, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { CheckCircle, FileText, Video } from 'lucide-react';
+import FormLayout from '../../components/Registrations/common/FormLayout';
+import AddToCalendar from '../../components/Registrations/common/AddToCalendar';
+import InvoiceModal from '../../components/Invoices/InvoiceModal';
+import { bookingConfirmationService } from '../../services/bookingConfirmation.service';
+import { currencyService } from '../../services/currencyService';
+import { DEFAULT_CLINIC_NAME } from '../../constants/booking';
+import { formatInterval, getSlotInterval, isViewerInClinicTimeZone, resolveClinicTimeZone } from '../../utils/dateTime';
+import type { CalendarEvent } from '../../types/calendar.types';
+
+const ConfirmationPage: React.FC = () => {
+  const navigate = useNavigate();
+  const [confirmation] = useState(() => bookingConfirmationService.getConfirmation());
+  const [showReceipt, setShowReceipt] = useState(false);
+  // The zone the slot was booked in, saved with it
+  const clinicTimeZone = resolveClinicTimeZone(confirmation?.timeZone);
+
+  const interval = useMemo(
+    () => confirmation
+      ? getSlotInterval(confirmation.slotDate, confirmation.slotTime, clinicTimeZone, confirmation.durationMinutes)
+      : null,
+    [confirmation, clinicTimeZone]
+  );
+
+  const calendarEvent = useMemo((): CalendarEvent | null => {
+    if (!confirmation || !interval) return null;
+
+    const clinic = confirmation.receipt?.clinic;
+    const description = [
+      confirmation.appointmentCode ? `Appointment code: ${confirmation.appointmentCode}` : null,
+      confirmation.meetLink
+        ? `Join the video consultation: ${confirmation.meetLink}`
+        : 'The video consultation link will be shared before your appointment.',
+    ].filter(Boolean).join('\n');
+
+    return {
+      uid: `appointment-${confirmation.appointmentId ?? confirmation.appointmentCode ?? confirmation.bookedAt}@mediconnect`,
+      title: `${confirmation.consultationName || (confirmation.isFollowUp ? 'Follow-up consultation' : 'Consultation')} - ${clinic?.name || DEFAULT_CLINIC_NAME}`,
+      description,
+      location: confirmation.meetLink || clinic?.address,
+      url: confirmation.meetLink || undefined,
+      start: interval.start,
+      end: interval.end,
+    };
+  }, [confirmation, interval]);
+
+  const handleBookAnother = () => {
+    bookingConfirmationService.clearConfirmation();
+    navigate('/', { replace: true });
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-600 py-8 px-4">
+      <div className="max-w-4xl mx-auto">
+        <h1 className="text-3xl font-bold text-white mb-8">Booking Confirmation</h1>
+
+        <FormLayout>
+          {!confirmation || !interval || !calendarEvent ? (
+            <div className="text-center py-8">
+              <h2 className="text-xl font-semibold text-gray-800">No recent booking found</h2>
+              <p className="mt-2 text-gray-600">
+                Confirmation details are kept only in the browser tab you booked in.
+              </p>
+              <button
+                onClick={handleBookAnother}
+                className="mt-6 px-4 py-2 text-sm font-medium text-white bg-[#28542F] rounded-md hover:bg-[#1f4225]"
+              >
+                Book an appointment
+              </button>
+            </div>
+          ) : (
+            <div className="space-y-6">
+              <div className="flex items-start gap-3">
+                <CheckCircle className="w-8 h-8 text-green-600 flex-shrink-0" />
+                <div>
+                  <h2 className="text-xl font-semibold text-gray-800">Your appointment is booked</h2>
+                  <p className="text-gray-600">
+                    Booked for {confirmation.patientName}. Use your appointment code to reschedule or cancel online.
+                  </p>
+                </div>
+              </div>
+
+              <dl className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+                {confirmation.appointmentCode && (
+                  <div className="bg-gray-50 rounded-md p-4">
+                    <dt className="text-gray-500">Appointment code</dt>
+                    <dd className="mt-1 text-lg font-mono font-semibold text-gray-900">{confirmation.appointmentCode}</dd>
+                  </div>
+                )}
+                <div className="bg-gray-50 rounded-md p-4">
+                  <dt className="text-gray-500">{confirmation.collectsOnline ? 'Amount paid' : 'Amount due at the clinic'}</dt>
+                  <dd className="mt-1 text-lg font-semibold text-gray-900">
+                    {currencyService.format(confirmation.amount, confirmation.currency)}
+                  </dd>
+                </div>
+                <div className="bg-gray-50 rounded-md p-4 md:col-span-2">
+                  <dt className="text-gray-500">Date and time</dt>
+                  <dd className="mt-1 font-semibold text-gray-900">{formatInterval(interval)}</dd>
+                  {!isViewerInClinicTimeZone(clinicTimeZone, interval.start) && (
+                    <dd className="mt-1 text-gray-600">
+                      {formatInterval(interval, clinicTimeZone)} at the clinic
+                    </dd>
+                  )}
+                  {confirmation.durationMinutes && (
+                    <dd className="mt-1 text-gray-600">
+                      {confirmation.durationMinutes} minutes
+                      {confirmation.consultationName
+                        ? ` (${confirmation.consultationName})`
+                        : confirmation.isFollowUp ? ' (follow-up)' : ''}
+                    </dd>
+                  )}
+                </div>
+              </dl>
+
+              <div className="border border-gray-200 rounded-md p-4 text-sm">
+                <h3 className="flex items-center gap-2 font-medium text-gray-900">
+                  <Video className="w-4 h-4" />
+                  Video consultation
+                </h3>
+                {confirmation.meetLink ? (
+                  <a
+                    href={confirmation.meetLink}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="mt-1 inline-block text-blue-600 hover:underline break-all"
+                  >
+                    {confirmation.meetLink}
+                  </a>
+                ) : (
+                  <p className="mt-1 text-gray-600">The meeting link will be shared with you before your appointment.</p>
+                )}
+              </div>
+
+              <div>
+                <h3 className="text-sm font-medium text-gray-900 mb-2">Add to your calendar</h3>
+                <AddToCalendar event={calendarEvent} />
+              </div>
+
+              <div className="flex flex-wrap gap-3 pt-4 border-t border-gray-200">
+                {confirmation.receipt && (
+                  <button
+                    onClick={() => setShowReceipt(true)}
+                    className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+                  >
+                    <FileText className="w-4 h-4" />
+                    View receipt
+                  </button>
+                )}
+                <Link
+                  to="/manage-booking"
+                  className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+                >
+                  Manage this booking
+                </Link>
+                <button
+                  onClick={handleBookAnother}
+                  className="px-4 py-2 text-sm font-medium text-white bg-[#28542F] rounded-md hover:bg-[#1f4225]"
+                >
+                  Book another appointment
+                </button>
+              </div>
+            </div>
+          )}
+        </FormLayout>
+      </div>
+
+      {showReceipt && confirmation?.receipt && (
+        <InvoiceModal invoice={confirmation.receipt} onClose={() => setShowReceipt(false)} />
+      )}
+    </div>
+  );
+};
+
+export default ConfirmationPage;
@@ -0,0 +1,158 @@
+// pages/Registrations/ManageBookingPage.tsx
+
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { LogOut } from 'lucide-react';
+import FormLayout from '../../components/Registrations/common/FormLayout';
+import BookingCodeLookup from '../../components/ManageBooking/BookingCodeLookup';
+import PortalAppointmentCard from '../../components/ManageBooking/PortalAppointmentCard';
+import RescheduleBookingDialog from '../../components/ManageBooking/RescheduleBookingDialog';
+import CancelBookingDialog from '../../components/ManageBooking/CancelBookingDialog';
+import { usePatientPortal } from '../../hooks/usePatientPortal';
+import { useToast } from '../../context/ToastContext';
+import { useClinicTimeZone } from '../../context/ClinicTimeZoneContext';
+import { currencyService } from '../../services/currencyService';
+import { getBookingActions } from '../../utils/bookingPolicy';
+import type { PortalAppointment, PortalCancelResponse, PortalRescheduleRequest } from '../../types/patientPortal.types';
+
+const getCancelledMessage = ({ refund }: PortalCancelResponse): string => {
+  const amount = currencyService.format(refund.amount, refund.currency);
+  if (refund.status === 'processed') return `Appointment cancelled. ${amount} has been refunded.`;
+  if (refund.status === 'pending') return `Appointment cancelled. Your refund of ${amount} is on its way.`;
+  return 'Appointment cancelled.';
+};
+
+const ManageBookingPage: React.FC = () => {
+  const { showToast } = useToast();
+  const clinicTimeZone = useClinicTimeZone();
+  const { session, upcoming, past, policy, isLoading, error, refetch, signIn, signOut, reschedule, cancel } =
+    usePatientPortal();
+  const [rescheduling, setRescheduling] = useState<PortalAppointment | null>(null);
+  const [cancelling, setCancelling] = useState<PortalAppointment | null>(null);
+
+  const handleReschedule = async (appointment: PortalAppointment, request: PortalRescheduleRequest) => {
+    await reschedule(appointment.id, request);
+    setRescheduling(null);
+    showToast('Your appointment has been moved.', 'success');
+  };
+
+  const handleCancel = async (appointment: PortalAppointment, reason?: string) => {
+    const result = await cancel(appointment.id, reason);
+    setCancelling(null);
+    showToast(getCancelledMessage(result), 'success', 5000);
+  };
+
+  const renderContent = () => {
+    if (!session) {
+      return <BookingCodeLookup onVerified={signIn} />;
+    }
+
+    if (isLoading) {
+      return <div className="text-gray-600">Loading your appointments...</div>;
+    }
+
+    if (error || !policy) {
+      return (
+        <div className="text-center py-6">
+          <p className="text-red-600">{error || 'Could not load your appointments.'}</p>
+          <button
+            onClick={() => refetch()}
+            className="mt-4 px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700"
+          >
+            Try again
+          </button>
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-8">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-800">
+              Hello, {session.patient.first_name}
+            </h2>
+            <p className="text-sm text-gray-500">Times are shown in your local time zone.</p>
+          </div>
+          <button
+            onClick={signOut}
+            className="inline-flex items-center gap-2 px-3 py-2 text-sm font-medium text-gray-600 rounded-md hover:bg-gray-100"
+          >
+            <LogOut className="w-4 h-4" />
+            Sign out
+          </button>
+        </div>
+
+        <section>
+          <h3 className="text-lg font-medium text-gray-900 mb-3">Upcoming appointments</h3>
+          {upcoming.length === 0 ? (
+            <p className="text-sm text-gray-600">
+              You have no upcoming appointments. <Link to="/" className="text-blue-600 hover:underline">Book one now</Link>.
+            </p>
+          ) : (
+            <div className="space-y-4">
+              {upcoming.map(appointment => (
+                <PortalAppointmentCard
+                  key={appointment.id}
+                  appointment={appointment}
+                  actions={getBookingActions(appointment, policy, clinicTimeZone)}
+                  onReschedule={() => setRescheduling(appointment)}
+                  onCancel={() => setCancelling(appointment)}
+                />
+              ))}
+            </div>
+          )}
+        </section>
+
+        <section>
+          <h3 className="text-lg font-medium text-gray-900 mb-3">Past appointments</h3>
+          {past.length === 0 ? (
+            <p className="text-sm text-gray-600">No past appointments yet.</p>
+          ) : (
+            <div className="space-y-4">
+              {past.map(appointment => (
+                <PortalAppointmentCard key={appointment.id} appointment={appointment} />
+              ))}
+            </div>
+          )}
+        </section>
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-600 py-8 px-4">
+      <div className="max-w-4xl mx-auto">
+        <div className="flex items-center justify-between mb-8">
+          <h1 className="text-3xl font-bold text-white">My Bookings</h1>
+          <Link to="/" className="text-sm font-medium text-white hover:underline">
+            Book an appointment
+          </Link>
+        </div>
+
+        <FormLayout>{renderContent()}</FormLayout>
+      </div>
+
+      {rescheduling && session && (
+        <RescheduleBookingDialog
+          appointment={rescheduling}
+          patientId={session.patient.id.toString()}
+          onReschedule={(request) => handleReschedule(rescheduling, request)}
+          onClose={() => setRescheduling(null)}
+        />
+      )}
+
+      {cancelling && policy && (
+        <CancelBookingDialog
+          appointment={cancelling}
+          policy={policy}
+          actions={getBookingActions(cancelling, policy, clinicTimeZone)}
+          onCancelBooking={(reason) => handleCancel(cancelling, reason)}
+          onClose={() => setCancelling(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default ManageBookingPage;
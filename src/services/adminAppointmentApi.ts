@@ -1,5 +1,4 @@
-import SessionStorageService from './sessionStorage.service';
-import AuthService from './auth.service';
+import { httpClient } from './httpClient';
 
 export interface AdminApiResponse<T> {
   data: T;
@@ -49,87 +48,6 @@ export interface AdminPatient {
 }
 
 class AdminAppointmentApiService {
-  private baseUrl = '/api/v1';
-  private authService: AuthService;
-
-  constructor() {
-    this.authService = new AuthService();
-  }
-
-  private getAuthHeaders() {
-    const tokens = SessionStorageService.getTokens();
-    const token = tokens?.access_token;
-    
-    if (!token) {
-      throw new Error('No authentication token found');
-    }
-
-    return {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${token}`,
-    };
-  }
-
-  private async handleResponse<T>(response: Response, originalOptions?: RequestInit): Promise<T> {
-    if (response.status === 401) {
-      // Try to refresh token first
-      const tokens = SessionStorageService.getTokens();
-      if (tokens?.refresh_token) {
-        try {
-          await this.authService.refreshToken();
-          
-          // Retry the original request with new token
-          const retryHeaders = this.getAuthHeaders();
-          const retryResponse = await fetch(response.url, {
-            ...originalOptions,
-            headers: retryHeaders,
-          });
-          
-          if (retryResponse.ok) {
-            return retryResponse.json();
-          }
-        } catch (refreshError) {
-          console.error('Token refresh failed:', refreshError);
-        }
-      }
-      
-      // If refresh fails or no refresh token, clear auth and redirect
-      SessionStorageService.clearAll();
-      window.location.href = '/login';
-      throw new Error('Unauthorized');
-    }
-    
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(errorData.error || `API Error: ${response.status}`);
-    }
-    
-    return response.json();
-  }
-
-  private async makeAuthenticatedRequest<T>(
-    endpoint: string,
-    options: RequestInit = {}
-  ): Promise<T> {
-    const url = `${this.baseUrl}${endpoint}`;
-    
-    try {
-      const response = await this.authService.makeAuthenticatedRequest(url, options);
-      
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(errorData.error || `API Error: ${response.status}`);
-      }
-      
-      return response.json();
-    } catch (error) {
-      if (error instanceof Error) {
-        throw error;
-      }
-      throw new Error('Network error occurred');
-    }
-  }
-
   async getConsultations(params?: {
     search?: string;
     treatment_history?: string;
@@ -139,24 +57,15 @@ class AdminAppointmentApiService {
     sort_dir?: 'asc' | 'desc';
     page?: number;
     per_page?: number;
-  }): Promise<AdminApiResponse<AdminApiAppointment[]>> {
-    const queryParams = new URLSearchParams();
-    
-    if (params) {
-      Object.entries(params).forEach(([key, value]) => {
-        if (value !== undefined && value !== '') {
-          queryParams.append(key, value.toString());
-        }
-      });
-    }
-
-    return this.makeAuthenticatedRequest<AdminApiResponse<AdminApiAppointment[]>>(
-      `/admin/consultations?${queryParams}`
-    );
+  }, signal?: AbortSignal): Promise<AdminApiResponse<AdminApiAppointment[]>> {
+    return httpClient.get<AdminApiResponse<AdminApiAppointment[]>>('/admin/consultations', {
+      params,
+      signal,
+    });
   }
 
   async getConsultation(id: number): Promise<AdminApiAppointment> {
-    return this.makeAuthenticatedRequest<AdminApiAppointment>(`/admin/consultations/${id}`);
+    return httpClient.get<AdminApiAppointment>(`/admin/consultations/${id}`);
   }
 
   async createConsultation(data: {
@@ -166,12 +75,9 @@ class AdminAppointmentApiService {
     treatment_type?: string;
     notes?: string;
   }): Promise<{ message: string; consultation: AdminApiAppointment }> {
-    return this.makeAuthenticatedRequest<{ message: string; consultation: AdminApiAppointment }>(
+    return httpClient.post<{ message: string; consultation: AdminApiAppointment }>(
       '/admin/consultations',
-      {
-        method: 'POST',
-        body: JSON.stringify(data),
-      }
+      data
     );
   }
 
@@ -182,19 +88,14 @@ class AdminAppointmentApiService {
     notes?: string;
     status?: string;
   }): Promise<{ message: string; booked_slot: AdminBookedSlot }> {
-    return this.makeAuthenticatedRequest<{ message: string; booked_slot: AdminBookedSlot }>(
+    return httpClient.patch<{ message: string; booked_slot: AdminBookedSlot }>(
       `/admin/consultations/${id}`,
-      {
-        method: 'PATCH',
-        body: JSON.stringify(data),
-      }
+      data
     );
   }
 
   async deleteConsultation(id: number): Promise<{ message: string }> {
-    return this.makeAuthenticatedRequest<{ message: string }>(`/admin/consultations/${id}`, {
-      method: 'DELETE',
-    });
+    return httpClient.delete<{ message: string }>(`/admin/consultations/${id}`);
   }
 
   async getPatients(params?: {
@@ -204,34 +105,24 @@ class AdminAppointmentApiService {
     page?: number;
     per_page?: number;
   }): Promise<AdminApiResponse<AdminPatient[]>> {
-    const queryParams = new URLSearchParams();
-    
-    if (params) {
-      Object.entries(params).forEach(([key, value]) => {
-        if (value !== undefined && value !== '') {
-          queryParams.append(key, value.toString());
-        }
-      });
-    }
-
-    return this.makeAuthenticatedRequest<AdminApiResponse<AdminPatient[]>>(
-      `/admin/patients?${queryParams}`
-    );
+    return httpClient.get<AdminApiResponse<AdminPatient[]>>('/admin/patients', { params });
   }
 
   async getRecentAppointmentsByPatient(patientId: number, limit = 3): Promise<{
     patient: AdminPatient;
     recent_appointments: AdminApiAppointment[];
   }> {
-    return this.makeAuthenticatedRequest<{
+    return httpClient.get<{
       patient: AdminPatient;
       recent_appointments: AdminApiAppointment[];
-    }>(`/admin/consultations/recent_by_patient?patient_id=${patientId}&limit=${limit}`);
+    }>('/admin/consultations/recent_by_patient', {
+      params: { patient_id: patientId, limit },
+    });
   }
 }
 
 // Create and export singleton instances
-export const authService = new AuthService();
+export { authService } from './auth.service';
 export const adminAppointmentApi = new AdminAppointmentApiService();
 
 // Update slot for an appointment
@@ -240,35 +131,31 @@ export const updateSlotByAppointment = async (
   slotDate: string,
   slotTime: string
 ) => {
-  return adminAppointmentApi.makeAuthenticatedRequest<{ message: string; booked_slot: AdminBookedSlot }>(
+  return httpClient.put<{ message: string; booked_slot: AdminBookedSlot }>(
     '/admin/booked_slots/update_slot_by_appointment',
     {
-      method: 'PUT',
-      body: JSON.stringify({
-        appointment_id: appointmentId,
-        slot_date: slotDate,
-        slot_time: slotTime,
-      }),
+      appointment_id: appointmentId,
+      slot_date: slotDate,
+      slot_time: slotTime,
     }
   );
 };
 
-// Update a specific booked slot by id
+// Update a specific booked slot by id, optionally moving it to another consultation type
 export const updateBookedSlot = async (
   slotId: number,
   slotDate: string,
-  slotTime: string
+  slotTime: string,
+  consultationType?: string
 ) => {
-  return adminAppointmentApi.makeAuthenticatedRequest<{ message: string; booked_slot: AdminBookedSlot }>(
+  return httpClient.put<{ message: string; booked_slot: AdminBookedSlot }>(
     `/admin/booked_slots/${slotId}`,
     {
-      method: 'PUT',
-      body: JSON.stringify({
-        booked_slot: {
-          slot_date: slotDate,
-          slot_time: slotTime,
-        },
-      }),
+      booked_slot: {
+        slot_date: slotDate,
+        slot_time: slotTime,
+        consultation_type: consultationType,
+      },
     }
   );
 };
\ No newline at end of file
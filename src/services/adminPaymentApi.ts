@@ -0,0 +1,22 @@
+// services/adminPaymentApi.ts
+import { httpClient } from './httpClient';
+import type { AdminApiResponse } from '../types/adminAppointment.types';
+import type { AdminPayment, AdminPaymentFilters } from '../types/payment.types';
+
+class AdminPaymentApiService {
+  private readonly basePath: string = '/admin/payments';
+
+  async getPayments(params?: AdminPaymentFilters, signal?: AbortSignal): Promise<AdminApiResponse<AdminPayment[]>> {
+    return httpClient.get<AdminApiResponse<AdminPayment[]>>(this.basePath, {
+      params: { ...params },
+      signal,
+    });
+  }
+
+  async getPayment(id: number, signal?: AbortSignal): Promise<AdminPayment> {
+    return httpClient.get<AdminPayment>(`${this.basePath}/${id}`, { signal });
+  }
+}
+
+export const adminPaymentApi = new AdminPaymentApiService();
+export default AdminPaymentApiService;
@@ -0,0 +1,18 @@
+// services/adminSettings.service.ts
+import { httpClient } from './httpClient';
+import type { AdminSettings, UpdateAdminSettingsRequest } from '../types/adminSettings.types';
+
+class AdminSettingsService {
+  private readonly basePath: string = '/admin/admin_settings';
+
+  async getSettings(signal?: AbortSignal): Promise<AdminSettings> {
+    return httpClient.get<AdminSettings>(this.basePath, { signal });
+  }
+
+  async updateSettings(settings: UpdateAdminSettingsRequest): Promise<AdminSettings> {
+    return httpClient.patch<AdminSettings>(this.basePath, settings);
+  }
+}
+
+export const adminSettingsService = new AdminSettingsService();
+export default AdminSettingsService;
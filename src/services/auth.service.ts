@@ -1,50 +1,40 @@
 import SessionStorageService from './sessionStorage.service';
+import { httpClient } from './httpClient';
+import { tokenRefreshCoordinator } from './tokenRefresh.service';
 import type {
   LoginCredentials,
   LoginResponse,
+  MfaChallengeResponse,
+  MfaVerifyRequest,
+  MfaEnrollmentResponse,
+  MfaConfirmEnrollmentResponse,
   ForgotPasswordRequest,
   ForgotPasswordResponse,
+  ResetPasswordRequest,
+  ResetPasswordResponse,
+  ResetTokenStatus,
   RefreshTokenRequest,
   RefreshTokenResponse,
   AuthTokens,
   User
 } from '../types/auth.types';
 
-class AuthService {
-  private apiBaseUrl: string;
-
-  constructor(apiBaseUrl: string = 'http://localhost:3000') {
-    this.apiBaseUrl = apiBaseUrl;
-  }
+export const isMfaChallenge = (
+  response: LoginResponse | MfaChallengeResponse
+): response is MfaChallengeResponse => 'mfa_required' in response && response.mfa_required;
 
-  async login(credentials: LoginCredentials): Promise<LoginResponse> {
+class AuthService {
+  async login(credentials: LoginCredentials): Promise<LoginResponse | MfaChallengeResponse> {
     try {
-      const response = await fetch(`${this.apiBaseUrl}/api/v1/auth/login`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(credentials),
-      });
-
-      const data = await response.json();
-
-      if (!response.ok) {
-        throw new Error(data.error || 'Login failed');
-      }
-
-      // Store tokens and user data immediately after successful login
-      if (data.access_token && data.refresh_token) {
-        const tokens: AuthTokens = {
-          access_token: data.access_token,
-          refresh_token: data.refresh_token
-        };
-        SessionStorageService.setTokens(tokens);
-        
-        // Store user data if provided
-        if (data.user) {
-          SessionStorageService.setUser(data.user);
-        }
+      const data = await httpClient.post<LoginResponse | MfaChallengeResponse>(
+        '/auth/login',
+        credentials,
+        { auth: false }
+      );
+
+      // No tokens yet: the caller has to complete verifyMfa first
+      if (!isMfaChallenge(data)) {
+        this.storeSession(data);
       }
 
       return data;
@@ -56,20 +46,53 @@ class AuthService {
     }
   }
 
+  // Second login step, accepts either a TOTP code or a one-time backup code
+  async verifyMfa(request: MfaVerifyRequest): Promise<LoginResponse> {
+    const data = await httpClient.post<LoginResponse>('/auth/mfa/verify', request, {
+      auth: false,
+    });
+    this.storeSession(data);
+    return data;
+  }
+
+  async startMfaEnrollment(): Promise<MfaEnrollmentResponse> {
+    return httpClient.post<MfaEnrollmentResponse>('/auth/mfa/enrollment');
+  }
+
+  // MFA is only switched on once the first code from the authenticator app checks out
+  async confirmMfaEnrollment(code: string): Promise<MfaConfirmEnrollmentResponse> {
+    return httpClient.post<MfaConfirmEnrollmentResponse>('/auth/mfa/enrollment/confirm', { code });
+  }
+
+  async disableMfa(code: string): Promise<{ message: string }> {
+    return httpClient.post<{ message: string }>('/auth/mfa/disable', { code });
+  }
+
+  // Store tokens and user data immediately after successful login
+  private storeSession(data: LoginResponse): void {
+    // (in cookie mode the refresh token arrives as an httpOnly cookie instead)
+    if (data.access_token && (data.refresh_token || SessionStorageService.usesCookieSession)) {
+      const tokens: AuthTokens = {
+        access_token: data.access_token,
+        refresh_token: data.refresh_token ?? ''
+      };
+      SessionStorageService.setTokens(tokens);
+
+      // Store user data if provided
+      if (data.user) {
+        SessionStorageService.setUser(data.user);
+      }
+    }
+  }
+
   async logout(): Promise<void> {
     try {
-      const tokens = SessionStorageService.getTokens();
-      
-      if (tokens?.refresh_token) {
-        // Call backend logout endpoint if it exists
-        await fetch(`${this.apiBaseUrl}/api/v1/auth/logout`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${tokens.access_token}`,
-          },
-          body: JSON.stringify({ refresh_token: tokens.refresh_token }),
-        }).catch(() => {}); // Ignore errors on logout
+      if (SessionStorageService.canRefresh()) {
+        // Revokes the refresh token; in cookie mode the API also clears the cookie
+        const refreshToken = SessionStorageService.getRefreshToken();
+        await httpClient
+          .post('/auth/logout', refreshToken ? { refresh_token: refreshToken } : {})
+          .catch(() => {}); // Ignore errors on logout
       }
     } finally {
       // Always clear local storage
@@ -79,21 +102,9 @@ class AuthService {
 
   async forgotPassword(request: ForgotPasswordRequest): Promise<ForgotPasswordResponse> {
     try {
-      const response = await fetch(`${this.apiBaseUrl}/api/v1/auth/forgot_password`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(request),
+      return await httpClient.post<ForgotPasswordResponse>('/auth/forgot_password', request, {
+        auth: false,
       });
-
-      const data = await response.json();
-
-      if (!response.ok) {
-        throw new Error(data.error || 'Failed to send reset email');
-      }
-
-      return data;
     } catch (error) {
       if (error instanceof Error) {
         throw error;
@@ -102,36 +113,49 @@ class AuthService {
     }
   }
 
-  async refreshToken(refreshTokenString?: string): Promise<RefreshTokenResponse> {
+  // Checked before showing the form so expired or used links fail early
+  async verifyResetToken(token: string, signal?: AbortSignal): Promise<ResetTokenStatus> {
+    return httpClient.get<ResetTokenStatus>(
+      `/auth/reset_password/${encodeURIComponent(token)}`,
+      { auth: false, signal }
+    );
+  }
+
+  async resetPassword(request: ResetPasswordRequest): Promise<ResetPasswordResponse> {
+    const data = await httpClient.post<ResetPasswordResponse>('/auth/reset_password', request, {
+      auth: false,
+    });
+
+    if (data.access_token && data.user) {
+      this.storeSession(data as LoginResponse);
+    }
+
+    return data;
+  }
+
+  async refreshToken(refreshTokenString?: string | null): Promise<RefreshTokenResponse> {
     try {
-      const tokens = SessionStorageService.getTokens();
-      const tokenToUse = refreshTokenString || tokens?.refresh_token;
+      const tokenToUse = refreshTokenString || SessionStorageService.getRefreshToken();
       
-      if (!tokenToUse) {
+      if (!tokenToUse && !SessionStorageService.usesCookieSession) {
         throw new Error('No refresh token available');
       }
 
-      const response = await fetch(`${this.apiBaseUrl}/api/v1/auth/refresh`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ refresh_token: tokenToUse }),
-      });
-
-      const data = await response.json();
-
-      if (!response.ok) {
-        // Clear invalid tokens
-        SessionStorageService.clearAll();
-        throw new Error(data.error || 'Token refresh failed');
-      }
+      // Cookie mode sends an empty body and lets the browser attach the refresh cookie
+      const request: RefreshTokenRequest | Record<string, never> = tokenToUse
+        ? { refresh_token: tokenToUse }
+        : {};
+      const data = await httpClient.post<RefreshTokenResponse & { refresh_token?: string }>(
+        '/auth/refresh',
+        request,
+        { auth: false }
+      );
 
       // Update stored tokens
       if (data.access_token) {
         const updatedTokens: AuthTokens = {
           access_token: data.access_token,
-          refresh_token: data.refresh_token || tokenToUse
+          refresh_token: data.refresh_token || tokenToUse || ''
         };
         SessionStorageService.setTokens(updatedTokens);
       }
@@ -146,46 +170,11 @@ class AuthService {
     }
   }
 
-  async makeAuthenticatedRequest(
-    url: string,
-    options: RequestInit = {}
-  ): Promise<Response> {
-    const tokens = SessionStorageService.getTokens();
-    
-    if (!tokens?.access_token) {
-      throw new Error('No access token available');
-    }
-
-    const makeRequest = async (token: string) => {
-      return fetch(url, {
-        ...options,
-        headers: {
-          ...options.headers,
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-      });
-    };
-
-    let response = await makeRequest(tokens.access_token);
-
-    // If token expired, try to refresh
-    if (response.status === 401) {
-      try {
-        const refreshResponse = await this.refreshToken();
-        
-        if (refreshResponse.access_token) {
-          response = await makeRequest(refreshResponse.access_token);
-        }
-      } catch (error) {
-        // Refresh failed, clear tokens and redirect to login
-        SessionStorageService.clearAll();
-        window.location.href = '/login';
-        throw new Error('Authentication failed');
-      }
-    }
-
-    return response;
+  async changePassword(currentPassword: string, newPassword: string): Promise<{ message: string }> {
+    return httpClient.patch<{ message: string }>('/auth/change_password', {
+      current_password: currentPassword,
+      new_password: newPassword,
+    });
   }
 
   // Utility methods
@@ -198,14 +187,21 @@ class AuthService {
   }
 
   isAuthenticated(): boolean {
-    const tokens = SessionStorageService.getTokens();
-    if (!tokens?.access_token) {
+    const accessToken = SessionStorageService.getAccessToken();
+    if (!accessToken) {
       return false;
     }
 
     // Check if token is expired
-    return !SessionStorageService.isTokenExpired(tokens.access_token);
+    return !SessionStorageService.isTokenExpired(accessToken);
   }
 }
 
+export const authService = new AuthService();
+
+// Every 401 across the app refreshes through the same coordinator
+tokenRefreshCoordinator.setRefreshHandler(async refreshToken => {
+  const response = await authService.refreshToken(refreshToken);
+  return response.access_token;
+});
 export default AuthService;
\ No newline at end of file
@@ -0,0 +1,36 @@
+// services/bookingConfirmation.service.ts
+import type { BookingConfirmation } from '../types/registration';
+
+/**
+ * Keeps the last booking for the confirmation page so a reload does not lose
+ * it. Session storage: gone once the tab is closed on a shared device.
+ */
+class BookingConfirmationService {
+  private static readonly CONFIRMATION_KEY = 'booking_confirmation';
+
+  saveConfirmation(confirmation: BookingConfirmation): void {
+    try {
+      sessionStorage.setItem(BookingConfirmationService.CONFIRMATION_KEY, JSON.stringify(confirmation));
+    } catch (error) {
+      console.error('Failed to save booking confirmation:', error);
+    }
+  }
+
+  getConfirmation(): BookingConfirmation | null {
+    try {
+      const raw = sessionStorage.getItem(BookingConfirmationService.CONFIRMATION_KEY);
+      return raw ? (JSON.parse(raw) as BookingConfirmation) : null;
+    } catch (error) {
+      console.error('Failed to read booking confirmation:', error);
+      this.clearConfirmation();
+      return null;
+    }
+  }
+
+  clearConfirmation(): void {
+    sessionStorage.removeItem(BookingConfirmationService.CONFIRMATION_KEY);
+  }
+}
+
+export const bookingConfirmationService = new BookingConfirmationService();
+export default BookingConfirmationService;
@@ -0,0 +1,193 @@
+// services/bookingDraft.service.ts
+import { BOOKING_DRAFT_TTL_MS } from '../constants/booking';
+import type {
+  BookingDraft,
+  BookingDraftData,
+  BookingDraftSummary,
+  DraftFileField,
+  PersonalInfo
+} from '../types/registration';
+
+interface StoredDraft extends BookingDraftData {
+  version: number;
+  savedAt: number;
+  expiresAt: number;
+}
+
+const DRAFT_VERSION = 1;
+const DRAFT_FILE_FIELDS: DraftFileField[] = ['pathologyFiles', 'imageologyFiles', 'additionalAttachments'];
+const PRICING_FIELDS: (keyof PersonalInfo)[] = [
+  'consultation_price',
+  'consultation_currency',
+  'slot_duration_minutes',
+  'consultation_type',
+  'consultation_types',
+  'is_inr',
+];
+
+class BookingDraftService {
+  private static readonly DRAFT_KEY = 'booking_draft';
+  private static readonly DB_NAME = 'booking_drafts';
+  private static readonly FILE_STORE = 'files';
+
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  // Cheap synchronous check used to decide whether to offer a resume prompt
+  getDraftSummary(): BookingDraftSummary | null {
+    const draft = this.readStoredDraft();
+    if (!draft) return null;
+
+    return {
+      savedAt: draft.savedAt,
+      expiresAt: draft.expiresAt,
+      currentStep: draft.currentStep,
+      patientName: draft.personalInfo.name,
+    };
+  }
+
+  saveDraft(data: BookingDraftData): void {
+    const now = Date.now();
+    const draft: StoredDraft = {
+      ...data,
+      personalInfo: this.withoutPricing(data.personalInfo),
+      version: DRAFT_VERSION,
+      savedAt: now,
+      expiresAt: now + BOOKING_DRAFT_TTL_MS,
+    };
+
+    try {
+      localStorage.setItem(BookingDraftService.DRAFT_KEY, JSON.stringify(draft));
+    } catch (error) {
+      console.error('Failed to save booking draft:', error);
+    }
+  }
+
+  async saveFiles(field: DraftFileField, files: File[]): Promise<void> {
+    try {
+      const db = await this.openDb();
+      await this.runTransaction(db, 'readwrite', store => store.put(files, field));
+    } catch (error) {
+      console.error(`Failed to save draft files for ${field}:`, error);
+    }
+  }
+
+  // Run on app start so expired drafts, and files left without a draft, don't stay on the device
+  async purgeExpiredDraft(): Promise<void> {
+    if (this.readStoredDraft()) return;
+    await this.clearDraft();
+  }
+
+  async loadDraft(): Promise<BookingDraft | null> {
+    const stored = this.readStoredDraft();
+    if (!stored) return null;
+
+    const files = {} as Record<DraftFileField, File[]>;
+    await Promise.all(
+      DRAFT_FILE_FIELDS.map(async field => {
+        files[field] = await this.loadFiles(field);
+      })
+    );
+
+    return {
+      // Prices aren't kept, so the patient goes through their details again to fetch them
+      currentStep: 1,
+      personalInfo: stored.personalInfo,
+      clinicalSummary: stored.clinicalSummary,
+      additionalNotes: stored.additionalNotes,
+      savedAt: stored.savedAt,
+      files,
+    };
+  }
+
+  async clearDraft(): Promise<void> {
+    localStorage.removeItem(BookingDraftService.DRAFT_KEY);
+
+    try {
+      const db = await this.openDb();
+      await this.runTransaction(db, 'readwrite', store => store.clear());
+    } catch (error) {
+      console.error('Failed to clear draft files:', error);
+    }
+  }
+
+  // Drops expired or incompatible drafts, including their files
+  private readStoredDraft(): StoredDraft | null {
+    try {
+      const raw = localStorage.getItem(BookingDraftService.DRAFT_KEY);
+      if (!raw) return null;
+
+      const draft = JSON.parse(raw) as StoredDraft;
+      if (draft.version !== DRAFT_VERSION || draft.expiresAt < Date.now()) {
+        this.clearDraft();
+        return null;
+      }
+      return draft;
+    } catch (error) {
+      console.error('Failed to read booking draft:', error);
+      this.clearDraft();
+      return null;
+    }
+  }
+
+  // Prices come from the server when the patient is registered; a stored copy could be stale or edited
+  private withoutPricing(personalInfo: PersonalInfo): PersonalInfo {
+    return Object.fromEntries(
+      Object.entries(personalInfo).filter(([field]) => !PRICING_FIELDS.includes(field as keyof PersonalInfo))
+    ) as PersonalInfo;
+  }
+
+  private async loadFiles(field: DraftFileField): Promise<File[]> {
+    try {
+      const db = await this.openDb();
+      const files = await this.runTransaction<File[] | undefined>(db, 'readonly', store => store.get(field));
+      return Array.isArray(files) ? files : [];
+    } catch (error) {
+      console.error(`Failed to load draft files for ${field}:`, error);
+      return [];
+    }
+  }
+
+  private openDb(): Promise<IDBDatabase> {
+    if (this.dbPromise) {
+      return this.dbPromise;
+    }
+
+    this.dbPromise = new Promise((resolve, reject) => {
+      if (!('indexedDB' in window)) {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+
+      const request = indexedDB.open(BookingDraftService.DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(BookingDraftService.FILE_STORE);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+
+    // Allow a later retry if opening failed (e.g. private browsing)
+    this.dbPromise.catch(() => {
+      this.dbPromise = null;
+    });
+
+    return this.dbPromise;
+  }
+
+  private runTransaction<T>(
+    db: IDBDatabase,
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest
+  ): Promise<T> {
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(BookingDraftService.FILE_STORE, mode);
+      const request = operation(transaction.objectStore(BookingDraftService.FILE_STORE));
+      transaction.oncomplete = () => resolve(request.result as T);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+}
+
+export const bookingDraftService = new BookingDraftService();
+export default BookingDraftService;
@@ -1,121 +1,42 @@
 // services/chartServices.ts - Updated with better daily visits integration
-import { Patient, Appointment, BookedSlot, DashboardStats, MonthlyData } from '../types/chart';
+import {
+  Patient,
+  Appointment,
+  BookedSlot,
+  DashboardStats,
+  MonthlyData,
+  AppointmentsGraphResponse,
+  PatientsGraphResponse,
+  DailyVisitsResponse,
+} from '../types/chart';
+import { httpClient, ApiError } from './httpClient';
+import { getClinicToday } from '../utils/dateTime';
 
 class ChartServices {
-  private baseUrl: string;
-
-  constructor() {
-    // Use environment variable or fallback to localhost
-    this.baseUrl = import.meta.env?.VITE_API_BASE_URL || 'http://localhost:3000/api/v1';
-  }
-
-  private getAuthHeaders(): HeadersInit {
-    // Use the same token retrieval pattern as apiClient
-    const tokensString = localStorage.getItem('auth_tokens');
-    let token = null;
-    
-    if (tokensString) {
-      try {
-        const tokens = JSON.parse(tokensString);
-        token = tokens.access_token;
-        console.log('Auth token found:', token ? 'Yes' : 'No');
-        console.log('Token preview:', token ? `${token.substring(0, 20)}...` : 'None');
-      } catch (error) {
-        console.error('Failed to parse auth tokens:', error);
-      }
-    }
-    
-    return {
-      'Content-Type': 'application/json',
-      ...(token && { 'Authorization': `Bearer ${token}` }),
-    };
-  }
-
-  private async handleResponse(response: Response, endpoint: string) {
-    console.log(`Response from ${endpoint}:`, {
-      status: response.status,
-      statusText: response.statusText,
-      headers: Object.fromEntries(response.headers.entries())
-    });
-
-    if (!response.ok) {
-      if (response.status === 401) {
-        // Clear potentially invalid tokens
-        localStorage.removeItem('auth_tokens');
-        
-        throw new Error('Unauthorized: Please log in again');
-      }
-      
-      // Try to get error details from response
-      let errorMessage = `Failed to fetch from ${endpoint}`;
-      try {
-        const errorData = await response.json();
-        errorMessage = errorData.message || errorData.error || errorMessage;
-      } catch (e) {
-        // If can't parse JSON, use default message
-      }
-      
-      throw new Error(errorMessage);
-    }
-    
-    return response.json();
-  }
+  private readonly basePath: string = '/admin/dashboard';
 
   // Basic data fetching methods
   async getPatients(): Promise<Patient[]> {
-    console.log('Fetching patients from:', `${this.baseUrl}/admin/dashboard/patients`);
-    console.log('Request headers:', this.getAuthHeaders());
-    
-    const response = await fetch(`${this.baseUrl}/admin/dashboard/patients`, {
-      method: 'GET',
-      headers: this.getAuthHeaders(),
-    });
-    
-    return this.handleResponse(response, 'patients');
+    return httpClient.get<Patient[]>(`${this.basePath}/patients`);
   }
 
   async getAppointments(): Promise<Appointment[]> {
-    console.log('Fetching appointments from:', `${this.baseUrl}/admin/dashboard/appointments`);
-    
-    const response = await fetch(`${this.baseUrl}/admin/dashboard/appointments`, {
-      method: 'GET',
-      headers: this.getAuthHeaders(),
-    });
-    
-    return this.handleResponse(response, 'appointments');
+    return httpClient.get<Appointment[]>(`${this.basePath}/appointments`);
   }
 
   async getBookedSlots(): Promise<BookedSlot[]> {
-    console.log('Fetching booked slots from:', `${this.baseUrl}/admin/dashboard/booked_slots`);
-    
-    const response = await fetch(`${this.baseUrl}/admin/dashboard/booked_slots`, {
-      method: 'GET',
-      headers: this.getAuthHeaders(),
-    });
-    
-    return this.handleResponse(response, 'booked_slots');
+    return httpClient.get<BookedSlot[]>(`${this.basePath}/booked_slots`);
   }
 
   async getDashboardStats(): Promise<DashboardStats> {
-    console.log('Fetching dashboard stats from:', `${this.baseUrl}/admin/dashboard/stats`);
-    
-    const response = await fetch(`${this.baseUrl}/admin/dashboard/stats`, {
-      method: 'GET',
-      headers: this.getAuthHeaders(),
-    });
-    
-    return this.handleResponse(response, 'dashboard_stats');
+    return httpClient.get<DashboardStats>(`${this.basePath}/stats`);
   }
 
   // Method to check authentication status
   async checkAuthStatus(): Promise<boolean> {
     try {
-      const response = await fetch(`${this.baseUrl}/auth/me`, {
-        headers: this.getAuthHeaders(),
-      });
-      
-      console.log('Auth check response:', response.status);
-      return response.ok;
+      await httpClient.get('/auth/me');
+      return true;
     } catch (error) {
       console.error('Auth check failed:', error);
       return false;
@@ -124,16 +45,10 @@ class ChartServices {
 
   // Get available years for filtering
   async getAvailableYears() {
-    console.log('Fetching available years from:', `${this.baseUrl}/admin/dashboard/available_years`);
-    
     try {
-      const response = await fetch(`${this.baseUrl}/admin/dashboard/available_years`, {
-        method: 'GET',
-        headers: this.getAuthHeaders(),
-      });
-      
-      const data = await this.handleResponse(response, 'available_years');
-      console.log('Available years data:', data);
+      const data = await httpClient.get<{ years?: number[]; current_year?: number }>(
+        `${this.basePath}/available_years`
+      );
       
       return {
         years: data.years || [new Date().getFullYear()],
@@ -152,19 +67,12 @@ class ChartServices {
   // IMPROVED: Daily visits method with better error handling and data structure
   async getDailyVisits(year?: number, period: 'week' | 'month' = 'week') {
     const currentYear = year || new Date().getFullYear();
-    const url = `${this.baseUrl}/admin/dashboard/daily_visits?year=${currentYear}&period=${period}`;
-    
-    console.log('Fetching daily visits from:', url);
     
     try {
-      const response = await fetch(url, {
-        method: 'GET',
-        headers: this.getAuthHeaders(),
+      const data = await httpClient.get<DailyVisitsResponse>(`${this.basePath}/daily_visits`, {
+        params: { year: currentYear, period },
       });
       
-      const data = await this.handleResponse(response, 'daily_visits');
-      console.log('Daily visits API response:', data);
-      
       // Process the data to ensure consistent format
       const processedVisits = (data.visits || []).map((item: any) => ({
         day: item.day || item.name,
@@ -202,19 +110,16 @@ class ChartServices {
     try {
       console.log('Fetching chart data from Rails endpoints for year:', currentYear);
       
-      const [appointmentsGraphResponse, patientsGraphResponse, dailyVisitsData] = await Promise.all([
-        fetch(`${this.baseUrl}/admin/dashboard/appointments_graph?year=${currentYear}`, {
-          headers: this.getAuthHeaders(),
+      const [appointmentsGraph, patientsGraph, dailyVisitsData] = await Promise.all([
+        httpClient.get<AppointmentsGraphResponse>(`${this.basePath}/appointments_graph`, {
+          params: { year: currentYear },
         }),
-        fetch(`${this.baseUrl}/admin/dashboard/patients_graph?year=${currentYear}`, {
-          headers: this.getAuthHeaders(),
+        httpClient.get<PatientsGraphResponse>(`${this.basePath}/patients_graph`, {
+          params: { year: currentYear },
         }),
         this.getDailyVisits(currentYear, 'week')
       ]);
 
-      const appointmentsGraph = await this.handleResponse(appointmentsGraphResponse, 'appointments_graph');
-      const patientsGraph = await this.handleResponse(patientsGraphResponse, 'patients_graph');
-
       console.log('Appointments graph data:', appointmentsGraph);
       console.log('Patients graph data:', patientsGraph);
       console.log('Daily visits data:', dailyVisitsData);
@@ -268,7 +173,7 @@ class ChartServices {
   }
 
   // Enhanced dashboard stats method
-  async getDashboardStatsDetailed(): Promise<DashboardStats> {
+  async getDashboardStatsDetailed(clinicTimeZone: string): Promise<DashboardStats> {
     try {
       // Try to get stats from the dedicated endpoint first
       const stats = await this.getDashboardStats();
@@ -284,7 +189,7 @@ class ChartServices {
         this.getBookedSlots()
       ]);
 
-      const today = new Date().toISOString().split('T')[0];
+      const today = getClinicToday(clinicTimeZone);
       const currentMonth = new Date().getMonth();
       const currentYear = new Date().getFullYear();
 
@@ -333,43 +238,25 @@ class ChartServices {
   // NEW: Method specifically for testing daily visits endpoint
   async testDailyVisitsEndpoint(year?: number, period: 'week' | 'month' = 'week') {
     const currentYear = year || new Date().getFullYear();
-    const url = `${this.baseUrl}/admin/dashboard/daily_visits?year=${currentYear}&period=${period}`;
+    const url = `${this.basePath}/daily_visits`;
     
     console.log('Testing daily visits endpoint:', url);
     
     try {
-      const response = await fetch(url, {
-        method: 'GET',
-        headers: this.getAuthHeaders(),
-      });
-      
-      console.log('Daily visits endpoint test - Response status:', response.status);
-      console.log('Daily visits endpoint test - Response headers:', Object.fromEntries(response.headers.entries()));
-      
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('Daily visits endpoint test - Error response:', errorText);
-        return {
-          success: false,
-          status: response.status,
-          error: errorText,
-          url
-        };
-      }
-      
-      const data = await response.json();
+      const data = await httpClient.get(url, { params: { year: currentYear, period } });
       console.log('Daily visits endpoint test - Success response:', data);
       
       return {
         success: true,
-        status: response.status,
+        status: 200,
         data,
         url
       };
     } catch (error) {
-      console.error('Daily visits endpoint test - Network error:', error);
+      console.error('Daily visits endpoint test - Error response:', error);
       return {
         success: false,
+        status: error instanceof ApiError ? error.status : undefined,
         error: error instanceof Error ? error.message : 'Network error',
         url
       };
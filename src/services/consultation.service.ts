@@ -8,84 +8,21 @@ import type {
   UpdateConsultationPayload,
   RecentAppointmentsResponse,
 } from '../types/consultation.types';
- 
-class ConsultationService {
-  private readonly baseURL: string;
-  private readonly apiVersion: string = 'v1';
-
-  constructor() {
-    // Use window object to access environment variables or fallback to localhost
-    this.baseURL = (window as any).REACT_APP_API_BASE_URL || 
-                   import.meta.env?.VITE_API_BASE_URL || 
-                   'http://localhost:3000';
-  }
-
-  private get apiEndpoint(): string {
-    return `${this.baseURL}/api/${this.apiVersion}/admin/consultations`;
-  }
-
-  private async makeRequest<T>(
-    endpoint: string,
-    options: RequestInit = {}
-  ): Promise<T> {
-    const defaultHeaders = {
-      'Content-Type': 'application/json',
-      // Add authentication headers if needed
-      // 'Authorization': `Bearer ${this.getAuthToken()}`,
-    };
-
-    const config: RequestInit = {
-      ...options,
-      headers: {
-        ...defaultHeaders,
-        ...options.headers,
-      },
-    };
-
-    try {
-      const response = await fetch(`${this.apiEndpoint}${endpoint}`, config);
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(
-          errorData.message || 
-          errorData.error || 
-          `HTTP error! status: ${response.status}`
-        );
-      }
-
-      return await response.json();
-    } catch (error) {
-      console.error('API request failed:', error);
-      throw error;
-    }
-  }
-
-  private buildQueryParams(params: Partial<ConsultationQueryParams>): string {
-    const searchParams = new URLSearchParams();
+import { httpClient, API_ORIGIN } from './httpClient';
 
-    Object.entries(params).forEach(([key, value]) => {
-      if (value !== undefined && value !== null && value !== '') {
-        searchParams.append(key, value.toString());
-      }
-    });
-
-    return searchParams.toString();
-  }
+class ConsultationService {
+  private readonly basePath: string = '/admin/consultations';
 
   // Get all consultations with filtering, sorting, and pagination
   async getConsultations(
     params: Partial<ConsultationQueryParams>
   ): Promise<ConsultationApiResponse> {
-    const queryString = this.buildQueryParams(params);
-    const endpoint = queryString ? `?${queryString}` : '';
-    
-    return this.makeRequest<ConsultationApiResponse>(endpoint);
+    return httpClient.get<ConsultationApiResponse>(this.basePath, { params: { ...params } });
   }
 
   // Get a specific consultation by ID
   async getConsultationById(id: number): Promise<Consultation> {
-    return this.makeRequest<Consultation>(`/${id}`);
+    return httpClient.get<Consultation>(`${this.basePath}/${id}`);
   }
 
   // Create a new consultation
@@ -120,13 +57,7 @@ class ConsultationService {
       formData.append('appointment[additional_upload]', payload.additional_upload);
     }
 
-    return this.makeRequest('', {
-      method: 'POST',
-      body: formData,
-      headers: {
-        // Remove Content-Type to let browser set it with boundary for FormData
-      },
-    });
+    return httpClient.post(this.basePath, formData);
   }
 
   // Update a consultation
@@ -134,17 +65,12 @@ class ConsultationService {
     id: number,
     payload: UpdateConsultationPayload
   ): Promise<{ message: string; booked_slot?: any }> {
-    return this.makeRequest(`/${id}`, {
-      method: 'PUT',
-      body: JSON.stringify(payload),
-    });
+    return httpClient.put(`${this.basePath}/${id}`, payload);
   }
 
   // Delete a consultation
   async deleteConsultation(id: number): Promise<{ message: string }> {
-    return this.makeRequest(`/${id}`, {
-      method: 'DELETE',
-    });
+    return httpClient.delete(`${this.basePath}/${id}`);
   }
 
   // Get recent appointments for a patient
@@ -152,14 +78,9 @@ class ConsultationService {
     patientId: number,
     limit: number = 3
   ): Promise<RecentAppointmentsResponse> {
-    const queryString = this.buildQueryParams({
-      patient_id: patientId,
-      limit,
-    } as any);
-    
-    return this.makeRequest<RecentAppointmentsResponse>(
-      `/recent_by_patient?${queryString}`
-    );
+    return httpClient.get<RecentAppointmentsResponse>(`${this.basePath}/recent_by_patient`, {
+      params: { patient_id: patientId, limit },
+    });
   }
 
   // Utility method to format consultation data for display
@@ -208,24 +129,7 @@ class ConsultationService {
 
   // Utility method to get file download URL
   getFileDownloadUrl(filename: string): string {
-    return `${this.baseURL}/uploads/${filename}`;
-  }
-
-  private getAuthToken(): string | null {
-    // Check if localStorage is available (browser environment)
-    if (typeof window !== 'undefined' && window.localStorage) {
-      const tokensString = localStorage.getItem('auth_tokens');
-      if (tokensString) {
-        try {
-          const tokens = JSON.parse(tokensString);
-          return tokens.access_token || null;
-        } catch (error) {
-          console.error('Failed to parse auth tokens:', error);
-          return null;
-        }
-      }
-    }
-    return null;
+    return `${API_ORIGIN}/uploads/${filename}`;
   }
 }
 
@@ -1,51 +1,91 @@
-import axios from 'axios';
+import { httpClient } from './httpClient';
+import {
+  BASE_CURRENCY,
+  EXCHANGE_RATE_PROVIDER_URL,
+  EXCHANGE_RATE_REFRESH_MS,
+  EXCHANGE_RATE_SOURCE,
+  EXCHANGE_RATE_STALE_MS,
+  SUPPORTED_CURRENCIES
+} from '../constants/currency';
+import type {
+  CurrencyOption,
+  ExchangeRateQuote,
+  ExchangeRateSnapshot,
+  ExchangeRateSource,
+  ExchangeRatesResponse
+} from '../types/currency.types';
 
-interface ExchangeRateResponse {
-  rates: { [key: string]: number };
-  base: string;
-  date: string;
+// Shapes used by common public rate APIs (exchangerate-api v4/v6 and similar)
+interface ProviderRatesResponse {
+  base?: string;
+  base_code?: string;
+  rates?: Record<string, number>;
+  conversion_rates?: Record<string, number>;
+  date?: string;
+  time_last_updated?: number;
+  time_last_update_unix?: number;
 }
 
+// A usable rate table: currency codes to positive rates
+const isRateTable = (rates: unknown): rates is Record<string, number> =>
+  Boolean(rates) &&
+  typeof rates === 'object' &&
+  Object.keys(rates as object).length > 0 &&
+  Object.values(rates as object).every(rate => typeof rate === 'number' && Number.isFinite(rate) && rate > 0);
+
+/**
+ * Exchange rates from the configured source, saved with their timestamp so a
+ * later visit (or a failed fetch) can still price in the last known rates.
+ * There are no built-in fallback rates: without any rates, conversion fails.
+ */
 class CurrencyService {
-  private baseUrl = 'https://api.exchangerate-api.com/v4/latest/INR';
-  private cache: { [key: string]: { rate: number; timestamp: number } } = {};
-  private cacheExpiry = 5 * 60 * 1000;
+  private static readonly STORAGE_KEY = 'exchange_rates';
 
-  async getExchangeRate(toCurrency: string): Promise<number> {
-    const cacheKey = `INR_${toCurrency}`;
-    const cached = this.cache[cacheKey];
-    
-    if (cached && Date.now() - cached.timestamp < this.cacheExpiry) {
-      return cached.rate;
-    }
+  private snapshot: ExchangeRateSnapshot | null = null;
+  private pending: Promise<{ snapshot: ExchangeRateSnapshot; isOffline: boolean }> | null = null;
+  private readonly source: ExchangeRateSource;
 
+  constructor(source: ExchangeRateSource = EXCHANGE_RATE_SOURCE) {
+    this.source = source;
+  }
+
+  // Configured currencies with localized names, e.g. { code: 'USD', name: 'US Dollar ($)' }
+  getSupportedCurrencies(locale?: string): CurrencyOption[] {
+    let displayNames: Intl.DisplayNames | null = null;
     try {
-      const response = await axios.get<ExchangeRateResponse>(this.baseUrl);
-      const rate = response.data.rates[toCurrency];
-      
-      if (rate) {
-        // Cache the result
-        this.cache[cacheKey] = {
-          rate,
-          timestamp: Date.now()
-        };
-        return rate;
-      } else {
-        throw new Error(`Exchange rate not found for ${toCurrency}`);
-      }
-    } catch (error) {
-      console.error('Failed to fetch exchange rate:', error);
-      
-      const fallbackRates: { [key: string]: number } = {
-        'USD': 0.012,
-        'EUR': 0.011,
-        'GBP': 0.0095,
-        'CAD': 0.016,
-        'AUD': 0.018,
-      };
-      
-      return fallbackRates[toCurrency] || 1;
+      displayNames = new Intl.DisplayNames(locale ? [locale] : undefined, { type: 'currency' });
+    } catch {
+      displayNames = null;
     }
+
+    return SUPPORTED_CURRENCIES.map(code => {
+      const name = displayNames?.of(code) || code;
+      const symbol = this.getSymbol(code, locale);
+      return { code, name: symbol && symbol !== code ? `${name} (${symbol})` : name };
+    });
+  }
+
+  async getQuote(currency: string): Promise<ExchangeRateQuote> {
+    const { snapshot, isOffline } = await this.getRates();
+
+    const rate = currency === snapshot.base ? 1 : snapshot.rates[currency];
+    if (!rate) {
+      throw new Error(`Exchange rate not found for ${currency}`);
+    }
+
+    return {
+      base: snapshot.base,
+      currency,
+      rate,
+      asOf: snapshot.asOf,
+      source: snapshot.source,
+      isStale: Date.now() - snapshot.asOf > EXCHANGE_RATE_STALE_MS,
+      isOffline,
+    };
+  }
+
+  async getExchangeRate(toCurrency: string): Promise<number> {
+    return (await this.getQuote(toCurrency)).rate;
   }
 
   async convertCurrency(fromCurrency: string, toCurrency: string, amount: number): Promise<number> {
@@ -53,36 +93,135 @@ class CurrencyService {
       return amount;
     }
 
-    if (fromCurrency === 'INR') {
-      const rate = await this.getExchangeRate(toCurrency);
-      return amount * rate;
-    } else if (toCurrency === 'INR') {
-      const rate = await this.getExchangeRate(fromCurrency);
-      return amount / rate;
-    } else {
-      // Convert fromCurrency to INR first, then to toCurrency
-      const toInrRate = await this.getExchangeRate(fromCurrency);
-      const fromInrRate = await this.getExchangeRate(toCurrency);
-      return (amount / toInrRate) * fromInrRate;
-    }
+    // Rates are quoted from the base currency, so cross rates go through it
+    const [fromRate, toRate] = await Promise.all([
+      this.getExchangeRate(fromCurrency),
+      this.getExchangeRate(toCurrency),
+    ]);
+    return (amount / fromRate) * toRate;
   }
 
   // Get all available currencies with their current rates
-  async getAllRates(): Promise<{ [key: string]: number }> {
+  async getAllRates(): Promise<Record<string, number>> {
+    return (await this.getRates()).snapshot.rates;
+  }
+
+  // Locale-aware money formatting, e.g. 1500 INR -> ₹1,500.00 (en-IN) or INR 1,500.00
+  format(amount: number, currency: string, locale?: string): string {
+    try {
+      return new Intl.NumberFormat(locale, { style: 'currency', currency }).format(amount);
+    } catch {
+      // Unknown currency code
+      return `${currency} ${amount.toFixed(2)}`;
+    }
+  }
+
+  private getSymbol(currency: string, locale?: string): string | undefined {
+    try {
+      return new Intl.NumberFormat(locale, { style: 'currency', currency, currencyDisplay: 'narrowSymbol' })
+        .formatToParts(0)
+        .find(part => part.type === 'currency')?.value;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async getRates(): Promise<{ snapshot: ExchangeRateSnapshot; isOffline: boolean }> {
+    const current = this.snapshot || this.loadSnapshot();
+    if (current && Date.now() - current.fetchedAt < EXCHANGE_RATE_REFRESH_MS) {
+      this.snapshot = current;
+      return { snapshot: current, isOffline: false };
+    }
+
+    // One request at a time, however many prices are being converted
+    if (!this.pending) {
+      this.pending = this.refresh(current).finally(() => {
+        this.pending = null;
+      });
+    }
+    return this.pending;
+  }
+
+  private async refresh(
+    saved: ExchangeRateSnapshot | null
+  ): Promise<{ snapshot: ExchangeRateSnapshot; isOffline: boolean }> {
+    try {
+      const snapshot = this.source === 'provider' ? await this.fetchFromProvider() : await this.fetchFromBackend();
+      this.snapshot = snapshot;
+      this.saveSnapshot(snapshot);
+      return { snapshot, isOffline: false };
+    } catch (error) {
+      console.error('Failed to fetch exchange rates:', error);
+      if (saved) {
+        this.snapshot = saved;
+        return { snapshot: saved, isOffline: true };
+      }
+      throw new Error('Exchange rates are unavailable right now');
+    }
+  }
+
+  private async fetchFromBackend(): Promise<ExchangeRateSnapshot> {
+    const response = await httpClient.get<ExchangeRatesResponse>('/exchange_rates', {
+      params: { base: BASE_CURRENCY },
+      auth: false,
+    });
+
+    if (!isRateTable(response?.rates)) {
+      throw new Error('Exchange rate service returned no rates');
+    }
+
+    return {
+      base: response.base || BASE_CURRENCY,
+      rates: response.rates,
+      asOf: new Date(response.as_of).getTime() || Date.now(),
+      fetchedAt: Date.now(),
+      source: 'backend',
+    };
+  }
+
+  private async fetchFromProvider(): Promise<ExchangeRateSnapshot> {
+    // A third-party host: no app credentials, or providers allowing any origin fail CORS
+    const url = EXCHANGE_RATE_PROVIDER_URL.replace('{base}', BASE_CURRENCY);
+    const httpResponse = await fetch(url, { credentials: 'omit' });
+    if (!httpResponse.ok) {
+      throw new Error(`Exchange rate provider answered ${httpResponse.status}`);
+    }
+    const response = await httpResponse.json() as ProviderRatesResponse;
+
+    const rates = response.rates || response.conversion_rates;
+    if (!isRateTable(rates)) {
+      throw new Error('Exchange rate provider returned no rates');
+    }
+
+    const updatedSeconds = response.time_last_update_unix ?? response.time_last_updated;
+    return {
+      base: response.base || response.base_code || BASE_CURRENCY,
+      rates,
+      asOf: updatedSeconds ? updatedSeconds * 1000 : new Date(response.date || Date.now()).getTime(),
+      fetchedAt: Date.now(),
+      source: 'provider',
+    };
+  }
+
+  private loadSnapshot(): ExchangeRateSnapshot | null {
+    try {
+      const raw = localStorage.getItem(CurrencyService.STORAGE_KEY);
+      if (!raw) return null;
+
+      const snapshot = JSON.parse(raw) as ExchangeRateSnapshot;
+      return snapshot.base === BASE_CURRENCY && snapshot.rates ? snapshot : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private saveSnapshot(snapshot: ExchangeRateSnapshot): void {
     try {
-      const response = await axios.get<ExchangeRateResponse>(this.baseUrl);
-      return response.data.rates;
+      localStorage.setItem(CurrencyService.STORAGE_KEY, JSON.stringify(snapshot));
     } catch (error) {
-      console.error('Failed to fetch all rates:', error);
-      return {
-        'USD': 0.012,
-        'EUR': 0.011,
-        'GBP': 0.0095,
-        'CAD': 0.016,
-        'AUD': 0.018,
-      };
+      console.error('Failed to save exchange rates:', error);
     }
   }
 }
 
-export const currencyService = new CurrencyService(); 
\ No newline at end of file
+export const currencyService = new CurrencyService();
@@ -0,0 +1,256 @@
+// services/httpClient.ts
+import SessionStorageService from './sessionStorage.service';
+import { tokenRefreshCoordinator } from './tokenRefresh.service';
+import { CSRF_HEADER_NAME } from '../constants/session';
+import type {
+  ApiErrorResponse,
+  ApiResult,
+  HttpMethod,
+  QueryParams,
+  RequestOptions,
+} from '../types/api.types';
+
+// Single place where the backend location is resolved
+export const API_BASE_URL: string = (
+  import.meta.env.VITE_API_BASE_URL || 'http://localhost:3000/api/v1'
+).replace(/\/+$/, '');
+
+// Origin of the API host, used for non-versioned paths such as uploads
+export const API_ORIGIN: string = new URL(API_BASE_URL, window.location.origin).origin;
+
+export class ApiError extends Error {
+  readonly status: number;
+  readonly errors: string[];
+  readonly data: ApiErrorResponse;
+  // Same shape as axios errors so forms can keep reading field errors from it
+  readonly response: { data: ApiErrorResponse; status: number };
+
+  constructor(message: string, status: number, data: ApiErrorResponse = {}) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.data = data;
+    this.errors = data.errors?.length ? data.errors : [message];
+    this.response = { data, status };
+  }
+}
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+export const isUnauthorizedError = (error: unknown): boolean =>
+  error instanceof ApiError && error.status === 401;
+
+// Rails returns either `errors: string[]` or `errors: { field: string[] }`
+const normalizeErrorResponse = (body: unknown): ApiErrorResponse => {
+  if (!body || typeof body !== 'object') {
+    return typeof body === 'string' && body ? { error: body } : {};
+  }
+
+  const raw = body as { error?: unknown; errors?: unknown; message?: unknown };
+  const normalized: ApiErrorResponse = {};
+
+  if (typeof raw.error === 'string') normalized.error = raw.error;
+  if (typeof raw.message === 'string') normalized.message = raw.message;
+
+  if (Array.isArray(raw.errors)) {
+    normalized.errors = raw.errors.map(String);
+  } else if (raw.errors && typeof raw.errors === 'object') {
+    normalized.errors = Object.entries(raw.errors as Record<string, unknown>).flatMap(
+      ([field, messages]) =>
+        (Array.isArray(messages) ? messages : [messages]).map(msg => `${field} ${msg}`)
+    );
+  }
+
+  return normalized;
+};
+
+const getErrorMessage = (status: number, data: ApiErrorResponse): string => {
+  const fallback = status === 401 ? 'Authentication failed' : `HTTP error! status: ${status}`;
+  return data.message || data.error || data.errors?.join(', ') || fallback;
+};
+
+class HttpClient {
+  private readonly baseURL: string;
+
+  constructor(baseURL: string = API_BASE_URL) {
+    this.baseURL = baseURL;
+  }
+
+  private buildUrl(endpoint: string, params?: QueryParams): string {
+    const url = /^https?:\/\//.test(endpoint) ? endpoint : `${this.baseURL}${endpoint}`;
+
+    if (!params) {
+      return url;
+    }
+
+    const searchParams = new URLSearchParams();
+    Object.entries(params).forEach(([key, value]) => {
+      if (value !== undefined && value !== null && value !== '') {
+        searchParams.append(key, value.toString());
+      }
+    });
+
+    const queryString = searchParams.toString();
+    if (!queryString) {
+      return url;
+    }
+
+    return `${url}${url.includes('?') ? '&' : '?'}${queryString}`;
+  }
+
+  private buildHeaders(
+    method: HttpMethod,
+    body: unknown,
+    options: RequestOptions
+  ): Record<string, string> {
+    const headers: Record<string, string> = {
+      Accept: 'application/json',
+    };
+
+    // Let the browser set the multipart boundary for FormData
+    if (body !== undefined && !(body instanceof FormData)) {
+      headers['Content-Type'] = 'application/json';
+    }
+
+    if (options.auth !== false) {
+      const accessToken = SessionStorageService.getAccessToken();
+      if (accessToken) {
+        headers['Authorization'] = `Bearer ${accessToken}`;
+      }
+    }
+
+    // Cookie sessions are protected from CSRF by echoing the API's token cookie
+    if (SessionStorageService.usesCookieSession && method !== 'GET') {
+      const csrfToken = SessionStorageService.getCsrfToken();
+      if (csrfToken) {
+        headers[CSRF_HEADER_NAME] = csrfToken;
+      }
+    }
+
+    return { ...headers, ...options.headers };
+  }
+
+  private async parseBody(response: Response): Promise<unknown> {
+    if (response.status === 204) {
+      return undefined;
+    }
+
+    const text = await response.text();
+    if (!text) {
+      return undefined;
+    }
+
+    const contentType = response.headers.get('Content-Type') || '';
+    if (contentType.includes('application/json')) {
+      try {
+        return JSON.parse(text);
+      } catch {
+        return text;
+      }
+    }
+
+    return text;
+  }
+
+  async request<T>(
+    method: HttpMethod,
+    endpoint: string,
+    body?: unknown,
+    options: RequestOptions = {}
+  ): Promise<T> {
+    const authenticated = options.auth !== false;
+
+    // Hold new requests while a refresh is in flight so they carry the new token
+    if (authenticated && tokenRefreshCoordinator.isRefreshing) {
+      await tokenRefreshCoordinator.waitForRefresh();
+    }
+
+    let response = await this.send(method, endpoint, body, options);
+
+    // Access token expired mid-session: refresh once, then replay the request
+    if (response.status === 401 && authenticated && SessionStorageService.canRefresh()) {
+      try {
+        await tokenRefreshCoordinator.refresh();
+      } catch {
+        throw new ApiError('Authentication failed', 401);
+      }
+      response = await this.send(method, endpoint, body, options);
+    }
+
+    const data = await this.parseBody(response).catch(() => undefined);
+
+    if (!response.ok) {
+      const errorData = normalizeErrorResponse(data);
+      throw new ApiError(getErrorMessage(response.status, errorData), response.status, errorData);
+    }
+
+    return data as T;
+  }
+
+  private async send(
+    method: HttpMethod,
+    endpoint: string,
+    body: unknown,
+    options: RequestOptions
+  ): Promise<Response> {
+    const url = this.buildUrl(endpoint, options.params);
+
+    try {
+      return await fetch(url, {
+        method,
+        headers: this.buildHeaders(method, body, options),
+        body:
+          body === undefined
+            ? undefined
+            : body instanceof FormData
+            ? body
+            : JSON.stringify(body),
+        signal: options.signal,
+        // Refresh and CSRF cookies only travel cross-origin with credentials
+        credentials: SessionStorageService.usesCookieSession ? 'include' : 'same-origin',
+      });
+    } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
+      console.error(`Network error for ${method} ${url}:`, error);
+      throw new ApiError('Network error occurred', 0);
+    }
+  }
+
+  get<T>(endpoint: string, options?: RequestOptions): Promise<T> {
+    return this.request<T>('GET', endpoint, undefined, options);
+  }
+
+  post<T>(endpoint: string, body?: unknown, options?: RequestOptions): Promise<T> {
+    return this.request<T>('POST', endpoint, body ?? {}, options);
+  }
+
+  put<T>(endpoint: string, body?: unknown, options?: RequestOptions): Promise<T> {
+    return this.request<T>('PUT', endpoint, body ?? {}, options);
+  }
+
+  patch<T>(endpoint: string, body?: unknown, options?: RequestOptions): Promise<T> {
+    return this.request<T>('PATCH', endpoint, body ?? {}, options);
+  }
+
+  delete<T>(endpoint: string, options?: RequestOptions): Promise<T> {
+    return this.request<T>('DELETE', endpoint, undefined, options);
+  }
+
+  // Settle a request into `{ data } | { error, errors }` instead of throwing
+  async toResult<T>(request: Promise<T>): Promise<ApiResult<T>> {
+    try {
+      return { data: await request };
+    } catch (error) {
+      if (error instanceof ApiError) {
+        return { error: error.message, errors: error.errors };
+      }
+      throw error;
+    }
+  }
+}
+
+export const httpClient = new HttpClient();
+export default HttpClient;
@@ -0,0 +1,21 @@
+// services/invoice.service.ts
+import { httpClient } from './httpClient';
+import type { IssueInvoiceRequest, IssuedInvoice } from '../types/invoice.types';
+
+class InvoiceService {
+  private readonly basePath: string = '/invoices';
+
+  /**
+   * Reserve the next invoice number for an order. The order id doubles as the
+   * idempotency key, so reissuing a receipt returns the original number.
+   */
+  async issueInvoice(request: IssueInvoiceRequest): Promise<IssuedInvoice> {
+    return httpClient.post<IssuedInvoice>(this.basePath, request, {
+      auth: false,
+      headers: { 'Idempotency-Key': `invoice_${request.order_id}` },
+    });
+  }
+}
+
+export const invoiceService = new InvoiceService();
+export default InvoiceService;
@@ -0,0 +1,121 @@
+// services/patientPortal.service.ts
+import { httpClient, isUnauthorizedError } from './httpClient';
+import type {
+  PortalAppointment,
+  PortalAppointmentsResponse,
+  PortalCancelResponse,
+  PortalCodeResponse,
+  PortalRescheduleRequest,
+  PortalSession
+} from '../types/patientPortal.types';
+
+/**
+ * Patient-facing "manage my booking" API. Separate from staff auth: the
+ * portal token only covers the verified patient's own appointments and
+ * lives in session storage for the current tab.
+ */
+class PatientPortalService {
+  private static readonly SESSION_KEY = 'patient_portal_session';
+  private readonly basePath = '/patients/portal';
+
+  // Send a one-time code to the phone/email on the booking
+  async requestCode(appointmentCode: string): Promise<PortalCodeResponse> {
+    return httpClient.post<PortalCodeResponse>(
+      `${this.basePath}/sessions`,
+      { appointment_code: appointmentCode.trim().toUpperCase() },
+      { auth: false }
+    );
+  }
+
+  async verifyCode(verificationId: string, code: string): Promise<PortalSession> {
+    const session = await httpClient.post<PortalSession>(
+      `${this.basePath}/sessions/${verificationId}/verify`,
+      { code },
+      { auth: false }
+    );
+    this.saveSession(session);
+    return session;
+  }
+
+  async getAppointments(signal?: AbortSignal): Promise<PortalAppointmentsResponse> {
+    return this.request(() =>
+      httpClient.get<PortalAppointmentsResponse>(`${this.basePath}/appointments`, {
+        auth: false,
+        headers: this.authHeaders(),
+        signal,
+      })
+    );
+  }
+
+  async rescheduleAppointment(id: number, request: PortalRescheduleRequest): Promise<PortalAppointment> {
+    return this.request(() =>
+      httpClient.patch<PortalAppointment>(`${this.basePath}/appointments/${id}/reschedule`, request, {
+        auth: false,
+        headers: this.authHeaders(),
+      })
+    );
+  }
+
+  async cancelAppointment(id: number, reason?: string): Promise<PortalCancelResponse> {
+    return this.request(() =>
+      httpClient.post<PortalCancelResponse>(
+        `${this.basePath}/appointments/${id}/cancel`,
+        { reason },
+        { auth: false, headers: this.authHeaders() }
+      )
+    );
+  }
+
+  getSession(): PortalSession | null {
+    try {
+      const raw = sessionStorage.getItem(PatientPortalService.SESSION_KEY);
+      if (!raw) return null;
+
+      const session = JSON.parse(raw) as PortalSession;
+      if (new Date(session.expires_at).getTime() <= Date.now()) {
+        this.signOut();
+        return null;
+      }
+      return session;
+    } catch (error) {
+      console.error('Failed to read portal session:', error);
+      this.signOut();
+      return null;
+    }
+  }
+
+  signOut(): void {
+    sessionStorage.removeItem(PatientPortalService.SESSION_KEY);
+  }
+
+  private saveSession(session: PortalSession): void {
+    try {
+      sessionStorage.setItem(PatientPortalService.SESSION_KEY, JSON.stringify(session));
+    } catch (error) {
+      console.error('Failed to save portal session:', error);
+    }
+  }
+
+  private authHeaders(): Record<string, string> {
+    const session = this.getSession();
+    if (!session) {
+      throw new Error('Your session has expired. Please verify your booking again.');
+    }
+    return { Authorization: `Bearer ${session.access_token}` };
+  }
+
+  // An expired or revoked token ends the session; the page asks the patient to verify again
+  private async request<T>(send: () => Promise<T>): Promise<T> {
+    try {
+      return await send();
+    } catch (error) {
+      if (isUnauthorizedError(error)) {
+        this.signOut();
+      }
+      throw error;
+    }
+  }
+}
+
+export const patientPortalService = new PatientPortalService();
+export default PatientPortalService;
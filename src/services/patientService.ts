@@ -5,6 +5,8 @@ import type {
   NewPatientData, 
   PatientFilters 
 } from '../types/patient.types';
+import type { ConsultationOption } from '../types/registration';
+import { httpClient } from './httpClient';
 
 interface ApiAppointment {
   id: number;
@@ -52,6 +54,16 @@ interface ApiPatientResponse {
   is_inr: boolean;
 }
 
+interface ApiRegistrationResponse {
+  patient: ApiPatientResponse;
+  is_already_registered?: boolean;
+  is_inr?: boolean;
+  consultation_price?: string;
+  consultation_currency?: string;
+  slot_duration_minutes?: number;
+  consultation_types?: ConsultationOption[];
+}
+
 interface ApiPaginatedResponse {
   data: ApiPatientResponse[];
   total_pages: number;
@@ -61,59 +73,7 @@ interface ApiPaginatedResponse {
 }
 
 export class PatientService {
-  private baseUrl: string;
-
-  constructor(baseUrl: string = 'http://localhost:3000') {
-    this.baseUrl = baseUrl;
-  }
-
-  private getAuthHeaders(token: string): HeadersInit {
-    return {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${token}`,
-    };
-  }
-
-  private async executeRequest<T>(
-    url: string, 
-    options: RequestInit = {},
-    token: string
-  ): Promise<T> {
-    if (!token) {
-      throw new Error('Missing authentication token');
-    }
-
-    try {
-      const response = await fetch(url, {
-        ...options,
-        headers: {
-          ...this.getAuthHeaders(token),
-          ...options.headers,
-        },
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        
-        if (response.status === 401) {
-          throw new Error('Authentication failed');
-        }
-        
-        const error = new Error(`HTTP ${response.status}: ${response.statusText}`);
-        (error as { response?: { data: unknown; status: number } }).response = { data: errorData, status: response.status };
-        throw error;
-      }
-
-      if (response.status === 204) {
-        return {} as T;
-      }
-
-      return await response.json();
-    } catch (error) {
-      console.error(`API Error for ${url}:`, error);
-      throw error;
-    }
-  }
+  private readonly basePath: string = '/admin/patients';
 
   private calculateAge(dateOfBirth: string): number {
     try {
@@ -215,7 +175,7 @@ export class PatientService {
     page: number = 1,
     perPage: number = 10,
     filters: PatientFilters,
-    token: string
+    signal?: AbortSignal
   ): Promise<{
     patients: Patient[];
     totalPages: number;
@@ -223,27 +183,19 @@ export class PatientService {
     currentPage: number;
     perPage: number;
   }> {
-    const params = new URLSearchParams({
-      page: page.toString(),
-      per_page: perPage.toString(),
-      sort_by: filters.sortBy,
-      sort_dir: filters.sortDir,
+    const apiResponse = await httpClient.get<ApiPaginatedResponse>(this.basePath, {
+      params: {
+        page,
+        per_page: perPage,
+        sort_by: filters.sortBy,
+        sort_dir: filters.sortDir,
+        search: filters.search,
+        gender: filters.gender !== 'all' ? filters.gender : undefined,
+        status: filters.status !== 'all' ? filters.status : undefined,
+      },
+      signal,
     });
 
-    if (filters.search) {
-      params.append('search', filters.search);
-    }
-    if (filters.gender && filters.gender !== 'all') {
-      params.append('gender', filters.gender);
-    }
-    if (filters.status && filters.status !== 'all') {
-      params.append('status', filters.status);
-    }
-
-    const url = `${this.baseUrl}/api/v1/admin/patients?${params.toString()}`;
-
-    const apiResponse: ApiPaginatedResponse = await this.executeRequest<ApiPaginatedResponse>(url, { method: 'GET' }, token);
-
     return {
       patients: apiResponse.data.map(this.transformPatient.bind(this)),
       totalPages: apiResponse.total_pages,
@@ -253,13 +205,12 @@ export class PatientService {
     };
   }
 
-  async getPatientDetails(id: string, token: string): Promise<PatientDetails> {
-    const url = `${this.baseUrl}/api/v1/admin/patients/${id}`;
-    const apiResponse: ApiPatientResponse = await this.executeRequest<ApiPatientResponse>(url, { method: 'GET' }, token);
+  async getPatientDetails(id: string): Promise<PatientDetails> {
+    const apiResponse = await httpClient.get<ApiPatientResponse>(`${this.basePath}/${id}`);
     return this.transformPatientDetails(apiResponse);
   }
 
-  async createPatient(data: NewPatientData, token: string): Promise<Patient> {
+  async createPatient(data: NewPatientData): Promise<Patient> {
     const apiData = {
       first_name: data.first_name,
       last_name: data.last_name,
@@ -271,11 +222,7 @@ export class PatientService {
       address: data.address,
     };
 
-    const url = `${this.baseUrl}/api/v1/admin/patients`;
-    const apiResponse: ApiPatientResponse = await this.executeRequest<ApiPatientResponse>(url, {
-      method: 'POST',
-      body: JSON.stringify(apiData),
-    }, token);
+    const apiResponse = await httpClient.post<ApiPatientResponse>(this.basePath, apiData);
 
     return this.transformPatient(apiResponse);
   }
@@ -294,29 +241,18 @@ export class PatientService {
     patient: Patient; 
     isAlreadyRegistered: boolean;
     consultation_price?: string;
+    consultation_currency?: string;
     slot_duration_minutes?: number;
+    consultation_types?: ConsultationOption[];
   }> {
-    const url = `${this.baseUrl}/api/v1/patients/patient_registrations`;
-    
-    try {
-      const response = await fetch(url, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ patient: data }),
-      });
-
-      // Accept both 200 (OK) and 201 (Created) as success responses
-      if (response.status !== 200 && response.status !== 201) {
-        const errorData = await response.json().catch(() => ({}));
-        const error = new Error(`HTTP ${response.status}: ${response.statusText}`);
-        (error as { response?: { data: unknown; status: number } }).response = { data: errorData, status: response.status };
-        throw error;
-      }
-
-      const result = await response.json();
+    const url = '/patients/patient_registrations';
 
+    try {
+      const result = await httpClient.post<ApiRegistrationResponse>(
+        url,
+        { patient: data },
+        { auth: false }
+      );
 
       // Transform the basic patient response from registration endpoint
       const patient: Patient = {
@@ -345,7 +281,9 @@ export class PatientService {
         patient,
         isAlreadyRegistered: result.is_already_registered || false,
         consultation_price: result.consultation_price,
-        slot_duration_minutes: result.slot_duration_minutes
+        consultation_currency: result.consultation_currency,
+        slot_duration_minutes: result.slot_duration_minutes,
+        consultation_types: result.consultation_types
       };
     } catch (error) {
       console.error(`API Error for ${url}:`, error);
@@ -353,21 +291,18 @@ export class PatientService {
     }
   }
 
-  async updatePatient(id: string, data: Partial<Patient>, token: string): Promise<Patient> {
+  async updatePatient(id: string, data: Partial<Patient>): Promise<Patient> {
     const railsData = this.transformToRailsFormat(data);
 
-    const url = `${this.baseUrl}/api/v1/admin/patients/${id}`;
-    const apiResponse: ApiPatientResponse = await this.executeRequest<ApiPatientResponse>(url, {
-      method: 'PATCH',
-      body: JSON.stringify({ patient: railsData }),
-    }, token);
+    const apiResponse = await httpClient.patch<ApiPatientResponse>(`${this.basePath}/${id}`, {
+      patient: railsData,
+    });
 
     return this.transformPatient(apiResponse);
   }
 
-  async deletePatient(id: string, token: string): Promise<void> {
-    const url = `${this.baseUrl}/api/v1/admin/patients/${id}`;
-    await this.executeRequest<void>(url, { method: 'DELETE' }, token);
+  async deletePatient(id: string): Promise<void> {
+    await httpClient.delete<void>(`${this.basePath}/${id}`);
   }
 }
 
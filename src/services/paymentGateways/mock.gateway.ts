@@ -0,0 +1,159 @@
+// services/paymentGateways/mock.gateway.ts
+import { MOCK_PAYMENT_OUTCOME } from '../../constants/payment';
+import type {
+  MockPaymentOutcome,
+  PaymentGateway,
+  PaymentOrder,
+  PaymentResult,
+  PaymentStatus,
+  RefundResult
+} from '../../types/payment.types';
+
+interface MockPaymentState {
+  sequence: number;
+  payments: Record<string, PaymentStatus>;
+}
+
+/**
+ * Offline gateway for development and automated tests. Ids are sequential and
+ * checkout follows `outcome`, so runs are repeatable and never touch the network:
+ * - success: captured payment
+ * - failure: checkout rejects with a gateway error
+ * - dismiss: checkout rejects as cancelled by the patient
+ * - pending: payment returned but never captured
+ *
+ * Payments are kept in sessionStorage so a checkout can still be reconciled
+ * after a reload; a payment the tab has never seen counts as failed.
+ */
+class MockPaymentGateway implements PaymentGateway {
+  readonly id = 'mock' as const;
+  readonly label = 'Test payment';
+  readonly collectsOnline = true;
+
+  private static readonly STORAGE_KEY = 'mock_payments';
+
+  private outcome: MockPaymentOutcome;
+
+  constructor(outcome: MockPaymentOutcome = MOCK_PAYMENT_OUTCOME) {
+    this.outcome = outcome;
+  }
+
+  setOutcome(outcome: MockPaymentOutcome): void {
+    this.outcome = outcome;
+  }
+
+  reset(): void {
+    sessionStorage.removeItem(MockPaymentGateway.STORAGE_KEY);
+  }
+
+  async createOrder(amount: number, currency: string = 'INR', receipt?: string): Promise<PaymentOrder> {
+    const id = `order_mock_${this.nextSequence()}`;
+    return {
+      id,
+      gateway: this.id,
+      amount: Math.floor(amount * 100),
+      currency,
+      receipt: receipt || `receipt_${id}`,
+      status: 'created',
+    };
+  }
+
+  async openCheckout(order: PaymentOrder): Promise<PaymentResult> {
+    if (this.outcome === 'dismiss') {
+      throw new Error('Payment cancelled by user');
+    }
+    if (this.outcome === 'failure') {
+      throw new Error('Mock payment failed');
+    }
+
+    const paymentId = `pay_mock_${this.nextSequence()}`;
+    const captured = this.outcome === 'success';
+    this.savePayment({
+      payment_id: paymentId,
+      order_id: order.id,
+      amount: order.amount,
+      currency: order.currency,
+      status: captured ? 'captured' : 'authorized',
+      method: 'mock',
+      captured,
+      created_at: Date.now(),
+    });
+
+    return {
+      gateway: this.id,
+      paymentId,
+      orderId: order.id,
+      signature: captured ? 'mock_signature' : undefined,
+    };
+  }
+
+  async verifyPayment(payment: PaymentResult): Promise<boolean> {
+    return Boolean(this.loadState().payments[payment.paymentId]?.captured);
+  }
+
+  async getPaymentStatus(paymentId: string): Promise<PaymentStatus> {
+    const status = this.loadState().payments[paymentId];
+    if (!status) {
+      // Never made in this tab, so it can't be waiting to capture
+      return {
+        payment_id: paymentId,
+        order_id: '',
+        amount: 0,
+        currency: 'INR',
+        status: 'failed',
+        method: 'mock',
+        captured: false,
+        created_at: Date.now(),
+      };
+    }
+    return status;
+  }
+
+  async refund(paymentId: string, amount?: number): Promise<RefundResult> {
+    const status = this.loadState().payments[paymentId];
+    if (!status) {
+      throw new Error(`Unknown mock payment ${paymentId}`);
+    }
+    this.savePayment({ ...status, status: 'refunded', captured: false });
+
+    return {
+      refund_id: `rfnd_mock_${this.nextSequence()}`,
+      payment_id: paymentId,
+      amount: amount !== undefined ? Math.floor(amount * 100) : status.amount,
+      status: 'processed',
+    };
+  }
+
+  private loadState(): MockPaymentState {
+    try {
+      const raw = sessionStorage.getItem(MockPaymentGateway.STORAGE_KEY);
+      if (raw) return JSON.parse(raw) as MockPaymentState;
+    } catch (error) {
+      console.error('Failed to read mock payments:', error);
+    }
+    return { sequence: 0, payments: {} };
+  }
+
+  private saveState(state: MockPaymentState): void {
+    try {
+      sessionStorage.setItem(MockPaymentGateway.STORAGE_KEY, JSON.stringify(state));
+    } catch (error) {
+      console.error('Failed to save mock payments:', error);
+    }
+  }
+
+  private nextSequence(): number {
+    const state = this.loadState();
+    const sequence = state.sequence + 1;
+    this.saveState({ ...state, sequence });
+    return sequence;
+  }
+
+  private savePayment(status: PaymentStatus): void {
+    const state = this.loadState();
+    this.saveState({ ...state, payments: { ...state.payments, [status.payment_id]: status } });
+  }
+}
+
+export const mockPaymentGateway = new MockPaymentGateway();
+export default MockPaymentGateway;
@@ -0,0 +1,68 @@
+// services/paymentGateways/payAtClinic.gateway.ts
+import type {
+  PaymentGateway,
+  PaymentOrder,
+  PaymentResult,
+  PaymentStatus,
+  RefundResult
+} from '../../types/payment.types';
+
+/**
+ * Books now, collects at the front desk. Nothing is charged in the app, so
+ * every step settles locally and the booking API records the fee as due.
+ */
+class PayAtClinicGateway implements PaymentGateway {
+  readonly id = 'clinic' as const;
+  readonly label = 'Pay at clinic';
+  readonly collectsOnline = false;
+
+  async createOrder(amount: number, currency: string = 'INR', receipt?: string): Promise<PaymentOrder> {
+    const id = `clinic_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+    return {
+      id,
+      gateway: this.id,
+      amount: Math.floor(amount * 100),
+      currency,
+      receipt: receipt || `receipt_${Date.now()}`,
+      status: 'created',
+    };
+  }
+
+  // No checkout window: the order itself is the booking's payment reference
+  async openCheckout(order: PaymentOrder): Promise<PaymentResult> {
+    return {
+      gateway: this.id,
+      paymentId: `${order.id}_due`,
+      orderId: order.id,
+    };
+  }
+
+  async verifyPayment(payment: PaymentResult): Promise<boolean> {
+    return payment.gateway === this.id;
+  }
+
+  async getPaymentStatus(paymentId: string): Promise<PaymentStatus> {
+    return {
+      payment_id: paymentId,
+      order_id: paymentId.replace(/_due$/, ''),
+      amount: 0,
+      currency: 'INR',
+      status: 'due',
+      method: 'clinic',
+      captured: false,
+      created_at: Date.now(),
+    };
+  }
+
+  async refund(paymentId: string): Promise<RefundResult> {
+    return {
+      refund_id: '',
+      payment_id: paymentId,
+      amount: 0,
+      status: 'not_applicable',
+    };
+  }
+}
+
+export const payAtClinicGateway = new PayAtClinicGateway();
+export default PayAtClinicGateway;
@@ -0,0 +1,142 @@
+// services/paymentGateways/razorpay.gateway.ts
+import { httpClient } from '../httpClient';
+import type {
+  CheckoutOptions,
+  PaymentGateway,
+  PaymentOrder,
+  PaymentResult,
+  PaymentStatus,
+  RefundResult
+} from '../../types/payment.types';
+
+const CHECKOUT_SCRIPT_URL = 'https://checkout.razorpay.com/v1/checkout.js';
+const DEFAULT_THEME_COLOR = '#3399cc';
+
+// Shape of Razorpay's checkout success callback
+interface RazorpayResponse {
+  razorpay_payment_id: string;
+  razorpay_order_id: string;
+  razorpay_signature: string;
+}
+
+type RazorpayConstructor = new (options: Record<string, unknown>) => { open: () => void };
+
+class RazorpayGateway implements PaymentGateway {
+  readonly id = 'razorpay' as const;
+  readonly label = 'Pay online';
+  readonly collectsOnline = true;
+
+  private readonly basePath: string = '/payments';
+  private scriptPromise: Promise<RazorpayConstructor> | null = null;
+
+  // Create a Razorpay order on the server
+  async createOrder(amount: number, currency: string = 'INR', receipt?: string): Promise<PaymentOrder> {
+    const amountInSmallestUnit = Math.floor(amount * 100);
+
+    const order = await httpClient.post<Omit<PaymentOrder, 'gateway'>>(
+      `${this.basePath}/create_order`,
+      {
+        amount: amountInSmallestUnit,
+        currency,
+        receipt: receipt || `receipt_${Date.now()}`,
+      },
+      { auth: false }
+    );
+    return { ...order, gateway: this.id };
+  }
+
+  async openCheckout(order: PaymentOrder, options: CheckoutOptions): Promise<PaymentResult> {
+    if (!order.key_id) {
+      throw new Error('Online payment is not configured. Please contact the clinic.');
+    }
+
+    const Razorpay = await this.loadCheckoutScript();
+
+    return new Promise((resolve, reject) => {
+      const rzp = new Razorpay({
+        key: order.key_id,
+        amount: order.amount,
+        currency: order.currency,
+        name: options.name,
+        description: options.description,
+        order_id: order.id,
+        prefill: options.prefill || {},
+        notes: options.notes || {},
+        callback_url: options.callback_url,
+        handler: (response: RazorpayResponse) => {
+          resolve({
+            gateway: this.id,
+            paymentId: response.razorpay_payment_id,
+            orderId: response.razorpay_order_id,
+            signature: response.razorpay_signature,
+          });
+        },
+        modal: {
+          ondismiss: () => {
+            reject(new Error('Payment cancelled by user'));
+          },
+        },
+        theme: {
+          color: order.theme_color || DEFAULT_THEME_COLOR,
+        },
+      });
+      rzp.open();
+    });
+  }
+
+  // Verify payment signature
+  async verifyPayment(payment: PaymentResult): Promise<boolean> {
+    const result = await httpClient.post<{ verified: boolean }>(
+      `${this.basePath}/verify`,
+      {
+        razorpay_payment_id: payment.paymentId,
+        razorpay_order_id: payment.orderId,
+        razorpay_signature: payment.signature,
+      },
+      { auth: false }
+    );
+    return result.verified;
+  }
+
+  async getPaymentStatus(paymentId: string): Promise<PaymentStatus> {
+    return httpClient.get<PaymentStatus>(`${this.basePath}/status`, {
+      params: { payment_id: paymentId },
+      auth: false,
+    });
+  }
+
+  // Omit the amount for a full refund
+  async refund(paymentId: string, amount?: number): Promise<RefundResult> {
+    return httpClient.post<RefundResult>(`${this.basePath}/refund`, {
+      payment_id: paymentId,
+      amount: amount !== undefined ? Math.floor(amount * 100) : undefined,
+    });
+  }
+
+  // Load Razorpay script if not already loaded
+  private loadCheckoutScript(): Promise<RazorpayConstructor> {
+    const existing = (window as { Razorpay?: RazorpayConstructor }).Razorpay;
+    if (existing) {
+      return Promise.resolve(existing);
+    }
+
+    if (!this.scriptPromise) {
+      this.scriptPromise = new Promise((resolve, reject) => {
+        const script = document.createElement('script');
+        script.src = CHECKOUT_SCRIPT_URL;
+        script.onload = () => resolve((window as unknown as { Razorpay: RazorpayConstructor }).Razorpay);
+        script.onerror = () => {
+          this.scriptPromise = null;
+          script.remove();
+          reject(new Error('Failed to load Razorpay'));
+        };
+        document.head.appendChild(script);
+      });
+    }
+
+    return this.scriptPromise;
+  }
+}
+
+export const razorpayGateway = new RazorpayGateway();
+export default RazorpayGateway;
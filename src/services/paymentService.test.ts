@@ -0,0 +1,189 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { PaymentService } from './paymentService';
+import MockPaymentGateway from './paymentGateways/mock.gateway';
+import { payAtClinicGateway } from './paymentGateways/payAtClinic.gateway';
+import type { CheckoutOptions, PaymentGateway, PaymentResult } from '../types/payment.types';
+
+// Only the Razorpay gateway talks to the API, and these tests never reach it
+vi.mock('./httpClient', () => ({ httpClient: {} }));
+
+// Just enough of the Storage API for the gateways and pending checkouts
+class MemoryStorage {
+  private items = new Map<string, string>();
+
+  getItem(key: string): string | null {
+    return this.items.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.items.set(key, value);
+  }
+
+  removeItem(key: string): void {
+    this.items.delete(key);
+  }
+}
+
+const checkoutOptions: CheckoutOptions = {
+  name: 'Mediconnect',
+  description: 'Medical Consultation Appointment',
+  prefill: { name: 'Asha Rao', email: 'asha@example.com', contact: '+91 98765 43210' },
+};
+
+describe('booking through the mock gateway', () => {
+  let mockGateway: MockPaymentGateway;
+  let service: PaymentService;
+
+  beforeEach(() => {
+    vi.stubGlobal('sessionStorage', new MemoryStorage());
+    vi.stubGlobal('localStorage', new MemoryStorage());
+    mockGateway = new MockPaymentGateway('success');
+    service = new PaymentService([mockGateway, payAtClinicGateway], ['mock', 'clinic']);
+  });
+
+  it('creates an order in the smallest currency unit on the chosen gateway', async () => {
+    const order = await service.createOrder('mock', 1500, 'INR', 'appointment_1');
+
+    expect(order).toMatchObject({ gateway: 'mock', amount: 150000, currency: 'INR', receipt: 'appointment_1' });
+  });
+
+  it('settles a successful checkout as paid', async () => {
+    const order = await service.createOrder('mock', 1500);
+    const payment = await service.openCheckout(order, checkoutOptions);
+
+    expect(payment).toMatchObject({ gateway: 'mock', orderId: order.id });
+    await expect(service.reconcilePayment(payment)).resolves.toBe('paid');
+  });
+
+  it('rejects a failed checkout with the gateway error', async () => {
+    mockGateway.setOutcome('failure');
+    const order = await service.createOrder('mock', 1500);
+
+    await expect(service.openCheckout(order, checkoutOptions)).rejects.toThrow('Mock payment failed');
+  });
+
+  it('rejects a dismissed checkout as cancelled so no error is shown', async () => {
+    mockGateway.setOutcome('dismiss');
+    const order = await service.createOrder('mock', 1500);
+
+    await expect(service.openCheckout(order, checkoutOptions)).rejects.toThrow(/cancelled/);
+  });
+
+  it('keeps an uncaptured payment pending instead of failing it', async () => {
+    mockGateway.setOutcome('pending');
+    const order = await service.createOrder('mock', 1500);
+    const payment = await service.openCheckout(order, checkoutOptions);
+
+    await expect(service.reconcilePayment(payment)).resolves.toBe('pending');
+  });
+
+  it('fails a payment the gateway has never seen', async () => {
+    const payment: PaymentResult = { gateway: 'mock', paymentId: 'pay_mock_999', orderId: 'order_mock_1' };
+
+    await expect(service.reconcilePayment(payment)).resolves.toBe('failed');
+  });
+
+  it('fails a refunded payment', async () => {
+    const order = await service.createOrder('mock', 1500);
+    const payment = await service.openCheckout(order, checkoutOptions);
+    await service.refundPayment(payment);
+
+    await expect(service.reconcilePayment(payment)).resolves.toBe('failed');
+  });
+
+  it('still reconciles a payment after a reload', async () => {
+    const order = await service.createOrder('mock', 1500);
+    const payment = await service.openCheckout(order, checkoutOptions);
+
+    const reloaded = new PaymentService([new MockPaymentGateway('success')], ['mock']);
+    await expect(reloaded.reconcilePayment(payment)).resolves.toBe('paid');
+  });
+
+  it('recovers the pending checkout for the same order', async () => {
+    const order = await service.createOrder('mock', 1500);
+    service.savePendingCheckout({
+      order,
+      slotDate: '2026-10-20',
+      slotTime: '10:00-10:30',
+      displayAmount: 1500,
+    });
+
+    expect(service.getPendingCheckout()?.order.id).toBe(order.id);
+  });
+
+  it('drops a pending checkout whose gateway this build does not register', async () => {
+    const order = await service.createOrder('mock', 1500);
+    service.savePendingCheckout({ order, slotDate: '2026-10-20', slotTime: '10:00-10:30', displayAmount: 1500 });
+
+    const withoutMock = new PaymentService([payAtClinicGateway], ['clinic']);
+    expect(withoutMock.getPendingCheckout()).toBeNull();
+  });
+});
+
+describe('payment reconciliation', () => {
+  const payment: PaymentResult = { gateway: 'razorpay', paymentId: 'pay_1', orderId: 'order_1', signature: 'sig' };
+
+  const onlineGateway = (overrides: Partial<PaymentGateway>): PaymentGateway => ({
+    id: 'razorpay',
+    label: 'Razorpay',
+    collectsOnline: true,
+    createOrder: vi.fn(),
+    openCheckout: vi.fn(),
+    verifyPayment: vi.fn().mockResolvedValue(false),
+    getPaymentStatus: vi.fn(),
+    refund: vi.fn(),
+    ...overrides,
+  });
+
+  const paymentStatus = (status: string, captured: boolean) => ({
+    payment_id: 'pay_1',
+    order_id: 'order_1',
+    amount: 150000,
+    currency: 'INR',
+    status,
+    method: 'card',
+    captured,
+    created_at: 0,
+  });
+
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  it('trusts a verified signature without asking for the status', async () => {
+    const gateway = onlineGateway({ verifyPayment: vi.fn().mockResolvedValue(true) });
+    const service = new PaymentService([gateway], ['razorpay']);
+
+    await expect(service.reconcilePayment(payment)).resolves.toBe('paid');
+    expect(gateway.getPaymentStatus).not.toHaveBeenCalled();
+  });
+
+  it('counts a captured payment as paid when verification throws', async () => {
+    const gateway = onlineGateway({
+      verifyPayment: vi.fn().mockRejectedValue(new Error('Network Error')),
+      getPaymentStatus: vi.fn().mockResolvedValue(paymentStatus('captured', true)),
+    });
+
+    await expect(new PaymentService([gateway], ['razorpay']).reconcilePayment(payment)).resolves.toBe('paid');
+  });
+
+  it('fails a payment the gateway reports as failed', async () => {
+    const gateway = onlineGateway({ getPaymentStatus: vi.fn().mockResolvedValue(paymentStatus('failed', false)) });
+
+    await expect(new PaymentService([gateway], ['razorpay']).reconcilePayment(payment)).resolves.toBe('failed');
+  });
+
+  it('leaves the payment pending when the status cannot be fetched', async () => {
+    const gateway = onlineGateway({ getPaymentStatus: vi.fn().mockRejectedValue(new Error('Network Error')) });
+
+    await expect(new PaymentService([gateway], ['razorpay']).reconcilePayment(payment)).resolves.toBe('pending');
+  });
+
+  it('fails an offline payment that does not verify, without a status lookup', async () => {
+    const gateway = onlineGateway({ id: 'clinic', collectsOnline: false });
+    const service = new PaymentService([gateway], ['clinic']);
+
+    await expect(service.reconcilePayment({ ...payment, gateway: 'clinic' })).resolves.toBe('failed');
+    expect(gateway.getPaymentStatus).not.toHaveBeenCalled();
+  });
+});
@@ -1,163 +1,143 @@
-const RAZORPAY_KEY_ID = 'rzp_test_sBBXgkZVrbaVaW';
-const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:3000/api';
-
-export interface PaymentOrder {
-  id: string;
-  amount: number;
-  currency: string;
-  receipt: string;
-  status: string;
-}
-
-export interface PaymentResponse {
-  razorpay_payment_id: string;
-  razorpay_order_id: string;
-  razorpay_signature: string;
-}
+import { BOOKING_DRAFT_TTL_MS } from '../constants/booking';
+import { ENABLED_PAYMENT_GATEWAYS } from '../constants/payment';
+import { razorpayGateway } from './paymentGateways/razorpay.gateway';
+import { payAtClinicGateway } from './paymentGateways/payAtClinic.gateway';
+import { mockPaymentGateway } from './paymentGateways/mock.gateway';
+import type {
+  CheckoutOptions,
+  PaymentGateway,
+  PaymentGatewayId,
+  PaymentOrder,
+  PaymentOutcome,
+  PaymentResult,
+  PendingCheckout,
+  RefundResult
+} from '../types/payment.types';
+
+/**
+ * Gateway-agnostic payment entry point. Checkout work is delegated to the
+ * gateway that created the order; reconciliation and crash recovery live here.
+ */
+export class PaymentService {
+  private static readonly PENDING_CHECKOUT_KEY = 'pending_checkout';
+
+  private readonly gateways: Map<PaymentGatewayId, PaymentGateway>;
+  private readonly enabledIds: PaymentGatewayId[];
+
+  constructor(gateways: PaymentGateway[], enabledIds: PaymentGatewayId[]) {
+    this.gateways = new Map(gateways.map(gateway => [gateway.id, gateway]));
+    this.enabledIds = enabledIds;
+  }
 
-class PaymentService {
-  private baseURL: string;
+  // Gateways offered to the patient, in configured order
+  get availableGateways(): PaymentGateway[] {
+    return this.enabledIds
+      .map(id => this.gateways.get(id))
+      .filter((gateway): gateway is PaymentGateway => Boolean(gateway));
+  }
 
-  constructor() {
-    this.baseURL = API_BASE_URL;
+  get defaultGateway(): PaymentGateway {
+    return this.availableGateways[0] || this.getGateway('razorpay');
   }
 
-  // Create a Razorpay order on the server
-  async createOrder(amount: number, currency: string = 'INR', receipt?: string): Promise<PaymentOrder> {
-    const amountInSmallestUnit = Math.floor(amount * 100);
-    
-    const response = await fetch(`${this.baseURL}/payments/create_order`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        amount: amountInSmallestUnit,
-        currency,
-        receipt: receipt || `receipt_${Date.now()}`,
-      }),
-    });
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(errorData.error || `HTTP ${response.status}: ${response.statusText}`);
+  getGateway(id: PaymentGatewayId): PaymentGateway {
+    const gateway = this.gateways.get(id);
+    if (!gateway) {
+      throw new Error(`Payment gateway "${id}" is not registered`);
     }
+    return gateway;
+  }
 
-    return response.json();
+  // Recorded orders may name a gateway this build doesn't register, e.g. mock payments from development
+  getGatewayLabel(id: PaymentGatewayId): string {
+    return this.gateways.get(id)?.label || id;
   }
 
-  // Initialize Razorpay checkout
-  initializeRazorpay(order: PaymentOrder, options: {
-    name: string;
-    description: string;
-    prefill?: {
-      name?: string;
-      email?: string;
-      contact?: string;
-    };
-    notes?: Record<string, string>;
-    callback_url?: string;
-  }): Promise<PaymentResponse> {
-    return new Promise((resolve, reject) => {
-      // Load Razorpay script if not already loaded
-      if (!(window as { Razorpay?: unknown }).Razorpay) {
-        const script = document.createElement('script');
-        script.src = 'https://checkout.razorpay.com/v1/checkout.js';
-        script.onload = () => this.openRazorpayCheckout(order, options, resolve, reject);
-        script.onerror = () => reject(new Error('Failed to load Razorpay'));
-        document.head.appendChild(script);
-      } else {
-        this.openRazorpayCheckout(order, options, resolve, reject);
-      }
-    });
+  async createOrder(gatewayId: PaymentGatewayId, amount: number, currency: string = 'INR', receipt?: string): Promise<PaymentOrder> {
+    return this.getGateway(gatewayId).createOrder(amount, currency, receipt);
   }
 
-  private openRazorpayCheckout(
-    order: PaymentOrder,
-    options: {
-      name: string;
-      description: string;
-      prefill?: {
-        name?: string;
-        email?: string;
-        contact?: string;
-      };
-      notes?: Record<string, string>;
-      callback_url?: string;
-    },
-    resolve: (value: PaymentResponse) => void,
-    reject: (reason: Error) => void
-  ) {
-    const rzpOptions = {
-      key: RAZORPAY_KEY_ID,
-      amount: order.amount,
-      currency: order.currency,
-      name: options.name,
-      description: options.description,
-      order_id: order.id,
-      prefill: options.prefill || {},
-      notes: options.notes || {},
-      callback_url: options.callback_url,
-      handler: (response: PaymentResponse) => {
-        resolve(response);
-      },
-      modal: {
-        ondismiss: () => {
-          reject(new Error('Payment cancelled by user'));
-        },
-      },
-      theme: {
-        color: '#3399cc',
-      },
-    };
-
-    const rzp = new ((window as unknown as { Razorpay: new (options: typeof rzpOptions) => { open: () => void } }).Razorpay)(rzpOptions);
-    rzp.open();
+  // Checkout always runs on the gateway that created the order
+  async openCheckout(order: PaymentOrder, options: CheckoutOptions): Promise<PaymentResult> {
+    return this.getGateway(order.gateway).openCheckout(order, options);
   }
 
-  // Verify payment signature
-  async verifyPayment(paymentResponse: PaymentResponse): Promise<boolean> {
-    const response = await fetch(`${this.baseURL}/payments/verify`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(paymentResponse),
-    });
-
-    if (!response.ok) {
-      throw new Error('Payment verification failed');
+  /**
+   * Settle the real state of a payment when signature verification fails or
+   * was never reached. Only a captured payment counts as paid, except for
+   * gateways that collect offline, where verification is all there is.
+   */
+  async reconcilePayment(payment: PaymentResult): Promise<PaymentOutcome> {
+    const gateway = this.getGateway(payment.gateway);
+
+    try {
+      if (await gateway.verifyPayment(payment)) {
+        return 'paid';
+      }
+    } catch (error) {
+      console.error('Payment verification failed, checking payment status:', error);
+    }
+
+    if (!gateway.collectsOnline) {
+      return 'failed';
     }
 
-    const result: { verified: boolean } = await response.json();
-    return result.verified;
+    try {
+      const status = await gateway.getPaymentStatus(payment.paymentId);
+      if (status.captured) return 'paid';
+      if (status.status === 'failed' || status.status === 'refunded') return 'failed';
+      return 'pending';
+    } catch (error) {
+      console.error('Failed to fetch payment status:', error);
+      return 'pending';
+    }
   }
 
-  // Get payment status
-  async getPaymentStatus(paymentId: string): Promise<{
-    payment_id: string;
-    order_id: string;
-    amount: number;
-    currency: string;
-    status: string;
-    method: string;
-    captured: boolean;
-    created_at: number;
-  }> {
-    const response = await fetch(`${this.baseURL}/v1/payments/status?payment_id=${paymentId}`, {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-    });
-
-    if (!response.ok) {
-      throw new Error('Failed to get payment status');
+  async refundPayment(payment: PaymentResult, amount?: number): Promise<RefundResult> {
+    return this.getGateway(payment.gateway).refund(payment.paymentId, amount);
+  }
+
+  savePendingCheckout(checkout: Omit<PendingCheckout, 'savedAt'>): void {
+    try {
+      localStorage.setItem(
+        PaymentService.PENDING_CHECKOUT_KEY,
+        JSON.stringify({ ...checkout, savedAt: Date.now() })
+      );
+    } catch (error) {
+      console.error('Failed to save pending checkout:', error);
     }
+  }
+
+  getPendingCheckout(): PendingCheckout | null {
+    try {
+      const raw = localStorage.getItem(PaymentService.PENDING_CHECKOUT_KEY);
+      if (!raw) return null;
+
+      const checkout = JSON.parse(raw) as PendingCheckout;
+      // Drop checkouts saved before gateways were recorded on the order, or on a gateway this build lacks
+      if (
+        checkout.savedAt + BOOKING_DRAFT_TTL_MS < Date.now() ||
+        !checkout.order?.gateway ||
+        !this.gateways.has(checkout.order.gateway)
+      ) {
+        this.clearPendingCheckout();
+        return null;
+      }
+      return checkout;
+    } catch (error) {
+      console.error('Failed to read pending checkout:', error);
+      this.clearPendingCheckout();
+      return null;
+    }
+  }
 
-    return response.json();
+  clearPendingCheckout(): void {
+    localStorage.removeItem(PaymentService.PENDING_CHECKOUT_KEY);
   }
 }
 
-export const paymentService = new PaymentService();
-export default paymentService; 
\ No newline at end of file
+export const paymentService = new PaymentService(
+  [razorpayGateway, payAtClinicGateway, ...(import.meta.env.DEV ? [mockPaymentGateway] : [])],
+  ENABLED_PAYMENT_GATEWAYS
+);
+export default paymentService;
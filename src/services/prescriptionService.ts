@@ -1,69 +1,19 @@
 // services/prescriptionService.ts
 import { PrescriptionNote, PrescriptionApiResponse } from '../types/prescription.types';
+import { httpClient, ApiError } from './httpClient';
 
 class PrescriptionService {
-  private readonly baseURL: string;
-  private readonly apiVersion: string = 'v1';
-
-  constructor() {
-    // Use window object to access environment variables or fallback to localhost
-    this.baseURL = (window as any).REACT_APP_API_BASE_URL || 
-                   import.meta.env?.VITE_API_URL || 
-                   'http://localhost:3000';
-  }
-
-  private get apiEndpoint(): string {
-    return `${this.baseURL}/api/${this.apiVersion}/admin/prescription_notes`;
-  }
-
-  private async makeRequest<T>(
-    endpoint: string,
-    options: RequestInit = {}
-  ): Promise<T> {
-    const defaultHeaders = {
-      'Content-Type': 'application/json',
-    };
-
-    // Add auth token if available
-    const authToken = this.getAuthToken();
-    if (authToken) {
-      defaultHeaders['Authorization'] = `Bearer ${authToken}`;
-    }
-
-    const config: RequestInit = {
-      ...options,
-      headers: {
-        ...defaultHeaders,
-        ...options.headers,
-      },
-    };
-
-    try {
-      const response = await fetch(`${this.apiEndpoint}${endpoint}`, config);
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(
-          errorData.message || 
-          errorData.error || 
-          `HTTP error! status: ${response.status}`
-        );
-      }
-
-      return await response.json();
-    } catch (error) {
-      console.error('API request failed:', error);
-      throw error;
-    }
-  }
+  private readonly basePath: string = '/admin/prescription_notes';
 
   // Get prescription notes for an appointment
   async getPrescriptionNotes(appointmentId: number): Promise<PrescriptionNote[]> {
     try {
-      const response = await this.makeRequest<PrescriptionApiResponse>(`?appointment_id=${appointmentId}`);
+      const response = await httpClient.get<PrescriptionApiResponse>(this.basePath, {
+        params: { appointment_id: appointmentId },
+      });
       return response.data || [];
     } catch (error) {
-      if (error instanceof Error && error.message.includes('404')) {
+      if (error instanceof ApiError && error.status === 404) {
         console.log(`No prescription notes found for appointment ${appointmentId}`);
         return []; // Return empty array for 404
       }
@@ -83,10 +33,7 @@ class PrescriptionService {
         prescription: prescriptions
       };
 
-      return await this.makeRequest<PrescriptionApiResponse>('', {
-        method: 'POST',
-        body: JSON.stringify(payload),
-      });
+      return await httpClient.post<PrescriptionApiResponse>(this.basePath, payload);
     } catch (error) {
       console.error('Error creating prescription notes:', error);
       throw error;
@@ -105,10 +52,7 @@ class PrescriptionService {
         prescription: [{ prescription, details }]
       };
 
-      const response = await this.makeRequest<PrescriptionApiResponse>('', {
-        method: 'POST',
-        body: JSON.stringify(payload),
-      });
+      const response = await httpClient.post<PrescriptionApiResponse>(this.basePath, payload);
 
       return response.data?.[0] || {} as PrescriptionNote;
     } catch (error) {
@@ -129,10 +73,7 @@ class PrescriptionService {
         details
       };
 
-      const response = await this.makeRequest<{ data: PrescriptionNote }>(`/${noteId}`, {
-        method: 'PUT',
-        body: JSON.stringify(payload),
-      });
+      const response = await httpClient.put<{ data: PrescriptionNote }>(`${this.basePath}/${noteId}`, payload);
 
       return response.data;
     } catch (error) {
@@ -144,9 +85,7 @@ class PrescriptionService {
   // Delete a single prescription note by ID
   async deleteSinglePrescriptionNote(noteId: number): Promise<void> {
     try {
-      await this.makeRequest(`/note/${noteId}`, {
-        method: 'DELETE',
-      });
+      await httpClient.delete(`${this.basePath}/note/${noteId}`);
     } catch (error) {
       console.error('Error deleting single prescription note:', error);
       throw error;
@@ -164,10 +103,7 @@ class PrescriptionService {
         prescription: prescriptions
       };
 
-      return await this.makeRequest<PrescriptionApiResponse>(`/${appointmentId}`, {
-        method: 'PUT',
-        body: JSON.stringify(payload),
-      });
+      return await httpClient.put<PrescriptionApiResponse>(`${this.basePath}/${appointmentId}`, payload);
     } catch (error) {
       console.error('Error updating prescription notes:', error);
       throw error;
@@ -177,9 +113,7 @@ class PrescriptionService {
   // Delete prescription notes for an appointment
   async deletePrescriptionNotes(appointmentId: number): Promise<void> {
     try {
-      await this.makeRequest(`/${appointmentId}`, {
-        method: 'DELETE',
-      });
+      await httpClient.delete(`${this.basePath}/${appointmentId}`);
     } catch (error) {
       console.error('Error deleting prescription notes:', error);
       throw error;
@@ -231,24 +165,6 @@ class PrescriptionService {
     return notes.filter(note => !mainFields.includes(note.prescription));
   }
 
-  // Get authentication token from localStorage
-  private getAuthToken(): string | null {
-    // Check if localStorage is available (browser environment)
-    if (typeof window !== 'undefined' && window.localStorage) {
-      const tokensString = localStorage.getItem('auth_tokens');
-      if (tokensString) {
-        try {
-          const tokens = JSON.parse(tokensString);
-          return tokens.access_token || null;
-        } catch (error) {
-          console.error('Failed to parse auth tokens:', error);
-          return null;
-        }
-      }
-    }
-    return null;
-  }
-
   // Utility method to format prescription data for display
   formatPrescriptionForDisplay(note: PrescriptionNote) {
     return {
@@ -1,55 +1,34 @@
 // services/registrationApi.ts
 
-import axios from 'axios';
-import SessionStorageService from './sessionStorage.service';
-import { RegistrationFormData, TimeSlot } from '../types/registration';
-
-
-
-const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:3000/api/v1';
-
-const api = axios.create({
-  baseURL: API_BASE_URL,
-  headers: {
-    'Content-Type': 'application/json',
-  },
-});
-
-// Request interceptor for auth token if needed
-api.interceptors.request.use((config) => {
-  const tokens = SessionStorageService.getTokens();
-  if (tokens?.access_token) {
-    config.headers.Authorization = `Bearer ${tokens.access_token}`;
-  }
-  return config;
-});
-
-// Response interceptor for error handling
-api.interceptors.response.use(
-  (response) => response,
-  (error) => {
-    console.error('API Error:', error);
-    return Promise.reject(error);
-  }
-);
+import { httpClient } from './httpClient';
+import {
+  BookAppointmentResponse,
+  RegistrationFormData,
+  TimeSlot,
+  ReturningPatientCodeRequest,
+  ReturningPatientCodeResponse,
+  ReturningPatientVerifyResponse,
+  SlotHold,
+  SlotHoldRequest
+} from '../types/registration';
 
 export const registrationApi = {
   // Submit complete registration
   submitRegistration: async (formData: RegistrationFormData) => {
-    const response = await api.post('/registrations', formData);
-    return response.data;
+    return httpClient.post('/registrations', formData);
   },
 
   // Get available appointment slots for a specific date
   getAvailableSlots: async (date: string): Promise<TimeSlot[]> => {
-    const response = await api.get(`/appointments/slots?date=${date}`);
-    return response.data as TimeSlot[];
+    return httpClient.get<TimeSlot[]>('/appointments/slots', { params: { date } });
   },
 
   // Check if a date has available appointments
   checkDateAvailability: async (date: string): Promise<boolean> => {
-    const response = await api.get(`/appointments/availability?date=${date}`);
-    return (response.data as TimeSlot).available;
+    const response = await httpClient.get<TimeSlot>('/appointments/availability', {
+      params: { date },
+    });
+    return response.available;
   },
 
   // Upload files
@@ -60,63 +39,80 @@ export const registrationApi = {
     });
     formData.append('category', category);
 
-    const response = await api.post('/uploads', formData, {
-      headers: {
-        'Content-Type': 'multipart/form-data',
-      },
-    });
-
-    return response.data;
+    return httpClient.post('/uploads', formData);
   },
 
   // Get registration by ID
   getRegistration: async (id: string) => {
-    const response = await api.get(`/registrations/${id}`);
-    return response.data;
+    return httpClient.get(`/registrations/${id}`);
   },
 
   // Update registration
   updateRegistration: async (id: string, data: Partial<RegistrationFormData>) => {
-    const response = await api.put(`/registrations/${id}`, data);
-    return response.data;
+    return httpClient.put(`/registrations/${id}`, data);
   },
 
   // Delete registration
   deleteRegistration: async (id: string) => {
-    const response = await api.delete(`/registrations/${id}`);
-    return response.data;
+    return httpClient.delete(`/registrations/${id}`);
   },
 
-  // Book an appointment (with file uploads)
-  bookAppointment: async (formData: FormData) => {
-    const response = await api.post('/patients/appointments', formData, {
-      headers: {
-        'Content-Type': 'multipart/form-data',
-      },
+  // Book an appointment (with file uploads). Keyed by the payment order so a
+  // retried submission never creates a second appointment.
+  bookAppointment: async (formData: FormData, idempotencyKey?: string) => {
+    return httpClient.post<BookAppointmentResponse>('/patients/appointments', formData, {
+      headers: idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : undefined,
     });
-    return response.data;
   },
 
-  // Fetch available slots for a patient and date
+  // Send a one-time code to a returning patient's phone or email
+  requestReturningPatientCode: async (request: ReturningPatientCodeRequest) => {
+    return httpClient.post<ReturningPatientCodeResponse>(
+      '/patients/patient_lookups',
+      request,
+      { auth: false }
+    );
+  },
+
+  // Exchange the code for the patient's details and follow-up pricing
+  verifyReturningPatientCode: async (verificationId: string, code: string) => {
+    return httpClient.post<ReturningPatientVerifyResponse>(
+      `/patients/patient_lookups/${verificationId}/verify`,
+      { code },
+      { auth: false }
+    );
+  },
+
+  // Reserve a slot for the duration of checkout; 409 when someone else has it
+  holdSlot: async (request: SlotHoldRequest) => {
+    return httpClient.post<SlotHold>('/patients/slot_holds', request, { auth: false });
+  },
+
+  // Give a held slot back early (payment dismissed, slot changed)
+  releaseSlotHold: async (holdId: string) => {
+    return httpClient.delete<void>(`/patients/slot_holds/${holdId}`, { auth: false });
+  },
+
+  // Fetch available slots for a patient and date, sized for the consultation type when given
   getAvailableSchedule: async (
     patientId: string,
     date: string,
-    isAlreadyRegistered: boolean
+    isAlreadyRegistered: boolean,
+    options: { consultationType?: string; durationMinutes?: number; signal?: AbortSignal } = {}
   ) => {
-    const response = await api.get(
+    return httpClient.get<unknown>(
       `/patients/patient_registrations/${patientId}/check_available_schedule`,
       {
         params: {
           date,
           is_already_registered: isAlreadyRegistered,
+          consultation_type: options.consultationType,
+          duration_minutes: options.durationMinutes,
         },
-        headers: {
-          Accept: 'application/json',
-        },
+        signal: options.signal,
       }
-    );
-    return response.data; // Adjust if the API returns a nested structure
+    ); // Adjust if the API returns a nested structure
   },
 };
 
-export default registrationApi;
\ No newline at end of file
+export default registrationApi;
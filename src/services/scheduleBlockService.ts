@@ -0,0 +1,59 @@
+// services/scheduleBlockService.ts
+import { httpClient } from './httpClient';
+import type {
+  AffectedBookingsResponse,
+  CreateScheduleBlockRequest,
+  ScheduleBlock,
+  ScheduleBlocksResponse
+} from '../types/schedule';
+
+/**
+ * Leave and holiday ranges. The backend stops offering slots on blocked
+ * dates but leaves bookings already inside a new range alone until staff
+ * reschedule them or ask the patients to rebook.
+ */
+export class ScheduleBlockService {
+  private basePath = '/admin/schedule_blocks';
+
+  async getBlocks(params?: {
+    start_date?: string; // YYYY-MM-DD; blocks overlapping the range
+    end_date?: string;
+  }) {
+    return httpClient.toResult(
+      httpClient.get<ScheduleBlocksResponse>(this.basePath, { params })
+    );
+  }
+
+  async createBlock(scheduleBlock: CreateScheduleBlockRequest) {
+    return httpClient.toResult(
+      httpClient.post<ScheduleBlock>(this.basePath, { schedule_block: scheduleBlock })
+    );
+  }
+
+  // Several blocks in one request, e.g. holidays read from an iCal file
+  async importBlocks(scheduleBlocks: CreateScheduleBlockRequest[]) {
+    return httpClient.toResult(
+      httpClient.post<ScheduleBlocksResponse>(`${this.basePath}/import`, { schedule_blocks: scheduleBlocks })
+    );
+  }
+
+  async deleteBlock(id: number) {
+    return httpClient.toResult(httpClient.delete<void>(`${this.basePath}/${id}`));
+  }
+
+  // Move every booking inside the block to the nearest free slot after it
+  async rescheduleBookings(id: number) {
+    return httpClient.toResult(
+      httpClient.post<AffectedBookingsResponse>(`${this.basePath}/${id}/reschedule_bookings`, {})
+    );
+  }
+
+  // Email the patients booked inside the block and ask them to pick a new time
+  async notifyPatients(id: number) {
+    return httpClient.toResult(
+      httpClient.post<AffectedBookingsResponse>(`${this.basePath}/${id}/notify_patients`, {})
+    );
+  }
+}
+
+export const scheduleBlockService = new ScheduleBlockService();
@@ -1,5 +1,5 @@
 // services/scheduleService.ts
-import { apiClient } from './apiClient';
+import { httpClient } from './httpClient';
 import type { Schedule, CreateScheduleRequest, UpdateScheduleRequest, ScheduleResponse } from '../types/schedule';
 
 export class ScheduleService {
@@ -11,17 +11,9 @@ export class ScheduleService {
     status?: string;
     day?: string;
   }) {
-    const queryParams = new URLSearchParams();
-    
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.per_page) queryParams.append('per_page', params.per_page.toString());
-    if (params?.status) queryParams.append('status', params.status);
-    if (params?.day) queryParams.append('day', params.day);
-    
-    const queryString = queryParams.toString();
-    const endpoint = `${this.basePath}/all_days${queryString ? `?${queryString}` : ''}`;
-    
-    return apiClient.get<ScheduleResponse>(endpoint);
+    return httpClient.toResult(
+      httpClient.get<ScheduleResponse>(`${this.basePath}/all_days`, { params })
+    );
   }
 
   async getCustomSchedules(params?: {
@@ -29,55 +21,55 @@ export class ScheduleService {
     per_page?: number;
     status?: string;
     day?: string;
+    start_date?: string; // YYYY-MM-DD, inclusive
+    end_date?: string;
   }) {
-    const queryParams = new URLSearchParams();
-    
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.per_page) queryParams.append('per_page', params.per_page.toString());
-    if (params?.status) queryParams.append('status', params.status);
-    if (params?.day) queryParams.append('day', params.day);
-    
-    const queryString = queryParams.toString();
-    const endpoint = `${this.basePath}/next_schedules${queryString ? `?${queryString}` : ''}`;
-    
-    return apiClient.get<ScheduleResponse>(endpoint);
+    return httpClient.toResult(
+      httpClient.get<ScheduleResponse>(`${this.basePath}/next_schedules`, { params })
+    );
   }
 
   async getSchedule(id: number) {
-    return apiClient.get<Schedule>(`${this.basePath}/${id}`);
+    return httpClient.toResult(httpClient.get<Schedule>(`${this.basePath}/${id}`));
   }
 
   async createSchedule(schedule: CreateScheduleRequest) {
-    return apiClient.post<Schedule>(this.basePath, { schedule });
+    return httpClient.toResult(httpClient.post<Schedule>(this.basePath, { schedule }));
   }
 
   async updateSchedule(id: number, schedule: UpdateScheduleRequest) {
-    return apiClient.put<Schedule>(`${this.basePath}/${id}`, { schedule });
+    return httpClient.toResult(httpClient.put<Schedule>(`${this.basePath}/${id}`, { schedule }));
   }
 
   // NEW: Update schedule by day (for general schedules)
   async updateScheduleByDay(day: string, schedule: UpdateScheduleRequest) {
-    return apiClient.put<Schedule>(`${this.basePath}/update_by_day`, { 
-      day, 
-      schedule 
-    });
+    return httpClient.toResult(
+      httpClient.put<Schedule>(`${this.basePath}/update_by_day`, {
+        day,
+        schedule
+      })
+    );
   }
 
   // NEW: Update schedule by date (for custom schedules)
   async updateScheduleByDate(scheduledDate: string, schedule: UpdateScheduleRequest) {
-    return apiClient.put<Schedule>(`${this.basePath}/update_by_date`, { 
-      scheduled_date: scheduledDate, 
-      schedule 
-    });
+    return httpClient.toResult(
+      httpClient.put<Schedule>(`${this.basePath}/update_by_date`, {
+        scheduled_date: scheduledDate,
+        schedule
+      })
+    );
   }
 
   async deleteSchedule(id: number) {
-    return apiClient.delete<void>(`${this.basePath}/${id}`);
+    return httpClient.toResult(httpClient.delete<void>(`${this.basePath}/${id}`));
   }
 
   async toggleScheduleStatus(id: number) {
-    return apiClient.put<{ message: string; schedule: Schedule }>(`${this.basePath}/${id}/toggle_status`, {});
+    return httpClient.toResult(
+      httpClient.put<{ message: string; schedule: Schedule }>(`${this.basePath}/${id}/toggle_status`, {})
+    );
   }
 }
 
-export const scheduleService = new ScheduleService();
\ No newline at end of file
+export const scheduleService = new ScheduleService();
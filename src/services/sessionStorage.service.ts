@@ -1,8 +1,14 @@
 import type { User, AuthTokens } from '../types/auth.types';
+import { AUTH_STORAGE_MODE, CSRF_COOKIE_NAME } from '../constants/session';
 
 class SessionStorageService {
   private static readonly USER_KEY = 'user_data';
   private static readonly TOKENS_KEY = 'auth_tokens';
+  private static readonly SESSION_KEY = 'session_active';
+  private static readonly ACTIVITY_KEY = 'last_activity_at';
+
+  // Cookie mode keeps the access token out of any storage XSS could read at rest
+  private static memoryAccessToken: string | null = null;
 
   // User methods
   static setUser(user: User): void {
@@ -39,7 +45,18 @@ class SessionStorageService {
   }
 
   // Token methods
+  static get usesCookieSession(): boolean {
+    return AUTH_STORAGE_MODE === 'cookie';
+  }
+
   static setTokens(tokens: AuthTokens): void {
+    if (this.usesCookieSession) {
+      // The refresh token never reaches JS in cookie mode, only a session marker is shared
+      this.memoryAccessToken = tokens.access_token;
+      this.setSessionMarker();
+      return;
+    }
+
     try {
       const tokensString = JSON.stringify(tokens);
       localStorage.setItem(this.TOKENS_KEY, tokensString);
@@ -50,6 +67,12 @@ class SessionStorageService {
   }
 
   static getTokens(): AuthTokens | null {
+    if (this.usesCookieSession) {
+      return this.memoryAccessToken
+        ? { access_token: this.memoryAccessToken, refresh_token: '' }
+        : null;
+    }
+
     try {
       const tokensString = localStorage.getItem(this.TOKENS_KEY);
       
@@ -73,7 +96,33 @@ class SessionStorageService {
     }
   }
 
+  static getAccessToken(): string | null {
+    return this.getTokens()?.access_token || null;
+  }
+
+  // Null in cookie mode, where the browser sends the refresh cookie itself
+  static getRefreshToken(): string | null {
+    return this.getTokens()?.refresh_token || null;
+  }
+
+  // True when a signed-in session exists, even if this tab has no access token yet
+  static hasSession(): boolean {
+    if (this.usesCookieSession) {
+      return localStorage.getItem(this.SESSION_KEY) !== null;
+    }
+    return this.getTokens() !== null;
+  }
+
+  static canRefresh(): boolean {
+    return this.usesCookieSession ? this.hasSession() : this.getRefreshToken() !== null;
+  }
+
   static updateAccessToken(accessToken: string): void {
+    if (this.usesCookieSession) {
+      this.memoryAccessToken = accessToken;
+      return;
+    }
+
     try {
       const tokens = this.getTokens();
       if (tokens) {
@@ -90,33 +139,99 @@ class SessionStorageService {
   }
 
   static clearTokens(): void {
+    this.memoryAccessToken = null;
     try {
       localStorage.removeItem(this.TOKENS_KEY);
+      localStorage.removeItem(this.SESSION_KEY);
     } catch (error) {
       console.error('Failed to clear tokens:', error);
     }
   }
 
+  // Value of the API's CSRF cookie, echoed back on state-changing requests in cookie mode
+  static getCsrfToken(): string | null {
+    const prefix = `${CSRF_COOKIE_NAME}=`;
+    const cookie = document.cookie
+      .split(';')
+      .map(part => part.trim())
+      .find(part => part.startsWith(prefix));
+
+    return cookie ? decodeURIComponent(cookie.slice(prefix.length)) : null;
+  }
+
+  private static setSessionMarker(): void {
+    try {
+      localStorage.setItem(this.SESSION_KEY, Date.now().toString());
+    } catch (error) {
+      console.error('Failed to store session marker:', error);
+    }
+  }
+
   // Token validation
   static isTokenExpired(token: string): boolean {
+    const expiresAt = this.getTokenExpiry(token);
+    return expiresAt === null || expiresAt < Date.now();
+  }
+
+  // JWT `exp` claim in milliseconds, or null when the token cannot be decoded
+  static getTokenExpiry(token: string): number | null {
     try {
-      if (!token) return true;
-      
+      if (!token) return null;
+
       const payload = JSON.parse(atob(token.split('.')[1]));
-      const currentTime = Math.floor(Date.now() / 1000);
-      
-      return payload.exp < currentTime;
+      return typeof payload.exp === 'number' ? payload.exp * 1000 : null;
     } catch (error) {
       console.error('Failed to check token expiry:', error);
-      return true;
+      return null;
     }
   }
 
+  // Notifies when another tab logs in (true), refreshes (true) or logs out (false)
+  static onSessionChanged(callback: (active: boolean) => void): () => void {
+    const key = this.usesCookieSession ? this.SESSION_KEY : this.TOKENS_KEY;
+
+    const handleStorage = (event: StorageEvent) => {
+      if (event.storageArea !== localStorage || event.key !== key) return;
+      callback(event.newValue !== null);
+    };
+
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }
+
+  // Activity timestamps are shared so one busy tab keeps the others alive
+  static setLastActivity(timestamp: number = Date.now()): void {
+    try {
+      localStorage.setItem(this.ACTIVITY_KEY, timestamp.toString());
+    } catch (error) {
+      console.error('Failed to store activity timestamp:', error);
+    }
+  }
+
+  static getLastActivity(): number | null {
+    const value = Number(localStorage.getItem(this.ACTIVITY_KEY));
+    return Number.isFinite(value) && value > 0 ? value : null;
+  }
+
+  static onActivity(callback: (timestamp: number) => void): () => void {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.storageArea !== localStorage || event.key !== this.ACTIVITY_KEY) return;
+      const timestamp = Number(event.newValue);
+      if (Number.isFinite(timestamp) && timestamp > 0) {
+        callback(timestamp);
+      }
+    };
+
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }
+
   // Clear all data
   static clearAll(): void {
     try {
       this.clearUser();
       this.clearTokens();
+      localStorage.removeItem(this.ACTIVITY_KEY);
       console.log('All session data cleared');
     } catch (error) {
       console.error('Failed to clear all session data:', error);
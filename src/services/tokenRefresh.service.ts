@@ -0,0 +1,80 @@
+// services/tokenRefresh.service.ts
+import SessionStorageService from './sessionStorage.service';
+
+// Exchanges a refresh token for a new access token (null when it lives in a cookie)
+type RefreshHandler = (refreshToken: string | null) => Promise<string>;
+type TokenRefreshedListener = (accessToken: string) => void;
+type SessionExpiredListener = () => void;
+
+class TokenRefreshCoordinator {
+  private refreshHandler: RefreshHandler | null = null;
+  private pendingRefresh: Promise<string> | null = null;
+  private refreshedListeners = new Set<TokenRefreshedListener>();
+  private expiredListeners = new Set<SessionExpiredListener>();
+
+  setRefreshHandler(handler: RefreshHandler): void {
+    this.refreshHandler = handler;
+  }
+
+  get isRefreshing(): boolean {
+    return this.pendingRefresh !== null;
+  }
+
+  // Resolves once the in-flight refresh settles, whatever its outcome
+  async waitForRefresh(): Promise<void> {
+    if (this.pendingRefresh) {
+      await this.pendingRefresh.catch(() => undefined);
+    }
+  }
+
+  // Single-flight refresh: concurrent callers share the same request
+  refresh(): Promise<string> {
+    if (this.pendingRefresh) {
+      return this.pendingRefresh;
+    }
+
+    if (!SessionStorageService.canRefresh() || !this.refreshHandler) {
+      this.expireSession();
+      return Promise.reject(new Error('No refresh token available'));
+    }
+
+    this.pendingRefresh = this.refreshHandler(SessionStorageService.getRefreshToken())
+      .then(accessToken => {
+        SessionStorageService.updateAccessToken(accessToken);
+        this.refreshedListeners.forEach(listener => listener(accessToken));
+        return accessToken;
+      })
+      .catch(error => {
+        console.error('Token refresh failed:', error);
+        this.expireSession();
+        throw error;
+      })
+      .finally(() => {
+        this.pendingRefresh = null;
+      });
+
+    return this.pendingRefresh;
+  }
+
+  onTokenRefreshed(listener: TokenRefreshedListener): () => void {
+    this.refreshedListeners.add(listener);
+    return () => {
+      this.refreshedListeners.delete(listener);
+    };
+  }
+
+  onSessionExpired(listener: SessionExpiredListener): () => void {
+    this.expiredListeners.add(listener);
+    return () => {
+      this.expiredListeners.delete(listener);
+    };
+  }
+
+  private expireSession(): void {
+    SessionStorageService.clearAll();
+    this.expiredListeners.forEach(listener => listener());
+  }
+}
+
+export const tokenRefreshCoordinator = new TokenRefreshCoordinator();
+export default TokenRefreshCoordinator;
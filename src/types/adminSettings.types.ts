@@ -0,0 +1,68 @@
+// types/adminSettings.types.ts
+
+export interface AdminUser {
+  id: number;
+  first_name: string;
+  last_name: string;
+  email_address: string;
+  phone_number: string;
+  mfa_enabled?: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+// A bookable kind of consultation with its own length and price
+export interface ConsultationType {
+  key: string; // 'initial', 'follow_up', or a slug for custom types such as 'second_opinion'
+  name: string;
+  duration_minutes: number;
+  price: string; // Domestic (INR) tier
+  international_price: string;
+}
+
+export interface ConsultationService {
+  id: number;
+  service_name: string;
+  initial_consultation_price: string;
+  follow_up_consultation_price: string;
+  initial_slot_duration_minutes: number;
+  follow_up_slot_duration_minutes: number;
+  // International tier; the prices above are the domestic (INR) tier
+  international_currency: string;
+  international_initial_consultation_price: string;
+  international_follow_up_consultation_price: string;
+  // Offered alongside initial and follow-up consultations
+  consultation_types?: ConsultationType[];
+  time_zone?: string; // IANA zone slots are published in, e.g. 'Asia/Kolkata'
+  created_at: string;
+  updated_at: string;
+}
+
+// Printed on receipts and invoices
+export interface ClinicDetails {
+  name: string;
+  address?: string;
+  phone?: string;
+  email?: string;
+  tax_id?: string;
+}
+
+export interface AdminSettings {
+  admin_user: AdminUser;
+  consultation_service: ConsultationService;
+  clinic_details?: ClinicDetails;
+}
+
+export interface UpdateAdminSettingsRequest {
+  first_name?: string;
+  last_name?: string;
+  phone_number?: string;
+  initial_consultation_price?: string;
+  follow_up_consultation_price?: string;
+  initial_slot_duration_minutes?: number;
+  follow_up_slot_duration_minutes?: number;
+  international_currency?: string;
+  international_initial_consultation_price?: string;
+  international_follow_up_consultation_price?: string;
+  consultation_types?: ConsultationType[];
+}
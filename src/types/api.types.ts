@@ -0,0 +1,26 @@
+// types/api.types.ts
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export type QueryParams = Record<string, string | number | boolean | null | undefined>;
+
+export interface RequestOptions {
+  params?: QueryParams;
+  headers?: Record<string, string>;
+  signal?: AbortSignal;
+  auth?: boolean; // Attach the stored bearer token (defaults to true)
+}
+
+// Error body as returned by the Rails API, normalized by the http client
+export interface ApiErrorResponse {
+  error?: string;
+  errors?: string[];
+  message?: string;
+}
+
+// Non-throwing result shape used by the schedule screens
+export interface ApiResult<T> {
+  data?: T;
+  error?: string;
+  errors?: string[];
+}
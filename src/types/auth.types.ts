@@ -1,10 +1,28 @@
 // types/auth.types.ts
 
+export type Role = 'admin' | 'doctor' | 'receptionist';
+
+export type Permission =
+  | 'dashboard:view'
+  | 'appointments:view'
+  | 'appointments:reschedule'
+  | 'consultations:start'
+  | 'prescriptions:edit'
+  | 'patients:view'
+  | 'patients:edit'
+  | 'patients:delete'
+  | 'schedule:manage'
+  | 'analytics:view'
+  | 'payments:view'
+  | 'payments:refund'
+  | 'profile:view'
+  | 'settings:manage';
+
 export interface User {
   id: string;
   email_address: string;
   full_name: string;
-  role: string;
+  role: string; // Expected to be a Role; unknown values are granted no permissions
   created_at: string;
   updated_at: string;
 }
@@ -22,7 +40,31 @@ export interface LoginCredentials {
 export interface LoginResponse {
   user: User;
   access_token: string;
-  refresh_token: string;
+  refresh_token?: string; // Omitted when the API sets an httpOnly refresh cookie
+  message: string;
+}
+
+// Returned by /auth/login instead of tokens when the account has TOTP enabled
+export interface MfaChallengeResponse {
+  mfa_required: true;
+  mfa_token: string; // Short-lived ticket binding the second step to the password step
+  message?: string;
+}
+
+export interface MfaVerifyRequest {
+  mfa_token: string;
+  code?: string;
+  backup_code?: string;
+}
+
+export interface MfaEnrollmentResponse {
+  secret: string;
+  provisioning_uri: string;
+  qr_code: string; // Image data URI rendered by the API
+}
+
+export interface MfaConfirmEnrollmentResponse {
+  backup_codes: string[];
   message: string;
 }
 
@@ -34,6 +76,23 @@ export interface ForgotPasswordResponse {
   message: string;
 }
 
+export interface ResetPasswordRequest {
+  token: string;
+  password: string;
+  password_confirmation: string;
+}
+
+// Tokens are included when the API signs the user straight in after a reset
+export interface ResetPasswordResponse extends Partial<LoginResponse> {
+  message: string;
+}
+
+export interface ResetTokenStatus {
+  valid: boolean;
+  email_address?: string;
+  reason?: 'expired' | 'used' | 'invalid';
+}
+
 export interface RefreshTokenRequest {
   refresh_token: string;
 }
@@ -50,12 +109,16 @@ export interface AuthState {
   isLoading: boolean;
   error: string | null;
   isInitialized: boolean;
+  mfaToken: string | null; // Set while the login waits for a second factor
 }
 
 export interface AuthContextType extends AuthState {
   login: (credentials: LoginCredentials) => Promise<void>;
+  verifyMfa: (code: string, isBackupCode?: boolean) => Promise<void>;
+  cancelMfa: () => void;
   logout: () => void;
   forgotPassword: (email: string) => Promise<void>;
+  resetPassword: (request: ResetPasswordRequest) => Promise<boolean>;
   refreshToken: () => Promise<boolean>;
   clearError: () => void;
 }
\ No newline at end of file
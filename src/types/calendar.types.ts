@@ -0,0 +1,17 @@
+// types/calendar.types.ts
+
+// One appointment as it goes into a calendar invite
+export interface CalendarEvent {
+  uid: string;
+  title: string;
+  description?: string;
+  location?: string;
+  url?: string;
+  start: Date;
+  end: Date;
+}
+
+export interface TimeInterval {
+  start: Date;
+  end: Date;
+}
@@ -0,0 +1,39 @@
+// types/currency.types.ts
+
+// 'backend': our API, 'provider': a third-party endpoint set in configuration
+export type ExchangeRateSource = 'backend' | 'provider';
+
+// Consultation price list: 'domestic' in INR for patients in India, 'international' for everyone else
+export type PricingTier = 'domestic' | 'international';
+
+export interface CurrencyOption {
+  code: string;
+  name: string;
+}
+
+// Rates from the base currency, e.g. { USD: 0.012 } for INR -> USD
+export interface ExchangeRateSnapshot {
+  base: string;
+  rates: Record<string, number>;
+  asOf: number; // When the source published the rates (epoch ms)
+  fetchedAt: number; // When this browser last got them (epoch ms)
+  source: ExchangeRateSource;
+}
+
+export interface ExchangeRateQuote {
+  base: string;
+  currency: string;
+  rate: number;
+  asOf: number;
+  source: ExchangeRateSource;
+  isStale: boolean;
+  // True when the source could not be reached and saved rates were used
+  isOffline: boolean;
+}
+
+// GET /exchange_rates
+export interface ExchangeRatesResponse {
+  base: string;
+  rates: Record<string, number>;
+  as_of: string;
+}
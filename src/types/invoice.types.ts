@@ -0,0 +1,88 @@
+// types/invoice.types.ts
+import type { ClinicDetails } from './adminSettings.types';
+import type { PaymentGatewayId } from './payment.types';
+
+// 'due' for bookings paid at the clinic
+export type InvoiceStatus = 'paid' | 'due' | 'refunded';
+
+export interface InvoiceParty {
+  name: string;
+  email?: string;
+  phone?: string;
+  address?: string;
+}
+
+export interface InvoiceAppointment {
+  id?: number | string;
+  date: string;
+  time: string;
+  timeZone: string; // Clinic zone the date and time are in
+  durationMinutes?: number;
+}
+
+export interface InvoicePayment {
+  gateway: PaymentGatewayId;
+  paymentId: string | null;
+  orderId: string;
+}
+
+// Amounts in major units, in the currency the patient paid in
+export interface InvoiceLineItem {
+  description: string;
+  quantity: number;
+  unitAmount: number;
+  amount: number;
+}
+
+export interface Invoice {
+  invoiceNumber: string;
+  issuedAt: string;
+  status: InvoiceStatus;
+  clinic: ClinicDetails;
+  billedTo: InvoiceParty;
+  appointment: InvoiceAppointment;
+  items: InvoiceLineItem[];
+  total: number;
+  currency: string;
+  payment: InvoicePayment;
+  notes?: string;
+}
+
+// Numbers come from a server-side sequence; the same order always gets the same number
+export interface IssueInvoiceRequest {
+  order_id: string;
+  payment_id: string | null;
+  gateway: PaymentGatewayId;
+  amount: number; // Major units
+  currency: string;
+  // Recorded with the first issue only; reissues get the recorded values back
+  billed_to?: InvoiceParty;
+  consultation_name?: string; // Custom consultation types only
+  duration_minutes?: number;
+}
+
+// Everything printed here is fixed when the number is first issued, so every copy matches
+export interface IssuedInvoice {
+  invoice_number: string;
+  issued_at: string;
+  clinic: ClinicDetails;
+  service_name?: string;
+  billed_to?: InvoiceParty;
+  consultation_name?: string;
+  duration_minutes?: number;
+}
+
+// Everything a receipt is built from
+export interface InvoiceSource {
+  issued: IssuedInvoice;
+  billedTo: InvoiceParty;
+  appointment: InvoiceAppointment;
+  isFollowUp?: boolean;
+  consultationName?: string; // Custom consultation types; initial or follow-up otherwise
+  listPrice?: number; // Consultation price from settings, in listCurrency
+  listCurrency?: string; // INR when absent
+  amount: number; // Amount actually charged, major units
+  currency: string;
+  payment: InvoicePayment;
+  status: InvoiceStatus;
+}
@@ -0,0 +1,84 @@
+// types/patientPortal.types.ts
+import type { PaymentGatewayId } from './payment.types';
+import type { ConsultationOption, ReturningPatientCodeResponse, ReturningPatientProfile } from './registration';
+
+// "Manage my booking": patients sign in with their appointment code and a one-time code
+
+export interface PortalCodeResponse extends ReturningPatientCodeResponse {
+  masked_destination: string; // Where the code went; the appointment code already identifies the booking
+}
+
+export interface PortalSession {
+  access_token: string;
+  expires_at: string; // ISO timestamp
+  patient: ReturningPatientProfile;
+}
+
+export type PortalAppointmentStatus = 'booked' | 'completed' | 'cancelled' | 'no_show';
+
+export interface PortalPrescription {
+  id: number;
+  title: string;
+  issued_at: string;
+  pdf_url: string; // Short-lived signed link
+}
+
+export interface PortalAppointment {
+  id: number;
+  code: string;
+  status: PortalAppointmentStatus;
+  slot_date: string; // YYYY-MM-DD, clinic time
+  slot_time: string; // HH:MM-HH:MM, clinic time
+  is_follow_up: boolean;
+  consultation_type?: ConsultationOption; // Absent on bookings made before consultation types
+  meet_link: string | null;
+  amount: number; // Major units
+  currency: string;
+  payment_gateway: PaymentGatewayId | null;
+  paid: boolean;
+  reschedule_count: number;
+  prescriptions: PortalPrescription[];
+}
+
+// Set by the clinic; the API enforces the same rules
+export interface BookingPolicy {
+  reschedule_cutoff_hours: number; // No changes closer to the appointment than this
+  max_reschedules: number;
+  cancellation_cutoff_hours: number;
+  full_refund_cutoff_hours: number; // Cancelling earlier than this refunds everything
+  late_refund_percent: number; // Refunded when cancelling after the full-refund cutoff
+}
+
+export interface PortalAppointmentsResponse {
+  upcoming: PortalAppointment[];
+  past: PortalAppointment[];
+  policy: BookingPolicy;
+  time_zone?: string; // IANA zone the slot dates and times are in
+}
+
+export interface PortalRescheduleRequest {
+  slot_date: string;
+  slot_time: string;
+  schedule_id?: string;
+  consultation_type?: string;
+}
+
+export type PortalRefundStatus = 'none' | 'pending' | 'processed';
+
+export interface PortalCancelResponse {
+  appointment: PortalAppointment;
+  refund: {
+    status: PortalRefundStatus;
+    amount: number; // Major units
+    currency: string;
+  };
+}
+
+// What the patient may do with one appointment right now, and why not
+export interface BookingActions {
+  canReschedule: boolean;
+  rescheduleBlockedReason?: string;
+  canCancel: boolean;
+  cancelBlockedReason?: string;
+  refundPercent: number; // 0-100, for paid online bookings
+}
@@ -0,0 +1,127 @@
+// types/payment.types.ts
+import type { PricingTier } from './currency.types';
+
+// 'razorpay': online checkout, 'clinic': pay at the front desk, 'mock': local test gateway
+export type PaymentGatewayId = 'razorpay' | 'clinic' | 'mock';
+
+export type MockPaymentOutcome = 'success' | 'failure' | 'dismiss' | 'pending';
+
+// Checkout key and branding come from the API with each order
+export interface PaymentOrder {
+  id: string;
+  gateway: PaymentGatewayId;
+  amount: number; // Smallest currency unit
+  currency: string;
+  receipt: string;
+  status: string;
+  key_id?: string;
+  theme_color?: string;
+}
+
+export interface CheckoutOptions {
+  name: string;
+  description: string;
+  prefill?: {
+    name?: string;
+    email?: string;
+    contact?: string;
+  };
+  notes?: Record<string, string>;
+  callback_url?: string;
+}
+
+// Gateway-neutral result of a completed checkout
+export interface PaymentResult {
+  gateway: PaymentGatewayId;
+  paymentId: string;
+  orderId: string;
+  signature?: string;
+}
+
+export interface PaymentStatus {
+  payment_id: string;
+  order_id: string;
+  amount: number;
+  currency: string;
+  status: string;
+  method: string;
+  captured: boolean;
+  created_at: number;
+}
+
+export interface RefundResult {
+  refund_id: string;
+  payment_id: string;
+  amount: number;
+  status: 'processed' | 'pending' | 'failed' | 'not_applicable';
+}
+
+export type PaymentOutcome = 'paid' | 'pending' | 'failed';
+
+// What is needed to finish a booking if the tab closes mid-checkout
+export interface PendingCheckout {
+  order: PaymentOrder;
+  slotDate: string;
+  slotTime: string;
+  scheduleId?: string;
+  displayAmount: number; // Major units, as shown to the patient
+  pricingTier?: PricingTier;
+  listPrice?: number; // Tier price before conversion, major units
+  listCurrency?: string;
+  payment?: PaymentResult;
+  savedAt: number;
+}
+
+/**
+ * One payment provider. Checkout rejects with a message containing
+ * "cancelled" when the patient closes it without paying.
+ */
+export interface PaymentGateway {
+  readonly id: PaymentGatewayId;
+  readonly label: string;
+  // False when the money is collected later, outside the app
+  readonly collectsOnline: boolean;
+  createOrder(amount: number, currency: string, receipt?: string): Promise<PaymentOrder>;
+  openCheckout(order: PaymentOrder, options: CheckoutOptions): Promise<PaymentResult>;
+  verifyPayment(payment: PaymentResult): Promise<boolean>;
+  getPaymentStatus(paymentId: string): Promise<PaymentStatus>;
+  refund(paymentId: string, amount?: number): Promise<RefundResult>;
+}
+
+// Admin payments screen
+export type AdminPaymentStatus = 'created' | 'authorized' | 'captured' | 'failed' | 'refunded' | 'partially_refunded' | 'due';
+
+// One order as recorded by the server, joined with its patient and appointment
+export interface AdminPayment {
+  id: number;
+  order_id: string;
+  payment_id: string | null;
+  gateway: PaymentGatewayId;
+  patient_id: number | null;
+  patient_name: string;
+  patient_email?: string;
+  patient_phone?: string;
+  appointment_id: number | null;
+  is_follow_up?: boolean;
+  consultation_type?: string; // Key of the booked consultation type
+  slot_date?: string;
+  slot_time?: string;
+  amount: number; // Smallest currency unit
+  amount_refunded: number; // Smallest currency unit
+  currency: string;
+  pricing_tier?: PricingTier;
+  list_price?: string | null; // Consultation price recorded with the booking, in list_currency
+  list_currency?: string | null;
+  method: string | null;
+  status: AdminPaymentStatus;
+  captured: boolean;
+  created_at: string;
+}
+
+export interface AdminPaymentFilters {
+  start_date?: string;
+  end_date?: string;
+  status?: AdminPaymentStatus;
+  page?: number;
+  per_page?: number;
+}
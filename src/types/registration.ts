@@ -1,3 +1,6 @@
+import type { Invoice } from './invoice.types';
+import type { PaymentGatewayId } from './payment.types';
+
 export interface PersonalInfo {
   name: string;
   phone: string;
@@ -9,8 +12,22 @@ export interface PersonalInfo {
   isAlreadyRegistered?: boolean;
   age?: string;
   consultation_price?: string;
+  consultation_currency?: string; // Currency of consultation_price; INR when absent
   slot_duration_minutes?: number;
+  consultation_type?: string; // Key of the chosen ConsultationOption
+  consultation_types?: ConsultationOption[];
   is_inr?: boolean;
+  isVerifiedReturning?: boolean;
+  pastAppointmentDates?: string[];
+}
+
+// A consultation the patient can book, priced in their own tier
+export interface ConsultationOption {
+  key: string;
+  name: string;
+  duration_minutes: number;
+  price: string;
+  currency?: string; // INR when absent
 }
 
 export interface MedicalHistory {
@@ -77,4 +94,104 @@ export interface RegistrationState {
   errors: ValidationErrors;
   isSubmitting: boolean;
   fileUploadState: FileUploadState;
-}
\ No newline at end of file
+}
+export type DraftFileField = 'pathologyFiles' | 'imageologyFiles' | 'additionalAttachments';
+
+// Text parts of the wizard kept in localStorage; files live in IndexedDB
+export interface BookingDraftData {
+  currentStep: number;
+  personalInfo: PersonalInfo;
+  clinicalSummary: string;
+  additionalNotes: string;
+}
+
+export interface BookingDraftSummary {
+  savedAt: number;
+  expiresAt: number;
+  currentStep: number;
+  patientName: string;
+}
+
+export interface BookingDraft extends BookingDraftData {
+  savedAt: number;
+  files: Record<DraftFileField, File[]>;
+}
+
+// Returning-patient lookup (step 1 "I've booked before")
+export type LookupChannel = 'phone' | 'email';
+
+export interface ReturningPatientCodeRequest {
+  channel: LookupChannel;
+  identifier: string;
+}
+
+// Returned for unknown phone numbers and emails too, so the lookup does not reveal who is a patient
+export interface ReturningPatientCodeResponse {
+  verification_id: string;
+  expires_in: number; // seconds
+}
+
+export interface ReturningPatientProfile {
+  id: number;
+  first_name: string;
+  last_name?: string;
+  email: string;
+  phone_number: string;
+  date_of_birth?: string;
+  gender?: string;
+  address?: string;
+  is_inr: boolean;
+}
+
+export interface ReturningPatientVerifyResponse {
+  patient: ReturningPatientProfile;
+  follow_up_consultation_price: string;
+  follow_up_consultation_currency?: string;
+  follow_up_slot_duration_minutes: number;
+  consultation_types?: ConsultationOption[];
+  past_appointment_dates: string[];
+}
+
+// POST /patients/appointments
+export interface BookAppointmentResponse {
+  id: number;
+  code?: string | null;
+  meet_link?: string | null;
+  slot_date?: string;
+  slot_time?: string;
+}
+
+// What the confirmation page shows once the wizard has been reset
+export interface BookingConfirmation {
+  appointmentId?: number;
+  appointmentCode: string | null;
+  patientName: string;
+  slotDate: string; // YYYY-MM-DD, clinic time
+  slotTime: string; // HH:MM-HH:MM, clinic time
+  timeZone: string; // Clinic zone at booking, so a reload shows the same times
+  durationMinutes?: number;
+  isFollowUp?: boolean;
+  consultationName?: string;
+  amount: number; // Major units
+  currency: string;
+  gateway: PaymentGatewayId;
+  collectsOnline: boolean;
+  meetLink: string | null;
+  receipt: Invoice | null;
+  bookedAt: number;
+}
+
+// Temporary hold on a slot while the patient pays
+export interface SlotHoldRequest {
+  patient_id: string;
+  slot_date: string;
+  slot_time: string;
+  schedule_id?: string;
+}
+
+export interface SlotHold {
+  id: string;
+  slot_date: string;
+  slot_time: string;
+  expires_at: string; // ISO timestamp
+}
@@ -1,10 +1,19 @@
 // types/schedule.ts
+import type { BookedSlot } from './chart';
+
+// One stretch of working hours in clinic time, "HH:MM". Gaps between a day's windows are breaks.
+export interface ScheduleWindow {
+  start: string;
+  end: string;
+}
+
 export interface Schedule {
   id: number;
   day?: string; // For general schedules (Sunday, Monday, etc.)
   scheduled_date?: string; // For custom schedules (YYYY-MM-DD)
-  start_time: string;
-  end_time: string;
+  start_time: string; // Start of the first window
+  end_time: string; // End of the last window
+  windows?: ScheduleWindow[]; // Absent on schedules saved with a single window
   duration_hr?: number;
   duration_min?: number;
   status: boolean;
@@ -19,6 +28,7 @@ export interface CreateScheduleRequest {
   scheduled_date?: string;
   start_time: string;
   end_time: string;
+  windows?: ScheduleWindow[];
   duration_hr?: number;
   duration_min?: number;
   status?: boolean;
@@ -29,6 +39,7 @@ export interface UpdateScheduleRequest {
   scheduled_date?: string;
   start_time?: string;
   end_time?: string;
+  windows?: ScheduleWindow[];
   duration_hr?: number;
   duration_min?: number;
   status?: boolean;
@@ -67,4 +78,73 @@ export interface EditTimeScheduleData {
   day: string;
   start_time: string;
   end_time: string;
-}
\ No newline at end of file
+}
+
+export type ScheduleBlockKind = 'leave' | 'holiday';
+
+// A date range closed to bookings, e.g. the doctor's vacation or a public holiday
+export interface ScheduleBlock {
+  id: number;
+  start_date: string; // YYYY-MM-DD, inclusive
+  end_date: string; // YYYY-MM-DD, inclusive
+  reason: string;
+  kind: ScheduleBlockKind;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface CreateScheduleBlockRequest {
+  start_date: string;
+  end_date: string;
+  reason: string;
+  kind: ScheduleBlockKind;
+}
+
+export interface ScheduleBlocksResponse {
+  schedule_blocks: ScheduleBlock[];
+}
+
+// What to do with the bookings inside a new block
+export type AffectedBookingsAction = 'keep' | 'reschedule' | 'notify';
+
+export interface AffectedBookingsResponse {
+  message: string;
+  rescheduled_count?: number;
+  notified_count?: number;
+  failed_count?: number; // Bookings with no free slot to move to
+}
+
+// An edit that may take working hours away from days with bookings
+export type ScheduleChange =
+  | { type: 'update_day'; day: string; request: UpdateScheduleRequest }
+  | { type: 'update_date'; date: string; request: UpdateScheduleRequest } // Also creates the date's custom schedule
+  | { type: 'delete'; schedule: Schedule }
+  | { type: 'toggle'; schedule: Schedule };
+
+// A booking the change leaves outside working hours, and where it could move
+export interface ScheduleConflict {
+  slot: BookedSlot;
+  suggestion: { slot_date: string; slot_time: string } | null; // null when no free slot is near enough
+}
+
+export interface ScheduleChangePreview {
+  change: ScheduleChange;
+  conflicts: ScheduleConflict[];
+}
+
+export type ScheduleViewMode = 'calendar' | 'table';
+
+export type ScheduleCalendarRange = 'week' | 'month';
+
+// One day of the schedule calendar, after a custom schedule for the date replaces the weekly hours
+export interface ScheduleCalendarDay {
+  date: string; // YYYY-MM-DD
+  weekday: string; // Monday, Tuesday, etc.
+  source: 'general' | 'custom' | 'none';
+  schedule?: Schedule;
+  isActive: boolean;
+  windows: ScheduleWindow[]; // Empty when the day is closed or inactive
+  breaks: ScheduleWindow[];
+  block?: ScheduleBlock; // Leave or holiday covering the date; the day has no windows
+  bookedSlots: BookedSlot[];
+}
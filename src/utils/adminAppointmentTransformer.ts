@@ -1,7 +1,8 @@
 import type { AdminApiAppointment } from '../types/adminAppointment.types';
 import type { Appointment } from '../types/dashboard.types';
+import { getClinicToday, getSlotInterval } from './dateTime';
 
-export function transformAdminApiAppointmentToAppointment(adminApiAppointment: AdminApiAppointment): Appointment {
+export function transformAdminApiAppointmentToAppointment(adminApiAppointment: AdminApiAppointment, clinicTimeZone: string): Appointment {
   const bookedSlot = adminApiAppointment.booked_slots?.[0];
   
   return {
@@ -11,30 +12,27 @@ export function transformAdminApiAppointmentToAppointment(adminApiAppointment: A
     gender: adminApiAppointment.patient.gender,
     age: adminApiAppointment.patient.age,
     diseases: adminApiAppointment.treatment_history || 'N/A',
-    status: getAdminAppointmentStatus(bookedSlot?.slot_date, bookedSlot?.slot_time),
+    status: getAdminAppointmentStatus(clinicTimeZone, bookedSlot?.slot_date, bookedSlot?.slot_time),
     date: bookedSlot?.slot_date,
     time: bookedSlot?.slot_time,
   };
 }
 
-function getAdminAppointmentStatus(date?: string, time?: string): 'Upcoming' | 'InProgress' | 'Completed' | 'Cancelled' {
+function getAdminAppointmentStatus(clinicTimeZone: string, date?: string, time?: string): 'Upcoming' | 'InProgress' | 'Completed' | 'Cancelled' {
   if (!date || !time) return 'Upcoming';
   
-  const appointmentDateTime = new Date(`${date} ${time}`);
-  const now = new Date();
-  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-  const appointmentDate = new Date(appointmentDateTime.getFullYear(), appointmentDateTime.getMonth(), appointmentDateTime.getDate());
+  // Slot date and time are clinic wall-clock values, so compare against the clinic's today
+  const today = getClinicToday(clinicTimeZone);
   
-  if (appointmentDate < today) {
+  if (date < today) {
     return 'Completed';
-  } else if (appointmentDate.getTime() === today.getTime()) {
+  } else if (date === today) {
     // Check if appointment time has passed today
-    const currentTime = now.getHours() * 60 + now.getMinutes();
-    const appointmentTime = appointmentDateTime.getHours() * 60 + appointmentDateTime.getMinutes();
+    const minutesFromNow = (getSlotInterval(date, time, clinicTimeZone).start.getTime() - Date.now()) / 60000;
     
-    if (appointmentTime < currentTime - 60) { // 1 hour buffer
+    if (minutesFromNow < -60) { // 1 hour buffer
       return 'Completed';
-    } else if (appointmentTime <= currentTime + 30) { // 30 minutes buffer
+    } else if (minutesFromNow <= 30) { // 30 minutes buffer
       return 'InProgress';
     }
   }
@@ -42,9 +40,12 @@ function getAdminAppointmentStatus(date?: string, time?: string): 'Upcoming' | '
   return 'Upcoming';
 }
 
-export function filterAdminAppointmentsByDate(appointments: Appointment[], filterType: 'today' | 'past' | 'future'): Appointment[] {
-  const today = new Date();
-  const todayStr = today.toISOString().split('T')[0];
+export function filterAdminAppointmentsByDate(
+  appointments: Appointment[],
+  filterType: 'today' | 'past' | 'future',
+  clinicTimeZone: string
+): Appointment[] {
+  const todayStr = getClinicToday(clinicTimeZone);
   
   return appointments.filter(appointment => {
     if (!appointment.date) return false;
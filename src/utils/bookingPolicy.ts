@@ -0,0 +1,80 @@
+// src/utils/bookingPolicy.ts
+import { getSlotInterval } from './dateTime';
+import type { BookingActions, BookingPolicy, PortalAppointment } from '../types/patientPortal.types';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const formatHours = (hours: number): string =>
+  hours % 24 === 0 ? `${hours / 24} day${hours === 24 ? '' : 's'}` : `${hours} hour${hours === 1 ? '' : 's'}`;
+
+export const getAppointmentStart = (appointment: PortalAppointment, clinicTimeZone: string): Date =>
+  getSlotInterval(appointment.slot_date, appointment.slot_time, clinicTimeZone).start;
+
+/**
+ * What the clinic's policy lets the patient do with a booking at `now`.
+ * Only a hint for the UI; the API applies the same rules.
+ */
+export const getBookingActions = (
+  appointment: PortalAppointment,
+  policy: BookingPolicy,
+  clinicTimeZone: string,
+  now: number = Date.now()
+): BookingActions => {
+  if (appointment.status !== 'booked') {
+    return { canReschedule: false, canCancel: false, refundPercent: 0 };
+  }
+
+  const hoursLeft = (getAppointmentStart(appointment, clinicTimeZone).getTime() - now) / HOUR_MS;
+
+  let rescheduleBlockedReason: string | undefined;
+  if (hoursLeft < policy.reschedule_cutoff_hours) {
+    rescheduleBlockedReason = `Appointments can be moved up to ${formatHours(policy.reschedule_cutoff_hours)} before they start.`;
+  } else if (appointment.reschedule_count >= policy.max_reschedules) {
+    rescheduleBlockedReason = policy.max_reschedules === 0
+      ? 'This clinic does not allow online rescheduling.'
+      : `This appointment has already been moved ${appointment.reschedule_count} time${appointment.reschedule_count === 1 ? '' : 's'}, the most allowed.`;
+  }
+
+  const cancelBlockedReason = hoursLeft < policy.cancellation_cutoff_hours
+    ? `Appointments can be cancelled up to ${formatHours(policy.cancellation_cutoff_hours)} before they start.`
+    : undefined;
+
+  const refundPercent = !appointment.paid
+    ? 0
+    : hoursLeft >= policy.full_refund_cutoff_hours
+    ? 100
+    : policy.late_refund_percent;
+
+  return {
+    canReschedule: !rescheduleBlockedReason,
+    rescheduleBlockedReason,
+    canCancel: !cancelBlockedReason,
+    cancelBlockedReason,
+    refundPercent,
+  };
+};
+
+/**
+ * Refund wording shown before the patient confirms a cancellation
+ */
+export const getRefundMessage = (
+  appointment: PortalAppointment,
+  policy: BookingPolicy,
+  actions: BookingActions,
+  formatAmount: (amount: number, currency: string) => string
+): string => {
+  if (!appointment.paid) {
+    return 'Nothing has been charged for this appointment, so there is nothing to refund.';
+  }
+
+  if (actions.refundPercent === 100) {
+    return `You will get a full refund of ${formatAmount(appointment.amount, appointment.currency)} to your original payment method.`;
+  }
+
+  const lateNotice = `Cancellations less than ${formatHours(policy.full_refund_cutoff_hours)} before the appointment`;
+  if (actions.refundPercent > 0) {
+    const refund = (appointment.amount * actions.refundPercent) / 100;
+    return `${lateNotice} are refunded ${actions.refundPercent}%: you will get ${formatAmount(refund, appointment.currency)} back.`;
+  }
+  return `${lateNotice} are not refunded.`;
+};
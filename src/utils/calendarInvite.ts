@@ -0,0 +1,87 @@
+// src/utils/calendarInvite.ts
+import type { CalendarEvent } from '../types/calendar.types';
+
+// 20261021T050000Z
+const toIcsTimestamp = (date: Date): string =>
+  date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// RFC 5545 TEXT escaping
+const escapeIcsText = (value: string): string =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+// Content lines longer than 75 characters continue on lines starting with a space
+const foldIcsLine = (line: string): string => {
+  const chunks: string[] = [];
+  for (let index = 0; index < line.length; index += chunks.length === 0 ? 75 : 74) {
+    chunks.push(line.slice(index, index + (chunks.length === 0 ? 75 : 74)));
+  }
+  return chunks.join('\r\n ');
+};
+
+/**
+ * An iCalendar (.ics) file with one event, in UTC so every calendar app
+ * places it correctly without timezone definitions
+ */
+export const buildIcs = (event: CalendarEvent): string => {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Mediconnect//Appointments//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${toIcsTimestamp(new Date())}`,
+    `DTSTART:${toIcsTimestamp(event.start)}`,
+    `DTEND:${toIcsTimestamp(event.end)}`,
+    `SUMMARY:${escapeIcsText(event.title)}`,
+    event.description ? `DESCRIPTION:${escapeIcsText(event.description)}` : null,
+    event.location ? `LOCATION:${escapeIcsText(event.location)}` : null,
+    event.url ? `URL:${event.url}` : null,
+    'BEGIN:VALARM',
+    'TRIGGER:-PT30M',
+    'ACTION:DISPLAY',
+    `DESCRIPTION:${escapeIcsText(event.title)}`,
+    'END:VALARM',
+    'END:VEVENT',
+    'END:VCALENDAR',
+  ];
+
+  return lines
+    .filter((line): line is string => line !== null)
+    .map(foldIcsLine)
+    .join('\r\n') + '\r\n';
+};
+
+export const getIcsFileName = (event: CalendarEvent): string =>
+  `${event.title.toLowerCase().replace(/[^\w-]+/g, '_')}.ics`;
+
+export const getGoogleCalendarUrl = (event: CalendarEvent): string => {
+  const params = new URLSearchParams({
+    action: 'TEMPLATE',
+    text: event.title,
+    dates: `${toIcsTimestamp(event.start)}/${toIcsTimestamp(event.end)}`,
+  });
+  if (event.description) params.set('details', event.description);
+  if (event.location) params.set('location', event.location);
+
+  return `https://calendar.google.com/calendar/render?${params.toString()}`;
+};
+
+export const getOutlookCalendarUrl = (event: CalendarEvent): string => {
+  const params = new URLSearchParams({
+    path: '/calendar/action/compose',
+    rru: 'addevent',
+    subject: event.title,
+    startdt: event.start.toISOString(),
+    enddt: event.end.toISOString(),
+  });
+  if (event.description) params.set('body', event.description);
+  if (event.location) params.set('location', event.location);
+
+  return `https://outlook.live.com/calendar/0/deeplink/compose?${params.toString()}`;
+};
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { bookingIdempotencyKey, keepCheckoutAfterLostSlot, moveCheckoutToSlot } from './checkoutUtils';
+import type { PendingCheckout } from '../types/payment.types';
+
+const unpaidCheckout: PendingCheckout = {
+  order: { id: 'order_123', gateway: 'razorpay', amount: 150000, currency: 'INR', receipt: 'appointment_1', status: 'created' },
+  slotDate: '2026-10-20',
+  slotTime: '10:00-10:30',
+  scheduleId: '7',
+  displayAmount: 1500,
+  pricingTier: 'domestic',
+  listPrice: 1500,
+  listCurrency: 'INR',
+  savedAt: 0,
+};
+
+const paidCheckout: PendingCheckout = {
+  ...unpaidCheckout,
+  payment: { gateway: 'razorpay', orderId: 'order_123', paymentId: 'pay_456', signature: 'sig' },
+};
+
+describe('hold lost after payment', () => {
+  it('keeps the paid order so the patient is not charged again', () => {
+    const kept = keepCheckoutAfterLostSlot(paidCheckout);
+
+    expect(kept?.order.id).toBe('order_123');
+    expect(kept?.payment?.paymentId).toBe('pay_456');
+  });
+
+  it('drops a checkout that was never paid', () => {
+    expect(keepCheckoutAfterLostSlot(unpaidCheckout)).toBeNull();
+    expect(keepCheckoutAfterLostSlot(null)).toBeNull();
+  });
+
+  it('books the new slot against the same order and payment', () => {
+    const moved = moveCheckoutToSlot(paidCheckout, {
+      slotDate: '2026-10-21',
+      slotTime: '11:00-11:30',
+      scheduleId: '8',
+    });
+
+    expect(moved.order.id).toBe('order_123');
+    expect(moved.payment).toEqual(paidCheckout.payment);
+    expect(moved.displayAmount).toBe(1500);
+    expect(moved).toMatchObject({ slotDate: '2026-10-21', slotTime: '11:00-11:30', scheduleId: '8' });
+  });
+
+  it('books the new slot under the same idempotency key so one order never books twice', () => {
+    const moved = moveCheckoutToSlot(paidCheckout, {
+      slotDate: '2026-10-21',
+      slotTime: '11:00-11:30',
+      scheduleId: '8',
+    });
+
+    expect(bookingIdempotencyKey(paidCheckout)).toBe('order_123');
+    expect(bookingIdempotencyKey(moved)).toBe('order_123');
+  });
+});
@@ -0,0 +1,32 @@
+// src/utils/checkoutUtils.ts
+import type { PendingCheckout } from '../types/payment.types';
+
+interface CheckoutSlot {
+  slotDate: string;
+  slotTime: string;
+  scheduleId?: string;
+}
+
+/**
+ * What is left of a checkout once its slot is lost. A paid checkout is kept
+ * so the patient can book another slot against the same order without paying
+ * twice; an unpaid one has nothing worth keeping.
+ */
+export const keepCheckoutAfterLostSlot = (checkout: PendingCheckout | null): PendingCheckout | null =>
+  checkout?.payment ? checkout : null;
+
+// The same order and payment, booked for another slot
+export const moveCheckoutToSlot = (checkout: PendingCheckout, slot: CheckoutSlot): PendingCheckout => ({
+  ...checkout,
+  slotDate: slot.slotDate,
+  slotTime: slot.slotTime,
+  scheduleId: slot.scheduleId,
+});
+
+/**
+ * Idempotency key for booking a checkout. One paid order books one
+ * appointment, so the key is the order id alone: a retry for another slot
+ * after the first was lost reuses it, and the API moves that order's booking
+ * or rejects the request instead of booking the patient twice.
+ */
+export const bookingIdempotencyKey = (checkout: PendingCheckout): string => checkout.order.id;
@@ -0,0 +1,80 @@
+// src/utils/consultationTypes.ts
+import {
+  FOLLOW_UP_CONSULTATION_KEY,
+  INITIAL_CONSULTATION_KEY,
+  MIN_CONSULTATION_MINUTES
+} from '../constants/booking';
+import { timeToMinutes } from './dateTime';
+import { getSlotWindow } from './scheduleConflicts';
+import type { ConsultationService, ConsultationType } from '../types/adminSettings.types';
+
+const BUILT_IN_KEYS = [INITIAL_CONSULTATION_KEY, FOLLOW_UP_CONSULTATION_KEY];
+
+export const isBuiltInConsultationType = (key: string): boolean => BUILT_IN_KEYS.includes(key);
+
+/**
+ * Every consultation the clinic offers: initial and follow-up from their own
+ * settings fields, then the custom types in the order they were added.
+ */
+export const getConsultationTypes = (service: ConsultationService): ConsultationType[] => [
+  {
+    key: INITIAL_CONSULTATION_KEY,
+    name: 'Initial consultation',
+    duration_minutes: service.initial_slot_duration_minutes,
+    price: service.initial_consultation_price,
+    international_price: service.international_initial_consultation_price || '',
+  },
+  {
+    key: FOLLOW_UP_CONSULTATION_KEY,
+    name: 'Follow-up consultation',
+    duration_minutes: service.follow_up_slot_duration_minutes,
+    price: service.follow_up_consultation_price,
+    international_price: service.international_follow_up_consultation_price || '',
+  },
+  ...(service.consultation_types || []).filter(type => !isBuiltInConsultationType(type.key)),
+];
+
+// Bookings made before consultation types existed are initial or follow-up
+export const getDefaultConsultationKey = (isFollowUp?: boolean): string =>
+  isFollowUp ? FOLLOW_UP_CONSULTATION_KEY : INITIAL_CONSULTATION_KEY;
+
+// A key for a new custom type, e.g. "Second opinion" -> "second_opinion"; kept when the type is renamed
+export const toConsultationKey = (name: string, takenKeys: string[]): string => {
+  const base = name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'consultation';
+  let key = base;
+  for (let suffix = 2; takenKeys.includes(key) || isBuiltInConsultationType(key); suffix++) {
+    key = `${base}_${suffix}`;
+  }
+  return key;
+};
+
+export const validateConsultationTypes = (types: ConsultationType[]): string | null => {
+  const names = new Set<string>();
+  for (const type of types) {
+    const name = type.name.trim();
+    if (!name) {
+      return 'Every consultation type needs a name';
+    }
+    if (names.has(name.toLowerCase())) {
+      return `There is more than one consultation type called "${name}"`;
+    }
+    names.add(name.toLowerCase());
+
+    if (!Number.isInteger(type.duration_minutes) || type.duration_minutes < MIN_CONSULTATION_MINUTES) {
+      return `${name} must last at least ${MIN_CONSULTATION_MINUTES} minutes`;
+    }
+    if (type.price === '' || parseFloat(type.price) < 0) {
+      return `${name} needs a domestic price`;
+    }
+    if (type.international_price === '' || parseFloat(type.international_price) < 0) {
+      return `${name} needs an international price`;
+    }
+  }
+  return null;
+};
+
+// Length of a booked "HH:MM-HH:MM" slot in minutes
+export const getSlotMinutes = (slotTime: string): number => {
+  const { start, end } = getSlotWindow(slotTime);
+  return timeToMinutes(end) - timeToMinutes(start);
+};
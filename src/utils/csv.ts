@@ -0,0 +1,37 @@
+// src/utils/csv.ts
+import { downloadBlob } from './download';
+
+export interface CsvColumn<T> {
+  header: string;
+  value: (row: T) => string | number | boolean | null | undefined;
+}
+
+/**
+ * Quote a cell when it contains a delimiter, quote or line break (RFC 4180).
+ * Cells starting with a formula character are prefixed so spreadsheets show them as text.
+ */
+const escapeCsvCell = (value: string | number | boolean | null | undefined): string => {
+  if (value === null || value === undefined) return '';
+
+  let text = String(value);
+  if (/^[=+\-@]/.test(text) && typeof value === 'string') {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Build CSV text from rows, one column per definition
+ */
+export const toCsv = <T>(rows: T[], columns: CsvColumn<T>[]): string => {
+  const header = columns.map(column => escapeCsvCell(column.header)).join(',');
+  const lines = rows.map(row => columns.map(column => escapeCsvCell(column.value(row))).join(','));
+  return [header, ...lines].join('\r\n');
+};
+
+/**
+ * Save CSV text as a file; the BOM keeps Excel from garbling non-ASCII names
+ */
+export const downloadCsv = (filename: string, csv: string): void => {
+  downloadBlob(filename, new Blob(['\uFEFF', csv], { type: 'text/csv;charset=utf-8' }));
+};
@@ -1,3 +1,4 @@
+import { formatCalendarDate, formatClinicTime, getSlotInterval } from './dateTime';
 import type { Appointment } from '../types/dashboard.types';
 
 /**
@@ -21,21 +22,12 @@ export const filterAppointments = (
 /**
  * Format date for display
  */
-export const formatDate = (dateString: string): string => {
-  const date = new Date(dateString);
-  return date.toLocaleDateString('en-US', {
-    year: 'numeric',
-    month: 'short',
-    day: 'numeric'
-  });
-};
+export const formatDate = (dateString: string): string => formatCalendarDate(dateString);
 
 /**
- * Format time for display
+ * Format a clinic time or "HH:MM-HH:MM" slot for display
  */
-export const formatTime = (timeString: string): string => {
-  return timeString;
-};
+export const formatTime = (timeString: string): string => formatClinicTime(timeString);
 
 /**
  * Get status color class
@@ -60,12 +52,12 @@ export const getStatusColor = (status: string): string => {
 /**
  * Sort appointments by date and time
  */
-export const sortAppointmentsByDateTime = (appointments: Appointment[]): Appointment[] => {
+export const sortAppointmentsByDateTime = (appointments: Appointment[], clinicTimeZone: string): Appointment[] => {
   return appointments.sort((a, b) => {
     if (!a.date || !b.date) return 0;
     
-    const dateA = new Date(`${a.date} ${a.time || '00:00'}`);
-    const dateB = new Date(`${b.date} ${b.time || '00:00'}`);
+    const dateA = getSlotInterval(a.date, a.time || '00:00', clinicTimeZone).start;
+    const dateB = getSlotInterval(b.date, b.time || '00:00', clinicTimeZone).start;
     
     return dateA.getTime() - dateB.getTime();
   });
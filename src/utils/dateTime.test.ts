@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import {
+  formatCalendarDate,
+  formatClinicTime,
+  getClinicToday,
+  getSlotInterval,
+  resolveClinicTimeZone,
+  toClinicTime,
+  zonedTimeToDate
+} from './dateTime';
+
+describe('clinic wall-clock times to instants', () => {
+  it('applies the clinic offset', () => {
+    expect(zonedTimeToDate('2026-10-21', '10:30', 'Asia/Kolkata').toISOString()).toBe('2026-10-21T05:00:00.000Z');
+  });
+
+  it('uses standard time before and daylight time after the spring change', () => {
+    expect(zonedTimeToDate('2026-03-08', '01:30', 'America/New_York').toISOString()).toBe('2026-03-08T06:30:00.000Z');
+    expect(zonedTimeToDate('2026-03-08', '03:30', 'America/New_York').toISOString()).toBe('2026-03-08T07:30:00.000Z');
+  });
+
+  it('moves the same wall-clock time by an hour across the autumn change', () => {
+    expect(zonedTimeToDate('2026-10-31', '09:00', 'America/New_York').toISOString()).toBe('2026-10-31T13:00:00.000Z');
+    expect(zonedTimeToDate('2026-11-01', '09:00', 'America/New_York').toISOString()).toBe('2026-11-01T14:00:00.000Z');
+  });
+
+  it('reads Rails times by their wall clock only', () => {
+    expect(toClinicTime('2000-01-01T09:05:00.000+05:30')).toBe('09:05');
+    expect(toClinicTime('9:5')).toBe('09:05');
+  });
+
+  it('gives slots without an end time the requested length', () => {
+    const interval = getSlotInterval('2026-10-21', '10:30', 'Asia/Kolkata', 20);
+
+    expect(interval.end.getTime() - interval.start.getTime()).toBe(20 * 60 * 1000);
+  });
+
+  it('keeps slots that cross a DST change at their real length', () => {
+    const interval = getSlotInterval('2026-11-01', '01:30-03:00', 'America/New_York');
+
+    // 01:30 EDT to 03:00 EST is two and a half hours
+    expect(interval.end.getTime() - interval.start.getTime()).toBe(150 * 60 * 1000);
+  });
+});
+
+describe('clinic dates and times for display', () => {
+  it('never shifts a date-only value by the viewer zone', () => {
+    expect(formatCalendarDate('2026-10-21')).toBe('Oct 21, 2026');
+  });
+
+  it('formats clinic time ranges', () => {
+    expect(formatClinicTime('10:30-13:50')).toBe('10:30 AM - 01:50 PM');
+  });
+
+  it('reads today at the clinic in its own zone', () => {
+    const now = new Date('2026-10-21T02:00:00Z');
+
+    expect(getClinicToday('America/New_York', now)).toBe('2026-10-20');
+    expect(getClinicToday('Asia/Kolkata', now)).toBe('2026-10-21');
+  });
+
+  it('takes the zone the API reports and falls back on missing or unknown zones', () => {
+    expect(resolveClinicTimeZone('America/New_York')).toBe('America/New_York');
+    expect(resolveClinicTimeZone('Mars/Olympus_Mons')).toBe('Asia/Kolkata');
+    expect(resolveClinicTimeZone(undefined)).toBe('Asia/Kolkata');
+  });
+});
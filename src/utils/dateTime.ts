@@ -0,0 +1,225 @@
+// src/utils/dateTime.ts
+import { DEFAULT_APPOINTMENT_MINUTES, DEFAULT_CLINIC_TIME_ZONE } from '../constants/booking';
+import type { TimeInterval } from '../types/calendar.types';
+
+/*
+ * Slots are stored as a clinic-local date ("2026-10-21") and wall-clock times
+ * ("10:30-10:50", or Rails times such as "2000-01-01T10:30:00.000+05:30").
+ * Everything here turns those into real instants before showing them, so a
+ * viewer in another zone sees their own time with the zone spelled out.
+ */
+
+const MINUTE_MS = 60 * 1000;
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+// How far the zone's wall clock is ahead of UTC at the given instant
+const getTimeZoneOffsetMs = (instant: number, timeZone: string): number => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(new Date(instant));
+
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(part => part.type === type)?.value);
+  const wallClock = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return wallClock - Math.floor(instant / 1000) * 1000;
+};
+
+const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * The zone slots are published in, as reported by the API. Missing or unknown
+ * zones fall back to the build-time default rather than breaking every date on the page.
+ */
+export const resolveClinicTimeZone = (timeZone?: string | null): string =>
+  timeZone && isValidTimeZone(timeZone) ? timeZone : DEFAULT_CLINIC_TIME_ZONE;
+
+export const getViewerTimeZone = (): string => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+/**
+ * Whether the viewer's clock reads the same as the clinic's at the given instant.
+ * Offsets are compared because zones have aliases ("Asia/Calcutta").
+ */
+export const isViewerInClinicTimeZone = (clinicTimeZone: string, at: Date = new Date()): boolean =>
+  getViewerTimeZone() === clinicTimeZone ||
+  getTimeZoneOffsetMs(at.getTime(), clinicTimeZone) === -at.getTimezoneOffset() * MINUTE_MS;
+
+/**
+ * Wall-clock "HH:MM" from any time format the API sends. Rails times carry
+ * a dummy date and the clinic's offset, which only restate clinic time.
+ */
+export const toClinicTime = (value: string): string => {
+  const time = value.includes('T') ? value.split('T')[1] : value;
+  const [hours = '0', minutes = '0'] = time.trim().split(':');
+  return `${hours.padStart(2, '0')}:${minutes.slice(0, 2).padStart(2, '0')}`;
+};
+
+// Minutes since midnight for a clinic time, e.g. "09:30" -> 570
+export const timeToMinutes = (time: string): number => {
+  const [hours, minutes] = toClinicTime(time).split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+export const minutesToTime = (minutes: number): string =>
+  `${Math.floor(minutes / 60).toString().padStart(2, '0')}:${(minutes % 60).toString().padStart(2, '0')}`;
+
+/**
+ * The instant a wall-clock date and time in the given zone refers to,
+ * e.g. 2026-10-21 10:30 in Asia/Kolkata -> 2026-10-21T05:00:00Z
+ */
+export const zonedTimeToDate = (date: string, time: string, timeZone: string): Date => {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hours, minutes] = toClinicTime(time).split(':').map(Number);
+  const asUtc = Date.UTC(year, month - 1, day, hours, minutes);
+
+  // Second pass settles times next to a daylight saving change
+  const firstGuess = asUtc - getTimeZoneOffsetMs(asUtc, timeZone);
+  return new Date(asUtc - getTimeZoneOffsetMs(firstGuess, timeZone));
+};
+
+/**
+ * Start and end of a booked slot ("HH:MM-HH:MM" in clinic time). Slots that
+ * only carry a start time last durationMinutes.
+ */
+export const getSlotInterval = (
+  slotDate: string,
+  slotTime: string,
+  timeZone: string,
+  durationMinutes: number = DEFAULT_APPOINTMENT_MINUTES
+): TimeInterval => {
+  const [startTime, endTime] = slotTime.split('-');
+  const start = zonedTimeToDate(slotDate, startTime, timeZone);
+  const end = endTime
+    ? zonedTimeToDate(slotDate, endTime, timeZone)
+    : new Date(start.getTime() + durationMinutes * MINUTE_MS);
+
+  return { start, end };
+};
+
+/**
+ * Short zone name for labels, e.g. "IST", "EDT" or "GMT+4"
+ */
+export const getTimeZoneLabel = (timeZone: string = getViewerTimeZone(), at: Date = new Date(), locale?: string): string =>
+  new Intl.DateTimeFormat(locale, { timeZone, timeZoneName: 'short' })
+    .formatToParts(at)
+    .find(part => part.type === 'timeZoneName')?.value || timeZone;
+
+/**
+ * A calendar date for display. Date-only values ("2026-10-21") are days, not
+ * instants, so they are never shifted by the viewer's zone.
+ */
+export const formatCalendarDate = (
+  value: string,
+  options: Intl.DateTimeFormatOptions = { year: 'numeric', month: 'short', day: 'numeric' },
+  locale: string = 'en-US'
+): string => {
+  if (!value) return '';
+
+  const date = DATE_ONLY.test(value) ? new Date(`${value}T00:00:00Z`) : new Date(value);
+  if (Number.isNaN(date.getTime())) return value;
+
+  return date.toLocaleDateString(locale, DATE_ONLY.test(value) ? { ...options, timeZone: 'UTC' } : options);
+};
+
+/**
+ * Clinic wall-clock time or range as "10:30 AM" / "10:30 AM - 10:50 AM".
+ * Pass the clinic's zone to append its name, e.g. "10:30 AM IST".
+ */
+export const formatClinicTime = (value: string, clinicTimeZone?: string): string => {
+  if (!value) return '';
+
+  const formatSingle = (time: string) => {
+    const [hours, minutes] = toClinicTime(time).split(':');
+    const hour = parseInt(hours, 10);
+    const ampm = hour >= 12 ? 'PM' : 'AM';
+    const displayHour = hour % 12 || 12;
+    return `${displayHour.toString().padStart(2, '0')}:${minutes} ${ampm}`;
+  };
+
+  // Rails times contain dashes in their date part, so only split plain ranges
+  const parts = value.includes('T') ? [value] : value.split('-');
+  const formatted = parts.map(formatSingle).join(' - ');
+  return clinicTimeZone ? `${formatted} ${getTimeZoneLabel(clinicTimeZone)}` : formatted;
+};
+
+/**
+ * An interval's times in one zone, e.g. "10:30 AM – 10:50 AM IST".
+ * Without a zone the viewer's own is used.
+ */
+export const formatTimeRange = (interval: TimeInterval, timeZone?: string, locale?: string): string => {
+  const start = interval.start.toLocaleTimeString(locale, { timeZone, hour: 'numeric', minute: '2-digit' });
+  const end = interval.end.toLocaleTimeString(locale, {
+    timeZone,
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZoneName: 'short',
+  });
+  return `${start} – ${end}`;
+};
+
+/**
+ * A slot as the viewer reads it, e.g. "Tuesday, October 21, 2026, 10:30 AM – 10:50 AM GMT+5:30".
+ * Without a zone the viewer's own is used.
+ */
+export const formatInterval = (interval: TimeInterval, timeZone?: string, locale?: string): string => {
+  const date = interval.start.toLocaleDateString(locale, {
+    timeZone,
+    weekday: 'long',
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+  });
+  return `${date}, ${formatTimeRange(interval, timeZone, locale)}`;
+};
+
+/**
+ * A slot's time range in the viewer's zone, with the day added when it falls
+ * on a different date than at the clinic
+ */
+export const formatSlotTime = (slotDate: string, slotTime: string, clinicTimeZone: string, locale?: string): string => {
+  const interval = getSlotInterval(slotDate, slotTime, clinicTimeZone);
+  const range = formatTimeRange(interval, undefined, locale);
+  if (interval.start.toLocaleDateString('en-CA') === slotDate) return range;
+
+  return `${interval.start.toLocaleDateString(locale, { weekday: 'short', month: 'short', day: 'numeric' })}, ${range}`;
+};
+
+/**
+ * A slot in the viewer's zone, followed by clinic time when the two differ, e.g.
+ * "Tuesday, October 21, 2026, 1:00 AM – 1:20 AM EDT (10:30 AM – 10:50 AM GMT+5:30 at the clinic)"
+ */
+export const formatSlotForViewer = (
+  slotDate: string,
+  slotTime: string,
+  clinicTimeZone: string,
+  locale?: string
+): string => {
+  const interval = getSlotInterval(slotDate, slotTime, clinicTimeZone);
+  const viewer = formatInterval(interval, undefined, locale);
+  if (isViewerInClinicTimeZone(clinicTimeZone, interval.start)) return viewer;
+
+  return `${viewer} (${formatTimeRange(interval, clinicTimeZone, locale)} at the clinic)`;
+};
+
+/**
+ * Today's date at the clinic as YYYY-MM-DD, for date pickers choosing clinic days
+ */
+export const getClinicToday = (clinicTimeZone: string, now: Date = new Date()): string =>
+  new Intl.DateTimeFormat('en-CA', {
+    timeZone: clinicTimeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(now);
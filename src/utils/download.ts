@@ -0,0 +1,16 @@
+// src/utils/download.ts
+
+/**
+ * Save a generated file through a temporary link
+ */
+export const downloadBlob = (filename: string, blob: Blob): void => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Some browsers start the download after click() returns, so the URL has to outlive this call
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
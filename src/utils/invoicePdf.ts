@@ -0,0 +1,219 @@
+// src/utils/invoicePdf.ts
+import type { Invoice } from '../types/invoice.types';
+import { formatInvoiceAmount, getInvoiceTitle } from './invoiceUtils';
+import { formatCalendarDate, formatClinicTime } from './dateTime';
+
+/**
+ * Minimal single-page PDF writer for receipts. Uses the built-in Helvetica
+ * fonts, so text is limited to Latin-1; anything else prints as "?".
+ */
+
+const PAGE_WIDTH = 595; // A4 in points
+const PAGE_HEIGHT = 842;
+const MARGIN = 50;
+const RIGHT_EDGE = PAGE_WIDTH - MARGIN;
+const WRAP_AT = 70;
+
+type PdfFont = 'regular' | 'bold';
+
+interface PdfText {
+  x: number;
+  y: number;
+  text: string;
+  size: number;
+  font: PdfFont;
+}
+
+interface PdfLine {
+  x1: number;
+  x2: number;
+  y: number;
+}
+
+// Helvetica advance widths per 1000 units for the characters amounts use
+const NARROW_CHARS = ',.:;!|il';
+const estimateWidth = (text: string, size: number): number =>
+  [...text].reduce((width, char) => width + (NARROW_CHARS.includes(char) ? 278 : char === ' ' ? 278 : 556), 0) * size / 1000;
+
+const escapePdfText = (text: string): string =>
+  text
+    .replace(/[^\x20-\x7E\xA0-\xFF]/g, '?')
+    .replace(/([\\()])/g, '\\$1');
+
+const wrapText = (text: string, maxChars: number = WRAP_AT): string[] =>
+  text.split('\n').flatMap(paragraph => {
+    const lines: string[] = [];
+    let current = '';
+    paragraph.split(/\s+/).forEach(word => {
+      if (current && `${current} ${word}`.length > maxChars) {
+        lines.push(current);
+        current = word;
+      } else {
+        current = current ? `${current} ${word}` : word;
+      }
+    });
+    if (current) lines.push(current);
+    return lines;
+  });
+
+class PdfPage {
+  readonly texts: PdfText[] = [];
+  readonly lines: PdfLine[] = [];
+
+  text(x: number, y: number, text: string, size: number = 10, font: PdfFont = 'regular'): void {
+    this.texts.push({ x, y, text, size, font });
+  }
+
+  textRight(y: number, text: string, size: number = 10, font: PdfFont = 'regular', right: number = RIGHT_EDGE): void {
+    this.text(right - estimateWidth(text, size), y, text, size, font);
+  }
+
+  line(y: number, x1: number = MARGIN, x2: number = RIGHT_EDGE): void {
+    this.lines.push({ x1, x2, y });
+  }
+
+  toBlob(): Blob {
+    const content = [
+      ...this.texts.map(({ x, y, text, size, font }) =>
+        `BT /${font === 'bold' ? 'F2' : 'F1'} ${size} Tf ${x.toFixed(2)} ${y.toFixed(2)} Td (${escapePdfText(text)}) Tj ET`
+      ),
+      '0.8 G 0.5 w',
+      ...this.lines.map(({ x1, x2, y }) => `${x1} ${y} m ${x2} ${y} l S`),
+    ].join('\n');
+
+    const objects = [
+      '<< /Type /Catalog /Pages 2 0 R >>',
+      '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 4 0 R /F2 5 0 R >> >> /Contents 6 0 R >>`,
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+      `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+    ];
+
+    // Every character is a single byte, so string offsets are byte offsets
+    let pdf = '%PDF-1.4\n';
+    const offsets = objects.map((object, index) => {
+      const offset = pdf.length;
+      pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+      return offset;
+    });
+
+    const xrefOffset = pdf.length;
+    pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+    pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF`;
+
+    const bytes = Uint8Array.from(pdf, char => char.charCodeAt(0) & 0xff);
+    return new Blob([bytes], { type: 'application/pdf' });
+  }
+}
+
+export const buildInvoicePdf = (invoice: Invoice): Blob => {
+  const page = new PdfPage();
+  let y = PAGE_HEIGHT - MARGIN - 10;
+
+  // Clinic header on the left, document title and number on the right
+  page.text(MARGIN, y, invoice.clinic.name, 18, 'bold');
+  page.textRight(y, getInvoiceTitle(invoice).toUpperCase(), 16, 'bold');
+
+  let clinicY = y - 18;
+  [
+    ...(invoice.clinic.address ? wrapText(invoice.clinic.address, 45) : []),
+    invoice.clinic.phone && `Phone: ${invoice.clinic.phone}`,
+    invoice.clinic.email && `Email: ${invoice.clinic.email}`,
+    invoice.clinic.tax_id && `Tax ID: ${invoice.clinic.tax_id}`,
+  ].filter((line): line is string => Boolean(line)).forEach(line => {
+    page.text(MARGIN, clinicY, line, 9);
+    clinicY -= 12;
+  });
+
+  let metaY = y - 18;
+  [
+    `No. ${invoice.invoiceNumber}`,
+    `Date: ${new Date(invoice.issuedAt).toLocaleDateString('en-GB')}`,
+    `Status: ${invoice.status === 'due' ? 'Payment due' : invoice.status === 'refunded' ? 'Refunded' : 'Paid'}`,
+  ].forEach(line => {
+    page.textRight(metaY, line, 9);
+    metaY -= 12;
+  });
+
+  y = Math.min(clinicY, metaY) - 16;
+  page.line(y);
+  y -= 22;
+
+  // Billed to / appointment
+  const columnX = PAGE_WIDTH / 2;
+  page.text(MARGIN, y, 'Billed to', 10, 'bold');
+  page.text(columnX, y, 'Appointment', 10, 'bold');
+  let billedY = y - 14;
+  [
+    invoice.billedTo.name,
+    invoice.billedTo.email,
+    invoice.billedTo.phone,
+    ...(invoice.billedTo.address ? wrapText(invoice.billedTo.address, 40) : []),
+  ].filter((line): line is string => Boolean(line)).forEach(line => {
+    page.text(MARGIN, billedY, line, 10);
+    billedY -= 13;
+  });
+
+  let appointmentY = y - 14;
+  [
+    `Date: ${formatCalendarDate(invoice.appointment.date)}`,
+    `Time: ${formatClinicTime(invoice.appointment.time, invoice.appointment.timeZone)}`,
+    invoice.appointment.durationMinutes ? `Duration: ${invoice.appointment.durationMinutes} minutes` : '',
+  ].filter(Boolean).forEach(line => {
+    page.text(columnX, appointmentY, line, 10);
+    appointmentY -= 13;
+  });
+
+  y = Math.min(billedY, appointmentY) - 20;
+
+  // Line items
+  const quantityRight = RIGHT_EDGE - 110;
+  page.text(MARGIN, y, 'Description', 10, 'bold');
+  page.textRight(y, 'Qty', 10, 'bold', quantityRight);
+  page.textRight(y, 'Amount', 10, 'bold');
+  y -= 8;
+  page.line(y);
+  y -= 16;
+
+  invoice.items.forEach(item => {
+    const descriptionLines = wrapText(item.description, 60);
+    page.textRight(y, String(item.quantity), 10, 'regular', quantityRight);
+    page.textRight(y, formatInvoiceAmount(item.amount, invoice.currency), 10);
+    descriptionLines.forEach(line => {
+      page.text(MARGIN, y, line, 10);
+      y -= 13;
+    });
+    y -= 4;
+  });
+
+  page.line(y);
+  y -= 18;
+  page.textRight(y, `Total  ${formatInvoiceAmount(invoice.total, invoice.currency)}`, 12, 'bold');
+  y -= 32;
+
+  // Payment reference
+  page.text(MARGIN, y, 'Payment', 10, 'bold');
+  y -= 14;
+  [
+    `Method: ${invoice.payment.gateway === 'clinic' ? 'Pay at clinic' : 'Online'}`,
+    invoice.payment.paymentId ? `Payment ID: ${invoice.payment.paymentId}` : '',
+    `Order ID: ${invoice.payment.orderId}`,
+  ].filter(Boolean).forEach(line => {
+    page.text(MARGIN, y, line, 9);
+    y -= 12;
+  });
+
+  if (invoice.notes) {
+    y -= 8;
+    wrapText(invoice.notes).forEach(line => {
+      page.text(MARGIN, y, line, 9);
+      y -= 12;
+    });
+  }
+
+  page.text(MARGIN, MARGIN, 'This is a computer-generated document and does not require a signature.', 8);
+
+  return page.toBlob();
+};
@@ -0,0 +1,50 @@
+// src/utils/invoiceUtils.ts
+import { BASE_CURRENCY } from '../constants/currency';
+import type { Invoice, InvoiceSource } from '../types/invoice.types';
+
+const DEFAULT_SERVICE_NAME = 'Medical Consultation';
+
+/**
+ * Build the receipt document for a booked consultation. What the invoice
+ * recorded when first issued wins, so a reissue prints the original.
+ */
+export const buildInvoice = (source: InvoiceSource): Invoice => {
+  const { issued } = source;
+  const serviceName = issued.service_name || DEFAULT_SERVICE_NAME;
+  const consultation = issued.consultation_name || source.consultationName ||
+    `${source.isFollowUp ? 'follow-up' : 'initial'} consultation`;
+  const description = `${serviceName} (${consultation})`;
+
+  // Note the list price when the patient paid in a currency other than the one it is set in
+  const listCurrency = source.listCurrency || BASE_CURRENCY;
+  const notes = source.listPrice !== undefined && source.currency !== listCurrency
+    ? `Consultation price ${listCurrency} ${source.listPrice.toFixed(2)}, charged in ${source.currency}.`
+    : undefined;
+
+  return {
+    invoiceNumber: issued.invoice_number,
+    issuedAt: issued.issued_at,
+    status: source.status,
+    clinic: issued.clinic,
+    billedTo: issued.billed_to || source.billedTo,
+    appointment: { ...source.appointment, durationMinutes: issued.duration_minutes ?? source.appointment.durationMinutes },
+    items: [{ description, quantity: 1, unitAmount: source.amount, amount: source.amount }],
+    total: source.amount,
+    currency: source.currency,
+    payment: source.payment,
+    notes,
+  };
+};
+
+/**
+ * Format a major-unit amount with the currency code, e.g. INR 1,500.00.
+ * Codes rather than symbols so the PDF's standard fonts can render them.
+ */
+export const formatInvoiceAmount = (amount: number, currency: string): string =>
+  `${currency} ${amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+export const getInvoiceTitle = (invoice: Invoice): string =>
+  invoice.status === 'due' ? 'Invoice' : 'Receipt';
+
+export const getInvoiceFileName = (invoice: Invoice): string =>
+  `${getInvoiceTitle(invoice).toLowerCase()}_${invoice.invoiceNumber.replace(/[^\w-]+/g, '_')}.pdf`;
@@ -0,0 +1,52 @@
+// src/utils/passwordStrength.ts
+import { PASSWORD_MIN_LENGTH } from '../constants/common';
+
+export type PasswordStrengthLevel = 'weak' | 'fair' | 'good' | 'strong';
+
+export interface PasswordStrength {
+  score: number; // 0-4
+  level: PasswordStrengthLevel;
+  label: string;
+  suggestions: string[];
+}
+
+const LEVELS: { level: PasswordStrengthLevel; label: string }[] = [
+  { level: 'weak', label: 'Weak' },
+  { level: 'weak', label: 'Weak' },
+  { level: 'fair', label: 'Fair' },
+  { level: 'good', label: 'Good' },
+  { level: 'strong', label: 'Strong' },
+];
+
+/**
+ * Estimate password strength from length and character variety
+ */
+export const getPasswordStrength = (password: string): PasswordStrength => {
+  const checks = [
+    { passed: password.length >= PASSWORD_MIN_LENGTH, hint: `Use at least ${PASSWORD_MIN_LENGTH} characters` },
+    { passed: /[a-z]/.test(password) && /[A-Z]/.test(password), hint: 'Mix upper and lower case letters' },
+    { passed: /\d/.test(password), hint: 'Add a number' },
+    { passed: /[^A-Za-z0-9]/.test(password), hint: 'Add a symbol' },
+  ];
+
+  let score = checks.filter(check => check.passed).length;
+
+  // Short passwords stay weak no matter how varied they are
+  if (password.length < PASSWORD_MIN_LENGTH) {
+    score = Math.min(score, 1);
+  } else if (password.length >= 14 && score >= 3) {
+    score = 4;
+  }
+
+  return {
+    score,
+    ...LEVELS[score],
+    suggestions: checks.filter(check => !check.passed).map(check => check.hint),
+  };
+};
+
+/**
+ * A reset is accepted once it reaches "fair": minimum length plus some variety
+ */
+export const isPasswordAcceptable = (password: string): boolean =>
+  getPasswordStrength(password).score >= 2;
@@ -1,4 +1,5 @@
 // src/utils/patientUtils.ts
+import { formatCalendarDate } from './dateTime';
 
 /**
  * Format phone number for display
@@ -42,16 +43,8 @@ export const calculateAge = (dateOfBirth: string): number => {
 /**
  * Format date for display
  */
-export const formatDate = (dateString: string): string => {
-  if (!dateString) return '';
-  
-  const date = new Date(dateString);
-  return date.toLocaleDateString('en-GB', {
-    day: '2-digit',
-    month: 'short',
-    year: 'numeric'
-  });
-};
+export const formatDate = (dateString: string): string =>
+  formatCalendarDate(dateString, { day: '2-digit', month: 'short', year: 'numeric' }, 'en-GB');
 
 /**
  * Format date and time for display
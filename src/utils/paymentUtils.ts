@@ -0,0 +1,20 @@
+// src/utils/paymentUtils.ts
+import { currencyService } from '../services/currencyService';
+import type { AdminPayment } from '../types/payment.types';
+
+/**
+ * Convert an amount in the smallest currency unit (as stored on orders) to major units
+ */
+export const fromMinorUnits = (amount: number): number => amount / 100;
+
+/**
+ * Format an amount in the smallest currency unit for display, e.g. 150000 INR -> ₹1,500.00
+ */
+export const formatMinorAmount = (amount: number, currency: string): string =>
+  currencyService.format(fromMinorUnits(amount), currency);
+
+/**
+ * Amount still refundable on a payment, in the smallest currency unit
+ */
+export const getRefundableAmount = (payment: AdminPayment): number =>
+  payment.captured ? Math.max(0, payment.amount - payment.amount_refunded) : 0;
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { resolveInitialCurrency, resolvePricingTier } from './pricingUtils';
+
+describe('pricing tier for a patient', () => {
+  it('follows the is_inr flag over every other signal', () => {
+    expect(resolvePricingTier({ isInr: true, phone: '+1 202 555 0123', locale: 'en-US' })).toBe('domestic');
+    expect(resolvePricingTier({ isInr: false, phone: '+91 98765 43210', locale: 'en-IN' })).toBe('international');
+  });
+
+  it('uses a phone number typed with its country code next', () => {
+    expect(resolvePricingTier({ phone: '+91 98765 43210', locale: 'en-US' })).toBe('domestic');
+    expect(resolvePricingTier({ phone: '0044 7400 123456', locale: 'en-IN' })).toBe('international');
+  });
+
+  it('falls back to the locale when the phone has no country code', () => {
+    expect(resolvePricingTier({ phone: '98765 43210', locale: 'en-GB' })).toBe('international');
+    expect(resolvePricingTier({ phone: '98765 43210', locale: 'hi-IN' })).toBe('domestic');
+  });
+
+  it('defaults to domestic when nothing says otherwise', () => {
+    expect(resolvePricingTier({})).toBe('domestic');
+    expect(resolvePricingTier({ locale: 'not a locale' })).toBe('domestic');
+  });
+});
+
+describe('starting currency at checkout', () => {
+  it('always starts domestic patients in INR', () => {
+    expect(resolveInitialCurrency('domestic', 'USD', { phone: '+1 202 555 0123', locale: 'en-US' })).toBe('INR');
+  });
+
+  it('starts international patients in their local currency when it is offered', () => {
+    expect(resolveInitialCurrency('international', 'USD', { phone: '+44 7400 123456' })).toBe('GBP');
+    expect(resolveInitialCurrency('international', 'USD', { locale: 'en-AU' })).toBe('AUD');
+  });
+
+  it("falls back to the tier's currency otherwise", () => {
+    expect(resolveInitialCurrency('international', 'USD', { phone: '+971 50 123 4567' })).toBe('USD');
+    expect(resolveInitialCurrency('international', 'EUR', {})).toBe('EUR');
+  });
+});
@@ -0,0 +1,71 @@
+// src/utils/pricingUtils.ts
+import { DEFAULT_DIAL_CODE } from '../constants/common';
+import {
+  BASE_CURRENCY,
+  DIAL_CODE_CURRENCIES,
+  REGION_CURRENCIES,
+  SUPPORTED_CURRENCIES
+} from '../constants/currency';
+import { parsePhoneNumber } from './validation';
+import type { PricingTier } from '../types/currency.types';
+
+interface PricingSignals {
+  isInr?: boolean; // From the patient record; wins over everything else
+  phone?: string;
+  locale?: string; // Browser locale, e.g. navigator.language
+}
+
+// Only a number typed with its country code says where the patient is
+const getExplicitDialCode = (phone?: string): string | undefined => {
+  if (!phone || !/^\s*(\+|00)/.test(phone)) return undefined;
+  return parsePhoneNumber(phone).dialCode || '';
+};
+
+const getLocaleRegion = (locale?: string): string | undefined => {
+  if (!locale) return undefined;
+  try {
+    return new Intl.Locale(locale).maximize().region;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Pick the price list for a patient: the is_inr flag when known, then the
+ * phone's country code, then the browser locale. Defaults to domestic.
+ */
+export const resolvePricingTier = ({ isInr, phone, locale }: PricingSignals): PricingTier => {
+  if (isInr !== undefined) {
+    return isInr ? 'domestic' : 'international';
+  }
+
+  const dialCode = getExplicitDialCode(phone);
+  if (dialCode !== undefined) {
+    return dialCode === DEFAULT_DIAL_CODE ? 'domestic' : 'international';
+  }
+
+  const region = getLocaleRegion(locale);
+  return region && region !== 'IN' ? 'international' : 'domestic';
+};
+
+/**
+ * Currency the payment step opens with. Domestic patients pay in INR;
+ * international patients get their local currency when it is offered,
+ * otherwise the currency the tier is priced in.
+ */
+export const resolveInitialCurrency = (
+  tier: PricingTier,
+  tierCurrency: string,
+  { phone, locale }: Omit<PricingSignals, 'isInr'>
+): string => {
+  if (tier === 'domestic') return BASE_CURRENCY;
+
+  const dialCode = getExplicitDialCode(phone);
+  const region = getLocaleRegion(locale);
+  const local = [
+    dialCode ? DIAL_CODE_CURRENCIES[dialCode] : undefined,
+    region ? REGION_CURRENCIES[region] : undefined,
+  ].find(code => code && code !== BASE_CURRENCY && SUPPORTED_CURRENCIES.includes(code));
+
+  return local || tierCurrency;
+};
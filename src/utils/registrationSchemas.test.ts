@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { patientSchema, validateRegistration, validateRegistrationStep } from './registrationSchemas';
+import { getAgeFromDateOfBirth, parsePhoneNumber, validateSchema } from './validation';
+import type { RegistrationFormData } from '../types/registration';
+
+const formData = (overrides: Partial<RegistrationFormData['personalInfo']> = {}): RegistrationFormData => ({
+  personalInfo: {
+    name: 'Asha Rao',
+    phone: '+91 98765 43210',
+    email: 'asha@example.com',
+    date_of_birth: '1990-05-14',
+    gender: 'female',
+    address: '12 MG Road, Bengaluru',
+    ...overrides,
+  },
+  medicalHistory: { clinicalSummary: '', pathologyFiles: [], imageologyFiles: [] },
+  additionalDetails: { additionalNotes: '', additionalAttachments: [] },
+  appointmentSchedule: { selectedDate: '', selectedTimeSlot: '', availableSlots: [] },
+});
+
+describe('registration step validation', () => {
+  it('accepts a complete first step', () => {
+    expect(validateRegistrationStep(1, formData())).toEqual({});
+  });
+
+  it('reports the first failing rule for each field', () => {
+    const errors = validateRegistrationStep(1, formData({ name: '', email: 'asha@', phone: '+91 12345' }));
+
+    expect(errors).toEqual({
+      name: 'Name is required',
+      email: 'Please enter a valid email address',
+      phone: 'Please enter a valid India number (e.g. +91 9876543210)',
+    });
+  });
+
+  it('rejects a date of birth that disagrees with the entered age', () => {
+    const errors = validateRegistrationStep(1, formData({ date_of_birth: '1990-05-14', age: '20' }));
+
+    expect(errors.date_of_birth).toMatch(/^Date of birth suggests age \d+, but 20 was entered$/);
+  });
+
+  it('rejects a date of birth in the future', () => {
+    expect(validateRegistrationStep(1, formData({ date_of_birth: '2999-01-01' })).date_of_birth)
+      .toBe('Date of birth cannot be in the future');
+  });
+
+  it('checks uploaded file types and sizes', () => {
+    const data = formData();
+    data.medicalHistory.pathologyFiles = [new File(['x'], 'report.exe')];
+    data.medicalHistory.imageologyFiles = [new File([new Uint8Array(11 * 1024 * 1024)], 'scan.dcm')];
+
+    expect(validateRegistrationStep(2, data)).toEqual({
+      pathologyFiles: 'report.exe is not a supported file type',
+      imageologyFiles: 'scan.dcm is too large. Maximum size is 10MB',
+    });
+  });
+
+  it('needs a date and time slot on the last step', () => {
+    expect(validateRegistrationStep(4, formData())).toEqual({
+      selectedDate: 'Please select an appointment date',
+      selectedTimeSlot: 'Please select a time slot',
+    });
+  });
+
+  it('collects every step when validating the whole registration', () => {
+    expect(Object.keys(validateRegistration(formData({ name: '' })))).toEqual(['name', 'selectedDate', 'selectedTimeSlot']);
+  });
+});
+
+describe('admin patient form validation', () => {
+  it('checks age range and an optional emergency contact', () => {
+    const errors = validateSchema(patientSchema, {
+      name: 'Asha Rao',
+      mobileNumber: '9876543210',
+      age: 130,
+      address: '12 MG Road',
+      emergencyContact: 12345,
+    });
+
+    expect(errors).toEqual({
+      age: 'Please enter an age between 1 and 120',
+      emergencyContact: 'Please enter a valid India number (e.g. +91 9876543210)',
+    });
+  });
+});
+
+describe('phone numbers and ages', () => {
+  it('matches the longest dialling code', () => {
+    expect(parsePhoneNumber('+971 50 123 4567')).toEqual({ dialCode: '971', nationalNumber: '501234567' });
+  });
+
+  it('reads numbers without a code as Indian', () => {
+    expect(parsePhoneNumber('098765 43210')).toEqual({ dialCode: '91', nationalNumber: '9876543210' });
+  });
+
+  it('counts a birthday later in the year as not yet reached', () => {
+    expect(getAgeFromDateOfBirth('1990-12-01', new Date(2026, 9, 18))).toBe(35);
+    expect(getAgeFromDateOfBirth('1990-10-01', new Date(2026, 9, 18))).toBe(36);
+  });
+});
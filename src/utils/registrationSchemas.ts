@@ -0,0 +1,110 @@
+// src/utils/registrationSchemas.ts
+
+import {
+  validateSchema,
+  required,
+  minLength,
+  maxLength,
+  email,
+  phone,
+  age,
+  dateOfBirth,
+  files
+} from './validation';
+import type { FileRules, ValidationSchema } from './validation';
+import type {
+  PersonalInfo,
+  MedicalHistory,
+  AdditionalDetails,
+  AppointmentSchedule,
+  RegistrationFormData,
+  ValidationErrors
+} from '../types/registration';
+
+// Upload limits shared by the wizard file pickers and their step schemas
+export const PATHOLOGY_FILE_RULES: FileRules = {
+  accept: ['.pdf', '.jpg', '.jpeg', '.png'],
+  maxSizeMb: 10,
+  maxCount: 10,
+};
+
+export const IMAGEOLOGY_FILE_RULES: FileRules = {
+  accept: ['.pdf', '.jpg', '.jpeg', '.png', '.dcm'],
+  maxSizeMb: 10,
+  maxCount: 10,
+};
+
+export const ADDITIONAL_FILE_RULES: FileRules = {
+  accept: ['.pdf', '.jpg', '.jpeg', '.png', '.doc', '.docx'],
+  maxSizeMb: 10,
+  maxCount: 10,
+};
+
+export const personalInfoSchema: ValidationSchema<PersonalInfo> = {
+  name: [required('Name is required'), minLength(2, 'Name must be at least 2 characters')],
+  phone: [required('Phone is required'), phone()],
+  email: [required('Email is required'), email()],
+  date_of_birth: [required('Date of birth is required'), dateOfBirth<PersonalInfo>('age')],
+  gender: [required('Gender is required')],
+  address: [required('Address is required')],
+};
+
+export const medicalHistorySchema: ValidationSchema<MedicalHistory> = {
+  clinicalSummary: [maxLength(5000, 'Clinical summary must be 5000 characters or fewer')],
+  pathologyFiles: [files(PATHOLOGY_FILE_RULES)],
+  imageologyFiles: [files(IMAGEOLOGY_FILE_RULES)],
+};
+
+export const additionalDetailsSchema: ValidationSchema<AdditionalDetails> = {
+  additionalNotes: [maxLength(2000, 'Additional details must be 2000 characters or fewer')],
+  additionalAttachments: [files(ADDITIONAL_FILE_RULES)],
+};
+
+export const appointmentScheduleSchema: ValidationSchema<AppointmentSchedule> = {
+  selectedDate: [required('Please select an appointment date')],
+  selectedTimeSlot: [required('Please select a time slot')],
+};
+
+/**
+ * Validate one wizard step (1-4) against its schema
+ */
+export const validateRegistrationStep = (step: number, formData: RegistrationFormData): ValidationErrors => {
+  switch (step) {
+    case 1:
+      return validateSchema(personalInfoSchema, formData.personalInfo);
+    case 2:
+      return validateSchema(medicalHistorySchema, formData.medicalHistory);
+    case 3:
+      return validateSchema(additionalDetailsSchema, formData.additionalDetails);
+    case 4:
+      return validateSchema(appointmentScheduleSchema, formData.appointmentSchedule);
+    default:
+      return {};
+  }
+};
+
+export const validateRegistration = (formData: RegistrationFormData): ValidationErrors => ({
+  ...validateRegistrationStep(1, formData),
+  ...validateRegistrationStep(2, formData),
+  ...validateRegistrationStep(3, formData),
+  ...validateRegistrationStep(4, formData),
+});
+
+// Admin-side patient forms (NewPatientModal / EditPatientModal)
+export interface PatientFormFields {
+  name?: string;
+  mobileNumber?: string;
+  age?: number | string;
+  address?: string;
+  email?: string;
+  emergencyContact?: number | string;
+}
+
+export const patientSchema: ValidationSchema<PatientFormFields> = {
+  name: [required('Name is required'), minLength(2, 'Name must be at least 2 characters')],
+  mobileNumber: [required('Mobile number is required'), phone()],
+  age: [required('Please enter a valid age'), age()],
+  address: [required('Address is required')],
+  email: [email()],
+  emergencyContact: [(value, data) => phone<PatientFormFields>()(value === undefined ? value : String(value), data)],
+};
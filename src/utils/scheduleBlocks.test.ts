@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { parseIcalHolidays } from './scheduleBlocks';
+
+const calendar = (...events: string[]) =>
+  ['BEGIN:VCALENDAR', 'VERSION:2.0', ...events, 'END:VCALENDAR'].join('\r\n');
+
+const event = (...lines: string[]) => ['BEGIN:VEVENT', ...lines, 'END:VEVENT'].join('\r\n');
+
+describe('holidays from an iCal file', () => {
+  it('ends all-day events the day before their exclusive DTEND', () => {
+    const holidays = parseIcalHolidays(calendar(
+      event('DTSTART;VALUE=DATE:20261225', 'DTEND;VALUE=DATE:20261226', 'SUMMARY:Christmas Day'),
+      event('DTSTART;VALUE=DATE:20261231', 'DTEND;VALUE=DATE:20270103', 'SUMMARY:Year-end closure'),
+    ));
+
+    expect(holidays).toEqual([
+      { start_date: '2026-12-25', end_date: '2026-12-25', reason: 'Christmas Day', kind: 'holiday' },
+      { start_date: '2026-12-31', end_date: '2027-01-02', reason: 'Year-end closure', kind: 'holiday' },
+    ]);
+  });
+
+  it('keeps the end date of timed events that end during the day', () => {
+    const [holiday] = parseIcalHolidays(calendar(
+      event('DTSTART:20261110T090000Z', 'DTEND:20261111T130000Z', 'SUMMARY:Conference'),
+    ));
+
+    expect(holiday).toMatchObject({ start_date: '2026-11-10', end_date: '2026-11-11' });
+  });
+
+  it('unfolds long lines and unescapes text', () => {
+    const [holiday] = parseIcalHolidays(calendar(
+      event('DTSTART;VALUE=DATE:20261102', 'SUMMARY:Diwali\\, Govardhan', '  Puja'),
+    ));
+
+    expect(holiday).toMatchObject({ start_date: '2026-11-02', end_date: '2026-11-02', reason: 'Diwali, Govardhan Puja' });
+  });
+
+  it('drops duplicates and events without a start, and sorts by date', () => {
+    const holidays = parseIcalHolidays(calendar(
+      event('DTSTART;VALUE=DATE:20261225', 'SUMMARY:Christmas Day'),
+      event('DTSTART;VALUE=DATE:20261002', 'SUMMARY:Gandhi Jayanti'),
+      event('DTSTART;VALUE=DATE:20261225', 'SUMMARY:Christmas Day'),
+      event('SUMMARY:No date'),
+    ));
+
+    expect(holidays.map(holiday => holiday.start_date)).toEqual(['2026-10-02', '2026-12-25']);
+  });
+
+  it('names untitled events as holidays', () => {
+    expect(parseIcalHolidays(calendar(event('DTSTART;VALUE=DATE:20261225')))[0].reason).toBe('Holiday');
+  });
+});
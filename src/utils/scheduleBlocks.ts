@@ -0,0 +1,123 @@
+// src/utils/scheduleBlocks.ts
+import { formatCalendarDate, getClinicToday, timeToMinutes } from './dateTime';
+import { addDays } from './scheduleCalendar';
+import type { BookedSlot } from '../types/chart';
+import type { CreateScheduleBlockRequest, ScheduleBlock } from '../types/schedule';
+
+const DATE_FORMAT = /^\d{4}-\d{2}-\d{2}$/;
+
+export const isDateInBlock = (date: string, block: Pick<ScheduleBlock, 'start_date' | 'end_date'>): boolean =>
+  date >= block.start_date.slice(0, 10) && date <= block.end_date.slice(0, 10);
+
+export const findBlock = (blocks: ScheduleBlock[], date: string): ScheduleBlock | undefined =>
+  blocks.find(block => isDateInBlock(date, block));
+
+// Active bookings inside the range, earliest first
+export const getBookedSlotsInRange = (
+  bookedSlots: BookedSlot[],
+  range: Pick<ScheduleBlock, 'start_date' | 'end_date'>
+): BookedSlot[] =>
+  bookedSlots
+    .filter(slot => slot.status && isDateInBlock(slot.slot_date, range))
+    .sort((a, b) => a.slot_date.localeCompare(b.slot_date) || timeToMinutes(a.slot_time) - timeToMinutes(b.slot_time));
+
+// "Dec 25, 2026" for one day, "Dec 24, 2026 – Jan 2, 2027" for a range
+export const formatBlockRange = (block: Pick<ScheduleBlock, 'start_date' | 'end_date'>): string => {
+  const start = formatCalendarDate(block.start_date);
+  return block.start_date === block.end_date ? start : `${start} – ${formatCalendarDate(block.end_date)}`;
+};
+
+export const getBlockDayCount = (block: Pick<ScheduleBlock, 'start_date' | 'end_date'>): number => {
+  const start = new Date(`${block.start_date}T00:00:00Z`).getTime();
+  const end = new Date(`${block.end_date}T00:00:00Z`).getTime();
+  return Math.round((end - start) / (24 * 60 * 60 * 1000)) + 1;
+};
+
+// First problem with a new block, or null when it can be saved
+export const validateBlock = (block: CreateScheduleBlockRequest, clinicTimeZone: string): string | null => {
+  if (!block.start_date || !block.end_date || !block.reason.trim()) {
+    return 'Please fill in all required fields';
+  }
+
+  if (!DATE_FORMAT.test(block.start_date) || !DATE_FORMAT.test(block.end_date)) {
+    return 'Please enter valid dates';
+  }
+
+  if (block.end_date < block.start_date) {
+    return 'End date must be on or after the start date';
+  }
+
+  if (block.end_date < getClinicToday(clinicTimeZone)) {
+    return 'Please select dates that are not in the past';
+  }
+
+  return null;
+};
+
+// iCal DATE or DATE-TIME value, e.g. "20261225" or "20261225T000000Z" -> "2026-12-25"
+const parseIcalDate = (value: string): string | null => {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+};
+
+const unescapeIcalText = (value: string): string =>
+  value.replace(/\\n/gi, ' ').replace(/\\([,;\\])/g, '$1').trim();
+
+/**
+ * Holidays from an iCal (.ics) file, one block per event. All-day events end
+ * the day before their DTEND, as the iCal format makes that date exclusive.
+ * Recurring events only give their first occurrence; public holiday
+ * calendars list every year's dates as separate events anyway.
+ */
+export const parseIcalHolidays = (content: string): CreateScheduleBlockRequest[] => {
+  // Long lines are folded onto continuation lines starting with a space or tab
+  const lines = content.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const holidays: CreateScheduleBlockRequest[] = [];
+  let event: Record<string, { value: string; isDate: boolean }> | null = null;
+
+  for (const line of lines) {
+    if (line === 'BEGIN:VEVENT') {
+      event = {};
+      continue;
+    }
+
+    if (line === 'END:VEVENT' && event) {
+      const start = event.DTSTART && parseIcalDate(event.DTSTART.value);
+      const end = event.DTEND && parseIcalDate(event.DTEND.value);
+
+      if (start) {
+        // Events ending at midnight do not take up their end date
+        const exclusiveEnd = event.DTEND?.isDate || /T0{6}Z?$/.test(event.DTEND?.value.trim() || '');
+        const lastDay = !end ? start : exclusiveEnd ? addDays(end, -1) : end;
+        holidays.push({
+          start_date: start,
+          end_date: lastDay < start ? start : lastDay,
+          reason: unescapeIcalText(event.SUMMARY?.value || '') || 'Holiday',
+          kind: 'holiday',
+        });
+      }
+      event = null;
+      continue;
+    }
+
+    const separator = line.indexOf(':');
+    if (!event || separator === -1) continue;
+
+    const [name, ...params] = line.slice(0, separator).split(';');
+    const value = line.slice(separator + 1);
+    event[name.toUpperCase()] = {
+      value,
+      isDate: params.some(param => param.toUpperCase() === 'VALUE=DATE') || /^\d{8}$/.test(value.trim()),
+    };
+  }
+
+  const seen = new Set<string>();
+  return holidays
+    .filter(holiday => {
+      const key = `${holiday.start_date}|${holiday.end_date}|${holiday.reason}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .sort((a, b) => a.start_date.localeCompare(b.start_date));
+};
@@ -0,0 +1,82 @@
+// src/utils/scheduleCalendar.ts
+import { WEEKDAYS } from '../constants/schedule';
+import { timeToMinutes } from './dateTime';
+import { getBreaks, getScheduleWindows } from './scheduleWindows';
+import type { BookedSlot } from '../types/chart';
+import type { Schedule, ScheduleBlock, ScheduleCalendarDay, ScheduleCalendarRange } from '../types/schedule';
+
+// Calendar dates are plain YYYY-MM-DD days, so all arithmetic happens at UTC midnight
+const toUtcDate = (date: string): Date => new Date(`${date}T00:00:00Z`);
+
+export const addDays = (date: string, days: number): string => {
+  const next = toUtcDate(date);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next.toISOString().slice(0, 10);
+};
+
+export const addMonths = (date: string, months: number): string => {
+  const next = toUtcDate(date);
+  next.setUTCDate(1);
+  next.setUTCMonth(next.getUTCMonth() + months);
+  return next.toISOString().slice(0, 10);
+};
+
+export const getWeekday = (date: string): string => WEEKDAYS[toUtcDate(date).getUTCDay()];
+
+// Weeks start on Monday
+export const getWeekStart = (date: string): string => addDays(date, -((toUtcDate(date).getUTCDay() + 6) % 7));
+
+// Every date from start to end, inclusive
+export const getDateRange = (start: string, end: string): string[] => {
+  const dates: string[] = [];
+  for (let date = start; date <= end; date = addDays(date, 1)) {
+    dates.push(date);
+  }
+  return dates;
+};
+
+/**
+ * Every date the calendar shows for the range around the anchor date: one
+ * Monday-to-Sunday week, or the whole weeks covering the anchor's month
+ */
+export const getCalendarDates = (anchor: string, range: ScheduleCalendarRange): string[] => {
+  const start = range === 'week' ? getWeekStart(anchor) : getWeekStart(`${anchor.slice(0, 7)}-01`);
+  const end = range === 'week' ? addDays(start, 6) : addDays(getWeekStart(addDays(addMonths(anchor, 1), -1)), 6);
+  return getDateRange(start, end);
+};
+
+/**
+ * The schedule that applies on each date. A custom schedule for the date
+ * overrides the general schedule for its weekday, even when it is inactive.
+ * Leave and holidays close the day whatever its schedule says.
+ */
+export const buildScheduleCalendar = (
+  dates: string[],
+  generalSchedules: Schedule[],
+  customSchedules: Schedule[],
+  bookedSlots: BookedSlot[],
+  blocks: ScheduleBlock[] = []
+): ScheduleCalendarDay[] =>
+  dates.map(date => {
+    const weekday = getWeekday(date);
+    const custom = customSchedules.find(schedule => schedule.scheduled_date?.slice(0, 10) === date);
+    const general = generalSchedules.find(schedule => schedule.day?.toLowerCase() === weekday.toLowerCase());
+    const schedule = custom || general;
+    const isActive = Boolean(schedule?.status);
+    const block = blocks.find(candidate => date >= candidate.start_date.slice(0, 10) && date <= candidate.end_date.slice(0, 10));
+    const windows = schedule && isActive && !block ? getScheduleWindows(schedule) : [];
+
+    return {
+      date,
+      weekday,
+      source: custom ? 'custom' : general ? 'general' : 'none',
+      schedule,
+      isActive,
+      windows,
+      breaks: getBreaks(windows),
+      block,
+      bookedSlots: bookedSlots
+        .filter(slot => slot.slot_date === date && slot.status)
+        .sort((a, b) => timeToMinutes(a.slot_time) - timeToMinutes(b.slot_time)),
+    };
+  });
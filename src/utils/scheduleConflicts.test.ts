@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { findAffectedSlots, planConflictMoves } from './scheduleConflicts';
+import type { BookedSlot } from '../types/chart';
+import type { ScheduleCalendarDay, ScheduleWindow } from '../types/schedule';
+
+const booking = (id: number, slot_date: string, slot_time: string): BookedSlot => ({
+  id,
+  schedule_id: 1,
+  appointment_id: id,
+  slot_date,
+  slot_time,
+  is_booked: true,
+  status: true,
+  booking_status: 'booked',
+  created_at: '',
+  updated_at: '',
+});
+
+const day = (date: string, windows: ScheduleWindow[], bookedSlots: BookedSlot[] = []): ScheduleCalendarDay => ({
+  date,
+  weekday: '',
+  source: 'general',
+  isActive: windows.length > 0,
+  windows,
+  breaks: [],
+  bookedSlots,
+});
+
+// Slot times are clinic time
+const CLINIC_TIME_ZONE = 'Asia/Kolkata';
+const now = new Date('2026-10-19T00:00:00Z');
+
+describe('bookings affected by a schedule change', () => {
+  it('finds bookings the new hours no longer cover', () => {
+    const bookings = [booking(1, '2026-10-20', '09:00-09:30'), booking(2, '2026-10-20', '15:00-15:30')];
+    const before = [day('2026-10-20', [{ start: '09:00', end: '17:00' }], bookings)];
+    const after = [day('2026-10-20', [{ start: '12:00', end: '17:00' }], bookings)];
+
+    expect(findAffectedSlots(before, after).map(slot => slot.id)).toEqual([1]);
+  });
+
+  it('ignores bookings that were already outside working hours', () => {
+    const bookings = [booking(1, '2026-10-20', '08:00-08:30')];
+    const before = [day('2026-10-20', [{ start: '09:00', end: '17:00' }], bookings)];
+    const after = [day('2026-10-20', [], bookings)];
+
+    expect(findAffectedSlots(before, after)).toEqual([]);
+  });
+
+  it('counts a booking that now runs into a new break', () => {
+    const bookings = [booking(1, '2026-10-20', '12:45-13:15')];
+    const before = [day('2026-10-20', [{ start: '09:00', end: '17:00' }], bookings)];
+    const after = [day('2026-10-20', [{ start: '09:00', end: '13:00' }, { start: '14:00', end: '17:00' }], bookings)];
+
+    expect(findAffectedSlots(before, after).map(slot => slot.id)).toEqual([1]);
+  });
+});
+
+describe('suggested moves for affected bookings', () => {
+  it('suggests the nearest free slot of the same length', () => {
+    const affected = [booking(1, '2026-10-20', '09:00-09:30')];
+    const after = [day('2026-10-20', [{ start: '12:00', end: '17:00' }], affected)];
+
+    expect(planConflictMoves(affected, after, CLINIC_TIME_ZONE, now)).toEqual([
+      { slot: affected[0], suggestion: { slot_date: '2026-10-20', slot_time: '12:00-12:30' } },
+    ]);
+  });
+
+  it('skips slots other bookings hold and never gives one slot to two bookings', () => {
+    const affected = [booking(1, '2026-10-20', '09:00-09:30'), booking(2, '2026-10-20', '09:30-10:00')];
+    const kept = booking(3, '2026-10-20', '12:00-12:30');
+    const after = [day('2026-10-20', [{ start: '12:00', end: '17:00' }], [...affected, kept])];
+
+    expect(planConflictMoves(affected, after, CLINIC_TIME_ZONE, now).map(move => move.suggestion?.slot_time))
+      .toEqual(['12:30-13:00', '13:00-13:30']);
+  });
+
+  it('never suggests a slot in the past', () => {
+    const affected = [booking(1, '2026-10-20', '09:00-09:30')];
+    const after = [
+      day('2026-10-19', [{ start: '09:00', end: '10:00' }]),
+      day('2026-10-20', [], affected),
+      day('2026-10-22', [{ start: '09:00', end: '10:00' }]),
+    ];
+
+    // 09:00 on the 19th in Kolkata is already over by midday UTC
+    const suggestion = planConflictMoves(affected, after, CLINIC_TIME_ZONE, new Date('2026-10-19T12:00:00Z'))[0].suggestion;
+    expect(suggestion).toEqual({ slot_date: '2026-10-22', slot_time: '09:00-09:30' });
+  });
+
+  it('has no suggestion when nothing is free', () => {
+    const affected = [booking(1, '2026-10-20', '09:00-10:00')];
+    const after = [day('2026-10-20', [{ start: '12:00', end: '12:30' }], affected)];
+
+    expect(planConflictMoves(affected, after, CLINIC_TIME_ZONE, now)[0].suggestion).toBeNull();
+  });
+});
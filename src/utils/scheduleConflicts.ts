@@ -0,0 +1,148 @@
+// src/utils/scheduleConflicts.ts
+import { DEFAULT_APPOINTMENT_MINUTES } from '../constants/booking';
+import { getSlotInterval, minutesToTime, timeToMinutes } from './dateTime';
+import { generateSessionSlots, getRequestWindows, isWithinWindows } from './scheduleWindows';
+import type { BookedSlot } from '../types/chart';
+import type {
+  Schedule,
+  ScheduleCalendarDay,
+  ScheduleChange,
+  ScheduleConflict,
+  ScheduleWindow,
+  UpdateScheduleRequest
+} from '../types/schedule';
+
+// A booking's clinic-time range, e.g. "10:00-10:30"; bookings saved with only a start get the default length
+export const getSlotWindow = (slotTime: string): ScheduleWindow => {
+  const [start, end] = slotTime.split('-');
+  const startMinutes = timeToMinutes(start);
+  return {
+    start: minutesToTime(startMinutes),
+    end: end ? minutesToTime(timeToMinutes(end)) : minutesToTime(startMinutes + DEFAULT_APPOINTMENT_MINUTES),
+  };
+};
+
+const overlaps = (a: ScheduleWindow, b: ScheduleWindow): boolean =>
+  timeToMinutes(a.start) < timeToMinutes(b.end) && timeToMinutes(b.start) < timeToMinutes(a.end);
+
+const applyRequest = (schedule: Schedule, request: UpdateScheduleRequest): Schedule => {
+  const windows = getRequestWindows(request);
+  return {
+    ...schedule,
+    status: request.status ?? schedule.status,
+    ...(windows.length > 0 && {
+      start_time: windows[0].start,
+      end_time: windows[windows.length - 1].end,
+      windows,
+    }),
+  };
+};
+
+/**
+ * The general and custom schedules as they would be after the change,
+ * so the calendar can be rebuilt to compare against the current one.
+ */
+export const applyScheduleChange = (
+  generalSchedules: Schedule[],
+  customSchedules: Schedule[],
+  change: ScheduleChange
+): { generalSchedules: Schedule[]; customSchedules: Schedule[] } => {
+  switch (change.type) {
+    case 'update_day':
+      return {
+        generalSchedules: generalSchedules.map(schedule =>
+          schedule.day?.toLowerCase() === change.day.toLowerCase() ? applyRequest(schedule, change.request) : schedule
+        ),
+        customSchedules,
+      };
+
+    case 'update_date': {
+      const existing = customSchedules.find(schedule => schedule.scheduled_date?.slice(0, 10) === change.date);
+      return {
+        generalSchedules,
+        customSchedules: existing
+          ? customSchedules.map(schedule => schedule === existing ? applyRequest(schedule, change.request) : schedule)
+          : [
+            ...customSchedules,
+            applyRequest({ id: -1, scheduled_date: change.date, start_time: '', end_time: '', status: true }, change.request),
+          ],
+      };
+    }
+
+    case 'delete':
+      return {
+        generalSchedules: generalSchedules.filter(schedule => schedule.id !== change.schedule.id),
+        customSchedules: customSchedules.filter(schedule => schedule.id !== change.schedule.id),
+      };
+
+    case 'toggle': {
+      const toggle = (schedule: Schedule) =>
+        schedule.id === change.schedule.id ? { ...schedule, status: !change.schedule.status } : schedule;
+      return {
+        generalSchedules: generalSchedules.map(toggle),
+        customSchedules: customSchedules.map(toggle),
+      };
+    }
+  }
+};
+
+/**
+ * Bookings inside working hours before the change and outside them after.
+ * Both calendars must cover the same dates in the same order.
+ */
+export const findAffectedSlots = (before: ScheduleCalendarDay[], after: ScheduleCalendarDay[]): BookedSlot[] =>
+  before.flatMap((day, index) =>
+    day.bookedSlots.filter(slot => {
+      const slotWindow = getSlotWindow(slot.slot_time);
+      return isWithinWindows(slotWindow, day.windows) && !isWithinWindows(slotWindow, after[index].windows);
+    })
+  );
+
+/**
+ * The free slot nearest in time to each affected booking, on the calendar as
+ * it will be after the change. Slots are the booking's own length, laid out
+ * from the start of each window, and never in the past. Each suggestion is
+ * taken before the next booking is placed, so two bookings never share one.
+ */
+export const planConflictMoves = (
+  affected: BookedSlot[],
+  after: ScheduleCalendarDay[],
+  clinicTimeZone: string,
+  now: Date = new Date()
+): ScheduleConflict[] => {
+  const affectedIds = new Set(affected.map(slot => slot.id));
+  const occupied = new Map(after.map(day => [
+    day.date,
+    day.bookedSlots.filter(slot => !affectedIds.has(slot.id)).map(slot => getSlotWindow(slot.slot_time)),
+  ]));
+
+  return affected.map(slot => {
+    const slotWindow = getSlotWindow(slot.slot_time);
+    const duration = timeToMinutes(slotWindow.end) - timeToMinutes(slotWindow.start);
+    const original = getSlotInterval(slot.slot_date, slot.slot_time, clinicTimeZone).start.getTime();
+
+    let best: { date: string; window: ScheduleWindow; distance: number } | null = null;
+    for (const day of after) {
+      const taken = occupied.get(day.date) || [];
+      for (const candidate of generateSessionSlots(day.windows, duration)) {
+        const start = getSlotInterval(day.date, `${candidate.start}-${candidate.end}`, clinicTimeZone).start.getTime();
+        if (start <= now.getTime() || taken.some(window => overlaps(window, candidate))) continue;
+
+        const distance = Math.abs(start - original);
+        if (!best || distance < best.distance) {
+          best = { date: day.date, window: candidate, distance };
+        }
+      }
+    }
+
+    if (!best) {
+      return { slot, suggestion: null };
+    }
+
+    occupied.get(best.date)?.push(best.window);
+    return {
+      slot,
+      suggestion: { slot_date: best.date, slot_time: `${best.window.start}-${best.window.end}` },
+    };
+  });
+};
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import {
+  generateSessionSlots,
+  getBreaks,
+  getScheduleWindows,
+  toWindowsRequest,
+  validateWindows
+} from './scheduleWindows';
+
+const morningAndAfternoon = [
+  { start: '14:00', end: '17:00' },
+  { start: '09:00', end: '12:30' },
+];
+
+describe('working windows with breaks', () => {
+  it('reads schedules saved before windows as one window', () => {
+    expect(getScheduleWindows({ start_time: '2000-01-01T09:00:00.000+05:30', end_time: '2000-01-01T17:00:00.000+05:30' }))
+      .toEqual([{ start: '09:00', end: '17:00' }]);
+  });
+
+  it('orders windows and finds the break between them', () => {
+    const windows = getScheduleWindows({ start_time: '09:00', end_time: '17:00', windows: morningAndAfternoon });
+
+    expect(windows.map(window => window.start)).toEqual(['09:00', '14:00']);
+    expect(getBreaks(windows)).toEqual([{ start: '12:30', end: '14:00' }]);
+  });
+
+  it('lets windows touch but not overlap', () => {
+    expect(validateWindows([{ start: '09:00', end: '12:00' }, { start: '12:00', end: '13:00' }])).toBeNull();
+    expect(validateWindows([{ start: '09:00', end: '12:00' }, { start: '11:30', end: '13:00' }])).toMatch(/overlaps/);
+    expect(validateWindows([{ start: '12:00', end: '09:00' }])).toMatch(/End time must be after start time/);
+    expect(validateWindows([])).toBe('Add at least one working window');
+  });
+
+  it('spans the whole day but counts only working time in a request', () => {
+    expect(toWindowsRequest(morningAndAfternoon)).toMatchObject({
+      start_time: '09:00',
+      end_time: '17:00',
+      duration_hr: 6,
+      duration_min: 30,
+    });
+  });
+
+  it('never runs a session into a break', () => {
+    const slots = generateSessionSlots(morningAndAfternoon, 45);
+
+    expect(slots.filter(slot => slot.start < '13:00').map(slot => `${slot.start}-${slot.end}`))
+      .toEqual(['09:00-09:45', '09:45-10:30', '10:30-11:15', '11:15-12:00']);
+    expect(slots[4]).toEqual({ start: '14:00', end: '14:45' });
+  });
+});
@@ -0,0 +1,114 @@
+// src/utils/scheduleWindows.ts
+import { formatClinicTime, minutesToTime, timeToMinutes, toClinicTime } from './dateTime';
+import type { Schedule, ScheduleWindow, UpdateScheduleRequest } from '../types/schedule';
+
+const TIME_FORMAT = /^([01]?[0-9]|2[0-3]):[0-5][0-9]$/;
+
+export const formatWindow = (window: ScheduleWindow): string => formatClinicTime(`${window.start}-${window.end}`);
+
+export const sortWindows = (windows: ScheduleWindow[]): ScheduleWindow[] =>
+  [...windows].sort((a, b) => timeToMinutes(a.start) - timeToMinutes(b.start));
+
+/**
+ * A schedule's working windows in order. Schedules saved before windows
+ * existed have a single window from start_time to end_time.
+ */
+export const getScheduleWindows = (schedule: Pick<Schedule, 'start_time' | 'end_time' | 'windows'>): ScheduleWindow[] => {
+  if (schedule.windows && schedule.windows.length > 0) {
+    return sortWindows(schedule.windows.map(window => ({ start: toClinicTime(window.start), end: toClinicTime(window.end) })));
+  }
+  if (!schedule.start_time || !schedule.end_time) return [];
+
+  return [{ start: toClinicTime(schedule.start_time), end: toClinicTime(schedule.end_time) }];
+};
+
+// The gaps between consecutive windows
+export const getBreaks = (windows: ScheduleWindow[]): ScheduleWindow[] => {
+  const sorted = sortWindows(windows);
+  return sorted.slice(1)
+    .map((window, index) => ({ start: sorted[index].end, end: window.start }))
+    .filter(gap => timeToMinutes(gap.end) > timeToMinutes(gap.start));
+};
+
+export const getWorkingMinutes = (windows: ScheduleWindow[]): number =>
+  windows.reduce((total, window) => total + Math.max(timeToMinutes(window.end) - timeToMinutes(window.start), 0), 0);
+
+/**
+ * First problem with a day's windows, or null when they can be saved.
+ * Windows may touch but not overlap.
+ */
+export const validateWindows = (windows: ScheduleWindow[]): string | null => {
+  if (windows.length === 0) {
+    return 'Add at least one working window';
+  }
+
+  if (windows.some(window => !TIME_FORMAT.test(window.start) || !TIME_FORMAT.test(window.end))) {
+    return 'Please enter valid time format (HH:MM)';
+  }
+
+  const invalid = windows.find(window => timeToMinutes(window.end) <= timeToMinutes(window.start));
+  if (invalid) {
+    return `End time must be after start time (${invalid.start} - ${invalid.end})`;
+  }
+
+  const sorted = sortWindows(windows);
+  for (let index = 1; index < sorted.length; index++) {
+    if (timeToMinutes(sorted[index].start) < timeToMinutes(sorted[index - 1].end)) {
+      return `${formatWindow(sorted[index - 1])} overlaps ${formatWindow(sorted[index])}`;
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Windows as a schedule request. start_time and end_time span the whole day
+ * for clients that only read one window; the duration counts working time only.
+ */
+export const toWindowsRequest = (windows: ScheduleWindow[]): Required<Pick<
+  UpdateScheduleRequest,
+  'start_time' | 'end_time' | 'windows' | 'duration_hr' | 'duration_min'
+>> => {
+  const sorted = sortWindows(windows);
+  const workingMinutes = getWorkingMinutes(sorted);
+
+  return {
+    start_time: sorted[0].start,
+    end_time: sorted[sorted.length - 1].end,
+    windows: sorted,
+    duration_hr: Math.floor(workingMinutes / 60),
+    duration_min: workingMinutes % 60,
+  };
+};
+
+// Windows a create or update request would save; none for status-only updates
+export const getRequestWindows = (request: UpdateScheduleRequest): ScheduleWindow[] => {
+  if (request.windows) return request.windows;
+  if (request.start_time && request.end_time) {
+    return [{ start: toClinicTime(request.start_time), end: toClinicTime(request.end_time) }];
+  }
+  return [];
+};
+
+/**
+ * Back-to-back sessions inside each window. A session never runs into a break,
+ * so time left at the end of a window shorter than a session goes unused.
+ */
+export const generateSessionSlots = (windows: ScheduleWindow[], sessionMinutes: number): ScheduleWindow[] => {
+  if (sessionMinutes <= 0) return [];
+
+  return sortWindows(windows).flatMap(window => {
+    const slots: ScheduleWindow[] = [];
+    const end = timeToMinutes(window.end);
+    for (let start = timeToMinutes(window.start); start + sessionMinutes <= end; start += sessionMinutes) {
+      slots.push({ start: minutesToTime(start), end: minutesToTime(start + sessionMinutes) });
+    }
+    return slots;
+  });
+};
+
+export const isWithinWindows = (slot: ScheduleWindow, windows: ScheduleWindow[]): boolean => {
+  const start = timeToMinutes(slot.start);
+  const end = timeToMinutes(slot.end);
+  return windows.some(window => start >= timeToMinutes(window.start) && end <= timeToMinutes(window.end));
+};
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { parseAvailableSlots } from './slotUtils';
+
+const quarterHours = (times: string[]) =>
+  times.map(time => {
+    const [hours, minutes] = time.split(':').map(Number);
+    const end = hours * 60 + minutes + 15;
+    return { start: time, end: `${String(Math.floor(end / 60)).padStart(2, '0')}:${String(end % 60).padStart(2, '0')}` };
+  });
+
+describe('available slots from the schedule endpoint', () => {
+  it('returns nothing for an unexpected response', () => {
+    expect(parseAvailableSlots(null)).toEqual([]);
+    expect(parseAvailableSlots({ slots: [] })).toEqual([]);
+  });
+
+  it('keeps the schedule id on every slot', () => {
+    const slots = parseAvailableSlots({ id: 7, available_slots: quarterHours(['09:00']) });
+
+    expect(slots).toEqual([{ id: '09:00-09:15', time: '09:00-09:15', available: true, scheduleId: '7' }]);
+  });
+
+  it('drops slots that run into a break', () => {
+    const slots = parseAvailableSlots({
+      id: 7,
+      start_time: '09:00',
+      end_time: '14:00',
+      windows: [{ start: '09:00', end: '12:00' }, { start: '13:00', end: '14:00' }],
+      available_slots: [{ start: '11:30', end: '12:00' }, { start: '12:00', end: '12:30' }, { start: '13:00', end: '13:30' }],
+    });
+
+    expect(slots.map(slot => slot.time)).toEqual(['11:30-12:00', '13:00-13:30']);
+  });
+
+  it('joins back-to-back free slots for a longer consultation', () => {
+    const slots = parseAvailableSlots({ id: 7, available_slots: quarterHours(['09:00', '09:15', '09:30', '10:00', '10:15']) }, 30);
+
+    // 09:30 stands alone, so only the two full half-hours fit
+    expect(slots.map(slot => slot.time)).toEqual(['09:00-09:30', '10:00-10:30']);
+  });
+});
@@ -0,0 +1,73 @@
+// src/utils/slotUtils.ts
+import { timeToMinutes } from './dateTime';
+import { generateSessionSlots, getScheduleWindows, isWithinWindows, sortWindows } from './scheduleWindows';
+import type { TimeSlot } from '../types/registration';
+import type { ScheduleWindow } from '../types/schedule';
+
+interface AvailableScheduleResponse {
+  id?: string | number;
+  start_time?: string;
+  end_time?: string;
+  windows?: ScheduleWindow[];
+  available_slots: { start: string; end: string }[];
+  time_zone?: string; // IANA zone the slot times are in
+}
+
+/**
+ * Cuts free time into slots of one consultation's length. Back-to-back free
+ * slots are joined first, so a 30-minute consult can take two free 15-minute
+ * slots in a row but never a single one.
+ */
+const fitSlotsToDuration = (slots: ScheduleWindow[], minutes: number): ScheduleWindow[] => {
+  const freeRanges: ScheduleWindow[] = [];
+  for (const slot of sortWindows(slots)) {
+    const last = freeRanges[freeRanges.length - 1];
+    if (last && timeToMinutes(slot.start) <= timeToMinutes(last.end)) {
+      if (timeToMinutes(slot.end) > timeToMinutes(last.end)) last.end = slot.end;
+    } else {
+      freeRanges.push({ ...slot });
+    }
+  }
+  return generateSessionSlots(freeRanges, minutes);
+};
+
+/**
+ * The clinic's zone as reported alongside the available slots, if any
+ */
+export const getScheduleTimeZone = (apiResponse: unknown): string | undefined => {
+  const timeZone = (apiResponse as Partial<AvailableScheduleResponse> | null)?.time_zone;
+  return typeof timeZone === 'string' ? timeZone : undefined;
+};
+
+/**
+ * The schedule endpoint returns `{ id, available_slots: [{ start, end }] }`,
+ * plus the day's `windows` when it has breaks. Slots that run into a break
+ * are dropped, in case they were generated across the whole day. With a
+ * duration, the slots are re-cut to the chosen consultation type's length.
+ */
+export const parseAvailableSlots = (apiResponse: unknown, durationMinutes?: number): TimeSlot[] => {
+  if (
+    !apiResponse ||
+    typeof apiResponse !== 'object' ||
+    !('available_slots' in apiResponse) ||
+    !Array.isArray((apiResponse as { available_slots?: unknown }).available_slots)
+  ) {
+    return [];
+  }
+
+  const response = apiResponse as AvailableScheduleResponse;
+  const scheduleId = response.id;
+  const windows = response.windows?.length
+    ? getScheduleWindows({ start_time: response.start_time || '', end_time: response.end_time || '', windows: response.windows })
+    : null;
+
+  const freeSlots = response.available_slots.filter(slot => !windows || isWithinWindows(slot, windows));
+
+  return (durationMinutes ? fitSlotsToDuration(freeSlots, durationMinutes) : freeSlots)
+    .map(slot => ({
+      id: `${slot.start}-${slot.end}`,
+      time: `${slot.start}-${slot.end}`,
+      available: true,
+      scheduleId: scheduleId ? String(scheduleId) : undefined,
+    }));
+};
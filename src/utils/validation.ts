@@ -0,0 +1,199 @@
+// src/utils/validation.ts
+
+import {
+  EMAIL_REGEX,
+  DEFAULT_DIAL_CODE,
+  PHONE_FORMATS,
+  MAX_PATIENT_AGE
+} from '../constants/common';
+import type { ValidationErrors } from '../types/registration';
+
+/**
+ * A rule returns an error message, or undefined when the value passes.
+ * Rules receive the whole record so they can compare fields (e.g. DOB vs age).
+ */
+export type ValidationRule<T> = (value: unknown, data: T) => string | undefined;
+
+/**
+ * Field name -> rules, checked in order; the first failing rule wins.
+ * Key order is also the focus order for the first invalid field.
+ */
+export type ValidationSchema<T> = { [K in keyof T]?: ValidationRule<T>[] };
+
+export interface FileRules {
+  accept: string[]; // File extensions including the dot
+  maxSizeMb: number;
+  maxCount: number;
+}
+
+const isBlank = (value: unknown): boolean =>
+  value === undefined ||
+  value === null ||
+  (typeof value === 'string' && value.trim() === '') ||
+  (typeof value === 'number' && (Number.isNaN(value) || value === 0)) ||
+  (Array.isArray(value) && value.length === 0);
+
+/**
+ * Run a schema against a record and collect one message per invalid field
+ */
+export const validateSchema = <T>(schema: ValidationSchema<T>, data: T): ValidationErrors => {
+  const errors: ValidationErrors = {};
+
+  (Object.keys(schema) as (keyof T)[]).forEach(field => {
+    const rules = schema[field] || [];
+    for (const rule of rules) {
+      const message = rule(data[field], data);
+      if (message) {
+        errors[field as string] = message;
+        break;
+      }
+    }
+  });
+
+  return errors;
+};
+
+/**
+ * Move focus to the first invalid field, using the element id convention `id === field`
+ */
+export const focusFirstInvalidField = (errors: ValidationErrors, fieldOrder: string[] = Object.keys(errors)): void => {
+  const firstField = fieldOrder.find(field => errors[field]);
+  if (!firstField) return;
+
+  const element = document.getElementById(firstField);
+  if (element) {
+    element.focus();
+    element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }
+};
+
+/**
+ * Split a phone number into dialling code and national number.
+ * Accepts "+91 98765 43210", "0091...", or a bare national number.
+ */
+export const parsePhoneNumber = (phone: string): { dialCode: string; nationalNumber: string } => {
+  const trimmed = phone.trim();
+  const digits = trimmed.replace(/\D/g, '');
+  const hasCode = trimmed.startsWith('+') || digits.startsWith('00');
+
+  if (hasCode) {
+    const international = digits.replace(/^00/, '');
+    // Longest matching code first so "971" is not read as "9"
+    const dialCode = Object.keys(PHONE_FORMATS)
+      .sort((a, b) => b.length - a.length)
+      .find(code => international.startsWith(code));
+
+    if (dialCode) {
+      return { dialCode, nationalNumber: international.slice(dialCode.length) };
+    }
+    return { dialCode: '', nationalNumber: international };
+  }
+
+  return { dialCode: DEFAULT_DIAL_CODE, nationalNumber: digits.replace(/^0/, '') };
+};
+
+/**
+ * Age in whole years on the given date
+ */
+export const getAgeFromDateOfBirth = (dateOfBirth: string, today: Date = new Date()): number => {
+  const dob = new Date(dateOfBirth);
+  let age = today.getFullYear() - dob.getFullYear();
+  const monthDiff = today.getMonth() - dob.getMonth();
+  if (monthDiff < 0 || (monthDiff === 0 && today.getDate() < dob.getDate())) {
+    age--;
+  }
+  return age;
+};
+
+export const formatFileRulesHint = (rules: FileRules): string =>
+  `${rules.accept.map(ext => ext.replace('.', '').toUpperCase()).join(', ')} up to ${rules.maxSizeMb}MB, max ${rules.maxCount} files`;
+
+/**
+ * Per-file problems (type and size); count limits are checked on the whole list
+ */
+export const getFileError = (file: File, rules: FileRules): string | undefined => {
+  const extension = `.${file.name.split('.').pop()?.toLowerCase() || ''}`;
+  if (!rules.accept.includes(extension)) {
+    return `${file.name} is not a supported file type`;
+  }
+  if (file.size > rules.maxSizeMb * 1024 * 1024) {
+    return `${file.name} is too large. Maximum size is ${rules.maxSizeMb}MB`;
+  }
+  return undefined;
+};
+
+// Rule factories
+
+export const required = <T>(message: string): ValidationRule<T> => value =>
+  isBlank(value) ? message : undefined;
+
+export const minLength = <T>(length: number, message: string): ValidationRule<T> => value =>
+  typeof value === 'string' && value.trim() && value.trim().length < length ? message : undefined;
+
+export const maxLength = <T>(length: number, message: string): ValidationRule<T> => value =>
+  typeof value === 'string' && value.length > length ? message : undefined;
+
+export const email = <T>(message: string = 'Please enter a valid email address'): ValidationRule<T> => value =>
+  typeof value === 'string' && value.trim() && !EMAIL_REGEX.test(value.trim()) ? message : undefined;
+
+export const phone = <T>(): ValidationRule<T> => value => {
+  if (typeof value !== 'string' || !value.trim()) return undefined;
+
+  const { dialCode, nationalNumber } = parsePhoneNumber(value);
+  const format = PHONE_FORMATS[dialCode];
+
+  if (!format) {
+    // Unknown country: fall back to the E.164 length limits
+    return nationalNumber.length >= 6 && nationalNumber.length <= 14
+      ? undefined
+      : 'Please enter a valid phone number with country code';
+  }
+
+  return format.pattern.test(nationalNumber)
+    ? undefined
+    : `Please enter a valid ${format.country} number (e.g. +${dialCode} ${format.example})`;
+};
+
+export const age = <T>(): ValidationRule<T> => value => {
+  if (isBlank(value)) return undefined;
+  const numeric = Number(value);
+  return Number.isInteger(numeric) && numeric > 0 && numeric <= MAX_PATIENT_AGE
+    ? undefined
+    : `Please enter an age between 1 and ${MAX_PATIENT_AGE}`;
+};
+
+/**
+ * Date of birth must be in the past, plausible, and agree with a separately entered age
+ */
+export const dateOfBirth = <T>(ageField?: keyof T): ValidationRule<T> => (value, data) => {
+  if (typeof value !== 'string' || !value) return undefined;
+
+  const dob = new Date(value);
+  if (Number.isNaN(dob.getTime())) return 'Please enter a valid date of birth';
+  if (dob > new Date()) return 'Date of birth cannot be in the future';
+
+  const computedAge = getAgeFromDateOfBirth(value);
+  if (computedAge > MAX_PATIENT_AGE) return 'Please check the year of birth';
+
+  const enteredAge = ageField ? Number(data[ageField]) : NaN;
+  if (enteredAge && Math.abs(enteredAge - computedAge) > 1) {
+    return `Date of birth suggests age ${computedAge}, but ${enteredAge} was entered`;
+  }
+
+  return undefined;
+};
+
+export const files = <T>(rules: FileRules): ValidationRule<T> => value => {
+  if (!Array.isArray(value)) return undefined;
+
+  if (value.length > rules.maxCount) {
+    return `You can attach up to ${rules.maxCount} files`;
+  }
+
+  for (const file of value as File[]) {
+    const error = getFileError(file, rules);
+    if (error) return error;
+  }
+
+  return undefined;
+};
@@ -1,9 +1,16 @@
 /// <reference types="vite/client" />
 
 interface ImportMetaEnv {
-  readonly VITE_API_URL: string
   readonly VITE_API_BASE_URL: string
   readonly VITE_ENV: string
+  readonly VITE_AUTH_STORAGE_MODE?: 'local' | 'cookie'
+  readonly VITE_CSRF_COOKIE_NAME?: string
+  readonly VITE_PAYMENT_GATEWAYS?: string
+  readonly VITE_MOCK_PAYMENT_OUTCOME?: string
+  readonly VITE_SUPPORTED_CURRENCIES?: string
+  readonly VITE_EXCHANGE_RATE_SOURCE?: 'backend' | 'provider'
+  readonly VITE_EXCHANGE_RATE_PROVIDER_URL?: string
+  readonly VITE_CLINIC_TIME_ZONE?: string
 }
 
 interface ImportMeta {